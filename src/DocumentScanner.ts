@@ -2,26 +2,34 @@ import {
 	LicenseManager,
 	CoreModule,
 	EngineResourcePaths,
-	EnumCapturedResultItemType,
-	Quadrilateral,
 	CaptureVisionRouter,
 	CameraEnhancer,
 	CameraView,
-	DetectedQuadResultItem,
 	MultiFrameResultCrossFilter,
 	OriginalImageResultItem,
+	Quadrilateral,
 } from "dynamsoft-capture-vision-bundle";
 import DocumentCorrectionView, {
 	DocumentCorrectionViewConfig,
 } from "./views/DocumentCorrectionView";
-import DocumentScannerView, { DocumentScannerViewConfig } from "./views/DocumentScannerView";
+import DocumentScannerView, {
+	DocumentScannerViewConfig,
+	ID_CARD_SCAN_REGION,
+} from "./views/DocumentScannerView";
 import DocumentResultView, { DocumentResultViewConfig } from "./views/DocumentResultView";
+import DocumentPagesView, { DocumentPagesViewConfig } from "./views/DocumentPagesView";
 import {
 	DEFAULT_TEMPLATE_NAMES,
+	DocumentProcessOptions,
 	DocumentResult,
+	DocumentScannerEventHandler,
+	DocumentScannerEventMap,
+	DocumentSource,
+	EnumDDSErrorCode,
 	EnumDDSViews,
 	EnumFlowType,
 	EnumResultStatus,
+	PageEditState,
 	UtilizedTemplateNames,
 } from "./views/utils/types";
 import {
@@ -35,7 +43,33 @@ import {
 	ThemeColor,
 	type StringConfig,
 } from "./views/utils";
-import { DEFAULT_LOADING_SCREEN_STYLE, showLoadingScreen } from "./views/utils/LoadingScreen";
+import {
+	DEFAULT_LOADING_SCREEN_STYLE,
+	showLoadingScreen,
+	showPromptScreen,
+} from "./views/utils/LoadingScreen";
+import {
+	detectDocumentBoundaries,
+	detectDocumentBoundary,
+	DocumentPages,
+	getFullImageQuadrilateral,
+	isMultiPageFile,
+	isSupportedFile,
+	normalizeDocumentInColorMode,
+	openDocumentPages,
+	readDocumentPage,
+	readOpenedPage,
+	toDSImageData,
+} from "./views/utils/documentProcessing";
+import { readImageRotation } from "./views/utils/imageDecoding";
+import { detectOrientation, renderEditedImage } from "./views/utils/imageEditing";
+import { DocumentScannerError, toDocumentScannerError } from "./views/utils/errors";
+import SessionStore, {
+	SavedSessionInfo,
+	SessionPersistenceConfig,
+} from "./views/utils/sessionStore";
+import { combineIdCardSides, ID_CARD_SIDES, IdCardModeConfig } from "./views/utils/idCard";
+import ScanSession, { createDefaultEditState } from "./ScanSession";
 
 /**
  * Default path to the Dynamsoft Camera Enhancer UI XML configuration file.
@@ -64,6 +98,20 @@ const DEFAULT_DCE_UI_PATH =
  */
 const DEFAULT_DCV_ENGINE_RESOURCE_PATHS = { rootDirectory: "https://cdn.jsdelivr.net/npm/" };
 
+/**
+ * Default path to the `heic2any` script that decodes HEIC/HEIF photos.
+ *
+ * @remarks
+ * Only loaded when a browser without native HEIC support (all but Safari) receives a HEIC/HEIF image.
+ * You can override this by setting {@link DocumentScannerConfig.heicDecoderPath} to self-host the script.
+ *
+ * @defaultValue "https://cdn.jsdelivr.net/npm/heic2any@0.0.4/dist/heic2any.min.js"
+ *
+ * @internal
+ */
+const DEFAULT_HEIC_DECODER_PATH =
+	"https://cdn.jsdelivr.net/npm/heic2any@0.0.4/dist/heic2any.min.js";
+
 /**
  * Default height for the main {@link DocumentScanner} container.
  *
@@ -77,6 +125,15 @@ const DEFAULT_DCV_ENGINE_RESOURCE_PATHS = { rootDirectory: "https://cdn.jsdelivr
  */
 const DEFAULT_CONTAINER_HEIGHT = "100dvh";
 
+/**
+ * Default for {@link DocumentScannerConfig.maxDocumentsPerImage}.
+ *
+ * @defaultValue 4
+ *
+ * @internal
+ */
+const DEFAULT_MAX_DOCUMENTS_PER_IMAGE = 4;
+
 /**
  * The `DocumentScannerConfig` interface passes settings to the {@link DocumentScanner} constructor to apply a comprehensive set of UI and business logic customizations.
  *
@@ -158,6 +215,18 @@ export interface DocumentScannerConfig {
 	 * @stable
 	 */
 	engineResourcePaths?: EngineResourcePaths;
+	/**
+	 * Path to the `heic2any` script that decodes HEIC/HEIF photos, such as those taken on iPhones.
+	 *
+	 * @remarks
+	 * The script is loaded the first time a HEIC/HEIF image is uploaded or processed in a browser that cannot decode it natively. Safari decodes HEIC natively and never loads it.
+	 * The default path points to a CDN; set a custom path to self-host the script.
+	 *
+	 * @defaultValue {@link DEFAULT_HEIC_DECODER_PATH}
+	 *
+	 * @public
+	 */
+	heicDecoderPath?: string;
 	/**
 	 * Configuration settings for the {@link DocumentScannerView}.
 	 *
@@ -169,7 +238,7 @@ export interface DocumentScannerConfig {
 	 */
 	scannerViewConfig?: Omit<
 		DocumentScannerViewConfig,
-		"templateFilePath" | "utilizedTemplateNames" | "_showCorrectionView"
+		"templateFilePath" | "utilizedTemplateNames" | "_showCorrectionView" | "_showPagesView"
 	>;
 	/**
 	 * Configuration settings for the {@link DocumentResultView}.
@@ -180,7 +249,7 @@ export interface DocumentScannerConfig {
 	 * @public
 	 * @stable
 	 */
-	resultViewConfig?: DocumentResultViewConfig;
+	resultViewConfig?: Omit<DocumentResultViewConfig, "utilizedTemplateNames">;
 	correctionViewConfig?: Omit<
 		DocumentCorrectionViewConfig,
 		"templateFilePath" | "utilizedTemplateNames" | "_showCorrectionView"
@@ -202,15 +271,98 @@ export interface DocumentScannerConfig {
 	 */
 	showCorrectionView?: boolean;
 	/**
-	 * Enable continuous scanning mode where the scanner can loop back to capture more documents instead of exiting after a single scan. {@link DocumentScanner.launch} only resolves to the last scanned result. Use {@link onDocumentScanned} callback to get scan results.
+	 * Configuration settings for the {@link DocumentPagesView}.
+	 *
+	 * @public
+	 */
+	pagesViewConfig?: DocumentPagesViewConfig;
+	/**
+	 * Sets the visibility of the {@link DocumentPagesView}, the page review grid opened by "Done ({count})" and the thumbnail in continuous scanning mode.
+	 *
+	 * @remarks
+	 * Only applies when {@link enableContinuousScanning} is enabled. When hidden, "Done ({count})" ends the session directly.
+	 *
+	 * @defaultValue true
+	 * @public
+	 */
+	showPagesView?: boolean;
+	/**
+	 * Turn documents that were captured sideways or upside down upright automatically.
+	 *
+	 * @remarks
+	 * The orientation is detected locally from the direction of the text lines and the ascenders and descenders of Latin script. Pages with little or no such text are left as they are.
+	 * - With the {@link DocumentResultView}, the detected rotation is the initial rotation of each new scan, which the user can still change
+	 * - Otherwise (including imported batches), the corrected image is rotated before {@link onDocumentScanned} fires, and the rotation stays editable in the {@link DocumentPagesView}
+	 * - {@link DocumentScanner.process} rotates its result too, unless {@link DocumentProcessOptions.autoOrientation} says otherwise
+	 *
+	 * @defaultValue false
+	 * @public
+	 */
+	enableAutoOrientation?: boolean;
+	/**
+	 * Correct every document found in a captured or uploaded image, instead of only the most prominent one.
+	 *
+	 * @remarks
+	 * Useful for several receipts, or the front and back of a card, laid side by side on a table. When enabled:
+	 * - The {@link DocumentScannerView} outlines every document it finds in the camera feed
+	 * - The {@link DocumentCorrectionView} shows a boundary for each document, with "Add" and "Remove" buttons to add a missed document or drop an unwanted one
+	 * - The result holds the most prominent document, and the others in {@link DocumentResult.additionalDocuments}
+	 * - In continuous scanning mode ({@link enableContinuousScanning}), each document is kept as its own page of the session
+	 * - {@link DocumentScanner.process} and imported files are split the same way, unless boundaries are passed in {@link DocumentProcessOptions.quadrilateral}
+	 *
+	 * The {@link DocumentResultView} only shows and edits the most prominent document.
+	 *
+	 * @see {@link maxDocumentsPerImage}
+	 *
+	 * @defaultValue false
+	 * @public
+	 */
+	enableMultiDocument?: boolean;
+	/**
+	 * Most documents kept from one image when {@link enableMultiDocument} is enabled.
+	 *
+	 * @defaultValue 4
+	 * @public
+	 */
+	maxDocumentsPerImage?: number;
+	/**
+	 * Scan both sides of an ID card in one {@link DocumentScanner.launch}, guiding the user from the front to the back.
+	 *
+	 * @remarks
+	 * Set to `true` for the defaults, or pass an {@link IdCardModeConfig}. When enabled:
+	 * - Each side goes through the enabled views like a single scan, with a prompt over the camera telling the user which side to show (see {@link StringConfig.idCardFrontMsg} and {@link StringConfig.idCardBackMsg})
+	 * - The {@link DocumentScannerView} uses {@link ID_CARD_SCAN_REGION}, unless {@link DocumentScannerViewConfig.scanRegion} is set
+	 * - {@link DocumentScanner.launch} resolves to the front side, with both sides in {@link DocumentResult.idCard}; {@link onDocumentScanned} is called once with that result
+	 * - Passing two files to {@link DocumentScanner.launch} uses them as the front and back instead of the camera
+	 *
+	 * Cannot be combined with {@link enableContinuousScanning}, which is turned off.
+	 *
+	 * @example
+	 * ```javascript
+	 * const documentScanner = new Dynamsoft.DocumentScanner({
+	 *     license: "YOUR_LICENSE_KEY_HERE",
+	 *     idCardMode: { combineSides: true },
+	 * });
+	 *
+	 * const { idCard } = await documentScanner.launch();
+	 * const page = idCard?.combinedImageResult?.toCanvas();
+	 * ```
+	 *
+	 * @defaultValue false
+	 * @public
+	 */
+	idCardMode?: boolean | IdCardModeConfig;
+	/**
+	 * Enable continuous scanning mode where the scanner can loop back to capture more documents instead of exiting after a single scan. {@link DocumentScanner.launch} resolves to the last scanned result, with every kept page in its {@link DocumentResult.session}. Use {@link onDocumentScanned} callback to get scan results as they arrive.
 	 *
 	 * @remarks
 	 * When enabled:
 	 * - The result view shows a "Scan More" button alongside "Done"; tapping "Scan More" loops back to capture another document, while "Done" ends the session
-	 * - The {@link onDocumentScanned} callback triggers after each scan with the result; this is the only way to get the scanned results as {@link DocumentScanner.launch} only returns the last scanned result
+	 * - The {@link onDocumentScanned} callback triggers after each scan with the result
+	 * - Every kept scan is stored as a {@link ScannedPage} in a {@link ScanSession}, returned in {@link DocumentResult.session} when {@link DocumentScanner.launch} resolves
 	 * - Users can also exit by clicking the close button (X) or by calling {@link DocumentScanner.stopContinuousScanning}
-	 * - The DocumentScanner only retains the most recent scan result
-	 * - A thumbnail preview of the last scan appears in the camera view, but only when both {@link showCorrectionView} and {@link showResultView} are disabled (otherwise scans route through those views instead). See {@link onThumbnailClicked} to make it clickable.
+	 * - A thumbnail preview of the last scan appears in the camera view. Without the {@link DocumentPagesView} ({@link showPagesView}), it only appears when both {@link showCorrectionView} and {@link showResultView} are disabled (otherwise scans route through those views instead); see {@link onThumbnailClicked} to make it clickable.
+	 * - The "Done ({count})" button and the thumbnail open the {@link DocumentPagesView}, where pages can be reordered, deleted, re-cropped or re-edited before the session ends
 	 *
 	 * @defaultValue false
 	 * @public
@@ -251,7 +403,7 @@ export interface DocumentScannerConfig {
 	 * - {@link showCorrectionView} is disabled
 	 * - {@link showResultView} is disabled
 	 *
-	 * The thumbnail displays the most recently scanned document. Defining this callback also gives it a primary-coloured border and pointer cursor; without it, clicking does nothing. Use it to implement custom behaviour such as re-editing the image.
+	 * The thumbnail displays the most recently scanned document. Defining this callback also gives it a primary-coloured border and pointer cursor; without it, clicking opens the {@link DocumentPagesView} if shown, or does nothing. Use it to implement custom behaviour such as re-editing the image.
 	 *
 	 * @param result - The {@link DocumentResult} of the last scanned document
 	 *
@@ -274,6 +426,56 @@ export interface DocumentScannerConfig {
 	 * @stable
 	 */
 	onThumbnailClicked?: (result: DocumentResult) => void | Promise<void>;
+	/**
+	 * Save the pages of a continuous scanning session in IndexedDB as they are captured, edited, reordered or deleted, so they survive a reload or a tab closed by the browser.
+	 *
+	 * @remarks
+	 * Only applies in continuous scanning mode ({@link enableContinuousScanning}). Set to `true` for the defaults, or pass a {@link SessionPersistenceConfig}.
+	 *
+	 * When {@link DocumentScanner.launch} starts and pages from an unfinished session are saved, the user is asked whether to resume it (see {@link SessionPersistenceConfig.onResumeSession}).
+	 * Resumed pages are restored into {@link DocumentResult.session}, then the {@link DocumentPagesView} opens to review them if shown.
+	 * The saved pages are deleted once {@link DocumentScanner.launch} returns the session, when the user declines to resume, or with {@link DocumentScanner.clearSavedSession}.
+	 *
+	 * @example
+	 * ```javascript
+	 * const documentScanner = new Dynamsoft.DocumentScanner({
+	 *     license: "YOUR_LICENSE_KEY_HERE",
+	 *     enableContinuousScanning: true,
+	 *     sessionPersistence: true,
+	 * });
+	 * ```
+	 *
+	 * @defaultValue false
+	 *
+	 * @public
+	 */
+	sessionPersistence?: boolean | SessionPersistenceConfig;
+	/**
+	 * Callback invoked when an error must be shown to the user, instead of the default `alert()`.
+	 *
+	 * @remarks
+	 * Covers camera, upload, capture, correction, share and upload errors raised while the views are on screen. Use {@link DocumentScannerError.code} to pick a message or recovery action.
+	 * Failures that end a scan are also reported in {@link ResultStatus.errorCode} of the result returned by {@link DocumentScanner.launch}.
+	 *
+	 * @param error - The {@link DocumentScannerError}, with its {@link EnumDDSErrorCode} in `code`
+	 *
+	 * @example
+	 * ```javascript
+	 * const documentScanner = new Dynamsoft.DocumentScanner({
+	 *     license: "YOUR_LICENSE_KEY_HERE",
+	 *     onError: (error) => {
+	 *         if (error.code === Dynamsoft.EnumDDSErrorCode.CAMERA_PERMISSION_DENIED) {
+	 *             showToast("Allow camera access in your browser settings to scan documents.");
+	 *         } else {
+	 *             showToast(error.message);
+	 *         }
+	 *     },
+	 * });
+	 * ```
+	 *
+	 * @public
+	 */
+	onError?: (error: DocumentScannerError) => void;
 	/**
 	 * Enable automatic frame verification for best quality capture.
 	 *
@@ -392,11 +594,41 @@ export interface SharedResources {
 	 */
 	enableContinuousScanning?: boolean;
 	/**
-	 * Counter tracking the number of successfully completed scans in continuous scanning mode.
+	 * Flag indicating whether new scans are turned upright automatically.
+	 *
+	 * @remarks
+	 * Corresponds to {@link DocumentScannerConfig.enableAutoOrientation}.
+	 *
+	 * @internal
+	 */
+	enableAutoOrientation?: boolean;
+	/**
+	 * Most documents corrected from one image.
+	 *
+	 * @remarks
+	 * {@link DocumentScannerConfig.maxDocumentsPerImage} when {@link DocumentScannerConfig.enableMultiDocument} is enabled, otherwise 1.
+	 *
+	 * @internal
+	 */
+	maxDocumentsPerImage?: number;
+	/**
+	 * Message shown over the camera in the {@link DocumentScannerView}, such as which side of an ID card to scan.
+	 *
+	 * @remarks
+	 * Set by {@link DocumentScanner.launch} in {@link DocumentScannerConfig.idCardMode}; no prompt is shown when unset.
+	 *
+	 * @internal
+	 */
+	scanPrompt?: string;
+	/**
+	 * The pages kept so far in the current scanning session.
+	 *
+	 * @remarks
+	 * Recreated on every {@link DocumentScanner.launch}. In continuous scanning mode, each successful scan is appended as a {@link ScannedPage}.
 	 *
 	 * @internal
 	 */
-	completedScansCount?: number;
+	session?: ScanSession;
 	/**
 	 * Callback invoked when the thumbnail preview is clicked in continuous scanning mode.
 	 *
@@ -408,8 +640,54 @@ export interface SharedResources {
 	 * @internal
 	 */
 	onThumbnailClicked?: (result: DocumentResult) => void | Promise<void>;
+	/**
+	 * Callback invoked to show an error to the user.
+	 *
+	 * @remarks
+	 * Corresponds to {@link DocumentScannerConfig.onError}. When unset, {@link reportError} falls back to `alert()`.
+	 *
+	 * @internal
+	 */
+	onError?: (error: DocumentScannerError) => void;
 	/** Set by "Scan More" so the launch loop loops back instead of ending the session. @internal */
 	scanMoreRequested?: boolean;
+	/** Set by "Done ({count})" or the thumbnail so the launch loop shows the {@link DocumentPagesView} instead of ending the session. @internal */
+	reviewRequested?: boolean;
+	/** Identifier of the page being re-cropped or re-edited from the {@link DocumentPagesView}. @internal */
+	reviewingPageId?: string;
+	/**
+	 * Process image files one after another and keep each as a page of the session.
+	 *
+	 * @param files - The image, PDF or TIFF files to import, in page order
+	 * @returns Promise resolving to the number of pages added
+	 *
+	 * @remarks
+	 * Used by the {@link DocumentScannerView} when several files, or a PDF or TIFF file, are uploaded in continuous scanning mode.
+	 *
+	 * @internal
+	 */
+	importFiles?: (files: File[]) => Promise<number>;
+	/**
+	 * Path to the script that decodes HEIC/HEIF images.
+	 *
+	 * @remarks
+	 * Corresponds to {@link DocumentScannerConfig.heicDecoderPath}, or {@link DEFAULT_HEIC_DECODER_PATH} if unset.
+	 *
+	 * @internal
+	 */
+	heicDecoderPath?: string;
+	/**
+	 * Emit an event to the handlers registered with {@link DocumentScanner.on}.
+	 *
+	 * @param event - The name of the event
+	 * @param payload - The event payload, see {@link DocumentScannerEventMap}
+	 *
+	 * @internal
+	 */
+	emit?: <K extends keyof DocumentScannerEventMap>(
+		event: K,
+		payload: DocumentScannerEventMap[K],
+	) => void;
 }
 
 /**
@@ -471,10 +749,15 @@ class DocumentScanner {
 	private scannerView?: DocumentScannerView;
 	private scanResultView?: DocumentResultView;
 	private correctionView?: DocumentCorrectionView;
+	private pagesView?: DocumentPagesView;
 	private resources: Partial<SharedResources> = {};
 	private isInitialized = false;
 	private isCapturing = false;
+	private processQueue: Promise<unknown> = Promise.resolve(); // Serializes process() calls on the shared router
+	private processedFile?: { file: Blob; pages: Promise<DocumentPages> }; // Kept open for the next page of the file
 	private shouldStopContinuousScanning = false; // Signals to break out of continuous scanning
+	private eventHandlers = new Map<keyof DocumentScannerEventMap, Set<(payload: any) => void>>();
+	private sessionStore?: SessionStore;
 
 	private loadingScreen: ReturnType<typeof showLoadingScreen> | null = null;
 
@@ -565,7 +848,7 @@ class DocumentScanner {
 	 *
 	 * @returns A promise that resolves to an object containing:
 	 * - `resources`: The {@link SharedResources} object containing camera, router, and state
-	 * - `components`: An object with references to the initialized view components ({@link DocumentScannerView | scannerView}, {@link DocumentCorrectionView | correctionView}, {@link DocumentResultView | scanResultView})
+	 * - `components`: An object with references to the initialized view components ({@link DocumentScannerView | scannerView}, {@link DocumentCorrectionView | correctionView}, {@link DocumentResultView | scanResultView}, {@link DocumentPagesView | pagesView})
 	 *
 	 * @throws {Error} If initialization fails due to invalid configuration, missing license, or resource loading errors
 	 *
@@ -592,6 +875,7 @@ class DocumentScanner {
 			scannerView?: DocumentScannerView;
 			correctionView?: DocumentCorrectionView;
 			scanResultView?: DocumentResultView;
+			pagesView?: DocumentPagesView;
 		};
 	}> {
 		if (this.isInitialized) {
@@ -601,6 +885,7 @@ class DocumentScanner {
 					scannerView: this.scannerView,
 					correctionView: this.correctionView,
 					scanResultView: this.scanResultView,
+					pagesView: this.pagesView,
 				},
 			};
 		}
@@ -620,13 +905,21 @@ class DocumentScanner {
 				this.resources.result = result;
 			};
 			this.resources.enableContinuousScanning = this.config.enableContinuousScanning || false;
-			this.resources.completedScansCount = 0;
+			this.resources.enableAutoOrientation = this.config.enableAutoOrientation || false;
+			this.resources.maxDocumentsPerImage = this.getMaxDocumentsPerImage();
+			this.resources.session = new ScanSession();
+			this.getSessionStore()?.attach(this.resources.session);
 			this.resources.onThumbnailClicked = this.config.onThumbnailClicked;
+			this.resources.onError = this.config.onError;
+			this.resources.importFiles = (files) => this.importFiles(files);
+			this.resources.heicDecoderPath = this.config.heicDecoderPath || DEFAULT_HEIC_DECODER_PATH;
+			this.resources.emit = (event, payload) => this.emit(event, payload);
 
 			const components: {
 				scannerView?: DocumentScannerView;
 				correctionView?: DocumentCorrectionView;
 				scanResultView?: DocumentResultView;
+				pagesView?: DocumentPagesView;
 			} = {};
 
 			// Only initialize components that are configured
@@ -655,6 +948,16 @@ class DocumentScanner {
 				components.scanResultView = this.scanResultView;
 			}
 
+			if (this.config.pagesViewConfig) {
+				this.pagesView = new DocumentPagesView(
+					this.resources,
+					this.config.pagesViewConfig,
+					this.correctionView,
+					this.scanResultView,
+				);
+				components.pagesView = this.pagesView;
+			}
+
 			this.isInitialized = true;
 
 			return { resources: this.resources, components };
@@ -665,8 +968,8 @@ class DocumentScanner {
 			const mainContainer = getElement(this.config.container);
 			if (mainContainer) mainContainer.style.display = "none";
 
-			let errMsg = ex?.message || ex;
-			throw new Error(`Initialization Failed: ${errMsg}`);
+			const error = toDocumentScannerError(ex, EnumDDSErrorCode.INITIALIZATION_FAILED);
+			throw new DocumentScannerError(error.code, `Initialization Failed: ${error.message}`, ex);
 		} finally {
 			// Hide overlay, keep container visible for DocumentScannerView
 			this.hideScannerLoadingOverlay();
@@ -678,13 +981,10 @@ class DocumentScanner {
 	 *
 	 * @remarks
 	 * This method sets up the core Dynamsoft SDK components:
-	 * - Configures engine resource paths (WASM files and dependencies) using {@link DocumentScannerConfig.engineResourcePaths} or {@link DEFAULT_DCV_ENGINE_RESOURCE_PATHS}
-	 * - Initializes the license manager with the provided license key from {@link DocumentScannerConfig.license}
-	 * - Pre-loads WASM resources to reduce latency
-	 * - Creates instances of {@link CameraView}, {@link CameraEnhancer}, and {@link CaptureVisionRouter}
+	 * - Prepares the engine and {@link CaptureVisionRouter} via {@link initializeEngine}
+	 * - Creates instances of {@link CameraView} and {@link CameraEnhancer}
 	 * - Stores references in {@link SharedResources}
 	 *
-	 * The method customizes the trial license URL to specify the product type and deployment context.
 	 * Called automatically by {@link initialize}.
 	 *
 	 * @throws {Error} If resource initialization fails due to network issues, invalid license, or SDK errors
@@ -693,22 +993,7 @@ class DocumentScanner {
 	 */
 	private async initializeDCVResources(): Promise<void> {
 		try {
-			//The following code uses the jsDelivr CDN, feel free to change it to your own location of these files
-			CoreModule.engineResourcePaths = isEmptyObject(this.config?.engineResourcePaths)
-				? DEFAULT_DCV_ENGINE_RESOURCE_PATHS
-				: this.config.engineResourcePaths!;
-
-			// Change trial link to include product and deploymenttype
-			(LicenseManager as any)._onAuthMessage = (message: string) =>
-				message.replace(
-					"(https://www.dynamsoft.com/customer/license/trialLicense?product=unknown&deploymenttype=unknown)",
-					"(https://www.dynamsoft.com/customer/license/trialLicense?product=mwc&deploymenttype=web)",
-				);
-
-			LicenseManager.initLicense(this.config?.license || "", true);
-
-			// Optional. Used to load wasm resources in advance, reducing latency between video playing and document modules.
-			CoreModule.loadWasm();
+			await this.initializeEngine();
 
 			this.resources.cameraView = await CameraView.createInstance(
 				this.config.scannerViewConfig?.cameraEnhancerUIPath,
@@ -716,11 +1001,61 @@ class DocumentScanner {
 			this.resources.cameraEnhancer = await CameraEnhancer.createInstance(
 				this.resources.cameraView,
 			);
-			this.resources.cvRouter = await CaptureVisionRouter.createInstance();
 		} catch (ex: any) {
-			let errMsg = ex?.message || ex;
-			throw new Error(`Resource Initialization Failed: ${errMsg}`);
+			const error = toDocumentScannerError(ex, EnumDDSErrorCode.INITIALIZATION_FAILED);
+			throw new DocumentScannerError(
+				error.code,
+				`Resource Initialization Failed: ${error.message}`,
+				ex,
+			);
+		}
+	}
+
+	/**
+	 * Initialize the Dynamsoft Capture Vision (DCV) engine without any camera or UI.
+	 *
+	 * @returns The {@link CaptureVisionRouter} stored in {@link SharedResources.cvRouter}
+	 *
+	 * @remarks
+	 * This method:
+	 * - Configures engine resource paths (WASM files and dependencies) using {@link DocumentScannerConfig.engineResourcePaths} or {@link DEFAULT_DCV_ENGINE_RESOURCE_PATHS}
+	 * - Initializes the license manager with the license key from {@link DocumentScannerConfig.license}, checked via {@link checkForTemporaryLicense}
+	 * - Pre-loads WASM resources to reduce latency
+	 * - Creates the {@link CaptureVisionRouter} and loads {@link DocumentScannerConfig.templateFilePath} if provided
+	 *
+	 * The method customizes the trial license URL to specify the product type and deployment context.
+	 * If a router already exists it is returned as is, so the engine is shared between {@link launch} and {@link process}.
+	 *
+	 * @internal
+	 */
+	private async initializeEngine(): Promise<CaptureVisionRouter> {
+		if (this.resources.cvRouter) return this.resources.cvRouter;
+
+		//The following code uses the jsDelivr CDN, feel free to change it to your own location of these files
+		CoreModule.engineResourcePaths = isEmptyObject(this.config?.engineResourcePaths)
+			? DEFAULT_DCV_ENGINE_RESOURCE_PATHS
+			: this.config.engineResourcePaths!;
+
+		// Change trial link to include product and deploymenttype
+		(LicenseManager as any)._onAuthMessage = (message: string) =>
+			message.replace(
+				"(https://www.dynamsoft.com/customer/license/trialLicense?product=unknown&deploymenttype=unknown)",
+				"(https://www.dynamsoft.com/customer/license/trialLicense?product=mwc&deploymenttype=web)",
+			);
+
+		LicenseManager.initLicense(this.checkForTemporaryLicense(this.config?.license), true);
+
+		// Optional. Used to load wasm resources in advance, reducing latency between video playing and document modules.
+		CoreModule.loadWasm();
+
+		const cvRouter = await CaptureVisionRouter.createInstance();
+		if (this.config.templateFilePath) {
+			await cvRouter.initSettings(this.config.templateFilePath);
 		}
+		cvRouter.maxImageSideLength = Infinity;
+
+		this.resources.cvRouter = cvRouter;
+		return cvRouter;
 	}
 
 	/**
@@ -738,7 +1073,8 @@ class DocumentScanner {
 		const hasNoViewContainers = !(
 			this.config.scannerViewConfig?.container ||
 			this.config.resultViewConfig?.container ||
-			this.config.correctionViewConfig?.container
+			this.config.correctionViewConfig?.container ||
+			this.config.pagesViewConfig?.container
 		);
 		return hasNoMainContainer && hasNoViewContainers;
 	}
@@ -835,6 +1171,17 @@ class DocumentScanner {
 						"ResultView container is required when showResultView is true and no main container is provided",
 					);
 				}
+
+				// Check pages view
+				if (
+					this.config.enableContinuousScanning &&
+					this.config.showPagesView &&
+					!this.config.pagesViewConfig?.container
+				) {
+					throw new Error(
+						"PagesView container is required when showPagesView is true and no main container is provided",
+					);
+				}
 			}
 		}
 	}
@@ -911,6 +1258,42 @@ class DocumentScanner {
 		return this.config.showResultView && !!this.config.resultViewConfig?.container;
 	}
 
+	/**
+	 * Determine whether the {@link DocumentPagesView} should be displayed.
+	 *
+	 * @returns true if the pages view should be shown
+	 *
+	 * @remarks
+	 * The pages view is only available when {@link DocumentScannerConfig.enableContinuousScanning} is enabled, and is then shown when:
+	 * - {@link DocumentScannerConfig.showPagesView} is explicitly set to true, **OR**
+	 * - {@link DocumentScannerConfig.showPagesView} is undefined **AND** a main {@link DocumentScannerConfig.container} or a {@link DocumentPagesViewConfig.container} is configured
+	 *
+	 * The pages view is NOT shown when:
+	 * - {@link DocumentScannerConfig.showPagesView} is explicitly set to false
+	 * - No main {@link DocumentScannerConfig.container} **AND** no {@link DocumentPagesViewConfig.container} is provided
+	 *
+	 * Called by {@link initializeDDSConfig} to determine whether to create the pages view configuration.
+	 *
+	 * @internal
+	 */
+	private showPagesView() {
+		if (!this.config.enableContinuousScanning || this.config.showPagesView === false) return false;
+
+		// If we have a main container, follow existing logic
+		if (this.config.container) {
+			if (
+				this.config.showPagesView === undefined &&
+				(this.config.pagesViewConfig?.container || this.config.container)
+			) {
+				return true;
+			}
+			return !!this.config.showPagesView;
+		}
+
+		// Without main container, require specific container
+		return this.config.showPagesView && !!this.config.pagesViewConfig?.container;
+	}
+
 	/**
 	 * Initialize and normalize the {@link DocumentScanner} configuration.
 	 *
@@ -920,7 +1303,7 @@ class DocumentScanner {
 	 * 2. Creates a default container if needed via {@link shouldCreateDefaultContainer} and {@link createDefaultDDSContainer}
 	 * 3. Creates individual view containers within the main container via {@link createViewContainers}
 	 * 4. Sets up base configuration (license via {@link checkForTemporaryLicense}, template names from {@link DocumentScannerConfig.utilizedTemplateNames}, template file path)
-	 * 5. Configures each view ({@link DocumentScannerView}, {@link DocumentCorrectionView}, {@link DocumentResultView}) with merged settings
+	 * 5. Configures each view ({@link DocumentScannerView}, {@link DocumentCorrectionView}, {@link DocumentResultView}, {@link DocumentPagesView}) with merged settings
 	 *
 	 * The configuration is normalized to ensure all views have proper containers,
 	 * default values are applied (like {@link DEFAULT_DCE_UI_PATH} for {@link DocumentScannerView} camera UI), and internal flags are set correctly.
@@ -932,6 +1315,11 @@ class DocumentScanner {
 	private initializeDDSConfig() {
 		this.validateViewConfigs();
 
+		if (this.config.idCardMode && this.config.enableContinuousScanning) {
+			console.warn("Continuous scanning is disabled in ID card mode");
+			this.config.enableContinuousScanning = false;
+		}
+
 		if (this.shouldCreateDefaultContainer()) {
 			this.config.container = this.createDefaultDDSContainer();
 		} else if (this.config.container) {
@@ -960,7 +1348,12 @@ class DocumentScanner {
 			utilizedTemplateNames: baseConfig.utilizedTemplateNames,
 			_showCorrectionView: this.showCorrectionView(),
 			_showResultView: this.showResultView(),
+			_showPagesView: this.showPagesView(),
 			enableFrameVerification: this.config.enableFrameVerification !== false, // Default true
+			// Frame the card in ID card mode
+			...(this.config.idCardMode && {
+				scanRegion: this.config.scannerViewConfig?.scanRegion ?? ID_CARD_SCAN_REGION,
+			}),
 		};
 		const correctionViewConfig = this.showCorrectionView()
 			? {
@@ -979,6 +1372,14 @@ class DocumentScanner {
 					...this.config.resultViewConfig,
 					container:
 						viewContainers[EnumDDSViews.Result] || this.config.resultViewConfig?.container || null,
+					utilizedTemplateNames: baseConfig.utilizedTemplateNames,
+				}
+			: undefined;
+		const pagesViewConfig = this.showPagesView()
+			? {
+					...this.config.pagesViewConfig,
+					container:
+						viewContainers[EnumDDSViews.Pages] || this.config.pagesViewConfig?.container || null,
 				}
 			: undefined;
 
@@ -987,6 +1388,7 @@ class DocumentScanner {
 			scannerViewConfig,
 			correctionViewConfig,
 			resultViewConfig,
+			pagesViewConfig,
 		});
 	}
 
@@ -1001,6 +1403,7 @@ class DocumentScanner {
 	 * - {@link DocumentScannerView} (always created)
 	 * - {@link DocumentCorrectionView} (if {@link showCorrectionView} returns true)
 	 * - {@link DocumentResultView} (if {@link showResultView} returns true)
+	 * - {@link DocumentPagesView} (if {@link showPagesView} returns true)
 	 *
 	 * Each view container:
 	 * - Has a class name in the format `dds-{viewName}-view-container`
@@ -1021,6 +1424,7 @@ class DocumentScanner {
 
 		if (this.showCorrectionView()) views.push(EnumDDSViews.Correction);
 		if (this.showResultView()) views.push(EnumDDSViews.Result);
+		if (this.showPagesView()) views.push(EnumDDSViews.Pages);
 
 		return views.reduce(
 			(containers, view) => {
@@ -1103,47 +1507,207 @@ class DocumentScanner {
 	}
 
 	/**
-	 * Clean up and release all resources used by the DocumentScanner.
-	 *
-	 * @remarks
-	 * **This method is called automatically at the end of {@link launch}, so manual invocation is typically only needed if you want to clean up resources before the scanning workflow completes.**
+	 * Register a handler for an event of the scanning lifecycle.
 	 *
-	 * This method performs comprehensive cleanup by:
-	 * - Disposing all view components (scanner, correction, result)
-	 * - Releasing Dynamsoft Capture Vision resources (camera, router)
-	 * - Clearing all container elements
-	 * - Resetting internal state
+	 * @param event - The name of the event, see {@link DocumentScannerEventMap}
+	 * @param handler - Function called with the event payload each time the event is emitted
+	 * @returns A function that unregisters the handler
 	 *
-	 * After calling dispose, you can create a new DocumentScanner instance if you need to scan again.
+	 * @remarks
+	 * Handlers stay registered across {@link launch} calls and {@link dispose}, until {@link off} or the returned function is called.
+	 * They are called synchronously and are not awaited; an error thrown by a handler is logged and does not interrupt the scanning flow.
 	 *
 	 * @example
-	 * Manual cleanup:
 	 * ```javascript
 	 * const documentScanner = new Dynamsoft.DocumentScanner({
-	 *     license: "YOUR_LICENSE_KEY_HERE"
+	 *     license: "YOUR_LICENSE_KEY_HERE",
 	 * });
 	 *
-	 * await documentScanner.launch();
+	 * documentScanner.on("viewChanged", ({ view }) => analytics.track("view", view));
+	 * documentScanner.on("cameraError", ({ message }) => showHelp(message));
+	 * const stopListening = documentScanner.on("pageAdded", ({ index }) => {
+	 *     pageCounter.textContent = String(index + 1);
+	 * });
 	 *
-	 * // Clean up is automatic after launch completes
-	 * // But you can also call it manually if needed:
-	 * documentScanner.dispose();
-	 * console.log("Scanner resources released");
+	 * await documentScanner.launch();
+	 * stopListening();
 	 * ```
 	 *
 	 * @public
 	 */
-	dispose(): void {
-		this.scanResultView?.dispose();
-		this.scanResultView = undefined;
+	on<K extends keyof DocumentScannerEventMap>(
+		event: K,
+		handler: DocumentScannerEventHandler<K>,
+	): () => void {
+		let handlers = this.eventHandlers.get(event);
+		if (!handlers) {
+			handlers = new Set();
+			this.eventHandlers.set(event, handlers);
+		}
+		handlers.add(handler);
+		return () => this.off(event, handler);
+	}
 
-		this.correctionView?.dispose();
-		this.correctionView = undefined;
+	/**
+	 * Unregister a handler registered with {@link on}.
+	 *
+	 * @param event - The name of the event
+	 * @param handler - The handler to remove
+	 *
+	 * @public
+	 */
+	off<K extends keyof DocumentScannerEventMap>(
+		event: K,
+		handler: DocumentScannerEventHandler<K>,
+	): void {
+		this.eventHandlers.get(event)?.delete(handler);
+	}
 
-		this.scannerView?.dispose();
-		this.scannerView = undefined;
+	/**
+	 * Call every handler registered for an event.
+	 *
+	 * @remarks
+	 * Exposed to the views as {@link SharedResources.emit}. Handler errors are logged so they cannot break the scanning flow.
+	 *
+	 * @internal
+	 */
+	private emit<K extends keyof DocumentScannerEventMap>(
+		event: K,
+		payload: DocumentScannerEventMap[K],
+	): void {
+		this.eventHandlers.get(event)?.forEach((handler) => {
+			try {
+				handler(payload);
+			} catch (error) {
+				console.error(`Error in "${event}" event handler:`, error);
+			}
+		});
+	}
 
-		// Dispose resources and clear the references so dispose() is idempotent —
+	/**
+	 * Keep a successful result as a page of the session and emit `pageAdded`.
+	 *
+	 * @remarks
+	 * Each of its {@link DocumentResult.additionalDocuments} is kept as a page of its own, right after it.
+	 *
+	 * @internal
+	 */
+	private addPage(result: DocumentResult): void {
+		const session = this.resources.session;
+		if (!session) return;
+
+		for (const document of [result, ...(result.additionalDocuments ?? [])]) {
+			const page = session.addPage(document);
+			this.emit("pageAdded", { page, index: session.indexOf(page.id) });
+		}
+	}
+
+	/**
+	 * Retrieve the most documents corrected from one image.
+	 *
+	 * @returns {@link DocumentScannerConfig.maxDocumentsPerImage} in multi-document mode, otherwise 1
+	 *
+	 * @internal
+	 */
+	private getMaxDocumentsPerImage(): number {
+		if (!this.config.enableMultiDocument) return 1;
+		return Math.max(
+			1,
+			Math.floor(this.config.maxDocumentsPerImage ?? DEFAULT_MAX_DOCUMENTS_PER_IMAGE),
+		);
+	}
+
+	/**
+	 * Turn the corrected image of a result upright, as an edit on top of its unedited image.
+	 *
+	 * @param result - The result to orient
+	 * @param enabled - Whether to orient it, {@link DocumentScannerConfig.enableAutoOrientation} by default
+	 * @returns `result` itself when disabled or already upright, otherwise a copy with the rotation in its edit state
+	 *
+	 * @remarks
+	 * Used where no {@link DocumentResultView} sets the initial rotation: {@link process}, imported batches, and flows without the result view.
+	 * Its {@link DocumentResult.additionalDocuments} are oriented too.
+	 *
+	 * @internal
+	 */
+	private orientResult(
+		result: DocumentResult,
+		enabled = this.config.enableAutoOrientation,
+	): DocumentResult {
+		if (enabled && result.additionalDocuments?.length) {
+			result = {
+				...result,
+				additionalDocuments: result.additionalDocuments.map((document) =>
+					this.orientResult(document, enabled),
+				),
+			};
+		}
+
+		const base = result._baseCorrectedImageResult ?? result.correctedImageResult;
+		if (!enabled || !base) return result;
+
+		const rotation = detectOrientation(base.toCanvas());
+		if (!rotation) return result;
+
+		const editState: PageEditState = { ...createDefaultEditState(), ...result._editState };
+		editState.rotation = (editState.rotation + rotation) % 360;
+		return {
+			...result,
+			correctedImageResult: renderEditedImage(base, editState),
+			_editState: editState,
+			_baseCorrectedImageResult: base,
+		};
+	}
+
+	/**
+	 * Clean up and release all resources used by the DocumentScanner.
+	 *
+	 * @remarks
+	 * **This method is called automatically at the end of {@link launch}, so manual invocation is typically only needed if you want to clean up resources before the scanning workflow completes.**
+	 *
+	 * This method performs comprehensive cleanup by:
+	 * - Disposing all view components (scanner, correction, result, pages)
+	 * - Releasing Dynamsoft Capture Vision resources (camera, router); the router is released once a running {@link process} call or correction preview finishes
+	 * - Clearing all container elements
+	 * - Resetting internal state
+	 * - Emitting the `disposed` event (see {@link on})
+	 *
+	 * After calling dispose, you can create a new DocumentScanner instance if you need to scan again.
+	 *
+	 * @example
+	 * Manual cleanup:
+	 * ```javascript
+	 * const documentScanner = new Dynamsoft.DocumentScanner({
+	 *     license: "YOUR_LICENSE_KEY_HERE"
+	 * });
+	 *
+	 * await documentScanner.launch();
+	 *
+	 * // Clean up is automatic after launch completes
+	 * // But you can also call it manually if needed:
+	 * documentScanner.dispose();
+	 * console.log("Scanner resources released");
+	 * ```
+	 *
+	 * @public
+	 */
+	dispose(): void {
+		const wasActive = this.isInitialized || !!this.resources.cvRouter;
+
+		this.pagesView?.dispose();
+		this.pagesView = undefined;
+
+		this.scanResultView?.dispose();
+		this.scanResultView = undefined;
+
+		const previewStopped = this.correctionView?.stopPreview();
+		this.correctionView?.dispose();
+		this.correctionView = undefined;
+
+		this.scannerView?.dispose();
+		this.scannerView = undefined;
+
+		// Dispose resources and clear the references so dispose() is idempotent —
 		// disposing an already-disposed CameraEnhancer throws inside DCV
 		this.resources.cameraEnhancer?.dispose();
 		this.resources.cameraEnhancer = undefined;
@@ -1151,11 +1715,20 @@ class DocumentScanner {
 		this.resources.cameraView?.dispose();
 		this.resources.cameraView = undefined;
 
-		this.resources.cvRouter?.dispose();
+		// Released once a running process() call and correction preview are done with it
+		const { cvRouter } = this.resources;
 		this.resources.cvRouter = undefined;
+		Promise.all([this.processQueue, previewStopped]).then(() => cvRouter?.dispose());
+
+		this.closeProcessedFile();
+
+		// Saved pages are kept so an interrupted session can be resumed
+		this.sessionStore?.detach();
 
 		this.resources.result = undefined;
 		this.resources.onResultUpdated = undefined;
+		this.resources.importFiles = undefined;
+		this.resources.session = undefined;
 
 		// Hide and clean containers
 		const cleanContainer = (container?: HTMLElement | string) => {
@@ -1170,63 +1743,145 @@ class DocumentScanner {
 		cleanContainer(this.config.scannerViewConfig?.container);
 		cleanContainer(this.config.correctionViewConfig?.container);
 		cleanContainer(this.config.resultViewConfig?.container);
+		cleanContainer(this.config.pagesViewConfig?.container);
 
 		this.isInitialized = false;
 		this.isCapturing = false;
 		this.shouldStopContinuousScanning = false;
+
+		if (wasActive) this.emit("disposed", {});
 	}
 
 	/**
-	 * Process a File object to extract image information as a blob.
+	 * Detect and correct the document in an image with the shared engine.
 	 *
-	 * @param file - The File object to process (must be an image file)
-	 * @returns Promise resolving to blob with dimensions
+	 * @param source - The image to process; a single page of a PDF or TIFF file must be read first
+	 * @param options - The {@link DocumentProcessOptions} to apply
+	 * @returns Promise resolving to a successful {@link DocumentResult}
 	 *
-	 * @throws {Error} If the file is not an image or if blob creation fails
+	 * @throws {Error} If the image cannot be decoded or corrected
 	 *
 	 * @remarks
-	 * Validates MIME type, loads image, draws to canvas, and converts to blob.
+	 * Uses {@link DocumentProcessOptions.quadrilateral} when given, otherwise detects boundaries and falls back to the full image.
+	 * In multi-document mode ({@link DocumentScannerConfig.enableMultiDocument}), the other detected documents are corrected into {@link DocumentResult.additionalDocuments}.
+	 * Does not touch any container; shared by {@link processUploadedFile} and {@link process}.
 	 *
 	 * @internal
 	 */
-	private async processFileToBlob(
-		file: File,
-	): Promise<{ blob: Blob; width: number; height: number }> {
-		return new Promise((resolve, reject) => {
-			// Check if file is an image
-			if (!file.type.startsWith("image/")) {
-				reject(new Error("Please select an image file"));
-				return;
+	private async processSource(
+		source: DocumentSource,
+		options: DocumentProcessOptions,
+	): Promise<DocumentResult> {
+		const cvRouter = await this.initializeEngine();
+		const templateNames = {
+			detect: this.config.utilizedTemplateNames?.detect || DEFAULT_TEMPLATE_NAMES.detect,
+			normalize: this.config.utilizedTemplateNames?.normalize || DEFAULT_TEMPLATE_NAMES.normalize,
+		};
+
+		const appliedRotation = source instanceof Blob ? await readImageRotation(source) : 0;
+		const originalImageResult = await toDSImageData(
+			source,
+			this.config.heicDecoderPath || DEFAULT_HEIC_DECODER_PATH,
+		);
+
+		// Determine quadrilaterals (document boundaries), most prominent first
+		const maxDocuments = this.getMaxDocumentsPerImage();
+		const [detectedQuadrilateral, ...otherQuadrilaterals]: (Quadrilateral | undefined)[] =
+			options.quadrilateral
+				? [options.quadrilateral]
+				: maxDocuments > 1
+					? await detectDocumentBoundaries(
+							cvRouter,
+							originalImageResult,
+							templateNames.detect,
+							maxDocuments,
+						)
+					: [await detectDocumentBoundary(cvRouter, originalImageResult, templateNames.detect)];
+
+		if (options.detectOnly) {
+			const additionalDocuments = otherQuadrilaterals.map((quadrilateral): DocumentResult => ({
+				status: { code: EnumResultStatus.RS_SUCCESS, message: "Success" },
+				originalImageResult,
+				detectedQuadrilateral: quadrilateral,
+				appliedRotation,
+				_flowType: EnumFlowType.STATIC_FILE,
+			}));
+			return {
+				status: {
+					code: EnumResultStatus.RS_SUCCESS,
+					message: detectedQuadrilateral ? "Success" : "No document detected",
+				},
+				originalImageResult,
+				detectedQuadrilateral,
+				appliedRotation,
+				_flowType: EnumFlowType.STATIC_FILE,
+				...(additionalDocuments.length > 0 && { additionalDocuments }),
+			};
+		}
+
+		const correct = async (quadrilateral: Quadrilateral): Promise<DocumentResult> => {
+			// Normalize the image (perspective correction)
+			const normalizedImageResult = await normalizeDocumentInColorMode(
+				cvRouter,
+				originalImageResult,
+				quadrilateral.points,
+				templateNames.normalize,
+				options.colorMode,
+				options.binarization,
+			);
+			if (!normalizedImageResult) {
+				throw new DocumentScannerError(
+					EnumDDSErrorCode.NORMALIZATION_FAILED,
+					"Failed to normalize image",
+				);
 			}
 
-			const img = new Image();
-			img.onload = () => {
-				const canvas = document.createElement("canvas");
-				canvas.width = img.width;
-				canvas.height = img.height;
-				const ctx = canvas.getContext("2d");
-				ctx?.drawImage(img, 0, 0);
-				canvas.toBlob((blob) => {
-					if (blob) {
-						resolve({ blob, width: img.width, height: img.height });
-					} else {
-						reject(new Error("Failed to create blob from image"));
-					}
-				}, file.type);
+			const editState: PageEditState = {
+				rotation: 0,
+				filterId: options.filter ?? null,
+				colorMode: options.colorMode,
 			};
-			img.onerror = () => reject(new Error("Failed to load image"));
-			img.src = URL.createObjectURL(file);
-		});
+			const correctedImageResult = renderEditedImage(normalizedImageResult, editState);
+
+			return {
+				status: {
+					code: EnumResultStatus.RS_SUCCESS,
+					message: "Success",
+				},
+				originalImageResult,
+				correctedImageResult,
+				detectedQuadrilateral: quadrilateral,
+				appliedRotation,
+				_flowType: EnumFlowType.STATIC_FILE,
+				// Keep what the result view needs to re-edit the image in the same filter and colour mode
+				...((options.filter || options.colorMode) && {
+					_editState: editState,
+					_baseCorrectedImageResult: normalizedImageResult,
+				}),
+			};
+		};
+
+		// No boundaries detected, use full image
+		const result = await correct(
+			detectedQuadrilateral ?? getFullImageQuadrilateral(originalImageResult),
+		);
+
+		// One at a time, as they share the router
+		const additionalDocuments: DocumentResult[] = [];
+		for (const quadrilateral of otherQuadrilaterals) {
+			if (quadrilateral) additionalDocuments.push(await correct(quadrilateral));
+		}
+		return additionalDocuments.length ? { ...result, additionalDocuments } : result;
 	}
 
 	/**
-	 * Process an uploaded image file for document detection and normalization.
+	 * Process an uploaded file for document detection and normalization.
 	 *
-	 * @param file - The image file to process
+	 * @param file - The image, PDF or TIFF file to process; only its first page is used
 	 * @returns Promise resolving to a {@link DocumentResult}
 	 *
 	 * @remarks
-	 * Converts to blob, detects boundaries (or uses full image), performs normalization, and updates shared result.
+	 * Shows the loading overlay, processes the file via {@link processSource}, and updates shared result.
 	 * Returns failed status on error.
 	 *
 	 * @internal
@@ -1235,69 +1890,16 @@ class DocumentScanner {
 		try {
 			this.showScannerLoadingOverlay(getString("processingImageMsg"));
 
-			const { cvRouter } = this.resources;
-			const templateNames = this.config.utilizedTemplateNames;
-			if (!cvRouter || !templateNames) {
-				throw new Error("Scanner resources are not initialized");
-			}
-
-			// Process the file to get blob
-			const { blob } = await this.processFileToBlob(file);
-
-			// Use CaptureVisionRouter to process the image
-			const resultItems = (await cvRouter.capture(blob, templateNames.detect)).items;
-
-			// Get the original image data from the first result item
-			const originalImageData = (resultItems[0] as any)?.imageData;
-			if (!originalImageData) {
-				throw new Error("Failed to extract image data");
-			}
-
-			// Determine quadrilateral (document boundaries)
-			let detectedQuadrilateral: Quadrilateral;
-			if (resultItems.length <= 1) {
-				// No boundaries detected, use full image
-				const { width, height } = originalImageData;
-				detectedQuadrilateral = {
-					points: [
-						{ x: 0, y: 0 },
-						{ x: width, y: 0 },
-						{ x: width, y: height },
-						{ x: 0, y: height },
-					],
-					area: height * width,
-				} as Quadrilateral;
-			} else {
-				// Use detected quadrilateral
-				detectedQuadrilateral = (
-					resultItems.find(
-						(item) => item.type === EnumCapturedResultItemType.CRIT_DETECTED_QUAD,
-					) as DetectedQuadResultItem
-				)?.location;
+			// Check if file is an image, PDF or TIFF
+			if (!isSupportedFile(file)) {
+				throw new DocumentScannerError(
+					EnumDDSErrorCode.UNSUPPORTED_FILE,
+					"Please select an image or PDF file",
+				);
 			}
 
-			// Normalize the image (perspective correction)
-			const settings = await cvRouter.getSimplifiedSettings(templateNames.normalize);
-			settings.roiMeasuredInPercentage = false;
-			settings.roi.points = detectedQuadrilateral.points;
-			await cvRouter.updateSettings(templateNames.normalize, settings);
-
-			const normalizedResult = await cvRouter.capture(originalImageData, templateNames.normalize);
-
-			const correctedImageResult =
-				normalizedResult?.processedDocumentResult?.deskewedImageResultItems?.[0];
-
-			// Create result object
-			const result: DocumentResult = {
-				status: {
-					code: EnumResultStatus.RS_SUCCESS,
-					message: "Success",
-				},
-				originalImageResult: originalImageData,
-				correctedImageResult,
-				detectedQuadrilateral,
-				_flowType: EnumFlowType.STATIC_FILE,
-			};
+			// Only the first page of a PDF or TIFF file is used
+			const result = await this.processSource(await readDocumentPage(file, 0), {});
 
 			// Update shared resources
 			this.resources.onResultUpdated?.(result);
@@ -1312,11 +1914,121 @@ class DocumentScanner {
 				status: {
 					code: EnumResultStatus.RS_FAILED,
 					message: `Failed to process image: ${error?.message || error}`,
+					errorCode: toDocumentScannerError(error, EnumDDSErrorCode.FILE_DECODE_FAILED).code,
 				},
 			};
 		}
 	}
 
+	/**
+	 * Read a page of a file passed to {@link process}.
+	 *
+	 * @param file - The image, PDF or TIFF file
+	 * @param pageIndex - 0-based index of the page
+	 *
+	 * @remarks
+	 * The file stays open until another file is read or {@link dispose} is called,
+	 * so processing every page of a PDF or TIFF file in turn parses it only once.
+	 *
+	 * @throws {Error} If the file cannot be read or has no such page
+	 *
+	 * @internal
+	 */
+	private async readFilePage(file: Blob, pageIndex: number): Promise<DocumentSource> {
+		if (this.processedFile?.file !== file) {
+			this.closeProcessedFile();
+			this.processedFile = { file, pages: openDocumentPages(file) };
+		}
+		return readOpenedPage(await this.processedFile.pages, pageIndex);
+	}
+
+	/**
+	 * Close the file kept open by {@link readFilePage}.
+	 *
+	 * @internal
+	 */
+	private closeProcessedFile(): void {
+		this.processedFile?.pages.then(
+			(pages) => pages.close(),
+			() => {}, // The failure was reported when reading the file
+		);
+		this.processedFile = undefined;
+	}
+
+	/**
+	 * Import image, PDF or TIFF files as pages of the continuous scanning session.
+	 *
+	 * @param files - The files to import, in page order
+	 * @returns Promise resolving to the number of pages added
+	 *
+	 * @remarks
+	 * Every page of every file is processed one at a time via {@link processSource} while the loading overlay shows the progress ({@link StringConfig.processingImagesMsg}).
+	 * Each page is added to {@link SharedResources.session} and passed to {@link DocumentScannerConfig.onDocumentScanned}, as if it had been scanned.
+	 * Files and pages that fail to process are logged and skipped. Stops early if {@link stopContinuousScanning} is called.
+	 *
+	 * @internal
+	 */
+	private async importFiles(files: File[]): Promise<number> {
+		let imported = 0;
+		const openedFiles: DocumentPages[] = [];
+		this.showScannerLoadingOverlay();
+
+		try {
+			// Open every file first, so the progress counts pages rather than files
+			const pages: { name: string; file: DocumentPages; index: number }[] = [];
+			for (const file of files) {
+				try {
+					if (!isSupportedFile(file)) {
+						throw new DocumentScannerError(
+							EnumDDSErrorCode.UNSUPPORTED_FILE,
+							"Please select an image or PDF file",
+						);
+					}
+
+					const opened = await openDocumentPages(file);
+					openedFiles.push(opened);
+					for (let i = 0; i < opened.pageCount; i++) {
+						const name = opened.pageCount > 1 ? `${file.name} (page ${i + 1})` : file.name;
+						pages.push({ name, file: opened, index: i });
+					}
+				} catch (error: any) {
+					console.error(`Failed to open uploaded file ${file.name}:`, error?.message || error);
+				}
+			}
+
+			for (const [index, page] of pages.entries()) {
+				if (this.shouldStopContinuousScanning) break;
+
+				this.loadingScreen?.updateMessage(
+					getString("processingImagesMsg")
+						.replace("{index}", String(index + 1))
+						.replace("{count}", String(pages.length)),
+				);
+
+				try {
+					const result = this.orientResult(
+						await this.processSource(await page.file.readPage(page.index), {}),
+					);
+					this.resources.onResultUpdated?.(result);
+					this.addPage(result);
+					imported++;
+
+					await this.config.onDocumentScanned?.(result);
+				} catch (error: any) {
+					console.error(`Failed to process uploaded file ${page.name}:`, error?.message || error);
+				} finally {
+					if (page.index === page.file.pageCount - 1) page.file.close();
+				}
+			}
+		} finally {
+			// Also releases the files left unread when stopped early
+			openedFiles.forEach((opened) => opened.close());
+			this.hideScannerLoadingOverlay();
+		}
+
+		return imported;
+	}
+
 	/**
 	 * Perform a single scan operation through the complete workflow.
 	 *
@@ -1382,6 +2094,7 @@ class DocumentScanner {
 					status: {
 						code: scanResult?.status.code,
 						message: scanResult?.status.message || "Failed to capture image",
+						errorCode: scanResult?.status.errorCode,
 					},
 				};
 			}
@@ -1420,11 +2133,240 @@ class DocumentScanner {
 				status: {
 					code: EnumResultStatus.RS_FAILED,
 					message: "Failed to capture image",
+					errorCode: EnumDDSErrorCode.CAPTURE_FAILED,
 				},
 			}
 		);
 	}
 
+	/**
+	 * Scan the front and then the back of an ID card.
+	 *
+	 * @param files - Optional images of the front and back, processed instead of using the camera for those sides
+	 * @returns The front side's result with both sides in {@link DocumentResult.idCard}, or the first result that did not succeed
+	 *
+	 * @remarks
+	 * Each side is scanned via {@link performSingleScan}, with {@link SharedResources.scanPrompt} naming the side to show.
+	 * With {@link IdCardModeConfig.combineSides}, both corrected sides are also drawn on a single page.
+	 *
+	 * Called by {@link launch} when {@link DocumentScannerConfig.idCardMode} is enabled.
+	 *
+	 * @internal
+	 */
+	private async performIdCardScan(files: File[]): Promise<DocumentResult> {
+		const { combineSides = false, combinedLayout = "vertical" } =
+			this.config.idCardMode === true ? {} : this.config.idCardMode || {};
+		const sides: DocumentResult[] = [];
+
+		try {
+			for (const [index, side] of ID_CARD_SIDES.entries()) {
+				this.resources.scanPrompt = getString(
+					side === "front" ? "idCardFrontMsg" : "idCardBackMsg",
+				);
+				let result = await this.performSingleScan(files[index]);
+				if (result.status.code !== EnumResultStatus.RS_SUCCESS) return result;
+
+				// The result view sets the initial rotation itself
+				if (!this.showResultView()) result = this.orientResult(result);
+				sides.push(result);
+			}
+		} finally {
+			this.resources.scanPrompt = undefined;
+		}
+
+		const [front, back] = sides;
+		const combinedImageResult =
+			combineSides && front.correctedImageResult && back.correctedImageResult
+				? combineIdCardSides(front.correctedImageResult, back.correctedImageResult, combinedLayout)
+				: undefined;
+
+		return {
+			...front,
+			idCard: { front, back, ...(combinedImageResult && { combinedImageResult }) },
+		};
+	}
+
+	/**
+	 * Import a batch of files passed to {@link launch} before the continuous scanning loop starts.
+	 *
+	 * @param files - The image, PDF or TIFF files to import, in page order
+	 *
+	 * @remarks
+	 * Imports the files via {@link importFiles}, then opens the {@link DocumentPagesView} if enabled.
+	 * Ends the session unless the user taps "Scan More" there; without the pages view the loop continues with the camera.
+	 *
+	 * @internal
+	 */
+	private async importBatch(files: File[]): Promise<void> {
+		await this.initialize();
+
+		if (this.config.container) {
+			const container = getElement(this.config.container);
+			if (container) container.style.display = "block";
+		}
+
+		await this.importFiles(files);
+
+		if (this.pagesView) {
+			const scannerContainer = getElement(this.config.scannerViewConfig?.container);
+			if (scannerContainer) scannerContainer.style.display = "none";
+
+			if (!(await this.reviewPages())) this.stopContinuousScanning();
+		}
+	}
+
+	/**
+	 * Show the {@link DocumentPagesView} so the user can review the pages of the session.
+	 *
+	 * @returns `true` if the user tapped "Scan More" to capture another page, `false` if the session should end
+	 *
+	 * @remarks
+	 * Called by {@link launch} in continuous scanning mode when the user taps "Done ({count})" or the thumbnail in the {@link DocumentScannerView}, which has already closed the camera.
+	 *
+	 * @internal
+	 */
+	private async reviewPages(): Promise<boolean> {
+		if (!this.pagesView) return false;
+
+		this.resources.scanMoreRequested = false;
+		const result = await this.pagesView.launch();
+		return result.status.code === EnumResultStatus.RS_SUCCESS && !!this.resources.scanMoreRequested;
+	}
+
+	/**
+	 * Get the {@link SessionStore} configured by {@link DocumentScannerConfig.sessionPersistence}.
+	 *
+	 * @returns The store, or `undefined` if session persistence is disabled or continuous scanning is off
+	 *
+	 * @internal
+	 */
+	private getSessionStore(): SessionStore | undefined {
+		const { sessionPersistence, enableContinuousScanning } = this.config;
+		if (!sessionPersistence || !enableContinuousScanning) return undefined;
+
+		this.sessionStore ??= new SessionStore(sessionPersistence === true ? {} : sessionPersistence);
+		return this.sessionStore;
+	}
+
+	/**
+	 * Offer to resume the pages saved by an interrupted session, before the continuous scanning loop starts.
+	 *
+	 * @remarks
+	 * Asks via {@link SessionPersistenceConfig.onResumeSession}, or with a prompt over the scanner view (see {@link askToResumeSession}).
+	 * Restored pages are added to {@link SharedResources.session} and reviewed in the {@link DocumentPagesView} if shown; the session ends there unless the user taps "Scan More".
+	 * Declined sessions are deleted. Storage errors are logged and scanning starts with an empty session.
+	 *
+	 * @internal
+	 */
+	private async resumeSavedSession(): Promise<void> {
+		const store = this.getSessionStore();
+		if (!store) return;
+
+		try {
+			const info = await store.getInfo();
+			if (!info) return;
+
+			const { onResumeSession } =
+				this.config.sessionPersistence === true ? {} : this.config.sessionPersistence || {};
+			const resume = onResumeSession
+				? await onResumeSession(info)
+				: await this.askToResumeSession(info);
+			if (!resume) {
+				await store.clear();
+				return;
+			}
+
+			await this.initialize();
+
+			if (this.config.container) {
+				const container = getElement(this.config.container);
+				if (container) container.style.display = "block";
+			}
+
+			this.showScannerLoadingOverlay(getString("restoringSessionMsg"));
+			let pages;
+			try {
+				pages = await store.load();
+			} finally {
+				this.hideScannerLoadingOverlay();
+			}
+			this.resources.session?.restorePages(pages);
+
+			const lastPage = pages[pages.length - 1];
+			if (lastPage) {
+				this.resources.onResultUpdated?.(this.resources.session!.toResult(lastPage.id)!);
+			}
+		} catch (error: any) {
+			console.warn("Failed to resume the saved scan session:", error?.message || error);
+			return;
+		}
+
+		if (this.pagesView && this.resources.session?.count) {
+			const scannerContainer = getElement(this.config.scannerViewConfig?.container);
+			if (scannerContainer) scannerContainer.style.display = "none";
+
+			if (!(await this.reviewPages())) this.stopContinuousScanning();
+		}
+	}
+
+	/**
+	 * Ask whether to resume a saved session with a prompt over the {@link DocumentScannerView}.
+	 *
+	 * @remarks
+	 * Shows {@link StringConfig.resumeSessionPrompt} with the {@link StringConfig.resumeSessionBtn} and {@link StringConfig.discardSessionBtn} buttons.
+	 * Without a scanner view container to show it in, the saved session is not resumed.
+	 *
+	 * @internal
+	 */
+	private async askToResumeSession(info: SavedSessionInfo): Promise<boolean> {
+		await this.initialize();
+
+		const configContainer = getElement(this.config.scannerViewConfig?.container);
+		if (!configContainer) return false;
+
+		const mainContainer = getElement(this.config.container);
+		if (mainContainer) mainContainer.style.display = "block";
+		configContainer.style.display = "block";
+		configContainer.style.position = "relative";
+
+		return showPromptScreen(configContainer, {
+			message: getString("resumeSessionPrompt").replace("{count}", String(info.pageCount)),
+			confirmLabel: getString("resumeSessionBtn"),
+			cancelLabel: getString("discardSessionBtn"),
+		});
+	}
+
+	/**
+	 * Read the summary of the session saved by {@link DocumentScannerConfig.sessionPersistence}.
+	 *
+	 * @returns The {@link SavedSessionInfo}, or `undefined` if no page is saved or session persistence is disabled
+	 *
+	 * @remarks
+	 * Use it to offer resuming from your own UI before calling {@link launch}, together with {@link SessionPersistenceConfig.onResumeSession}.
+	 *
+	 * @public
+	 */
+	async getSavedSession(): Promise<SavedSessionInfo | undefined> {
+		try {
+			return await this.getSessionStore()?.getInfo();
+		} catch (error: any) {
+			console.warn("Failed to read the saved scan session:", error?.message || error);
+			return undefined;
+		}
+	}
+
+	/**
+	 * Delete the pages saved by {@link DocumentScannerConfig.sessionPersistence}.
+	 *
+	 * @remarks
+	 * Pages are deleted automatically when {@link launch} returns the session; call this to discard them earlier, for example when the user signs out.
+	 *
+	 * @public
+	 */
+	async clearSavedSession(): Promise<void> {
+		await this.getSessionStore()?.clear();
+	}
+
 	/**
 	 * Start the document scanning workflow.
 	 *
@@ -1438,18 +2380,26 @@ class DocumentScanner {
 	 *
 	 * **Scanning Modes:**
 	 * - **Single-scan mode (default)**: Captures one document and returns the result
-	 * - **Continuous scanning mode** ({@link DocumentScannerConfig.enableContinuousScanning}): Invokes {@link DocumentScannerConfig.onDocumentScanned} with each scan, and loops back to capture another document whenever the user taps "Scan More". The loop ends when the user taps "Done", clicks the close button (X), or {@link stopContinuousScanning} is called. Returns the last scanned result.
+	 * - **ID card mode** ({@link DocumentScannerConfig.idCardMode}): Captures the front and then the back of a card, prompting for each side, and returns the front with both sides in {@link DocumentResult.idCard}. Two files are used as the front and back.
+	 * - **Continuous scanning mode** ({@link DocumentScannerConfig.enableContinuousScanning}): Invokes {@link DocumentScannerConfig.onDocumentScanned} with each scan, and loops back to capture another document whenever the user taps "Scan More". "Done ({count})" and the thumbnail open the {@link DocumentPagesView} to review the pages first. The loop ends when the user taps "Done", clicks the close button (X), or {@link stopContinuousScanning} is called. Returns the last scanned result, with every kept page in {@link DocumentResult.session}.
 	 *
 	 * **File Processing:**
 	 * Passing a {@link File} object allows processing an existing image file, bypassing camera input and the {@link DocumentScannerView}.
 	 *
-	 * @param file - Optional image file to process instead of using the camera
+	 * Besides images, PDF and TIFF files are accepted: each page is rasterized and processed as a separate image. PDF pages are read from the largest image drawn on them, as in scanned or photographed documents.
+	 *
+	 * Passing several files, or a PDF or TIFF file, imports them as a batch in continuous scanning mode: each page is processed in turn with its progress in the loading overlay, added to the session and passed to {@link DocumentScannerConfig.onDocumentScanned}. The {@link DocumentPagesView} then opens to review the pages (or the camera, if the pages view is hidden) so the user can keep scanning.
+	 * In single-scan mode only the first page of the first file is processed.
+	 *
+	 * @param file - Optional image, PDF or TIFF file, or files, to process instead of using the camera
 	 *
 	 * @returns Promise resolving to the {@link DocumentResult}, which includes:
 	 * - `status`: Scan status (success, cancelled, or failed)
 	 * - `correctedImageResult`: Perspective-corrected document image
 	 * - `originalImageResult`: Original captured image
 	 * - `detectedQuadrilateral`: Detected document boundaries
+	 * - `session`: Every page kept in continuous scanning mode (see {@link ScanSession})
+	 * - `idCard`: Both sides of the card in ID card mode (see {@link IdCardResult})
 	 *
 	 * @throws {Error} If a capture session is already in progress
 	 *
@@ -1498,31 +2448,81 @@ class DocumentScanner {
 	 *
 	 * // This will return the last scanned result when user exits
 	 * const lastResult = await documentScanner.launch();
+	 * console.log(`Kept ${lastResult.session?.count ?? 0} pages`);
+	 * ```
+	 *
+	 * @example
+	 * Import several image files as pages:
+	 * ```javascript
+	 * const documentScanner = new Dynamsoft.DocumentScanner({
+	 *     license: "YOUR_LICENSE_KEY_HERE",
+	 *     enableContinuousScanning: true,
+	 * });
+	 *
+	 * const files = Array.from(document.querySelector('input[type="file"]').files);
+	 * const { session } = await documentScanner.launch(files);
 	 * ```
 	 *
 	 * @public
 	 */
-	async launch(file?: File): Promise<DocumentResult> {
+	async launch(file?: File | File[]): Promise<DocumentResult> {
 		if (this.isCapturing) {
-			throw new Error("Capture session already in progress");
+			throw new DocumentScannerError(
+				EnumDDSErrorCode.SESSION_IN_PROGRESS,
+				"Capture session already in progress",
+			);
 		}
 
+		const files = Array.isArray(file) ? file : file ? [file] : [];
+
 		try {
 			this.isCapturing = true;
 
+			// Let a running process() call finish with the router; queued ones fail as the session has started
+			await this.processQueue;
+
 			// Disable body scrolling to prevent scrolling away from scanner view
 			document.body.style.overflow = "hidden";
 
+			// Handle ID card mode: both sides in turn, reported as a single result
+			if (this.config.idCardMode) {
+				if (files.length > 2) {
+					console.warn("Only the first two files are processed in ID card mode");
+				}
+				const result = await this.performIdCardScan(files);
+				if (result.status.code === EnumResultStatus.RS_SUCCESS) {
+					await this.config.onDocumentScanned?.(result);
+				}
+				return result;
+			}
+
 			// Handle continuous scanning mode
 			if (this.config.enableContinuousScanning) {
 				this.shouldStopContinuousScanning = false;
 
+				// A batch, or a file that may hold several pages, is kept page by page up front,
+				// then reviewed before scanning more
+				const isBatch = files.length > 1 || files.some(isMultiPageFile);
+
+				// A single image goes through the views like a capture, only on the first pass
+				let pendingFile = isBatch ? undefined : files[0];
+
+				await this.resumeSavedSession();
+
+				if (isBatch) {
+					await this.importBatch(files);
+				}
+
 				while (!this.shouldStopContinuousScanning) {
 					this.resources.scanMoreRequested = false;
-					const result = await this.performSingleScan(file);
+					this.resources.reviewRequested = false;
+					let result = await this.performSingleScan(pendingFile);
+					pendingFile = undefined;
 
-					// Exit on cancellation (user clicked close button)
+					// Exit on cancellation (user clicked close button); "Done ({count})" and the
+					// thumbnail open the page review first, which may loop back for more scans
 					if (result.status.code === EnumResultStatus.RS_CANCELLED) {
+						if (this.resources.reviewRequested && (await this.reviewPages())) continue;
 						break;
 					}
 
@@ -1533,7 +2533,12 @@ class DocumentScanner {
 
 					// On success, report it; loop back only on "Scan More", else "Done" ends the session.
 					if (result.status.code === EnumResultStatus.RS_SUCCESS) {
-						this.resources.completedScansCount = (this.resources.completedScansCount ?? 0) + 1;
+						// The result view sets the initial rotation itself
+						if (!this.showResultView()) {
+							result = this.orientResult(result);
+							this.resources.onResultUpdated?.(result);
+						}
+						this.addPage(result);
 						await this.config.onDocumentScanned?.(result);
 						// In thumbnail-only mode (no correction/result views) there is no "Scan More" button;
 						// each capture implicitly continues and the user ends via "Done" (RS_CANCELLED) or close.
@@ -1543,22 +2548,30 @@ class DocumentScanner {
 					}
 				}
 
-				// Return the last scanned result
-				return (
-					this.resources.result || {
+				// The session is handed over, so it no longer needs to be resumed
+				await this.sessionStore?.clear();
+
+				// Return the last scanned result along with every page kept in the session
+				return {
+					...(this.resources.result || {
 						status: {
 							code: EnumResultStatus.RS_CANCELLED,
 							message: "Continuous scanning stopped",
 						},
-					}
-				);
+					}),
+					session: this.resources.session,
+				};
 			}
 
 			// Standard single-scan mode
-			const result = await this.performSingleScan(file);
+			if (files.length > 1) {
+				console.warn("Only the first file is processed when continuous scanning is disabled");
+			}
+			let result = await this.performSingleScan(files[0]);
 
 			// If onDocumentScanned callback is defined and scan was successful, invoke it
 			if (result.status.code === EnumResultStatus.RS_SUCCESS) {
+				if (!this.showResultView()) result = this.orientResult(result);
 				await this.config.onDocumentScanned?.(result);
 			}
 
@@ -1569,6 +2582,7 @@ class DocumentScanner {
 				status: {
 					code: EnumResultStatus.RS_FAILED,
 					message: `Document capture flow failed. ${error?.message || error}`,
+					errorCode: toDocumentScannerError(error).code,
 				},
 			};
 		} finally {
@@ -1578,6 +2592,79 @@ class DocumentScanner {
 			this.dispose();
 		}
 	}
+
+	/**
+	 * Detect and correct the document in an image without showing any UI.
+	 *
+	 * @param source - The image to process: a `File`, `Blob`, `ImageBitmap`, `HTMLCanvasElement` or {@link DSImageData}
+	 * @param options - Optional {@link DocumentProcessOptions} to pass explicit boundaries, only run detection, or choose a colour mode
+	 *
+	 * @returns Promise resolving to the {@link DocumentResult}, which includes:
+	 * - `status`: Success, or failed with the reason in `status.message`
+	 * - `correctedImageResult`: Perspective-corrected document image (not set with {@link DocumentProcessOptions.detectOnly})
+	 * - `originalImageResult`: The decoded source image
+	 * - `detectedQuadrilateral`: Boundaries used for the correction
+	 *
+	 * @remarks
+	 * Uses the same engine, license and templates ({@link DocumentScannerConfig.utilizedTemplateNames}, {@link DocumentScannerConfig.templateFilePath}) as {@link launch},
+	 * but never touches any container, loading overlay or camera, so it can run in back-office flows with no scanner on screen.
+	 *
+	 * The engine is initialized on the first call and kept until {@link dispose}. Calls are processed one at a time in call order.
+	 * The last file passed stays open, so its other pages ({@link DocumentProcessOptions.pageIndex}) are processed without reading it again.
+	 * Returns a failed result while a {@link launch} session is in progress; a call already running when {@link launch} is called finishes first.
+	 *
+	 * @example
+	 * ```javascript
+	 * const documentScanner = new Dynamsoft.DocumentScanner({
+	 *     license: "YOUR_LICENSE_KEY_HERE"
+	 * });
+	 *
+	 * for (const file of fileInput.files) {
+	 *     const result = await documentScanner.process(file);
+	 *     if (result.correctedImageResult) {
+	 *         resultContainer.appendChild(result.correctedImageResult.toCanvas());
+	 *     }
+	 * }
+	 *
+	 * documentScanner.dispose();
+	 * ```
+	 *
+	 * @public
+	 */
+	process(source: DocumentSource, options: DocumentProcessOptions = {}): Promise<DocumentResult> {
+		const run = async (): Promise<DocumentResult> => {
+			try {
+				if (this.isCapturing) {
+					throw new DocumentScannerError(
+						EnumDDSErrorCode.SESSION_IN_PROGRESS,
+						"Capture session already in progress",
+					);
+				}
+
+				// Files are read page by page, so PDF and TIFF files are supported as well
+				const image =
+					source instanceof Blob ? await this.readFilePage(source, options.pageIndex ?? 0) : source;
+
+				return this.orientResult(
+					await this.processSource(image, options),
+					options.autoOrientation ?? this.config.enableAutoOrientation,
+				);
+			} catch (error: any) {
+				console.error("Failed to process image:", error?.message || error);
+				return {
+					status: {
+						code: EnumResultStatus.RS_FAILED,
+						message: `Failed to process image: ${error?.message || error}`,
+						errorCode: toDocumentScannerError(error, EnumDDSErrorCode.FILE_DECODE_FAILED).code,
+					},
+				};
+			}
+		};
+
+		const result = this.processQueue.then(run);
+		this.processQueue = result;
+		return result;
+	}
 }
 
 export default DocumentScanner;
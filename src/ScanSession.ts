@@ -0,0 +1,266 @@
+import { DocumentResult, EnumResultStatus, PageEditState, ScannedPage } from "./views/utils/types";
+import { createPdf, PdfExportOptions } from "./views/utils/pdfWriter";
+
+/**
+ * Create the edit state of a page that has not been edited.
+ *
+ * @internal
+ */
+export function createDefaultEditState(): PageEditState {
+	return { rotation: 0, filterId: null };
+}
+
+/**
+ * Multi-page model holding every page kept during a scanning session.
+ *
+ * @remarks
+ * In continuous scanning mode ({@link DocumentScannerConfig.enableContinuousScanning}) each scan the user keeps is appended as a {@link ScannedPage}, and {@link DocumentScanner.launch} resolves with the session in {@link DocumentResult.session}.
+ *
+ * Pages keep their {@link ScannedPage.id} for the lifetime of the session, so they can be reordered, replaced or removed without losing track of them. The views read and mutate the same instance through {@link SharedResources.session}.
+ *
+ * @example
+ * ```javascript
+ * const documentScanner = new Dynamsoft.DocumentScanner({
+ *     license: "YOUR_LICENSE_KEY_HERE",
+ *     enableContinuousScanning: true,
+ * });
+ *
+ * const { session } = await documentScanner.launch();
+ * session?.pages.forEach((page) => {
+ *     document.body.appendChild(page.correctedImageResult.toCanvas());
+ * });
+ * ```
+ *
+ * @public
+ */
+export default class ScanSession {
+	private pageList: ScannedPage[] = [];
+	private nextPageNumber = 1;
+	private listeners = new Set<() => void>();
+
+	/**
+	 * The pages of the session, in page order.
+	 *
+	 * @public
+	 */
+	get pages(): readonly ScannedPage[] {
+		return this.pageList;
+	}
+
+	/**
+	 * Number of pages in the session.
+	 *
+	 * @public
+	 */
+	get count(): number {
+		return this.pageList.length;
+	}
+
+	/**
+	 * Get a page by its identifier.
+	 *
+	 * @param id - The {@link ScannedPage.id} of the page
+	 * @returns The page, or `undefined` if no page has this identifier
+	 *
+	 * @public
+	 */
+	getPage(id: string): ScannedPage | undefined {
+		return this.pageList.find((page) => page.id === id);
+	}
+
+	/**
+	 * Get the position of a page in the session.
+	 *
+	 * @param id - The {@link ScannedPage.id} of the page
+	 * @returns The zero-based index of the page, or -1 if no page has this identifier
+	 *
+	 * @public
+	 */
+	indexOf(id: string): number {
+		return this.pageList.findIndex((page) => page.id === id);
+	}
+
+	/**
+	 * Append a scan result to the session as a new page.
+	 *
+	 * @param result - The {@link DocumentResult} to store
+	 * @returns The newly created {@link ScannedPage}
+	 *
+	 * @public
+	 */
+	addPage(result: DocumentResult): ScannedPage {
+		const page: ScannedPage = {
+			id: this.createPageId(),
+			originalImageResult: result.originalImageResult,
+			detectedQuadrilateral: result.detectedQuadrilateral,
+			baseCorrectedImageResult: result._baseCorrectedImageResult ?? result.correctedImageResult,
+			correctedImageResult: result.correctedImageResult,
+			appliedRotation: result.appliedRotation,
+			editState: { ...createDefaultEditState(), ...result._editState },
+			createdAt: Date.now(),
+			_flowType: result._flowType,
+		};
+		this.pageList.push(page);
+		this.notify();
+		return page;
+	}
+
+	/**
+	 * Append pages saved by a previous session, keeping their identifiers.
+	 *
+	 * @param pages - The pages to append, in page order
+	 *
+	 * @internal
+	 */
+	restorePages(pages: ScannedPage[]): void {
+		if (!pages.length) return;
+
+		this.pageList.push(...pages);
+		this.notify();
+	}
+
+	/**
+	 * Update the content of an existing page, keeping its identifier and position.
+	 *
+	 * @param id - The {@link ScannedPage.id} of the page
+	 * @param changes - The page properties to replace
+	 * @returns The updated page, or `undefined` if no page has this identifier
+	 *
+	 * @public
+	 */
+	updatePage(
+		id: string,
+		changes: Partial<Omit<ScannedPage, "id" | "createdAt">>,
+	): ScannedPage | undefined {
+		const page = this.getPage(id);
+		if (!page) return undefined;
+
+		Object.assign(page, changes);
+		this.notify();
+		return page;
+	}
+
+	/**
+	 * Remove a page from the session.
+	 *
+	 * @param id - The {@link ScannedPage.id} of the page
+	 * @returns `true` if a page was removed
+	 *
+	 * @public
+	 */
+	removePage(id: string): boolean {
+		const index = this.indexOf(id);
+		if (index < 0) return false;
+
+		this.pageList.splice(index, 1);
+		this.notify();
+		return true;
+	}
+
+	/**
+	 * Move a page to a new position.
+	 *
+	 * @param id - The {@link ScannedPage.id} of the page
+	 * @param toIndex - The zero-based target index, clamped to the page range
+	 * @returns `true` if the page was found
+	 *
+	 * @public
+	 */
+	movePage(id: string, toIndex: number): boolean {
+		const fromIndex = this.indexOf(id);
+		if (fromIndex < 0) return false;
+
+		const target = Math.max(0, Math.min(toIndex, this.pageList.length - 1));
+		if (target !== fromIndex) {
+			const [page] = this.pageList.splice(fromIndex, 1);
+			this.pageList.splice(target, 0, page);
+			this.notify();
+		}
+		return true;
+	}
+
+	/**
+	 * Remove every page from the session.
+	 *
+	 * @public
+	 */
+	clear(): void {
+		this.pageList = [];
+		this.notify();
+	}
+
+	/**
+	 * Convert a page back into a {@link DocumentResult}.
+	 *
+	 * @param id - The {@link ScannedPage.id} of the page
+	 * @returns The result, or `undefined` if no page has this identifier
+	 *
+	 * @public
+	 */
+	toResult(id: string): DocumentResult | undefined {
+		const page = this.getPage(id);
+		return page && this.pageToResult(page);
+	}
+
+	/**
+	 * Convert every page into a {@link DocumentResult}, in page order.
+	 *
+	 * @public
+	 */
+	toResults(): DocumentResult[] {
+		return this.pageList.map((page) => this.pageToResult(page));
+	}
+
+	/**
+	 * Export every page of the session as a multi-page PDF, in page order.
+	 *
+	 * @param options - The {@link PdfExportOptions} for page size, resolution, compression and metadata
+	 * @returns A promise resolving to a PDF `Blob`
+	 *
+	 * @throws {Error} If the session has no page with a corrected image
+	 *
+	 * @see {@link createPdf}
+	 *
+	 * @public
+	 */
+	toPdf(options?: PdfExportOptions): Promise<Blob> {
+		const images = this.pageList.flatMap((page) =>
+			page.correctedImageResult ? [page.correctedImageResult] : [],
+		);
+		return createPdf(images, options);
+	}
+
+	/**
+	 * Register a listener called whenever pages are added, updated, removed or reordered.
+	 *
+	 * @returns A function that unregisters the listener
+	 *
+	 * @internal
+	 */
+	subscribe(listener: () => void): () => void {
+		this.listeners.add(listener);
+		return () => this.listeners.delete(listener);
+	}
+
+	private pageToResult(page: ScannedPage): DocumentResult {
+		return {
+			status: {
+				code: EnumResultStatus.RS_SUCCESS,
+				message: "Success",
+			},
+			originalImageResult: page.originalImageResult,
+			correctedImageResult: page.correctedImageResult,
+			detectedQuadrilateral: page.detectedQuadrilateral,
+			appliedRotation: page.appliedRotation,
+			_flowType: page._flowType,
+		};
+	}
+
+	private createPageId(): string {
+		return `page-${Date.now().toString(36)}-${this.nextPageNumber++}`;
+	}
+
+	private notify(): void {
+		this.listeners.forEach((listener) => listener());
+	}
+}
@@ -1,21 +1,36 @@
 import DocumentScanner from "../DocumentScanner";
 import DocumentNormalizerView from "../views/DocumentCorrectionView";
-import DocumentScannerView from "../views/DocumentScannerView";
+import DocumentScannerView, { ID_CARD_SCAN_REGION } from "../views/DocumentScannerView";
 import DocumentResultView from "../views/DocumentResultView";
-import { EnumResultStatus, EnumFlowType, EnumDDSViews } from "../views/utils/types";
+import DocumentPagesView from "../views/DocumentPagesView";
+import ScanSession from "../ScanSession";
+import { createPdf } from "../views/utils/pdfWriter";
+import { DocumentScannerError } from "../views/utils/errors";
+import {
+	EnumResultStatus,
+	EnumFlowType,
+	EnumDDSViews,
+	EnumDDSErrorCode,
+} from "../views/utils/types";
 
 export const DDS = {
 	DocumentScanner,
 	DocumentNormalizerView,
 	DocumentScannerView,
 	DocumentResultView,
+	DocumentPagesView,
+	ScanSession,
+	createPdf,
+	ID_CARD_SCAN_REGION,
+	DocumentScannerError,
 	EnumResultStatus,
 	EnumFlowType,
 	EnumDDSViews,
+	EnumDDSErrorCode,
 };
 
 export type { DocumentScannerConfig, SharedResources } from "../DocumentScanner";
-export type { DocumentScannerViewConfig } from "../views/DocumentScannerView";
+export type { DocumentScannerViewConfig, ScanRegion } from "../views/DocumentScannerView";
 export type {
 	DocumentCorrectionViewConfig,
 	DocumentCorrectionViewToolbarButtonsConfig,
@@ -24,19 +39,55 @@ export type {
 	DocumentResultViewConfig,
 	DocumentResultViewToolbarButtonsConfig,
 } from "../views/DocumentResultView";
+export type {
+	DocumentPagesViewConfig,
+	DocumentPagesViewToolbarButtonsConfig,
+} from "../views/DocumentPagesView";
 export type {
 	DocumentResult,
 	UtilizedTemplateNames,
 	ResultStatus,
 	ToolbarButtonConfig,
+	ScannedPage,
+	PageEditState,
+	ImageAdjustments,
+	CropRect,
+	QuadValidationIssue,
+	QuadValidationResult,
+	DocumentColorMode,
+	DocumentFilter,
+	BinarizationOptions,
+	DocumentSource,
+	DocumentProcessOptions,
+	DocumentScannerEventMap,
+	DocumentScannerEventHandler,
 } from "../views/utils/types";
+export type {
+	PdfExportOptions,
+	PdfMetadata,
+	PdfPageImage,
+	PdfPageSize,
+} from "../views/utils/pdfWriter";
+export type {
+	DocumentExportFileInfo,
+	DocumentExportFormat,
+	DocumentExportOptions,
+} from "../views/utils/imageExport";
+export type { SavedSessionInfo, SessionPersistenceConfig } from "../views/utils/sessionStore";
+export type { IdCardModeConfig, IdCardResult, IdCardSide } from "../views/utils/idCard";
 
 export {
 	DocumentScanner,
 	DocumentNormalizerView,
 	DocumentScannerView,
 	DocumentResultView,
+	DocumentPagesView,
+	ScanSession,
+	createPdf,
+	ID_CARD_SCAN_REGION,
+	DocumentScannerError,
 	EnumResultStatus,
+	EnumDDSErrorCode,
 };
 
 export default DDS;
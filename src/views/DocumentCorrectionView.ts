@@ -1,5 +1,4 @@
 import {
-	EnumCapturedResultItemType,
 	Point,
 	Quadrilateral,
 	DrawingLayer,
@@ -9,9 +8,18 @@ import {
 	DetectedQuadResultItem,
 	DeskewedImageResultItem,
 	DSImageData,
+	_toCanvas,
 } from "dynamsoft-capture-vision-bundle";
 import { SharedResources } from "../DocumentScanner";
-import { createControls, createStyle, getElement, getThemeColor, shouldCorrectImage } from "./utils";
+import {
+	createControls,
+	createStyle,
+	getElement,
+	getString,
+	getThemeColor,
+	shouldCorrectImage,
+	StringConfig,
+} from "./utils";
 import { DDS_ICONS } from "./utils/icons";
 import {
 	ToolbarButtonConfig,
@@ -21,7 +29,19 @@ import {
 	UtilizedTemplateNames,
 	ToolbarButton,
 	EnumFlowType,
+	EnumDDSViews,
+	EnumDDSErrorCode,
+	QuadValidationIssue,
+	QuadValidationResult,
 } from "./utils/types";
+import {
+	detectDocumentBoundaries,
+	detectDocumentBoundary,
+	normalizeDocument,
+} from "./utils/documentProcessing";
+import { DocumentScannerError, reportError, toDocumentScannerError } from "./utils/errors";
+import { createEdgeMap, EdgeMap, snapCorner, snapEdge } from "./utils/edgeSnapping";
+import { validateQuad } from "./utils/quadValidation";
 import DocumentScannerView from "./DocumentScannerView";
 
 /**
@@ -92,6 +112,32 @@ export interface DocumentCorrectionViewToolbarButtonsConfig {
 	 * @public
 	 */
 	detectBorders?: ToolbarButtonConfig;
+	/**
+	 * Configuration for the add document button. Default behavior: adds a boundary for another document in the image.
+	 *
+	 * @remarks
+	 * Only shown when {@link DocumentScannerConfig.enableMultiDocument} is enabled.
+	 *
+	 * @public
+	 */
+	addDocument?: ToolbarButtonConfig;
+	/**
+	 * Configuration for the remove document button. Default behavior: removes the selected boundary.
+	 *
+	 * @remarks
+	 * Only shown when {@link DocumentScannerConfig.enableMultiDocument} is enabled.
+	 *
+	 * @public
+	 */
+	removeDocument?: ToolbarButtonConfig;
+	/**
+	 * Configuration for the preview button. Default behavior: shows or hides a preview of the corrected document for the current boundaries.
+	 *
+	 * @see {@link DocumentCorrectionViewConfig.showPreview}
+	 *
+	 * @public
+	 */
+	preview?: ToolbarButtonConfig;
 	/**
 	 * Configuration for the apply button. Default behavior: applies the current boundary adjustments and proceeds with the workflow.
 	 *
@@ -169,10 +215,39 @@ export interface DocumentCorrectionViewConfig {
 	 * Handler called when the user clicks the "Apply" button.
 	 *
 	 * @param result - The {@link DocumentResult} of the scan, including the original image, corrected image, detected boundaries, and scan status
+	 * @param validation - The {@link QuadValidationResult} of the applied boundary. The "Apply" button is disabled while the boundary is invalid, so it is only invalid when {@link DocumentCorrectionView.confirmCorrection} is called directly
+	 * @param additionalValidations - The {@link QuadValidationResult} of each of the other boundaries in multi-document mode, in the order of {@link DocumentResult.additionalDocuments}; empty otherwise
 	 *
 	 * @public
 	 */
-	onFinish?: (result: DocumentResult) => void;
+	onFinish?: (
+		result: DocumentResult,
+		validation: QuadValidationResult,
+		additionalValidations: QuadValidationResult[],
+	) => void;
+	/**
+	 * Snap dragged corners and edges of the document boundary to nearby paper edges in the image.
+	 *
+	 * @remarks
+	 * While a corner or edge is dragged within a short distance of a strong edge in the image, it is pulled onto that edge. Dragging further away releases it.
+	 *
+	 * @defaultValue true
+	 *
+	 * @public
+	 */
+	enableEdgeSnapping?: boolean;
+	/**
+	 * Show the preview of the corrected document when the view opens.
+	 *
+	 * @remarks
+	 * The preview shows the perspective-corrected document for the current boundaries, produced by {@link DocumentCorrectionView.correctImage} like the final result. It is updated shortly after the boundaries stop changing.
+	 * The user can show and hide it with the "Preview" toolbar button; their choice is kept while the view is reopened.
+	 *
+	 * @defaultValue false
+	 *
+	 * @public
+	 */
+	showPreview?: boolean;
 	/**
 	 * @privateRemarks
 	 * Changes the label of the "Apply" button to "Done" if the {@link DocumentResultView} is not configured.
@@ -187,6 +262,28 @@ export default class DocumentCorrectionView {
 	private layer!: DrawingLayer;
 	private currentCorrectionResolver?: (result: DocumentResult) => void;
 	private quadColor: string = "#fe8e14";
+	private invalidQuadColor: string = "#e5484d";
+	// The boundary being adjusted; in multi-document mode the layer holds one boundary per document
+	private selectedQuad?: QuadDrawingItem;
+	// Validation of the selected boundary, and whether any boundary is invalid, updated while they are dragged
+	private quadValidation?: QuadValidationResult;
+	private hasInvalidQuad = false;
+	private warning?: HTMLElement;
+	// Focusable stand-ins for the boundary corners, for keyboard and screen reader users
+	private cornerHandles: HTMLElement[] = [];
+	private cornerHandleObserver?: ResizeObserver;
+	private announcer?: HTMLElement;
+	// Preview of the corrected document; renders run one at a time, and a change during a render queues another
+	private previewVisible: boolean;
+	private preview?: HTMLCanvasElement;
+	private previewTimer?: number;
+	private previewTask?: Promise<void>;
+	private previewQueued = false;
+	// Magnifier bubble shown while a corner is dragged
+	private loupe?: HTMLCanvasElement;
+	// The original image as a canvas and its gradients, computed on the first drag
+	private sourceCanvas?: HTMLCanvasElement;
+	private edgeMap?: EdgeMap;
 
 	/**
 	 * The current scan result, guaranteed present while the correction view is active.
@@ -222,6 +319,7 @@ export default class DocumentCorrectionView {
 			detect: config.utilizedTemplateNames?.detect || DEFAULT_TEMPLATE_NAMES.detect,
 			normalize: config.utilizedTemplateNames?.normalize || DEFAULT_TEMPLATE_NAMES.normalize,
 		};
+		this.previewVisible = !!config.showPreview;
 	}
 
 	async initialize(): Promise<void> {
@@ -257,16 +355,23 @@ export default class DocumentCorrectionView {
 		this.imageEditorView.setOriginalImage(this.originalImage);
 
 		this.quadColor = getThemeColor("correctionQuad");
+		this.invalidQuadColor = getThemeColor("correctionQuadInvalid");
 
 		this.setupDrawingLayerStyle();
 		this.setupInitialDetectedQuad();
 		this.setupCorrectionControls();
+		this.setupQuadSelection();
+		this.setupEdgeSnapping();
 		this.setupQuadConstraints();
+		this.setupQuadValidation(correctionViewWrapper);
+		this.setupCornerHandles(correctionViewWrapper);
+		this.setupPreview(correctionViewWrapper);
+		this.setupLoupe(correctionViewWrapper);
 
 		// Hide retake button on flow.STATIC_FILE
 		if (this.resources.result._flowType === EnumFlowType.STATIC_FILE) {
 			const retakeBtn = document.querySelector("#dds-correction-retake") as HTMLElement;
-			retakeBtn.style.display = "none";
+			retakeBtn.classList.add("hide");
 		}
 	}
 
@@ -351,6 +456,660 @@ export default class DocumentCorrectionView {
 		});
 	}
 
+	/**
+	 * Set up live validation of the document boundary.
+	 *
+	 * @param wrapper - The view wrapper the warning message is added to
+	 *
+	 * @remarks
+	 * Validates the boundary on every drag step, after the constraints of {@link setupQuadConstraints}, and
+	 * whenever a new boundary is set. Called by {@link initialize}.
+	 *
+	 * @see {@link updateQuadValidation} - Shows the validation result
+	 *
+	 * @internal
+	 */
+	private setupQuadValidation(wrapper: HTMLElement) {
+		this.warning = document.createElement("div");
+		this.warning.className = "dds-correction-warning";
+		this.warning.setAttribute("role", "status");
+		this.warning.setAttribute("aria-live", "polite");
+		wrapper.appendChild(this.warning);
+
+		const canvas = this.layer.fabricCanvas;
+		canvas.on("object:scaling", () => this.updateQuadValidation());
+		canvas.on("object:modified", () => this.updateQuadValidation());
+		this.updateQuadValidation();
+	}
+
+	/**
+	 * Validate the document boundaries and show the result.
+	 *
+	 * @remarks
+	 * While a boundary is invalid, it is drawn in {@link ThemeColor.correctionQuadInvalid}, a message explains the
+	 * first issue (of the selected boundary if it is invalid) and the "Apply" button is disabled.
+	 *
+	 * @see {@link validateQuad} - The validation rules
+	 *
+	 * @internal
+	 */
+	private updateQuadValidation() {
+		const selected = this.getQuadObject();
+		if (!selected?.points) return;
+
+		const { width, height } = this.originalImage;
+		let shownIssue: QuadValidationIssue | undefined;
+		this.hasInvalidQuad = false;
+		for (const obj of this.getQuadItems().map((item) => item._getFabricObject())) {
+			const validation = validateQuad(obj.points, width, height);
+			if (obj === selected) {
+				this.quadValidation = validation;
+				shownIssue = validation.issues[0] ?? shownIssue;
+			} else {
+				shownIssue ??= validation.issues[0];
+			}
+			this.hasInvalidQuad ||= !validation.isValid;
+
+			const color = validation.isValid ? this.quadColor : this.invalidQuadColor;
+			obj.set({
+				stroke: color,
+				cornerColor: obj.cornerColor === "transparent" ? "transparent" : color,
+				dirty: true,
+			});
+		}
+		this.layer.fabricCanvas.renderAll();
+
+		if (this.warning) {
+			this.warning.textContent = shownIssue ? getString(QUAD_ISSUE_MESSAGES[shownIssue]) : "";
+			this.warning.classList.toggle("show", !!shownIssue);
+		}
+		document
+			.getElementById("dds-correction-apply")
+			?.classList.toggle("disabled", this.hasInvalidQuad);
+	}
+
+	/**
+	 * Retrieve the Fabric.js polygon of the selected document boundary, if any.
+	 *
+	 * @internal
+	 */
+	private getQuadObject(): any {
+		return (this.selectedQuad ?? this.getQuadItems()[0])?._getFabricObject();
+	}
+
+	/**
+	 * Retrieve the document boundaries on the drawing layer; the first one is the most prominent document.
+	 *
+	 * @internal
+	 */
+	private getQuadItems(): QuadDrawingItem[] {
+		return (this.layer?.getDrawingItems() ?? []) as QuadDrawingItem[];
+	}
+
+	/**
+	 * Check whether the user can edit several boundaries, one per document.
+	 *
+	 * @returns `true` in multi-document mode ({@link DocumentScannerConfig.enableMultiDocument}), except while a single page is re-cropped from the {@link DocumentPagesView}
+	 *
+	 * @internal
+	 */
+	private isMultiDocument(): boolean {
+		return (this.resources.maxDocumentsPerImage ?? 1) > 1 && !this.resources.reviewingPageId;
+	}
+
+	/**
+	 * Set up selection of a document boundary by tapping it, in multi-document mode.
+	 *
+	 * @remarks
+	 * The corner handles, warning and preview follow the selected boundary. Called by {@link initialize}.
+	 *
+	 * @see {@link selectQuad} - Selects a boundary
+	 *
+	 * @internal
+	 */
+	private setupQuadSelection() {
+		const canvas = this.layer.fabricCanvas;
+		const handleSelection = (e: any) => {
+			const obj = e.selected?.[0];
+			const item = this.getQuadItems().find((quad) => quad._getFabricObject() === obj);
+			if (item && item !== this.selectedQuad) this.selectQuad(item);
+		};
+		canvas.on("selection:created", handleSelection);
+		canvas.on("selection:updated", handleSelection);
+		this.updateDocumentButtons();
+	}
+
+	/**
+	 * Make a document boundary the one being adjusted.
+	 *
+	 * @param item - The boundary to select, on the drawing layer
+	 *
+	 * @internal
+	 */
+	private selectQuad(item: QuadDrawingItem) {
+		this.selectedQuad = item;
+		this.layer.fabricCanvas.setActiveObject(item._getFabricObject());
+		this.layer.fabricCanvas.renderAll();
+
+		this.updateQuadValidation();
+		this.updateCornerHandles();
+		this.schedulePreview();
+	}
+
+	/**
+	 * Enable the add and remove document buttons as the number of boundaries allows.
+	 *
+	 * @internal
+	 */
+	private updateDocumentButtons() {
+		const count = this.getQuadItems().length;
+		document
+			.getElementById("dds-correction-addDocument")
+			?.classList.toggle("disabled", count >= (this.resources.maxDocumentsPerImage ?? 1));
+		document
+			.getElementById("dds-correction-removeDocument")
+			?.classList.toggle("disabled", count <= 1);
+	}
+
+	/**
+	 * Set up a focusable handle over each boundary corner, so the boundary can be adjusted from the keyboard.
+	 *
+	 * @param wrapper - The view wrapper the handles are added to
+	 *
+	 * @remarks
+	 * The handles follow the corners but let pointer events through to the drawing layer. A focused handle moves
+	 * its corner with the arrow keys, by one screen pixel or by {@link CORNER_NUDGE_LARGE_STEP} with <kbd>Shift</kbd>,
+	 * and the new position is announced through a live region. Called by {@link initialize}.
+	 *
+	 * @see {@link handleCornerKeydown} - Moves a corner
+	 *
+	 * @internal
+	 */
+	private setupCornerHandles(wrapper: HTMLElement) {
+		const hint = document.createElement("div");
+		hint.id = "dds-correction-corner-hint";
+		hint.className = "dds-correction-sr-only";
+		hint.textContent = getString("cornerHandleHint");
+
+		this.announcer = document.createElement("div");
+		this.announcer.className = "dds-correction-sr-only";
+		this.announcer.setAttribute("aria-live", "polite");
+
+		this.cornerHandles = [0, 1, 2, 3].map((index) => {
+			const handle = document.createElement("div");
+			handle.className = "dds-correction-corner-handle";
+			handle.tabIndex = 0;
+			// Lets screen readers pass the arrow keys through
+			handle.setAttribute("role", "application");
+			handle.setAttribute("aria-describedby", hint.id);
+			handle.addEventListener("keydown", (event) => this.handleCornerKeydown(index, event));
+			return handle;
+		});
+		wrapper.append(hint, this.announcer, ...this.cornerHandles);
+
+		const canvas = this.layer.fabricCanvas;
+		canvas.on("object:scaling", () => this.updateCornerHandles());
+		canvas.on("object:modified", () => this.updateCornerHandles());
+		this.cornerHandleObserver = new ResizeObserver(() => this.updateCornerHandles());
+		this.cornerHandleObserver.observe(wrapper);
+		this.updateCornerHandles();
+	}
+
+	/**
+	 * Move the corner handles over the boundary corners and label them by position.
+	 *
+	 * @internal
+	 */
+	private updateCornerHandles() {
+		const obj = this.getQuadObject();
+		const wrapper = this.cornerHandles[0]?.parentElement;
+		const upperCanvas: HTMLElement | undefined = this.layer?.fabricCanvas.upperCanvasEl;
+		if (!obj?.points || !wrapper || !upperCanvas) return;
+
+		const wrapperRect = wrapper.getBoundingClientRect();
+		const canvasRect = upperCanvas.getBoundingClientRect();
+		const scale = this.getDisplayScale();
+		this.cornerHandles.forEach((handle, index) => {
+			const point: Point | undefined = obj.points[index];
+			if (!point) return;
+			handle.style.left = `${canvasRect.left - wrapperRect.left + point.x * scale}px`;
+			handle.style.top = `${canvasRect.top - wrapperRect.top + point.y * scale}px`;
+			handle.setAttribute("aria-label", this.getCornerLabel(obj.points, index));
+		});
+	}
+
+	/**
+	 * Retrieve the accessible label of a boundary corner, such as "Top left corner", from where it lies in the boundary.
+	 *
+	 * @internal
+	 */
+	private getCornerLabel(points: Point[], index: number): string {
+		const centerX = points.reduce((sum, point) => sum + point.x, 0) / points.length;
+		const centerY = points.reduce((sum, point) => sum + point.y, 0) / points.length;
+		const { x, y } = points[index];
+		if (y < centerY) {
+			return getString(x < centerX ? "cornerTopLeftLabel" : "cornerTopRightLabel");
+		}
+		return getString(x < centerX ? "cornerBottomLeftLabel" : "cornerBottomRightLabel");
+	}
+
+	/**
+	 * Move a boundary corner with the arrow keys and announce its new position.
+	 *
+	 * @param index - Index of the corner in the boundary
+	 * @param event - The keydown event of the corner handle
+	 *
+	 * @remarks
+	 * The move is finished like a drag by firing `object:modified` on the drawing layer, which constrains and
+	 * validates the boundary and moves the handles.
+	 *
+	 * @internal
+	 */
+	private handleCornerKeydown(index: number, event: KeyboardEvent) {
+		const directions: Record<string, [number, number]> = {
+			ArrowLeft: [-1, 0],
+			ArrowRight: [1, 0],
+			ArrowUp: [0, -1],
+			ArrowDown: [0, 1],
+		};
+		const direction = directions[event.key];
+		const obj = this.getQuadObject();
+		const point: Point | undefined = obj?.points?.[index];
+		if (!direction || !point) return;
+		event.preventDefault();
+
+		const step = (event.shiftKey ? CORNER_NUDGE_LARGE_STEP : 1) / this.getDisplayScale();
+		const bounds = this.getCanvasBounds();
+		point.x = Math.max(0, Math.min(bounds.width, point.x + direction[0] * step));
+		point.y = Math.max(0, Math.min(bounds.height, point.y + direction[1] * step));
+
+		// Refit the polygon around its points, as after a drag
+		obj._setPositionDimensions({});
+		obj.setCoords();
+		obj.set({ dirty: true });
+		const canvas = this.layer.fabricCanvas;
+		canvas.fire("object:modified", { target: obj });
+		canvas.renderAll();
+
+		if (this.announcer) {
+			this.announcer.textContent = getString("cornerPositionMsg")
+				.replace("{corner}", this.getCornerLabel(obj.points, index))
+				.replace("{x}", String(Math.round(point.x)))
+				.replace("{y}", String(Math.round(point.y)));
+		}
+	}
+
+	/**
+	 * Set up the preview of the corrected document.
+	 *
+	 * @param wrapper - The view wrapper the preview is added to
+	 *
+	 * @remarks
+	 * The preview is rendered {@link PREVIEW_DELAY} milliseconds after the boundary stops changing, so a drag does
+	 * not start a correction on every step. Called by {@link initialize}.
+	 *
+	 * @see {@link renderPreview} - Renders the preview
+	 *
+	 * @internal
+	 */
+	private setupPreview(wrapper: HTMLElement) {
+		const pane = document.createElement("div");
+		pane.className = "dds-correction-preview";
+		this.preview = document.createElement("canvas");
+		pane.appendChild(this.preview);
+		wrapper.appendChild(pane);
+
+		const canvas = this.layer.fabricCanvas;
+		canvas.on("object:scaling", () => this.schedulePreview());
+		canvas.on("object:modified", () => this.schedulePreview());
+		this.updatePreviewVisibility();
+	}
+
+	/**
+	 * Show or hide the preview of the corrected document.
+	 *
+	 * @remarks
+	 * Triggered by clicking the preview button created in {@link createControls}.
+	 *
+	 * @internal
+	 */
+	private handleTogglePreview() {
+		this.previewVisible = !this.previewVisible;
+		this.updatePreviewVisibility();
+	}
+
+	/**
+	 * Show the preview pane and the pressed state of the preview button as {@link previewVisible} says, rendering
+	 * the preview when it is shown.
+	 *
+	 * @internal
+	 */
+	private updatePreviewVisibility() {
+		this.preview?.parentElement?.classList.toggle("show", this.previewVisible);
+		document
+			.getElementById("dds-correction-preview")
+			?.setAttribute("aria-pressed", String(this.previewVisible));
+		if (this.previewVisible) this.renderPreview();
+	}
+
+	/**
+	 * Render the preview once the boundary has not changed for {@link PREVIEW_DELAY} milliseconds.
+	 *
+	 * @internal
+	 */
+	private schedulePreview() {
+		if (!this.previewVisible) return;
+		window.clearTimeout(this.previewTimer);
+		this.previewTimer = window.setTimeout(() => this.renderPreview(), PREVIEW_DELAY);
+	}
+
+	/**
+	 * Render the preview for the current boundary, or queue another render if one is running.
+	 *
+	 * @remarks
+	 * An invalid boundary is not corrected; the previous preview is dimmed instead.
+	 *
+	 * @internal
+	 */
+	private renderPreview() {
+		window.clearTimeout(this.previewTimer);
+		if (this.previewTask) {
+			this.previewQueued = true;
+			return;
+		}
+
+		const obj = this.getQuadObject();
+		const pane = this.preview?.parentElement;
+		pane?.classList.toggle("invalid", this.quadValidation?.isValid === false);
+		if (!obj?.points || this.quadValidation?.isValid === false) return;
+
+		const points: Point[] = obj.points.map(({ x, y }: Point) => ({ x, y }));
+		const preview = this.preview;
+		const task = this.correctImage(points as Quadrilateral["points"])
+			.then((corrected) => {
+				// Drop the result if the view was disposed while correcting
+				const ctx = preview?.getContext("2d");
+				if (!corrected || !preview || preview !== this.preview || !ctx) return;
+
+				const source = corrected.toCanvas();
+				const scale = Math.min(1, PREVIEW_SIZE / Math.max(source.width, source.height));
+				preview.width = Math.max(1, Math.round(source.width * scale));
+				preview.height = Math.max(1, Math.round(source.height * scale));
+				ctx.drawImage(source, 0, 0, preview.width, preview.height);
+			})
+			.catch((error) => console.warn("Failed to render the correction preview:", error))
+			.finally(() => {
+				if (this.previewTask !== task) return;
+				this.previewTask = undefined;
+				if (this.previewQueued) {
+					this.previewQueued = false;
+					if (this.preview) this.renderPreview();
+				}
+			});
+		this.previewTask = task;
+	}
+
+	/**
+	 * Cancel pending preview renders and wait for a running one, so it does not share the
+	 * {@link SharedResources.cvRouter} with another task.
+	 *
+	 * @remarks
+	 * Also waits for a preview that was running when the view was disposed.
+	 *
+	 * @internal
+	 */
+	async stopPreview() {
+		window.clearTimeout(this.previewTimer);
+		this.previewQueued = false;
+		await this.previewTask;
+	}
+
+	/**
+	 * Retrieve the color of the document boundary: {@link ThemeColor.correctionQuad}, or
+	 * {@link ThemeColor.correctionQuadInvalid} while the boundary is invalid.
+	 *
+	 * @internal
+	 */
+	private getQuadColor(): string {
+		return this.quadValidation?.isValid === false ? this.invalidQuadColor : this.quadColor;
+	}
+
+	/**
+	 * Set up the magnifier loupe that shows the original image under a corner while it is dragged.
+	 *
+	 * @param wrapper - The view wrapper the loupe is added to
+	 *
+	 * @remarks
+	 * The finger covers the corner it drags on a phone, so the loupe floats above the touch point and shows the
+	 * original image around the corner at {@link LOUPE_ZOOM} times its displayed size, with the boundary and a
+	 * crosshair in {@link ThemeColor.correctionQuad}. Called by {@link initialize}, after {@link setupQuadConstraints}
+	 * so the loupe shows the constrained corner.
+	 *
+	 * @internal
+	 */
+	private setupLoupe(wrapper: HTMLElement) {
+		const canvas = this.layer.fabricCanvas;
+
+		this.loupe = document.createElement("canvas");
+		this.loupe.className = "dds-correction-loupe";
+		wrapper.appendChild(this.loupe);
+
+		canvas.on("object:scaling", (e: any) => {
+			const focus = this.getDraggedHandle(e.target, e.transform?.corner) ?? e.pointer;
+			if (e.target?.points && focus && e.e) this.updateLoupe(e.target.points, focus, e.e);
+		});
+		canvas.on("mouse:up", () => this.loupe?.classList.remove("show"));
+	}
+
+	/**
+	 * Draw the loupe around the dragged corner or edge, and place it above the pointer.
+	 *
+	 * @param points - The boundary corners, in image coordinates
+	 * @param focus - The point shown at the center of the loupe, in image coordinates
+	 * @param event - The pointer event of the drag
+	 *
+	 * @internal
+	 */
+	private updateLoupe(points: Point[], focus: Point, event: MouseEvent | TouchEvent) {
+		const loupe = this.loupe;
+		const ctx = loupe?.getContext("2d");
+		if (!loupe || !ctx) return;
+
+		const client = "touches" in event ? (event.touches[0] ?? event.changedTouches[0]) : event;
+		if (!client) return;
+
+		const source = this.getSourceCanvas();
+		const size = LOUPE_SIZE * (window.devicePixelRatio || 1);
+		loupe.width = size;
+		loupe.height = size;
+
+		// Loupe pixels per image pixel
+		const scale = this.getDisplayScale() * LOUPE_ZOOM * (size / LOUPE_SIZE);
+		const toLoupe = (point: Point) => ({
+			x: (point.x - focus.x) * scale + size / 2,
+			y: (point.y - focus.y) * scale + size / 2,
+		});
+
+		ctx.fillStyle = "#000000";
+		ctx.fillRect(0, 0, size, size);
+		ctx.imageSmoothingEnabled = false;
+		const origin = toLoupe({ x: 0, y: 0 });
+		ctx.drawImage(source, origin.x, origin.y, source.width * scale, source.height * scale);
+
+		ctx.strokeStyle = this.getQuadColor();
+		ctx.lineWidth = 2 * (size / LOUPE_SIZE);
+		ctx.beginPath();
+		points.forEach((point, index) => {
+			const { x, y } = toLoupe(point);
+			if (index === 0) ctx.moveTo(x, y);
+			else ctx.lineTo(x, y);
+		});
+		ctx.closePath();
+		ctx.moveTo(size / 2, size / 2 - size / 8);
+		ctx.lineTo(size / 2, size / 2 + size / 8);
+		ctx.moveTo(size / 2 - size / 8, size / 2);
+		ctx.lineTo(size / 2 + size / 8, size / 2);
+		ctx.stroke();
+
+		// Float above the finger, or below it near the top of the screen
+		const gap = 32;
+		const top =
+			client.clientY - LOUPE_SIZE - gap >= 0
+				? client.clientY - LOUPE_SIZE - gap
+				: client.clientY + gap;
+		const left = Math.max(
+			0,
+			Math.min(window.innerWidth - LOUPE_SIZE, client.clientX - LOUPE_SIZE / 2),
+		);
+		Object.assign(loupe.style, { left: `${left}px`, top: `${top}px` });
+		loupe.classList.toggle("invalid", this.quadValidation?.isValid === false);
+		loupe.classList.add("show");
+	}
+
+	/**
+	 * Set up snapping of dragged corners and edges to nearby paper edges, unless
+	 * {@link DocumentCorrectionViewConfig.enableEdgeSnapping} is `false`.
+	 *
+	 * @remarks
+	 * Runs on every drag step before the constraints of {@link setupQuadConstraints}, starting again from the
+	 * pointer position each time, so a corner or edge is only held while the pointer stays within
+	 * {@link EDGE_SNAP_DISTANCE} of a paper edge. Called by {@link initialize}.
+	 *
+	 * @internal
+	 */
+	private setupEdgeSnapping() {
+		if (this.config.enableEdgeSnapping === false) return;
+
+		this.layer.fabricCanvas.on("object:scaling", (e: any) => {
+			const obj = e.target;
+			const control = obj?.controls?.[e.transform?.corner];
+			if (!obj?.points || !control) return;
+
+			this.edgeMap ??= createEdgeMap(this.getSourceCanvas());
+			if (!this.edgeMap) return;
+
+			const points: Point[] = obj.points;
+			const radius = EDGE_SNAP_DISTANCE / this.getDisplayScale();
+			if (control.pointIndex !== undefined) {
+				const snapped = snapCorner(this.edgeMap, points, control.pointIndex, radius);
+				points[control.pointIndex].x = snapped.x;
+				points[control.pointIndex].y = snapped.y;
+			} else if (control.edgeIndex !== undefined) {
+				const offset = snapEdge(this.edgeMap, points, control.edgeIndex, radius);
+				const edge = [points[control.edgeIndex], points[(control.edgeIndex + 1) % points.length]];
+				for (const point of edge) {
+					point.x += offset.x;
+					point.y += offset.y;
+				}
+			}
+		});
+	}
+
+	/**
+	 * Add a handle at the middle of each boundary edge that moves the whole edge.
+	 *
+	 * @param fabricObject - The Fabric.js polygon of the boundary
+	 * @param size - Size of the handles, in image pixels
+	 *
+	 * @remarks
+	 * The handles reuse the Fabric.js control type of the corner handles (`p0` to `p3`) and are named `m0` to
+	 * `m3`; edge `i` runs from corner `i` to the next corner. An edge moves along its normal only, so the dragged
+	 * edge keeps its direction while the two adjoining edges follow its ends. Called by {@link addQuadToLayer}.
+	 *
+	 * @internal
+	 */
+	private addEdgeControls(fabricObject: any, size: number) {
+		const Control = fabricObject.controls?.p0?.constructor;
+		if (!Control) return;
+
+		const count = fabricObject.points.length;
+		for (let index = 0; index < count; index++) {
+			fabricObject.controls[`m${index}`] = new Control({
+				edgeIndex: index,
+				sizeX: size,
+				sizeY: size,
+				actionName: "modifyPolygon",
+				positionHandler: (_dimensions: any, _matrix: any, obj: any) => {
+					const { x, y } = this.getDraggedHandle(obj, `m${index}`)!;
+					const m = obj.calcTransformMatrix();
+					const localX = x - obj.pathOffset.x;
+					const localY = y - obj.pathOffset.y;
+					return {
+						x: m[0] * localX + m[2] * localY + m[4],
+						y: m[1] * localX + m[3] * localY + m[5],
+					};
+				},
+				actionHandler: (eventData: any, transform: any, x: number, y: number) => {
+					const obj = transform.target;
+					const start: Point = obj.points[index];
+					const end: Point = obj.points[(index + 1) % count];
+					const length = Math.hypot(end.x - start.x, end.y - start.y);
+					if (!length) return false;
+
+					// Distance from the edge to the pointer, along the edge normal
+					const nx = -(end.y - start.y) / length;
+					const ny = (end.x - start.x) / length;
+					const distance = (x - (start.x + end.x) / 2) * nx + (y - (start.y + end.y) / 2) * ny;
+					for (const point of [start, end]) {
+						point.x += nx * distance;
+						point.y += ny * distance;
+					}
+
+					// Snap and constrain the edge like a dragged corner, then refit the polygon around its points
+					obj.canvas?.fire("object:scaling", {
+						e: eventData,
+						transform,
+						pointer: { x, y },
+						target: obj,
+					});
+					obj._setPositionDimensions({});
+					return true;
+				},
+			});
+		}
+	}
+
+	/**
+	 * Retrieve the position of a boundary handle: a corner (`p0` to `p3`) or the middle of an edge (`m0` to `m3`).
+	 *
+	 * @param obj - The Fabric.js polygon of the boundary
+	 * @param name - Name of the handle's control
+	 * @returns The handle position in image coordinates, or `undefined` if `name` is not a boundary handle
+	 *
+	 * @internal
+	 */
+	private getDraggedHandle(obj: any, name?: string): Point | undefined {
+		const control = name ? obj?.controls?.[name] : undefined;
+		if (control?.pointIndex !== undefined) return obj.points[control.pointIndex];
+		if (control?.edgeIndex !== undefined) {
+			const start: Point = obj.points[control.edgeIndex];
+			const end: Point = obj.points[(control.edgeIndex + 1) % obj.points.length];
+			return { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+		}
+		return undefined;
+	}
+
+	/**
+	 * Retrieve the original image as a canvas, converting it on first use.
+	 *
+	 * @internal
+	 */
+	private getSourceCanvas(): HTMLCanvasElement {
+		this.sourceCanvas ??= _toCanvas(this.originalImage);
+		return this.sourceCanvas;
+	}
+
+	/**
+	 * Retrieve the size of an image pixel on screen, in CSS pixels.
+	 *
+	 * @internal
+	 */
+	private getDisplayScale(): number {
+		const canvas = this.layer.fabricCanvas;
+		const displayedWidth = canvas.upperCanvasEl?.getBoundingClientRect().width || canvas.getWidth();
+		return displayedWidth / canvas.getWidth();
+	}
+
 	/**
 	 * Retrieve the dimensions of the canvas used for rendering the document image and boundary overlay.
 	 *
@@ -370,24 +1129,25 @@ export default class DocumentCorrectionView {
 	 * Add a quadrilateral boundary to the drawing layer for user manipulation.
 	 *
 	 * @param newQuad - The {@link QuadDrawingItem} representing the document boundary to display
+	 * @param keepOthers - Whether to keep the boundaries already on the layer, to add another document in multi-document mode
 	 *
 	 * @remarks
 	 * This method configures and adds a quadrilateral boundary overlay to the {@link DrawingLayer},
 	 * allowing users to manually adjust document boundaries by dragging corner points. The process:
 	 *
-	 * 1. Clears any existing quadrilaterals from the layer
+	 * 1. Clears any existing quadrilaterals from the layer, unless `keepOthers` is set
 	 * 2. Retrieves the Fabric.js object from the {@link QuadDrawingItem}
 	 * 3. Calculates corner control size as 10% of the smaller image dimension for touch-friendly interaction
 	 * 4. Locks the quadrilateral position (prevents dragging the entire shape)
-	 * 5. Configures corner controls to be draggable for boundary adjustment
-	 * 6. Sets up visual feedback: corners become transparent during drag, themed color when released
-	 * 7. Adds the quadrilateral to the layer and makes it the active selection
+	 * 5. Configures corner controls to be draggable for boundary adjustment, and adds edge midpoint handles via {@link addEdgeControls}
+	 * 6. Sets up visual feedback: corners become transparent during drag, themed color when released (the magnifier loupe is set up by {@link setupLoupe})
+	 * 7. Adds the quadrilateral to the layer and selects it via {@link selectQuad}
 	 *
 	 * The quadrilateral corners can be manipulated by the user, but the constraints set up by
 	 * {@link setupQuadConstraints} ensure corners remain within the image bounds.
 	 *
-	 * Called by {@link setupInitialDetectedQuad}, {@link setFullImageBoundary}, and {@link setBoundaryAutomatically}
-	 * whenever the document boundary needs to be updated or reset.
+	 * Called by {@link setupInitialDetectedQuad}, {@link setFullImageBoundary}, {@link setBoundaryAutomatically} and
+	 * {@link addDocumentBoundary} whenever the document boundary needs to be updated, reset or added.
 	 *
 	 * @see {@link QuadDrawingItem} - The drawing item type for quadrilateral boundaries
 	 * @see {@link DrawingLayer} - The layer where the quadrilateral is rendered
@@ -396,21 +1156,22 @@ export default class DocumentCorrectionView {
 	 *
 	 * @internal
 	 */
-	private addQuadToLayer(newQuad: QuadDrawingItem) {
-		this.layer.clearDrawingItems();
+	private addQuadToLayer(newQuad: QuadDrawingItem, keepOthers = false) {
+		if (!keepOthers) this.layer.clearDrawingItems();
 
 		const fabricObject = newQuad._getFabricObject();
 
 		const cornerSize = Math.min(this.originalImage.width, this.originalImage.height) * 0.1;
 
 		fabricObject.cornerSize = cornerSize;
+		this.addEdgeControls(fabricObject, cornerSize * 0.6);
 
 		// Make quad non-draggable but keep corner controls
 		fabricObject.lockMovementX = true;
 		fabricObject.lockMovementY = true;
 
-		const quadColor = this.quadColor;
-		fabricObject.cornerColor = quadColor;
+		const getQuadColor = () => this.getQuadColor();
+		fabricObject.cornerColor = getQuadColor();
 
 		// Make circle transparent to show corner on drag
 		fabricObject.on("mousedown", function (this: any, e: any) {
@@ -422,7 +1183,7 @@ export default class DocumentCorrectionView {
 		});
 
 		fabricObject.on("mouseup", function (this: any) {
-			this.cornerColor = quadColor;
+			this.cornerColor = getQuadColor();
 			this.dirty = true;
 			this.canvas?.renderAll();
 		});
@@ -431,8 +1192,8 @@ export default class DocumentCorrectionView {
 		this.layer.addDrawingItems([newQuad]);
 
 		// Select the quad immediately after adding it
-		this.layer.fabricCanvas.setActiveObject(fabricObject);
-		this.layer.fabricCanvas.renderAll();
+		this.selectQuad(newQuad);
+		this.updateDocumentButtons();
 	}
 
 	/**
@@ -454,6 +1215,9 @@ export default class DocumentCorrectionView {
 	 * This fallback to full image bounds ensures users always have a starting point for boundary
 	 * adjustment, even when automatic detection fails or is disabled.
 	 *
+	 * In multi-document mode, a boundary is added for each of the {@link DocumentResult.additionalDocuments} too,
+	 * and the first boundary is selected.
+	 *
 	 * Called internally by {@link initialize} during view setup, after the {@link ImageEditorView}
 	 * and {@link DrawingLayer} have been configured.
 	 *
@@ -484,6 +1248,15 @@ export default class DocumentCorrectionView {
 		}
 
 		this.addQuadToLayer(quad);
+
+		if (this.isMultiDocument() && this.result.additionalDocuments?.length) {
+			for (const { detectedQuadrilateral } of this.result.additionalDocuments) {
+				if (detectedQuadrilateral) {
+					this.addQuadToLayer(new QuadDrawingItem(detectedQuadrilateral), true);
+				}
+			}
+			this.selectQuad(quad);
+		}
 	}
 
 	/**
@@ -492,7 +1265,7 @@ export default class DocumentCorrectionView {
 	 * @returns The HTML element containing all toolbar buttons
 	 *
 	 * @remarks
-	 * This method builds the correction view toolbar with four action buttons, each configurable
+	 * This method builds the correction view toolbar with seven action buttons, each configurable
 	 * through {@link DocumentCorrectionViewToolbarButtonsConfig}:
 	 *
 	 * 1. **Retake Button**: Returns to {@link DocumentScannerView} to capture a new image
@@ -511,7 +1284,24 @@ export default class DocumentCorrectionView {
 	 *    - Default label: "Detect Borders"
 	 *    - Handler: {@link setBoundaryAutomatically}
 	 *
-	 * 4. **Apply Button**: Confirms boundary adjustments and proceeds with the workflow
+	 * 4. **Add Button**: Adds a boundary for another document
+	 *    - Default icon: {@link DDS_ICONS.plus}
+	 *    - Default label: "Add"
+	 *    - Handler: {@link addDocumentBoundary}
+	 *    - Only shown in multi-document mode ({@link DocumentScannerConfig.enableMultiDocument})
+	 *
+	 * 5. **Remove Button**: Removes the selected boundary
+	 *    - Default icon: {@link DDS_ICONS.delete}
+	 *    - Default label: "Remove"
+	 *    - Handler: {@link removeDocumentBoundary}
+	 *    - Only shown in multi-document mode
+	 *
+	 * 6. **Preview Button**: Shows or hides the preview of the corrected document
+	 *    - Default icon: {@link DDS_ICONS.preview}
+	 *    - Default label: "Preview"
+	 *    - Handler: {@link handleTogglePreview}
+	 *
+	 * 7. **Apply Button**: Confirms boundary adjustments and proceeds with the workflow
 	 *    - Default icon: {@link DDS_ICONS.finish} (or {@link DDS_ICONS.complete} if no result view)
 	 *    - Default label: Context-dependent ("Apply", "Done", or "Keep Scan")
 	 *    - Handler: {@link confirmCorrection}
@@ -530,6 +1320,8 @@ export default class DocumentCorrectionView {
 	 */
 	private createControls(): HTMLElement {
 		const { toolbarButtonsConfig } = this.config;
+		// Re-cropping a page from the DocumentPagesView returns there, so it never ends or continues the session
+		const isTerminal = this.config?._showResultView === false && !this.resources.reviewingPageId;
 
 		const buttons: ToolbarButton[] = [
 			{
@@ -538,7 +1330,7 @@ export default class DocumentCorrectionView {
 				label: toolbarButtonsConfig?.retake?.label || "Re-take",
 				onClick: () => this.handleRetake(),
 				className: `${toolbarButtonsConfig?.retake?.className || ""}`,
-				isHidden: toolbarButtonsConfig?.retake?.isHidden || false,
+				isHidden: toolbarButtonsConfig?.retake?.isHidden || !!this.resources.reviewingPageId,
 				isDisabled: !this.scannerView,
 			},
 			{
@@ -557,24 +1349,49 @@ export default class DocumentCorrectionView {
 				isHidden: toolbarButtonsConfig?.detectBorders?.isHidden || false,
 				onClick: () => this.setBoundaryAutomatically(),
 			},
+			{
+				id: `dds-correction-addDocument`,
+				icon: toolbarButtonsConfig?.addDocument?.icon || DDS_ICONS.plus,
+				label: toolbarButtonsConfig?.addDocument?.label || "Add",
+				className: `${toolbarButtonsConfig?.addDocument?.className || ""}`,
+				isHidden: toolbarButtonsConfig?.addDocument?.isHidden || !this.isMultiDocument(),
+				onClick: () => this.addDocumentBoundary(),
+			},
+			{
+				id: `dds-correction-removeDocument`,
+				icon: toolbarButtonsConfig?.removeDocument?.icon || DDS_ICONS.delete,
+				label: toolbarButtonsConfig?.removeDocument?.label || "Remove",
+				className: `${toolbarButtonsConfig?.removeDocument?.className || ""}`,
+				isHidden: toolbarButtonsConfig?.removeDocument?.isHidden || !this.isMultiDocument(),
+				onClick: () => this.removeDocumentBoundary(),
+			},
+			{
+				id: `dds-correction-preview`,
+				icon: toolbarButtonsConfig?.preview?.icon || DDS_ICONS.preview,
+				label: toolbarButtonsConfig?.preview?.label || "Preview",
+				className: `${toolbarButtonsConfig?.preview?.className || ""}`,
+				isHidden: toolbarButtonsConfig?.preview?.isHidden || false,
+				onClick: () => this.handleTogglePreview(),
+			},
 			{
 				id: `dds-correction-apply`,
 				icon:
-					toolbarButtonsConfig?.apply?.icon ||
-					(this.config?._showResultView === false ? DDS_ICONS.complete : DDS_ICONS.finish),
+					toolbarButtonsConfig?.apply?.icon || (isTerminal ? DDS_ICONS.complete : DDS_ICONS.finish),
 				label:
 					toolbarButtonsConfig?.apply?.label ||
-					(this.resources.enableContinuousScanning && this.config?._showResultView === false
+					(this.resources.enableContinuousScanning && isTerminal
 						? "Keep Scan"
-						: this.config?._showResultView === false
+						: isTerminal
 							? "Done"
 							: "Apply"),
 				className: `${toolbarButtonsConfig?.apply?.className || ""}`,
 				isHidden: toolbarButtonsConfig?.apply?.isHidden || false,
 
 				onClick: () => {
+					// Disabled while a boundary is invalid, see updateQuadValidation
+					if (this.hasInvalidQuad) return;
 					// Terminal "Keep Scan" (continuous, no result view) → request another capture.
-					if (this.resources.enableContinuousScanning && this.config?._showResultView === false)
+					if (this.resources.enableContinuousScanning && isTerminal)
 						this.resources.scanMoreRequested = true;
 					this.confirmCorrection();
 				},
@@ -614,7 +1431,7 @@ export default class DocumentCorrectionView {
 	 * and capture a new one using the {@link DocumentScannerView}. The process:
 	 *
 	 * 1. Validates that {@link DocumentScannerView} is available (required for camera capture)
-	 * 2. Hides the current correction view via {@link hideView}
+	 * 2. Waits for a running preview via {@link stopPreview}, then hides the current correction view via {@link hideView}
 	 * 3. Shows the scanner view container and launches camera capture via {@link DocumentScannerView.launch}
 	 * 4. Handles the scan result:
 	 *    - **Cancelled/Failed**: Resolves the correction promise with the failed status and exits
@@ -645,6 +1462,8 @@ export default class DocumentCorrectionView {
 				return;
 			}
 
+			// The scanner uses the cvRouter as soon as it launches
+			await this.stopPreview();
 			this.hideView();
 
 			// Show scanner view
@@ -698,6 +1517,7 @@ export default class DocumentCorrectionView {
 				status: {
 					code: EnumResultStatus.RS_FAILED,
 					message: error?.message || error,
+					errorCode: toDocumentScannerError(error).code,
 				},
 			});
 			throw error;
@@ -794,6 +1614,8 @@ export default class DocumentCorrectionView {
 			throw new Error("Correction view resources are not initialized");
 		}
 
+		await this.stopPreview();
+
 		// Auto detect bounds
 		if (this.config.templateFilePath) {
 			await cvRouter.initSettings(this.config.templateFilePath);
@@ -805,13 +1627,25 @@ export default class DocumentCorrectionView {
 
 		cvRouter.maxImageSideLength = Infinity;
 
-		const result = await cvRouter.capture(this.originalImage, "DetectDocumentBoundaries_Default");
+		if (this.isMultiDocument()) {
+			const quads = await detectDocumentBoundaries(
+				cvRouter,
+				this.originalImage,
+				templateNames.detect,
+				this.resources.maxDocumentsPerImage ?? 1,
+			);
+			if (!quads.length) {
+				this.setFullImageBoundary();
+				return;
+			}
 
-		const quad = (
-			result.items.find(
-				(item) => item.type === EnumCapturedResultItemType.CRIT_DETECTED_QUAD,
-			) as DetectedQuadResultItem
-		)?.location;
+			const items = quads.map((quad) => new QuadDrawingItem(quad));
+			items.forEach((item, index) => this.addQuadToLayer(item, index > 0));
+			this.selectQuad(items[0]);
+			return;
+		}
+
+		const quad = await detectDocumentBoundary(cvRouter, this.originalImage, templateNames.detect);
 
 		if (quad) {
 			this.addQuadToLayer(new QuadDrawingItem(quad));
@@ -820,6 +1654,58 @@ export default class DocumentCorrectionView {
 		}
 	}
 
+	/**
+	 * Add a boundary for another document in the image, in multi-document mode.
+	 *
+	 * @remarks
+	 * The new boundary covers the middle quarter of the image and is selected, so the user can drag it onto the
+	 * document. Does nothing once there are {@link DocumentScannerConfig.maxDocumentsPerImage} boundaries.
+	 *
+	 * Triggered by clicking the "Add" button created in {@link createControls}.
+	 *
+	 * @see {@link removeDocumentBoundary} - Removes the selected boundary
+	 *
+	 * @public
+	 */
+	addDocumentBoundary() {
+		if (this.getQuadItems().length >= (this.resources.maxDocumentsPerImage ?? 1)) return;
+
+		const { width, height } = this.originalImage;
+		const quad = new QuadDrawingItem({
+			points: [
+				{ x: width / 4, y: height / 4 },
+				{ x: (width * 3) / 4, y: height / 4 },
+				{ x: (width * 3) / 4, y: (height * 3) / 4 },
+				{ x: width / 4, y: (height * 3) / 4 },
+			],
+			area: (width * height) / 4,
+		} as Quadrilateral);
+
+		this.addQuadToLayer(quad, true);
+	}
+
+	/**
+	 * Remove the selected document boundary, in multi-document mode.
+	 *
+	 * @remarks
+	 * The first remaining boundary is selected next. The last boundary cannot be removed.
+	 *
+	 * Triggered by clicking the "Remove" button created in {@link createControls}.
+	 *
+	 * @see {@link addDocumentBoundary} - Adds a boundary
+	 *
+	 * @public
+	 */
+	removeDocumentBoundary() {
+		const items = this.getQuadItems();
+		const selected = this.selectedQuad ?? items[0];
+		if (items.length <= 1 || !selected) return;
+
+		this.layer.removeDrawingItems([selected]);
+		this.selectQuad(this.getQuadItems()[0]);
+		this.updateDocumentButtons();
+	}
+
 	/**
 	 * Confirm the boundary adjustments and apply perspective correction to the image.
 	 *
@@ -827,28 +1713,78 @@ export default class DocumentCorrectionView {
 	 *
 	 * @remarks
 	 * Retrieves boundary, performs correction via {@link correctImage}, updates result, invokes callback, resolves promise.
+	 * The boundaries are not required to be valid here; their {@link QuadValidationResult} are passed to {@link DocumentCorrectionViewConfig.onFinish}.
+	 * In multi-document mode, the first boundary gives the result and the others its {@link DocumentResult.additionalDocuments}.
+	 * Other boundaries that fail to correct are left out and reported with {@link EnumDDSErrorCode.NORMALIZATION_FAILED}.
 	 *
 	 * @public
 	 */
 	async confirmCorrection() {
-		const drawingItem = this.layer.getDrawingItems()[0] as QuadDrawingItem;
+		const [drawingItem, ...otherItems] = this.getQuadItems();
 		if (!drawingItem) {
 			throw new Error("No quad drawing item found");
 		}
+		await this.stopPreview();
 		const quad = drawingItem.getQuad();
 		const correctedImg = await this.correctImage(quad?.points);
 		if (correctedImg) {
+			const { width, height } = this.originalImage;
+
+			// Correct the other documents one at a time, as they share the router
+			const additionalDocuments: DocumentResult[] = [];
+			const additionalValidations: QuadValidationResult[] = [];
+			for (const [index, item] of otherItems.entries()) {
+				const otherQuad = item.getQuad();
+				let corrected: DeskewedImageResultItem | undefined;
+				let cause: unknown;
+				try {
+					corrected = await this.correctImage(otherQuad.points);
+				} catch (ex) {
+					cause = ex;
+				}
+				if (!corrected) {
+					reportError(
+						this.resources,
+						new DocumentScannerError(
+							EnumDDSErrorCode.NORMALIZATION_FAILED,
+							getString("documentCorrectionFailedAlert").replace("{index}", String(index + 2)),
+							cause,
+						),
+					);
+					continue;
+				}
+				additionalValidations.push(validateQuad(otherQuad.points, width, height));
+				additionalDocuments.push({
+					status: { code: EnumResultStatus.RS_SUCCESS, message: "Success" },
+					originalImageResult: this.originalImage,
+					correctedImageResult: corrected,
+					detectedQuadrilateral: otherQuad,
+					appliedRotation: this.result.appliedRotation,
+					_flowType: this.result._flowType,
+				});
+			}
+
 			const updatedResult = {
 				...this.result,
 				correctedImageResult: correctedImg,
 				detectedQuadrilateral: quad,
+				additionalDocuments: additionalDocuments.length > 0 ? additionalDocuments : undefined,
 			};
 
 			// Update the result with new corrected image and quad
 			this.resources.onResultUpdated?.(updatedResult);
+			this.resources.emit?.("editApplied", {
+				edit: "crop",
+				pageId: this.resources.reviewingPageId,
+				quadrilateral: quad,
+			});
 
 			// Call onFinish callback if provided
-			this.config?.onFinish?.(updatedResult);
+			this.config?.onFinish?.(
+				updatedResult,
+				validateQuad(quad.points, width, height),
+				additionalValidations,
+			);
 
 			// Resolve the promise with corrected image
 			this.currentCorrectionResolver?.(updatedResult);
@@ -877,6 +1813,7 @@ export default class DocumentCorrectionView {
 			container.textContent = "";
 			await this.initialize();
 			container.style.display = "flex";
+			this.resources.emit?.("viewChanged", { view: EnumDDSViews.Correction });
 
 			// Return promise that resolves when user clicks finish
 			return new Promise((resolve) => {
@@ -889,6 +1826,7 @@ export default class DocumentCorrectionView {
 				status: {
 					code: EnumResultStatus.RS_FAILED,
 					message: errMsg,
+					errorCode: toDocumentScannerError(ex, EnumDDSErrorCode.INITIALIZATION_FAILED).code,
 				},
 			};
 		}
@@ -931,17 +1869,7 @@ export default class DocumentCorrectionView {
 			await cvRouter.initSettings(this.config.templateFilePath);
 		}
 
-		const settings = await cvRouter.getSimplifiedSettings(templateNames.normalize);
-		settings.roiMeasuredInPercentage = false;
-		settings.roi.points = points;
-		await cvRouter.updateSettings(templateNames.normalize, settings);
-
-		const result = await cvRouter.capture(this.originalImage, templateNames.normalize);
-
-		// If deskewed result found by DDN
-		if (result?.processedDocumentResult?.deskewedImageResultItems?.[0]) {
-			return result.processedDocumentResult.deskewedImageResultItems[0];
-		}
+		return await normalizeDocument(cvRouter, this.originalImage, points, templateNames.normalize);
 	}
 
 	/**
@@ -951,12 +1879,28 @@ export default class DocumentCorrectionView {
 	 *
 	 * @remarks
 	 * Disposes {@link ImageEditorView}, clears layer and container. Optionally preserves resolver for {@link handleRetake}.
+	 * A preview render that is still running keeps the {@link SharedResources.cvRouter} until it finishes; {@link stopPreview} waits for it.
 	 *
 	 * @public
 	 */
 	dispose(preserveResolver: boolean = false): void {
 		// Clean up resources
 		this.imageEditorView?.dispose?.();
+		this.loupe = undefined;
+		this.warning = undefined;
+		this.selectedQuad = undefined;
+		this.quadValidation = undefined;
+		this.hasInvalidQuad = false;
+		this.cornerHandleObserver?.disconnect();
+		this.cornerHandleObserver = undefined;
+		this.cornerHandles = [];
+		this.announcer = undefined;
+		// A running preview is dropped once done; its task is kept so stopPreview() can wait for it
+		window.clearTimeout(this.previewTimer);
+		this.previewQueued = false;
+		this.preview = undefined;
+		this.sourceCanvas = undefined;
+		this.edgeMap = undefined;
 
 		// Clean up the container
 		const container = getElement(this.config?.container);
@@ -969,8 +1913,35 @@ export default class DocumentCorrectionView {
 	}
 }
 
+/** Diameter of the magnifier loupe, in CSS pixels. */
+const LOUPE_SIZE = 120;
+
+/** Magnification of the loupe relative to the displayed image. */
+const LOUPE_ZOOM = 3;
+
+/** Largest distance, in CSS pixels, that a dragged corner or edge jumps to snap onto a paper edge. */
+const EDGE_SNAP_DISTANCE = 16;
+
+/** Distance, in screen pixels, that a corner moves per arrow key press while <kbd>Shift</kbd> is held. */
+const CORNER_NUDGE_LARGE_STEP = 10;
+
+/** Time, in milliseconds, that the boundary must stay unchanged before the preview is rendered. */
+const PREVIEW_DELAY = 300;
+
+/** Longest side of the preview image, in pixels. */
+const PREVIEW_SIZE = 480;
+
+/** Warning shown for each boundary problem. */
+const QUAD_ISSUE_MESSAGES: Record<QuadValidationIssue, keyof StringConfig> = {
+	"self-intersecting": "quadSelfIntersectingMsg",
+	concave: "quadConcaveMsg",
+	"too-small": "quadTooSmallMsg",
+	"sharp-angle": "quadSharpAngleMsg",
+};
+
 const DEFAULT_CORRECTION_VIEW_CSS = `
   .dds-correction-view-container {
+    position: relative;
     display: flex;
     width: 100%;
     height: 100%;
@@ -985,4 +1956,102 @@ const DEFAULT_CORRECTION_VIEW_CSS = `
       flex-direction: row;
     }
   }
+
+  .dds-correction-loupe {
+    display: none;
+    position: fixed;
+    z-index: 1;
+    width: 120px;
+    height: 120px;
+    border: 3px solid var(--dds-correction-quad, #fe8e14);
+    border-radius: 50%;
+    box-shadow: 0 2px 10px rgba(0, 0, 0, 0.4);
+    pointer-events: none;
+  }
+
+  .dds-correction-loupe.show {
+    display: block;
+  }
+
+  .dds-correction-loupe.invalid {
+    border-color: var(--dds-correction-quad-invalid, #e5484d);
+  }
+
+  .dds-correction-warning {
+    display: none;
+    position: absolute;
+    z-index: 1;
+    top: 12px;
+    left: 50%;
+    transform: translateX(-50%);
+    max-width: 90%;
+    padding: 8px 12px;
+    border-radius: 6px;
+    background-color: var(--dds-correction-quad-invalid, #e5484d);
+    color: #ffffff;
+    font-size: 14px;
+    text-align: center;
+    pointer-events: none;
+  }
+
+  .dds-correction-warning.show {
+    display: block;
+  }
+
+  .dds-correction-preview {
+    display: none;
+    position: absolute;
+    z-index: 1;
+    top: 12px;
+    left: 12px;
+    border: 2px solid var(--dds-correction-quad, #fe8e14);
+    background-color: var(--dds-bg-view, #575757);
+    box-shadow: 0 2px 10px rgba(0, 0, 0, 0.4);
+    pointer-events: none;
+  }
+
+  .dds-correction-preview.show {
+    display: block;
+  }
+
+  .dds-correction-preview.invalid {
+    opacity: 0.4;
+  }
+
+  .dds-correction-preview canvas {
+    display: block;
+    max-width: 40vw;
+    max-height: 30vh;
+  }
+
+  #dds-correction-preview[aria-pressed="true"] {
+    color: var(--dds-primary, #fe8e14);
+  }
+  #dds-correction-preview[aria-pressed="true"] svg [fill]:not([fill="none"]) {
+    fill: var(--dds-primary, #fe8e14);
+  }
+
+  .dds-correction-corner-handle {
+    position: absolute;
+    z-index: 1;
+    width: 44px;
+    height: 44px;
+    margin: -22px 0 0 -22px;
+    border-radius: 50%;
+    outline: none;
+    pointer-events: none;
+  }
+
+  .dds-correction-corner-handle:focus-visible {
+    box-shadow: 0 0 0 3px var(--dds-correction-quad, #fe8e14), 0 0 0 5px #ffffff;
+  }
+
+  .dds-correction-sr-only {
+    position: absolute;
+    width: 1px;
+    height: 1px;
+    overflow: hidden;
+    clip: rect(0 0 0 0);
+    white-space: nowrap;
+  }
 `;
@@ -0,0 +1,844 @@
+import { SharedResources } from "../DocumentScanner";
+import type ScanSession from "../ScanSession";
+import { createDefaultEditState } from "../ScanSession";
+import { DeskewedImageResultItem } from "dynamsoft-capture-vision-bundle";
+import DocumentCorrectionView from "./DocumentCorrectionView";
+import DocumentResultView from "./DocumentResultView";
+import { createControls, createStyle, getElement, getString, StringConfig } from "./utils";
+import { DDS_ICONS } from "./utils/icons";
+import { renderEditedImage } from "./utils/imageEditing";
+import { reportError, toDocumentScannerError } from "./utils/errors";
+import {
+	DocumentResult,
+	EnumDDSErrorCode,
+	EnumDDSViews,
+	EnumResultStatus,
+	ScannedPage,
+	ToolbarButton,
+	ToolbarButtonConfig,
+} from "./utils/types";
+
+/**
+ * Configuration interface for customizing toolbar buttons in the {@link DocumentPagesView}.
+ *
+ * @remarks
+ * Each button can be configured using a {@link ToolbarButtonConfig} object to modify its icon, label, CSS class, or visibility. The behaviors described for each button below are the default behaviors.
+ *
+ * @example
+ * ```javascript
+ * const documentScanner = new Dynamsoft.DocumentScanner({
+ *     license: "YOUR_LICENSE_KEY_HERE",
+ *     enableContinuousScanning: true,
+ *     pagesViewConfig: {
+ *         toolbarButtonsConfig: {
+ *             done: {
+ *                 label: "Finish"
+ *             }
+ *         }
+ *     }
+ * });
+ * ```
+ *
+ * @public
+ */
+export interface DocumentPagesViewToolbarButtonsConfig {
+	/**
+	 * Configuration for the scan more button. Default behavior: returns to the {@link DocumentScannerView} to capture another page.
+	 *
+	 * @public
+	 */
+	scanMore?: ToolbarButtonConfig;
+	/**
+	 * Configuration for the done button. Default behavior: ends the scanning session with the pages in their current order.
+	 *
+	 * @public
+	 */
+	done?: ToolbarButtonConfig;
+}
+
+/**
+ * The `DocumentPagesViewConfig` interface passes settings to the {@link DocumentScanner} constructor through the {@link DocumentScannerConfig} to apply UI and business logic customizations for the {@link DocumentPagesView}.
+ *
+ * @remarks
+ * The {@link DocumentPagesView} is only available in continuous scanning mode ({@link DocumentScannerConfig.enableContinuousScanning}). It opens when the user taps "Done ({count})" or the thumbnail in the {@link DocumentScannerView}, and shows every kept page in a grid where pages can be reordered by dragging, deleted, re-cropped or re-edited.
+ *
+ * @example
+ * ```javascript
+ * const documentScanner = new Dynamsoft.DocumentScanner({
+ *     license: "YOUR_LICENSE_KEY_HERE",
+ *     enableContinuousScanning: true,
+ *     pagesViewConfig: {
+ *         onDone: async (session) => {
+ *             const pdf = await session.toPdf({ pageSize: "A4" });
+ *             await fetch("/upload", { method: "POST", body: pdf });
+ *         }
+ *     }
+ * });
+ * ```
+ *
+ * @public
+ */
+export interface DocumentPagesViewConfig {
+	/**
+	 * The HTML container element or selector for the {@link DocumentPagesView} UI.
+	 *
+	 * @public
+	 */
+	container?: HTMLElement | string;
+	/**
+	 * Configure the appearance and labels of the buttons for the {@link DocumentPagesView} UI.
+	 *
+	 * @see {@link DocumentPagesViewToolbarButtonsConfig}
+	 *
+	 * @public
+	 */
+	toolbarButtonsConfig?: DocumentPagesViewToolbarButtonsConfig;
+	/**
+	 * Handler called when the user clicks the "Done" button.
+	 *
+	 * @param session - The {@link ScanSession} holding every page in its final order
+	 *
+	 * @public
+	 */
+	onDone?: (session: ScanSession) => Promise<void>;
+}
+
+/** State of a page tile being dragged to a new position. */
+interface PageDrag {
+	pageId: string;
+	tile: HTMLElement;
+	grid: HTMLElement;
+	pointerId: number;
+	startX: number;
+	startY: number;
+	// Whether the tile is actually being moved, as opposed to a press that may still turn into a scroll or tap.
+	active: boolean;
+	longPressTimer?: number;
+}
+
+// Touch drags start after a long press so a swipe still scrolls the grid.
+const LONG_PRESS_MS = 250;
+// Pointer travel before a mouse press becomes a drag, or before a touch press is treated as a scroll.
+const DRAG_THRESHOLD_PX = 8;
+// Distance from the top/bottom of the grid at which a drag scrolls it, and the step per move.
+const AUTO_SCROLL_EDGE_PX = 48;
+const AUTO_SCROLL_STEP_PX = 12;
+// Longest side of the cached page thumbnails.
+const THUMBNAIL_MAX_SIDE = 320;
+
+export default class DocumentPagesView {
+	private currentPagesViewResolver?: (result: DocumentResult) => void;
+	// Unregisters the session listener that keeps the grid in sync while the view is shown.
+	private unsubscribe?: () => void;
+	// Scaled-down thumbnails, keyed by the image they were rendered from so edited pages refresh.
+	private thumbnailCache = new WeakMap<DeskewedImageResultItem, string>();
+	private drag?: PageDrag;
+
+	constructor(
+		private resources: SharedResources,
+		private config: DocumentPagesViewConfig,
+		private correctionView?: DocumentCorrectionView,
+		private resultView?: DocumentResultView,
+	) {}
+
+	async launch(): Promise<DocumentResult> {
+		try {
+			const container = getElement(this.config.container);
+			if (!container) throw new Error("Pages view container not found");
+			container.textContent = "";
+			this.initialize();
+			container.style.display = "flex";
+			this.resources.emit?.("viewChanged", { view: EnumDDSViews.Pages });
+
+			// Return promise that resolves when user clicks done or scan more
+			return new Promise((resolve) => {
+				this.currentPagesViewResolver = resolve;
+			});
+		} catch (ex: any) {
+			let errMsg = ex?.message || ex;
+			console.error(errMsg);
+			return {
+				status: {
+					code: EnumResultStatus.RS_FAILED,
+					message: errMsg,
+				},
+			};
+		}
+	}
+
+	initialize(): void {
+		const { session } = this.resources;
+		if (!session) {
+			throw new Error("Scan session is missing. Please launch the scanner first!");
+		}
+
+		if (!this.config.container) {
+			throw new Error("Please create a Pages View Container element");
+		}
+
+		createStyle("dds-pages-view-style", DEFAULT_PAGES_VIEW_CSS);
+
+		// Create a wrapper div that preserves container dimensions
+		const pagesViewWrapper = document.createElement("div");
+		pagesViewWrapper.className = "dds-pages-view-container";
+
+		const content = document.createElement("div");
+		content.className = "dds-pages-content";
+
+		const title = document.createElement("div");
+		title.className = "dds-pages-title";
+
+		const grid = document.createElement("div");
+		grid.className = "dds-pages-grid";
+		this.setupDragReorder(grid);
+
+		const emptyMsg = document.createElement("div");
+		emptyMsg.className = "dds-pages-empty";
+		emptyMsg.textContent = getString("pagesViewEmptyMsg");
+
+		content.append(title, grid, emptyMsg);
+		pagesViewWrapper.append(content, this.createControls());
+
+		const container = getElement(this.config.container);
+		if (container) container.appendChild(pagesViewWrapper);
+
+		this.renderPages();
+		this.unsubscribe?.();
+		this.unsubscribe = session.subscribe(() => this.renderPages());
+	}
+
+	/**
+	 * Rebuild the page grid from the {@link ScanSession}, in page order.
+	 *
+	 * @remarks
+	 * Called whenever the session changes. Skipped while a tile is being dragged, since the grid is reordered in place until the drop.
+	 *
+	 * @internal
+	 */
+	private renderPages(): void {
+		const container = getElement(this.config.container);
+		const grid = container?.querySelector<HTMLElement>(".dds-pages-grid");
+		if (!container || !grid || !this.resources.session || this.drag?.active) return;
+
+		const { pages } = this.resources.session;
+		grid.textContent = "";
+		pages.forEach((page, index) => grid.appendChild(this.createPageTile(page, index)));
+		grid.style.display = pages.length ? "grid" : "none";
+
+		const title = container.querySelector<HTMLElement>(".dds-pages-title");
+		if (title)
+			title.textContent = getString("pagesViewTitle").replace("{count}", String(pages.length));
+
+		const emptyMsg = container.querySelector<HTMLElement>(".dds-pages-empty");
+		if (emptyMsg) emptyMsg.style.display = pages.length ? "none" : "flex";
+	}
+
+	/**
+	 * Create the grid tile of a page, with its thumbnail, page number and actions.
+	 *
+	 * @remarks
+	 * Re-crop is only offered when a {@link DocumentCorrectionView} exists and the page kept its original image; edit only when a {@link DocumentResultView} exists.
+	 *
+	 * @internal
+	 */
+	private createPageTile(page: ScannedPage, index: number): HTMLElement {
+		const tile = document.createElement("div");
+		tile.className = "dds-page-tile";
+		tile.dataset.pageId = page.id;
+
+		const thumbnail = document.createElement("img");
+		thumbnail.className = "dds-page-thumbnail";
+		thumbnail.draggable = false;
+		thumbnail.alt = getString("pageThumbnailLabel").replace("{index}", String(index + 1));
+		thumbnail.src = this.getThumbnail(page);
+
+		const footer = document.createElement("div");
+		footer.className = "dds-page-footer";
+
+		const pageNumber = document.createElement("span");
+		pageNumber.className = "dds-page-number";
+		pageNumber.textContent = String(index + 1);
+
+		const actions = document.createElement("div");
+		actions.className = "dds-page-actions";
+		if (this.correctionView && page.originalImageResult) {
+			actions.appendChild(
+				this.createPageAction(DDS_ICONS.normalize, "recropPageBtnTitle", () =>
+					this.handleRecropPage(page.id),
+				),
+			);
+		}
+		if (this.resultView && page.baseCorrectedImageResult) {
+			actions.appendChild(
+				this.createPageAction(DDS_ICONS.edit, "editPageBtnTitle", () =>
+					this.handleEditPage(page.id),
+				),
+			);
+		}
+		actions.appendChild(
+			this.createPageAction(DDS_ICONS.delete, "deletePageBtnTitle", () =>
+				this.handleDeletePage(page.id),
+			),
+		);
+
+		footer.append(pageNumber, actions);
+		tile.append(thumbnail, footer);
+		return tile;
+	}
+
+	/** Create an icon button for a page tile. @internal */
+	private createPageAction(
+		icon: string,
+		titleKey: keyof StringConfig,
+		onClick: () => void,
+	): HTMLButtonElement {
+		const button = document.createElement("button");
+		button.type = "button";
+		button.className = "dds-page-action";
+		button.title = getString(titleKey);
+		button.setAttribute("aria-label", getString(titleKey));
+		button.innerHTML = icon;
+		button.addEventListener("click", (event) => {
+			event.stopPropagation();
+			onClick();
+		});
+		return button;
+	}
+
+	/**
+	 * Get a scaled-down JPEG data URL of the page's corrected image.
+	 *
+	 * @remarks
+	 * Thumbnails are cached per image, so re-rendering the grid after a reorder or delete does not re-encode every page.
+	 *
+	 * @internal
+	 */
+	private getThumbnail(page: ScannedPage): string {
+		const image = page.correctedImageResult;
+		if (!image) return "";
+
+		let thumbnail = this.thumbnailCache.get(image);
+		if (!thumbnail) {
+			const source = image.toCanvas();
+			const scale = Math.min(1, THUMBNAIL_MAX_SIDE / Math.max(source.width, source.height));
+			const canvas = document.createElement("canvas");
+			canvas.width = Math.max(1, Math.round(source.width * scale));
+			canvas.height = Math.max(1, Math.round(source.height * scale));
+			canvas.getContext("2d")?.drawImage(source, 0, 0, canvas.width, canvas.height);
+			thumbnail = canvas.toDataURL("image/jpeg", 0.8);
+			this.thumbnailCache.set(image, thumbnail);
+		}
+		return thumbnail;
+	}
+
+	/**
+	 * Remove a page from the session. The grid re-renders through the session listener.
+	 *
+	 * @internal
+	 */
+	private handleDeletePage(pageId: string): void {
+		this.resources.session?.removePage(pageId);
+	}
+
+	/**
+	 * Adjust the boundaries of a page in the {@link DocumentCorrectionView}.
+	 *
+	 * @remarks
+	 * The page is loaded into {@link SharedResources.result} for the correction view and the previous result is restored afterwards. The page's edits ({@link ScannedPage.editState}) are re-applied on top of the newly corrected image, re-normalized in the page's colour mode if it is not `"color"`.
+	 *
+	 * @internal
+	 */
+	private async handleRecropPage(pageId: string): Promise<void> {
+		const { session } = this.resources;
+		const page = session?.getPage(pageId);
+		const pageResult = session?.toResult(pageId);
+		if (!session || !page || !pageResult || !this.correctionView) return;
+
+		const previousResult = this.resources.result;
+		try {
+			this.resources.reviewingPageId = pageId;
+			this.resources.onResultUpdated?.(pageResult);
+			this.hideView();
+
+			const result = await this.correctionView.launch();
+
+			// The correction view resolves with the unchanged page result if correction fails
+			const correctedImage = result.correctedImageResult;
+			if (
+				result.status.code === EnumResultStatus.RS_SUCCESS &&
+				correctedImage &&
+				correctedImage !== pageResult.correctedImageResult
+			) {
+				// The correction view corrects in colour; keep the page's colour mode
+				const colorMode = page.editState.colorMode ?? "color";
+				const baseImage =
+					colorMode !== "color" && this.resultView
+						? await this.resultView.normalizeInColorMode(
+								{ ...pageResult, detectedQuadrilateral: result.detectedQuadrilateral },
+								colorMode,
+							)
+						: correctedImage;
+				session.updatePage(pageId, {
+					detectedQuadrilateral: result.detectedQuadrilateral,
+					baseCorrectedImageResult: baseImage,
+					correctedImageResult: renderEditedImage(baseImage, page.editState),
+				});
+			}
+		} catch (ex: any) {
+			const error = toDocumentScannerError(ex, EnumDDSErrorCode.NORMALIZATION_FAILED);
+			console.error(error.message);
+			reportError(this.resources, error);
+		} finally {
+			this.resources.reviewingPageId = undefined;
+			this.resources.result = previousResult;
+			this.showView();
+		}
+	}
+
+	/**
+	 * Re-edit a page (rotation, filter, boundaries) in the {@link DocumentResultView}.
+	 *
+	 * @remarks
+	 * The result view starts from the page's unedited image with its previous edits restored, and the page is updated with the new edits when the user clicks "Done".
+	 *
+	 * @internal
+	 */
+	private async handleEditPage(pageId: string): Promise<void> {
+		const { session } = this.resources;
+		const page = session?.getPage(pageId);
+		const pageResult = session?.toResult(pageId);
+		if (!session || !page || !pageResult || !this.resultView) return;
+
+		const previousResult = this.resources.result;
+		try {
+			this.resources.reviewingPageId = pageId;
+			this.resources.onResultUpdated?.(pageResult);
+			this.hideView();
+
+			const result = await this.resultView.launch(page);
+
+			if (result.status.code === EnumResultStatus.RS_SUCCESS && result.correctedImageResult) {
+				session.updatePage(pageId, {
+					detectedQuadrilateral: result.detectedQuadrilateral,
+					baseCorrectedImageResult:
+						result._baseCorrectedImageResult ?? page.baseCorrectedImageResult,
+					correctedImageResult: result.correctedImageResult,
+					editState: { ...createDefaultEditState(), ...result._editState },
+				});
+			}
+		} catch (ex: any) {
+			const error = toDocumentScannerError(ex, EnumDDSErrorCode.NORMALIZATION_FAILED);
+			console.error(error.message);
+			reportError(this.resources, error);
+		} finally {
+			this.resources.reviewingPageId = undefined;
+			this.resources.result = previousResult;
+			this.showView();
+		}
+	}
+
+	/**
+	 * Return to the {@link DocumentScannerView} to capture another page.
+	 *
+	 * @remarks
+	 * Sets {@link SharedResources.scanMoreRequested} so the launch loop continues instead of ending the session.
+	 *
+	 * @internal
+	 */
+	private handleScanMore(): void {
+		this.resources.scanMoreRequested = true;
+		this.resolve();
+	}
+
+	/**
+	 * End the scanning session with the pages in their current order.
+	 *
+	 * @remarks
+	 * Invokes {@link DocumentPagesViewConfig.onDone} with the session, then resolves and cleans up.
+	 * If `onDone` throws, the launch resolves with {@link EnumResultStatus.RS_FAILED} and the view is cleaned up as well;
+	 * the error is not rethrown, as nothing awaits the click handler.
+	 *
+	 * @internal
+	 */
+	private async handleDone(): Promise<void> {
+		try {
+			if (this.resources.session) await this.config?.onDone?.(this.resources.session);
+			this.resolve();
+		} catch (error: any) {
+			console.error("Error in done handler:", error);
+			// Make sure to resolve with error if something goes wrong
+			this.currentPagesViewResolver?.({
+				status: {
+					code: EnumResultStatus.RS_FAILED,
+					message: error?.message || error,
+					errorCode: toDocumentScannerError(error).code,
+				},
+			});
+
+			this.hideView();
+			this.dispose();
+		}
+	}
+
+	/** Resolve the pending {@link launch} with the session, then hide and clean up the view. @internal */
+	private resolve(): void {
+		this.currentPagesViewResolver?.({
+			status: {
+				code: EnumResultStatus.RS_SUCCESS,
+				message: "Success",
+			},
+			session: this.resources.session,
+		});
+
+		this.hideView();
+		this.dispose();
+	}
+
+	/**
+	 * Let the user reorder pages by dragging their tiles.
+	 *
+	 * @remarks
+	 * Mouse and pen drags start once the pointer moves; touch drags start after a long press so a swipe still scrolls the grid. Tiles are moved in the DOM while dragging and the new order is committed to the {@link ScanSession} on release.
+	 *
+	 * @internal
+	 */
+	private setupDragReorder(grid: HTMLElement): void {
+		grid.addEventListener("pointerdown", (event) => {
+			const target = event.target as Element;
+			if (event.button !== 0 || target.closest(".dds-page-action")) return;
+
+			const tile = target.closest<HTMLElement>(".dds-page-tile");
+			const pageId = tile?.dataset.pageId;
+			if (!tile || !pageId) return;
+
+			this.cancelDrag();
+			this.drag = {
+				pageId,
+				tile,
+				grid,
+				pointerId: event.pointerId,
+				startX: event.clientX,
+				startY: event.clientY,
+				active: false,
+			};
+			if (event.pointerType === "touch") {
+				this.drag.longPressTimer = window.setTimeout(() => this.activateDrag(), LONG_PRESS_MS);
+			}
+
+			document.addEventListener("pointermove", this.handleDragMove);
+			document.addEventListener("pointerup", this.handleDragEnd);
+			document.addEventListener("pointercancel", this.handleDragCancel);
+		});
+
+		// Keep touch devices from scrolling the grid once a drag has started
+		grid.addEventListener(
+			"touchmove",
+			(event) => {
+				if (this.drag?.active) event.preventDefault();
+			},
+			{ passive: false },
+		);
+
+		// Long presses would otherwise open the image context menu on mobile
+		grid.addEventListener("contextmenu", (event) => {
+			if (this.drag) event.preventDefault();
+		});
+	}
+
+	/** Start moving the pressed tile. @internal */
+	private activateDrag(): void {
+		if (!this.drag) return;
+
+		window.clearTimeout(this.drag.longPressTimer);
+		this.drag.longPressTimer = undefined;
+		this.drag.active = true;
+		this.drag.tile.classList.add("dragging");
+	}
+
+	/**
+	 * Move the dragged tile in front of or behind the tile under the pointer.
+	 *
+	 * @internal
+	 */
+	private handleDragMove = (event: PointerEvent) => {
+		const drag = this.drag;
+		if (!drag || event.pointerId !== drag.pointerId) return;
+
+		if (!drag.active) {
+			const distance = Math.hypot(event.clientX - drag.startX, event.clientY - drag.startY);
+			if (distance < DRAG_THRESHOLD_PX) return;
+
+			// Moving before the long press fires means the user is scrolling, not dragging
+			if (drag.longPressTimer !== undefined) {
+				this.cancelDrag();
+				return;
+			}
+			this.activateDrag();
+		}
+		event.preventDefault();
+
+		const target = document
+			.elementsFromPoint(event.clientX, event.clientY)
+			.find(
+				(element): element is HTMLElement =>
+					element !== drag.tile &&
+					element.classList.contains("dds-page-tile") &&
+					element.parentElement === drag.grid,
+			);
+		if (target) {
+			const tiles = Array.from(drag.grid.children);
+			if (tiles.indexOf(target) > tiles.indexOf(drag.tile)) {
+				target.after(drag.tile);
+			} else {
+				target.before(drag.tile);
+			}
+		}
+
+		// Scroll the grid when dragging near its top or bottom edge
+		const bounds = drag.grid.getBoundingClientRect();
+		if (event.clientY < bounds.top + AUTO_SCROLL_EDGE_PX) {
+			drag.grid.scrollTop -= AUTO_SCROLL_STEP_PX;
+		} else if (event.clientY > bounds.bottom - AUTO_SCROLL_EDGE_PX) {
+			drag.grid.scrollTop += AUTO_SCROLL_STEP_PX;
+		}
+	};
+
+	/**
+	 * Commit the dragged tile's new position to the {@link ScanSession}.
+	 *
+	 * @internal
+	 */
+	private handleDragEnd = (event: PointerEvent) => {
+		const drag = this.drag;
+		if (!drag || event.pointerId !== drag.pointerId) return;
+
+		this.cancelDrag();
+		// Only the dragged tile moves, so the grid already matches the session if its index is unchanged
+		if (drag.active) {
+			const toIndex = Array.from(drag.grid.children).indexOf(drag.tile);
+			this.resources.session?.movePage(drag.pageId, toIndex);
+		}
+	};
+
+	/**
+	 * Abandon the drag, restoring the grid if tiles were already moved.
+	 *
+	 * @internal
+	 */
+	private handleDragCancel = (event: PointerEvent) => {
+		const drag = this.drag;
+		if (!drag || event.pointerId !== drag.pointerId) return;
+
+		this.cancelDrag();
+		if (drag.active) this.renderPages();
+	};
+
+	/** Stop tracking the current drag, if any. @internal */
+	private cancelDrag(): void {
+		if (!this.drag) return;
+
+		window.clearTimeout(this.drag.longPressTimer);
+		this.drag.tile.classList.remove("dragging");
+		this.drag = undefined;
+
+		document.removeEventListener("pointermove", this.handleDragMove);
+		document.removeEventListener("pointerup", this.handleDragEnd);
+		document.removeEventListener("pointercancel", this.handleDragCancel);
+	}
+
+	/**
+	 * Create the toolbar controls for the pages view.
+	 *
+	 * @returns The HTMLElement containing the toolbar with all configured buttons
+	 *
+	 * @remarks
+	 * Creates scan more/done buttons. Customizable via {@link DocumentPagesViewToolbarButtonsConfig}.
+	 *
+	 * @internal
+	 */
+	private createControls(): HTMLElement {
+		const { toolbarButtonsConfig } = this.config;
+
+		const buttons: ToolbarButton[] = [
+			{
+				id: `dds-pages-scanMore`,
+				icon: toolbarButtonsConfig?.scanMore?.icon || DDS_ICONS.plus,
+				label: toolbarButtonsConfig?.scanMore?.label || getString("scanMoreBtn"),
+				onClick: () => this.handleScanMore(),
+				className: `${toolbarButtonsConfig?.scanMore?.className || ""}`,
+				isHidden: toolbarButtonsConfig?.scanMore?.isHidden || false,
+			},
+			{
+				id: `dds-pages-done`,
+				icon: toolbarButtonsConfig?.done?.icon || DDS_ICONS.complete,
+				label: toolbarButtonsConfig?.done?.label || "Done",
+				onClick: () => this.handleDone(),
+				className: `${toolbarButtonsConfig?.done?.className || ""}`,
+				isHidden: toolbarButtonsConfig?.done?.isHidden || false,
+			},
+		];
+
+		return createControls(buttons);
+	}
+
+	/**
+	 * Show the pages view again after returning from the correction or result view.
+	 *
+	 * @internal
+	 */
+	private showView(): void {
+		const container = getElement(this.config.container);
+		if (container) container.style.display = "flex";
+	}
+
+	/**
+	 * Hide the pages view by setting its container display to "none".
+	 *
+	 * @remarks
+	 * Sets container display to "none" without disposing contents.
+	 *
+	 * @internal
+	 */
+	hideView(): void {
+		const container = getElement(this.config.container);
+		if (container) container.style.display = "none";
+	}
+
+	/**
+	 * Dispose of the pages view by cleaning up the container and optionally clearing the resolver.
+	 *
+	 * @param preserveResolver - If `true`, preserves the {@link currentPagesViewResolver} for reuse; if `false`, clears it. Defaults to `false`.
+	 *
+	 * @internal
+	 */
+	dispose(preserveResolver: boolean = false): void {
+		this.cancelDrag();
+		this.unsubscribe?.();
+		this.unsubscribe = undefined;
+
+		// Clean up the container
+		const container = getElement(this.config.container);
+		if (container) container.textContent = "";
+
+		// Clear resolver only if not preserving
+		if (!preserveResolver) {
+			this.currentPagesViewResolver = undefined;
+		}
+	}
+}
+
+const DEFAULT_PAGES_VIEW_CSS = `
+  .dds-pages-view-container {
+    display: flex;
+    width: 100%;
+    height: 100%;
+    background-color: var(--dds-bg-view, #575757);
+    color: var(--dds-toolbar-btn-inactive, #ffffff);
+    font-family: Verdana, Geneva, Tahoma, sans-serif;
+    font-size: 12px;
+    flex-direction: column;
+    align-items: center;
+  }
+
+  .dds-pages-content {
+    display: flex;
+    flex-direction: column;
+    flex: 1;
+    min-height: 0;
+    width: 100%;
+  }
+
+  .dds-pages-title {
+    padding: 1rem 1rem 0;
+    font-size: 14px;
+  }
+
+  .dds-pages-grid {
+    flex: 1;
+    min-height: 0;
+    overflow-y: auto;
+    display: grid;
+    grid-template-columns: repeat(auto-fill, minmax(8rem, 1fr));
+    align-content: start;
+    gap: 1rem;
+    padding: 1rem;
+    box-sizing: border-box;
+  }
+
+  .dds-page-tile {
+    display: flex;
+    flex-direction: column;
+    background-color: var(--dds-bg-toolbar, #323234);
+    border-radius: 0.5rem;
+    overflow: hidden;
+    cursor: grab;
+    user-select: none;
+    -webkit-user-select: none;
+    -webkit-touch-callout: none;
+    transition: transform 0.15s, opacity 0.15s;
+  }
+
+  .dds-page-tile.dragging {
+    cursor: grabbing;
+    opacity: 0.6;
+    transform: scale(1.05);
+    box-shadow: 0 0 0 2px var(--dds-primary, #fe8e14);
+  }
+
+  .dds-page-thumbnail {
+    width: 100%;
+    aspect-ratio: 3 / 4;
+    object-fit: contain;
+    background-color: rgba(0, 0, 0, 0.2);
+    pointer-events: none;
+  }
+
+  .dds-page-footer {
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+    padding: 0.25rem 0.5rem;
+  }
+
+  .dds-page-actions {
+    display: flex;
+    gap: 0.25rem;
+  }
+
+  .dds-page-action {
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    width: 2rem;
+    height: 2rem;
+    padding: 0;
+    background: none;
+    border: none;
+    cursor: pointer;
+  }
+
+  .dds-page-action svg {
+    width: 20px;
+    height: 20px;
+  }
+  .dds-page-action svg [fill]:not([fill="none"]) {
+    fill: var(--dds-toolbar-btn-inactive, #ffffff);
+  }
+  .dds-page-action:active svg [fill]:not([fill="none"]) {
+    fill: var(--dds-primary, #fe8e14);
+  }
+
+  .dds-pages-empty {
+    flex: 1;
+    display: none;
+    align-items: center;
+    justify-content: center;
+    font-size: 14px;
+  }
+
+  @media (orientation: landscape) and (max-width: 1024px) {
+    .dds-pages-view-container {
+      flex-direction: row;
+    }
+  }
+`;
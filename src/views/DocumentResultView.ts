@@ -1,17 +1,53 @@
 import { SharedResources } from "../DocumentScanner";
 import DocumentScannerView from "./DocumentScannerView";
 import { DeskewedImageResultItem } from "dynamsoft-capture-vision-bundle";
-import { createControls, createStyle, getElement, getString, shouldCorrectImage } from "./utils";
+import {
+	createControls,
+	createStyle,
+	getElement,
+	getString,
+	shouldCorrectImage,
+	StringConfig,
+} from "./utils";
 import DocumentCorrectionView from "./DocumentCorrectionView";
 import { DDS_ICONS } from "./utils/icons";
 import {
+	BinarizationOptions,
+	CropRect,
+	DEFAULT_TEMPLATE_NAMES,
+	DocumentColorMode,
 	DocumentResult,
+	EnumDDSErrorCode,
+	EnumDDSViews,
 	EnumFlowType,
 	EnumResultStatus,
+	PageEditState,
+	ScannedPage,
 	ToolbarButton,
 	ToolbarButtonConfig,
+	UtilizedTemplateNames,
 } from "./utils/types";
-import { canvasToResultItem, FILTER_OPTIONS, rotateCanvas } from "./utils/imageEditing";
+import {
+	ADJUSTMENT_OPTIONS,
+	applyEditState,
+	canvasToResultItem,
+	detectOrientation,
+	estimateSkewAngle,
+	FILTER_OPTIONS,
+	hasEdits,
+	fitCropRect,
+	MAX_STRAIGHTEN_ANGLE,
+	resizeCropRect,
+	rotateCropRect,
+} from "./utils/imageEditing";
+import { DocumentExportOptions, exportDocumentImage } from "./utils/imageExport";
+import { DocumentScannerError, reportError, toDocumentScannerError } from "./utils/errors";
+import {
+	getFullImageQuadrilateral,
+	getTemplateColorMode,
+	normalizeDocumentInColorMode,
+} from "./utils/documentProcessing";
+import { DEFAULT_LOADING_SCREEN_STYLE, showLoadingScreen } from "./utils/LoadingScreen";
 
 /**
  * Configuration interface for customizing toolbar buttons in the {@link DocumentResultView}.
@@ -115,6 +151,24 @@ export interface DocumentResultViewToolbarButtonsConfig {
 	 * @public
 	 */
 	rotate?: ToolbarButtonConfig;
+	/**
+	 * Configuration for the straighten button. Default behavior: reveal a drop-up panel with a fine rotation slider (up to 15 degrees either way) and an "Auto Straighten" button that levels the text lines.
+	 *
+	 * @remarks
+	 * The straightened image keeps its size and is part of the exported image, see {@link PageEditState.straighten}.
+	 *
+	 * @public
+	 */
+	straighten?: ToolbarButtonConfig;
+	/**
+	 * Configuration for the crop button. Default behavior: enter crop mode, where a box with aspect ratio presets trims the corrected image to a rectangle, for example to remove a letterhead or a margin.
+	 *
+	 * @remarks
+	 * Unlike the correct button, the crop works on the corrected image and is part of the edits, see {@link PageEditState.crop}.
+	 *
+	 * @public
+	 */
+	crop?: ToolbarButtonConfig;
 	/**
 	 * Configuration for the filter button. Default behavior: reveal drop-up menu with the following filters:
 	 *
@@ -124,9 +178,47 @@ export interface DocumentResultViewToolbarButtonsConfig {
 	 * 4. Sepia
 	 * 5. Inverted
 	 *
+	 * Followed by the colour modes produced by the normalizer engine from the original image: Color, Grayscale and Binary (see {@link DocumentColorMode}).
+	 *
 	 * @public
 	 */
 	filter?: ToolbarButtonConfig;
+	/**
+	 * Configuration for the adjust button. Default behavior: reveal a drop-up panel with sliders for brightness, contrast, saturation, gamma and sharpness.
+	 *
+	 * @remarks
+	 * Adjustments are applied before the filter, see {@link ImageAdjustments}.
+	 *
+	 * @public
+	 */
+	adjust?: ToolbarButtonConfig;
+	/**
+	 * Configuration for the undo button. Default behavior: revert the last rotation, fine rotation, filter, adjustment, colour mode or reset.
+	 *
+	 * @remarks
+	 * The history covers the edits made since the view opened. It is also available with <kbd>Ctrl</kbd>/<kbd>Cmd</kbd>+<kbd>Z</kbd>.
+	 *
+	 * @public
+	 */
+	undo?: ToolbarButtonConfig;
+	/**
+	 * Configuration for the redo button. Default behavior: re-apply the last undone edit.
+	 *
+	 * @remarks
+	 * Also available with <kbd>Ctrl</kbd>/<kbd>Cmd</kbd>+<kbd>Shift</kbd>+<kbd>Z</kbd> or <kbd>Ctrl</kbd>/<kbd>Cmd</kbd>+<kbd>Y</kbd>.
+	 *
+	 * @public
+	 */
+	redo?: ToolbarButtonConfig;
+	/**
+	 * Configuration for the reset button. Default behavior: clear the rotation, fine rotation, filter, adjustments and colour mode to show the original corrected image.
+	 *
+	 * @remarks
+	 * A reset can be undone like any other edit.
+	 *
+	 * @public
+	 */
+	reset?: ToolbarButtonConfig;
 }
 
 /**
@@ -169,26 +261,83 @@ export interface DocumentResultViewConfig {
 	/**
 	 * Handler called when the user clicks the "Done" button.
 	 *
+	 * @remarks
+	 * Not called again when a page is re-edited from the {@link DocumentPagesView}; the page is updated in {@link DocumentResult.session} instead.
+	 *
 	 * @param result - The {@link DocumentResult} of the scan, including the original image, corrected image, detected boundaries, and scan status
+	 * @param file - The corrected image encoded as configured by {@link exportOptions}; only set when {@link exportOptions} is configured
+	 * and the export succeeds. A failed export is reported with {@link EnumDDSErrorCode.EXPORT_FAILED}.
 	 *
 	 * @public
 	 */
-	onDone?: (result: DocumentResult) => Promise<void>;
+	onDone?: (result: DocumentResult, file?: File) => Promise<void>;
 	/**
 	 * Handler called when the user clicks the "Upload" button.
 	 *
 	 * @param result - The {@link DocumentResult} of the scan, including the original image, corrected image, detected boundaries, and scan status
+	 * @param file - The corrected image encoded as configured by {@link exportOptions}; only set when {@link exportOptions} is configured
+	 *
+	 * @remarks
+	 * Set {@link exportOptions} to upload a JPEG, WebP or PDF file, or use {@link createPdf} to build a PDF yourself.
+	 *
+	 * @example
+	 * ```javascript
+	 * onUpload: async (result) => {
+	 *     const pdf = await Dynamsoft.createPdf([result.correctedImageResult], { pageSize: "A4" });
+	 *     await fetch("/upload", { method: "POST", body: pdf });
+	 * }
+	 * ```
+	 *
+	 * @public
+	 */
+	onUpload?: (result: DocumentResult, file?: File) => Promise<void>;
+	/**
+	 * Format, quality, size and name of the file that is shared or downloaded, and passed to {@link onUpload} and {@link onDone}.
+	 *
+	 * @remarks
+	 * Without this option, the share/download button exports a full-size PNG named `{prefix}-{timestamp}.png` ({@link StringConfig.downloadFilenamePrefix}), and the callbacks receive no file.
+	 *
+	 * @see {@link DocumentExportOptions}
+	 *
+	 * @public
+	 */
+	exportOptions?: DocumentExportOptions;
+	/**
+	 * Binarization settings for the "Binary" colour mode of the filter menu.
+	 *
+	 * @remarks
+	 * Without this option, the normalizer binarizes the document itself.
+	 *
+	 * @example
+	 * ```javascript
+	 * resultViewConfig: {
+	 *     binarization: { blockSize: 41, compensation: 10 },
+	 * }
+	 * ```
+	 *
+	 * @see {@link BinarizationOptions}
 	 *
 	 * @public
 	 */
-	onUpload?: (result: DocumentResult) => Promise<void>;
+	binarization?: BinarizationOptions;
+	/**
+	 * Capture Vision template names, whose normalization template produces the colour modes of the filter menu.
+	 *
+	 * @remarks
+	 * Set by the {@link DocumentScanner} from {@link DocumentScannerConfig.utilizedTemplateNames}.
+	 *
+	 * @defaultValue {@link DEFAULT_TEMPLATE_NAMES}
+	 *
+	 * @internal
+	 */
+	utilizedTemplateNames?: UtilizedTemplateNames;
 }
 
 export default class DocumentResultView {
 	private currentScanResultViewResolver?: (result: DocumentResult) => void;
 
 	// Edits applied to the corrected image, recomputed from the pristine image on every change.
-	private editState: { rotation: number; filterId: string | null } = {
+	private editState: PageEditState = {
 		rotation: 0,
 		filterId: null,
 	};
@@ -197,9 +346,27 @@ export default class DocumentResultView {
 	private pristineCanvas?: HTMLCanvasElement;
 	// The on-screen canvas that edits are drawn into.
 	private displayCanvas?: HTMLCanvasElement;
+	// Corrected images of the current result in each colour mode, normalized on first use.
+	private colorModeImages = new Map<DocumentColorMode, DeskewedImageResultItem>();
+	// Colour mode of the normalization template, which new scans are corrected in.
+	private templateColorMode: DocumentColorMode = "color";
 	private filterMenuOutsideClick?: (event: MouseEvent) => void;
+	private adjustMenuOutsideClick?: (event: MouseEvent) => void;
+	private straightenMenuOutsideClick?: (event: MouseEvent) => void;
+	// Crop box and controls while in crop mode, see handleCrop.
+	private cropState?: CropState;
+	// Whether a slider drag has already been recorded in the undo history.
+	private adjustInProgress = false;
+	// Pending animation frame that redraws the image while a slider is dragged.
+	private adjustFrame?: number;
+	// Edit states to step back and forward through, cleared whenever the view is rebuilt with a new image.
+	private undoStack: PageEditState[] = [];
+	private redoStack: PageEditState[] = [];
+	private historyKeydown?: (event: KeyboardEvent) => void;
 	// Timestamp of the last accepted rotate click, used to debounce mouse switch chatter.
 	private lastRotateClickAt = 0;
+	// Page of the session being re-edited from the DocumentPagesView, if any.
+	private editingPage?: ScannedPage;
 
 	constructor(
 		private resources: SharedResources,
@@ -208,13 +375,24 @@ export default class DocumentResultView {
 		private correctionView?: DocumentCorrectionView,
 	) {}
 
-	async launch(): Promise<DocumentResult> {
+	/**
+	 * Show the result view for the current scan result.
+	 *
+	 * @param page - A page of the {@link ScanSession} to re-edit. Its edits are restored on top of {@link ScannedPage.baseCorrectedImageResult} instead of starting from the current result.
+	 *
+	 * @returns Promise that resolves when the user clicks "Done"
+	 *
+	 * @internal
+	 */
+	async launch(page?: ScannedPage): Promise<DocumentResult> {
 		try {
+			this.editingPage = page;
 			const container = getElement(this.config.container);
 			if (!container) throw new Error("Result view container not found");
 			container.textContent = "";
 			await this.initialize();
 			container.style.display = "flex";
+			this.resources.emit?.("viewChanged", { view: EnumDDSViews.Result });
 
 			// Return promise that resolves when user clicks done
 			return new Promise((resolve) => {
@@ -247,13 +425,20 @@ export default class DocumentResultView {
 			}
 
 			if (mode === "upload" && this.config?.onUpload) {
-				await this.config.onUpload(result);
+				await this.config.onUpload(result, await this.exportConfiguredFile(result, "upload"));
 			} else if (mode === "share") {
 				await this.handleShare();
 			}
 		} catch (error) {
 			console.error("Error on upload/share:", error);
-			alert(getString("uploadShareFailedAlert"));
+			const code =
+				mode === "upload"
+					? toDocumentScannerError(error, EnumDDSErrorCode.UPLOAD_FAILED).code
+					: EnumDDSErrorCode.EXPORT_FAILED;
+			reportError(
+				this.resources,
+				new DocumentScannerError(code, getString("uploadShareFailedAlert"), error),
+			);
 		}
 	}
 
@@ -273,18 +458,18 @@ export default class DocumentResultView {
 	 * - Falls back to download if sharing is not supported or fails
 	 *
 	 * **On Desktop or Fallback:**
-	 * - Creates a temporary download link with a timestamped filename
+	 * - Creates a temporary download link with the exported file's name
 	 * - Triggers automatic download by simulating a click
 	 * - Cleans up the temporary object URL after download
 	 *
-	 * The corrected image is converted to a PNG blob using {@link DeskewedImageResultItem.toBlob} before sharing/downloading.
+	 * The corrected image is encoded via {@link exportDocumentImage} with {@link DocumentResultViewConfig.exportOptions} (a PNG by default) before sharing/downloading.
 	 * If the user cancels the share dialog (AbortError), the operation is considered successful and returns without error.
 	 *
 	 * @throws {Error} If no corrected image result is available
 	 * @throws {Error} If blob conversion fails
 	 *
 	 * @see {@link handleUploadAndShareBtn} which invokes this method in "share" mode
-	 * @see {@link DeskewedImageResultItem.toBlob} for image conversion
+	 * @see {@link exportDocumentImage} for image conversion
 	 * @see {@link SharedResources.result} for the source of the corrected image
 	 * @see {@link createControls} where the share button is configured
 	 *
@@ -299,17 +484,13 @@ export default class DocumentResultView {
 				throw new Error("No image result provided");
 			}
 
-			// Convert to blob
-			const blob = await (result.correctedImageResult as DeskewedImageResultItem).toBlob(
-				"image/png",
+			// Convert to a file
+			this.emitExportStarted("share");
+			const file = await exportDocumentImage(
+				result.correctedImageResult,
+				this.config.exportOptions,
+				getString("downloadFilenamePrefix"),
 			);
-			if (!blob) {
-				throw new Error("Failed to convert image to blob");
-			}
-
-			const file = new File([blob], `${getString("downloadFilenamePrefix")}-${Date.now()}.png`, {
-				type: blob.type,
-			});
 
 			// Detect mobile devices
 			const isMobile = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(
@@ -352,7 +533,7 @@ export default class DocumentResultView {
 			}
 
 			// Fallback: download the file (always used on desktop)
-			const url = URL.createObjectURL(blob);
+			const url = URL.createObjectURL(file);
 			const a = document.createElement("a");
 			a.href = url;
 			a.download = file.name;
@@ -366,10 +547,56 @@ export default class DocumentResultView {
 			// Unexpected error in the overall process
 			let errMsg = ex?.message || ex;
 			console.error("Error in share/download process:", errMsg);
-			alert(getString("shareErrorAlert").replace("{error}", String(errMsg)));
+			reportError(
+				this.resources,
+				new DocumentScannerError(
+					EnumDDSErrorCode.EXPORT_FAILED,
+					getString("shareErrorAlert").replace("{error}", String(errMsg)),
+					ex,
+				),
+			);
+		}
+	}
+
+	/**
+	 * Encode the corrected image for the {@link DocumentResultViewConfig.onUpload} and {@link DocumentResultViewConfig.onDone} callbacks.
+	 *
+	 * @param result - The result to export
+	 * @param action - The button that triggered the export, for the `exportStarted` event
+	 * @returns The file, or `undefined` if {@link DocumentResultViewConfig.exportOptions} is not configured or there is no corrected image
+	 *
+	 * @internal
+	 */
+	private async exportConfiguredFile(
+		result: DocumentResult,
+		action: "upload" | "done",
+	): Promise<File | undefined> {
+		if (!this.config.exportOptions || !result.correctedImageResult) return undefined;
+
+		this.emitExportStarted(action);
+		try {
+			return await exportDocumentImage(
+				result.correctedImageResult,
+				this.config.exportOptions,
+				getString("downloadFilenamePrefix"),
+			);
+		} catch (ex) {
+			throw toDocumentScannerError(ex, EnumDDSErrorCode.EXPORT_FAILED);
 		}
 	}
 
+	/**
+	 * Emit the `exportStarted` event with the configured {@link DocumentExportOptions.format}.
+	 *
+	 * @internal
+	 */
+	private emitExportStarted(action: "share" | "upload" | "done"): void {
+		this.resources.emit?.("exportStarted", {
+			action,
+			format: this.config.exportOptions?.format ?? "png",
+		});
+	}
+
 	/**
 	 * Launch the correction view to manually adjust document boundaries.
 	 *
@@ -400,7 +627,9 @@ export default class DocumentResultView {
 					});
 				}
 
-				// Clear current scan result view and reinitialize with new image
+				// Clear current scan result view and reinitialize with new image; a re-edited page
+				// starts over from the new corrected image
+				this.editingPage = undefined;
 				this.dispose(true); // true = preserve resolver
 				await this.initialize();
 				const container = getElement(this.config.container);
@@ -413,6 +642,7 @@ export default class DocumentResultView {
 				status: {
 					code: EnumResultStatus.RS_FAILED,
 					message: error?.message || error,
+					errorCode: toDocumentScannerError(error).code,
 				},
 			});
 			throw error;
@@ -535,6 +765,7 @@ export default class DocumentResultView {
 				status: {
 					code: EnumResultStatus.RS_FAILED,
 					message: error?.message || error,
+					errorCode: toDocumentScannerError(error).code,
 				},
 			});
 			throw error;
@@ -549,15 +780,38 @@ export default class DocumentResultView {
 	 * @remarks
 	 * Invokes {@link DocumentResultViewConfig.onDone}, resolves, cleans up. In continuous mode this ends the
 	 * session; "Scan More" sets {@link SharedResources.scanMoreRequested} first so the loop continues instead.
+	 * The resolved result carries the edit state so the page stored in {@link SharedResources.session} stays re-editable.
+	 * A page re-edited from the {@link DocumentPagesView} was already delivered, so {@link DocumentResultViewConfig.onDone}
+	 * and its export are skipped and the edited result is only resolved.
 	 *
 	 * @internal
 	 */
 	private async handleDone() {
 		try {
-			const result = this.resources.result ?? {
-				status: { code: EnumResultStatus.RS_FAILED, message: "No scan result available" },
-			};
-			await this.config?.onDone?.(result);
+			const result: DocumentResult = this.resources.result
+				? {
+						...this.resources.result,
+						_editState: { ...this.editState },
+						_baseCorrectedImageResult: this.baseCorrectedImage,
+					}
+				: {
+						status: { code: EnumResultStatus.RS_FAILED, message: "No scan result available" },
+					};
+			if (this.config?.onDone && !this.resources.reviewingPageId) {
+				// A failed export is reported but keeps the scan, which is passed on without a file
+				const file = await this.exportConfiguredFile(result, "done").catch((error) => {
+					reportError(
+						this.resources,
+						new DocumentScannerError(
+							EnumDDSErrorCode.EXPORT_FAILED,
+							getString("exportFailedAlert"),
+							error,
+						),
+					);
+					return undefined;
+				});
+				await this.config.onDone(result, file);
+			}
 
 			// Resolve with current result
 			this.currentScanResultViewResolver?.(result);
@@ -572,6 +826,7 @@ export default class DocumentResultView {
 				status: {
 					code: EnumResultStatus.RS_FAILED,
 					message: error?.message || error,
+					errorCode: toDocumentScannerError(error).code,
 				},
 			});
 			throw error;
@@ -595,8 +850,621 @@ export default class DocumentResultView {
 		if (now - this.lastRotateClickAt < 50) return;
 		this.lastRotateClickAt = now;
 
+		this.recordEdit();
 		this.editState.rotation = (this.editState.rotation + 90) % 360;
 		this.applyEdits();
+		this.emitEditApplied("rotate");
+	}
+
+	/**
+	 * Toggle the straighten panel attached to the straighten toolbar button.
+	 *
+	 * @remarks
+	 * The panel holds a fine rotation slider, recorded like the adjust sliders as a single edit per drag, and a button that
+	 * sets the angle estimated from the text lines of the corrected image ({@link estimateSkewAngle}).
+	 *
+	 * @internal
+	 */
+	private handleStraighten(): void {
+		const straightenBtn = document.getElementById("dds-scanResult-straighten");
+		if (!straightenBtn) return;
+
+		const existingMenu = straightenBtn.querySelector(".dds-filter-menu");
+		if (existingMenu) {
+			existingMenu.classList.toggle("show");
+			return;
+		}
+
+		createStyle("dds-filter-dropdown-style", FILTER_DROPDOWN_STYLE);
+		createStyle("dds-adjust-menu-style", ADJUST_MENU_STYLE);
+
+		const menu = document.createElement("div");
+		menu.className = "dds-filter-menu dds-adjust-menu";
+		menu.addEventListener("click", (event) => event.stopPropagation());
+
+		const row = document.createElement("label");
+		row.className = "dds-adjust-row";
+
+		const label = document.createElement("span");
+		label.textContent = getString("straightenAngleLabel");
+
+		const slider = document.createElement("input");
+		slider.type = "range";
+		slider.min = String(-MAX_STRAIGHTEN_ANGLE);
+		slider.max = String(MAX_STRAIGHTEN_ANGLE);
+		slider.step = "0.1";
+
+		const value = document.createElement("output");
+
+		slider.addEventListener("input", () => {
+			if (!this.adjustInProgress) {
+				this.recordEdit();
+				this.adjustInProgress = true;
+			}
+			this.editState.straighten = Number(slider.value);
+			value.textContent = `${slider.value}°`;
+			this.scheduleApplyEdits();
+		});
+		slider.addEventListener("change", () => {
+			if (!this.adjustInProgress) return;
+			this.adjustInProgress = false;
+			this.updateHistoryButtons();
+			this.emitEditApplied("straighten");
+		});
+
+		const autoBtn = document.createElement("button");
+		autoBtn.type = "button";
+		autoBtn.className = "dds-straighten-auto";
+		autoBtn.textContent = getString("straightenAutoBtn");
+		autoBtn.addEventListener("click", () => {
+			if (!this.pristineCanvas) return;
+			const angle = estimateSkewAngle(this.pristineCanvas);
+			if (angle === (this.editState.straighten ?? 0)) return;
+
+			this.recordEdit();
+			this.editState.straighten = angle;
+			this.applyEdits();
+			this.updateStraightenMenu();
+			this.emitEditApplied("straighten");
+		});
+
+		row.append(label, slider, value);
+		menu.append(row, autoBtn);
+
+		this.straightenMenuOutsideClick = (event: MouseEvent) => {
+			if (!straightenBtn.contains(event.target as Node)) {
+				menu.classList.remove("show");
+			}
+		};
+		document.addEventListener("click", this.straightenMenuOutsideClick);
+
+		straightenBtn.appendChild(menu);
+		this.updateStraightenMenu();
+		menu.classList.add("show");
+	}
+
+	/**
+	 * Show the fine rotation of {@link editState} on the straighten panel slider, if it was built.
+	 *
+	 * @internal
+	 */
+	private updateStraightenMenu(): void {
+		const slider = document.querySelector<HTMLInputElement>(
+			"#dds-scanResult-straighten input[type=range]",
+		);
+		if (!slider) return;
+		slider.value = String(this.editState.straighten ?? 0);
+		const value = slider.nextElementSibling;
+		if (value) value.textContent = `${slider.value}°`;
+	}
+
+	/**
+	 * Enter crop mode: show the whole image under a crop box, and swap the toolbar for the crop controls.
+	 *
+	 * @remarks
+	 * The crop box is kept in fractions of the displayed (rotated) image and mapped back to {@link PageEditState.crop} on apply.
+	 * Other edits are unavailable until the crop is applied or cancelled.
+	 *
+	 * @internal
+	 */
+	private handleCrop(): void {
+		if (this.cropState || !this.pristineCanvas || !this.displayCanvas) return;
+		const wrapper = this.displayCanvas.closest<HTMLElement>(".dds-result-view-container");
+		const imageContainer = this.displayCanvas.parentElement;
+		if (!wrapper || !imageContainer) return;
+
+		createStyle("dds-filter-dropdown-style", FILTER_DROPDOWN_STYLE);
+		createStyle("dds-crop-style", CROP_STYLE);
+
+		// Show the whole image, straightened and rotated, under the crop box
+		const uncropped = applyEditState(this.pristineCanvas, { ...this.editState, crop: undefined });
+		this.displayCanvas.width = uncropped.width;
+		this.displayCanvas.height = uncropped.height;
+		this.displayCanvas.getContext("2d")?.drawImage(uncropped, 0, 0);
+
+		const overlay = document.createElement("div");
+		overlay.className = "dds-crop-overlay";
+		const box = document.createElement("div");
+		box.className = "dds-crop-box";
+		box.dataset.handle = "move";
+		for (const corner of ["nw", "ne", "sw", "se"]) {
+			const handle = document.createElement("div");
+			handle.className = `dds-crop-handle dds-crop-handle-${corner}`;
+			handle.dataset.handle = corner;
+			box.appendChild(handle);
+		}
+		overlay.appendChild(box);
+		overlay.addEventListener("pointerdown", (event) => this.startCropDrag(event));
+		imageContainer.appendChild(overlay);
+
+		// Reversed like the toolbar, see createControls
+		const controls = createControls(
+			[
+				{
+					id: "dds-scanResult-cropCancel",
+					icon: DDS_ICONS.cancel,
+					label: getString("cropCancelBtn"),
+					onClick: () => {
+						this.exitCropMode();
+						this.applyEdits();
+					},
+				},
+				{
+					id: "dds-scanResult-cropAspect",
+					icon: DDS_ICONS.aspectRatio,
+					label: getString("cropAspectBtn"),
+					onClick: () => this.handleCropAspect(),
+				},
+				{
+					id: "dds-scanResult-cropApply",
+					icon: DDS_ICONS.complete,
+					label: getString("cropApplyBtn"),
+					onClick: () => this.applyCrop(),
+				},
+			].reverse(),
+		);
+		controls.classList.add("dds-crop-controls");
+		wrapper.appendChild(controls);
+		wrapper.classList.add("dds-cropping");
+
+		const resizeObserver = new ResizeObserver(() => this.layoutCropOverlay());
+		resizeObserver.observe(this.displayCanvas);
+
+		this.cropState = {
+			rect: this.editState.crop
+				? rotateCropRect(this.editState.crop, this.editState.rotation)
+				: { x: 0, y: 0, width: 1, height: 1 },
+			aspect: CROP_ASPECT_PRESETS[0],
+			overlay,
+			box,
+			controls,
+			resizeObserver,
+		};
+		this.layoutCropOverlay();
+	}
+
+	/**
+	 * Place the crop overlay over the displayed image, and the crop box within it.
+	 *
+	 * @internal
+	 */
+	private layoutCropOverlay(): void {
+		const state = this.cropState;
+		const parent = state?.overlay.parentElement;
+		if (!state || !parent || !this.displayCanvas) return;
+
+		const canvasRect = this.displayCanvas.getBoundingClientRect();
+		const parentRect = parent.getBoundingClientRect();
+		Object.assign(state.overlay.style, {
+			left: `${canvasRect.left - parentRect.left}px`,
+			top: `${canvasRect.top - parentRect.top}px`,
+			width: `${canvasRect.width}px`,
+			height: `${canvasRect.height}px`,
+		});
+		this.updateCropBox();
+	}
+
+	/**
+	 * Show the crop rectangle of {@link cropState} on the crop box.
+	 *
+	 * @internal
+	 */
+	private updateCropBox(): void {
+		if (!this.cropState) return;
+		const { rect, box } = this.cropState;
+		Object.assign(box.style, {
+			left: `${rect.x * 100}%`,
+			top: `${rect.y * 100}%`,
+			width: `${rect.width * 100}%`,
+			height: `${rect.height * 100}%`,
+		});
+	}
+
+	/**
+	 * Move the crop box, or resize it from a corner while keeping the opposite corner in place, as the pointer drags.
+	 *
+	 * @internal
+	 */
+	private startCropDrag(event: PointerEvent): void {
+		const state = this.cropState;
+		const handle = (event.target as HTMLElement).dataset.handle;
+		if (!state || !handle) return;
+		event.preventDefault();
+
+		const { overlay } = state;
+		overlay.setPointerCapture(event.pointerId);
+		const bounds = overlay.getBoundingClientRect();
+		const start = { ...state.rect };
+		// Smallest crop box side, in fractions of the image
+		const minWidth = Math.min(1, CROP_MIN_SIZE / bounds.width);
+		const minHeight = Math.min(1, CROP_MIN_SIZE / bounds.height);
+		const ratio = this.getCropAspectRatio();
+
+		const onMove = (move: PointerEvent) => {
+			const dx = (move.clientX - event.clientX) / bounds.width;
+			const dy = (move.clientY - event.clientY) / bounds.height;
+			state.rect =
+				handle === "move"
+					? {
+							...start,
+							x: clamp(start.x + dx, 0, 1 - start.width),
+							y: clamp(start.y + dy, 0, 1 - start.height),
+						}
+					: resizeCropRect(start, handle, dx, dy, minWidth, minHeight, ratio);
+			this.updateCropBox();
+		};
+		const onEnd = () => {
+			overlay.removeEventListener("pointermove", onMove);
+			overlay.removeEventListener("pointerup", onEnd);
+			overlay.removeEventListener("pointercancel", onEnd);
+		};
+		overlay.addEventListener("pointermove", onMove);
+		overlay.addEventListener("pointerup", onEnd);
+		overlay.addEventListener("pointercancel", onEnd);
+	}
+
+	/**
+	 * Width to height ratio of the crop box in fractions of the image for the selected preset, or `undefined` when free.
+	 *
+	 * @internal
+	 */
+	private getCropAspectRatio(): number | undefined {
+		const aspect = this.cropState?.aspect;
+		if (!aspect || !this.displayCanvas || aspect.id === "free") return undefined;
+		// Fractions of the image already have its proportions
+		if (aspect.id === "original") return 1;
+		return aspect.ratio! / (this.displayCanvas.width / this.displayCanvas.height);
+	}
+
+	/**
+	 * Toggle the aspect ratio presets attached to the aspect ratio button of crop mode.
+	 *
+	 * @remarks
+	 * Picking a preset shrinks the crop box to the largest box of that ratio centred on it.
+	 *
+	 * @internal
+	 */
+	private handleCropAspect(): void {
+		const state = this.cropState;
+		const aspectBtn = document.getElementById("dds-scanResult-cropAspect");
+		if (!state || !aspectBtn) return;
+
+		const existingMenu = aspectBtn.querySelector(".dds-filter-menu");
+		if (existingMenu) {
+			existingMenu.classList.toggle("show");
+			return;
+		}
+
+		const menu = document.createElement("div");
+		menu.className = "dds-filter-menu";
+		for (const preset of CROP_ASPECT_PRESETS) {
+			const optionBtn = document.createElement("button");
+			optionBtn.className = "dds-filter-option";
+			optionBtn.textContent = preset.labelKey ? getString(preset.labelKey) : preset.id;
+			optionBtn.classList.toggle("active", preset === state.aspect);
+			optionBtn.addEventListener("click", (event) => {
+				event.stopPropagation();
+				menu.classList.remove("show");
+				state.aspect = preset;
+				menu
+					.querySelectorAll(".dds-filter-option")
+					.forEach((option) => option.classList.toggle("active", option === optionBtn));
+
+				const ratio = this.getCropAspectRatio();
+				if (ratio) state.rect = fitCropRect(state.rect, ratio);
+				this.updateCropBox();
+			});
+			menu.appendChild(optionBtn);
+		}
+
+		state.aspectMenuOutsideClick = (event: MouseEvent) => {
+			if (!aspectBtn.contains(event.target as Node)) {
+				menu.classList.remove("show");
+			}
+		};
+		document.addEventListener("click", state.aspectMenuOutsideClick);
+
+		aspectBtn.appendChild(menu);
+		menu.classList.add("show");
+	}
+
+	/**
+	 * Crop the image to the crop box as an edit that can be undone, and leave crop mode.
+	 *
+	 * @remarks
+	 * A crop box covering the whole image clears the crop.
+	 *
+	 * @internal
+	 */
+	private applyCrop(): void {
+		if (!this.cropState) return;
+		const { rect } = this.cropState;
+		this.exitCropMode();
+
+		const isWholeImage =
+			rect.x < 0.001 && rect.y < 0.001 && rect.width > 0.999 && rect.height > 0.999;
+		const crop = isWholeImage ? undefined : rotateCropRect(rect, 360 - this.editState.rotation);
+		if (JSON.stringify(crop) !== JSON.stringify(this.editState.crop)) {
+			this.recordEdit();
+			this.editState.crop = crop;
+			this.emitEditApplied("crop");
+		}
+		this.applyEdits();
+	}
+
+	/**
+	 * Remove the crop box and controls and bring back the toolbar. The caller redraws the image.
+	 *
+	 * @internal
+	 */
+	private exitCropMode(): void {
+		const state = this.cropState;
+		if (!state) return;
+		this.cropState = undefined;
+
+		state.resizeObserver.disconnect();
+		if (state.aspectMenuOutsideClick) {
+			document.removeEventListener("click", state.aspectMenuOutsideClick);
+		}
+		state.overlay.remove();
+		state.controls.parentElement?.classList.remove("dds-cropping");
+		state.controls.remove();
+	}
+
+	/**
+	 * Toggle the adjust panel attached to the adjust toolbar button.
+	 *
+	 * @remarks
+	 * The panel is built once from {@link ADJUSTMENT_OPTIONS} and cached on the button, like the filter menu.
+	 * Dragging a slider redraws the image once per animation frame and is recorded as a single edit in the undo history.
+	 *
+	 * @internal
+	 */
+	private handleAdjust(): void {
+		const adjustBtn = document.getElementById("dds-scanResult-adjust");
+		if (!adjustBtn) return;
+
+		const existingMenu = adjustBtn.querySelector(".dds-filter-menu");
+		if (existingMenu) {
+			existingMenu.classList.toggle("show");
+			return;
+		}
+
+		createStyle("dds-filter-dropdown-style", FILTER_DROPDOWN_STYLE);
+		createStyle("dds-adjust-menu-style", ADJUST_MENU_STYLE);
+
+		const menu = document.createElement("div");
+		menu.className = "dds-filter-menu dds-adjust-menu";
+		// Keep clicks on the sliders from toggling the panel through the button
+		menu.addEventListener("click", (event) => event.stopPropagation());
+
+		for (const option of ADJUSTMENT_OPTIONS) {
+			const row = document.createElement("label");
+			row.className = "dds-adjust-row";
+
+			const label = document.createElement("span");
+			label.textContent = getString(option.labelKey);
+
+			const slider = document.createElement("input");
+			slider.type = "range";
+			slider.min = String(option.min);
+			slider.max = String(option.max);
+			slider.step = String(option.step);
+			slider.dataset.adjustment = option.id;
+
+			const value = document.createElement("output");
+
+			slider.addEventListener("input", () => {
+				if (!this.adjustInProgress) {
+					this.recordEdit();
+					this.adjustInProgress = true;
+				}
+				this.editState.adjustments = {
+					...this.editState.adjustments,
+					[option.id]: Number(slider.value),
+				};
+				value.textContent = slider.value;
+				this.scheduleApplyEdits();
+			});
+			slider.addEventListener("change", () => {
+				if (!this.adjustInProgress) return;
+				this.adjustInProgress = false;
+				this.updateHistoryButtons();
+				this.emitEditApplied("adjust");
+			});
+
+			row.append(label, slider, value);
+			menu.appendChild(row);
+		}
+
+		this.adjustMenuOutsideClick = (event: MouseEvent) => {
+			if (!adjustBtn.contains(event.target as Node)) {
+				menu.classList.remove("show");
+			}
+		};
+		document.addEventListener("click", this.adjustMenuOutsideClick);
+
+		adjustBtn.appendChild(menu);
+		this.updateAdjustMenu();
+		menu.classList.add("show");
+	}
+
+	/**
+	 * Show the adjustments of {@link editState} on the adjust panel sliders, if it was built.
+	 *
+	 * @internal
+	 */
+	private updateAdjustMenu(): void {
+		document
+			.querySelectorAll<HTMLInputElement>("#dds-scanResult-adjust input[type=range]")
+			.forEach((slider) => {
+				const option = ADJUSTMENT_OPTIONS.find((o) => o.id === slider.dataset.adjustment);
+				if (!option) return;
+				slider.value = String(this.editState.adjustments?.[option.id] ?? option.neutral);
+				const value = slider.nextElementSibling;
+				if (value) value.textContent = slider.value;
+			});
+	}
+
+	/**
+	 * Redraw the edits on the next animation frame, so dragging a slider does not queue a redraw per input event.
+	 *
+	 * @internal
+	 */
+	private scheduleApplyEdits(): void {
+		if (this.adjustFrame !== undefined) return;
+		this.adjustFrame = requestAnimationFrame(() => {
+			this.adjustFrame = undefined;
+			this.applyEdits();
+		});
+	}
+
+	/**
+	 * Revert the last rotation, fine rotation, filter, adjustment or reset.
+	 *
+	 * @internal
+	 */
+	private handleUndo(): void {
+		const previous = this.undoStack.pop();
+		if (!previous) return;
+
+		this.redoStack.push({ ...this.editState });
+		this.restoreEditState(previous, "undo");
+	}
+
+	/**
+	 * Re-apply the last edit reverted by {@link handleUndo}.
+	 *
+	 * @internal
+	 */
+	private handleRedo(): void {
+		const next = this.redoStack.pop();
+		if (!next) return;
+
+		this.undoStack.push({ ...this.editState });
+		this.restoreEditState(next, "redo");
+	}
+
+	/**
+	 * Clear the rotation, fine rotation, filter and adjustments and return to the template's colour mode to show the original corrected image, as an edit that can be undone.
+	 *
+	 * @internal
+	 */
+	private async handleReset(): Promise<void> {
+		if (isUnedited(this.editState, this.templateColorMode)) return;
+
+		try {
+			await this.getColorModeImage(this.templateColorMode);
+		} catch (ex) {
+			reportError(
+				this.resources,
+				toDocumentScannerError(ex, EnumDDSErrorCode.NORMALIZATION_FAILED),
+			);
+			return;
+		}
+		this.recordEdit();
+		this.restoreEditState(
+			{ rotation: 0, filterId: null, colorMode: this.templateColorMode },
+			"reset",
+		);
+	}
+
+	/**
+	 * Push the current {@link editState} on the undo stack before it changes, dropping the redo history.
+	 *
+	 * @internal
+	 */
+	private recordEdit(): void {
+		this.undoStack.push({ ...this.editState });
+		this.redoStack = [];
+		this.updateHistoryButtons();
+	}
+
+	/**
+	 * Show the image with `editState` and update the controls that reflect it.
+	 *
+	 * @remarks
+	 * The image of its colour mode was normalized when the mode was first selected, or by {@link handleReset}.
+	 *
+	 * @internal
+	 */
+	private restoreEditState(editState: PageEditState, edit: "undo" | "redo" | "reset"): void {
+		const image = this.colorModeImages.get(editState.colorMode ?? this.templateColorMode);
+		if (image) this.setBaseImage(image);
+		this.editState = { ...editState };
+		this.applyEdits();
+		this.updateFilterMenu();
+		this.updateAdjustMenu();
+		this.updateStraightenMenu();
+		this.updateHistoryButtons();
+		this.emitEditApplied(edit);
+	}
+
+	/**
+	 * Enable the undo, redo and reset buttons only when they have something to do.
+	 *
+	 * @internal
+	 */
+	private updateHistoryButtons(): void {
+		document
+			.getElementById("dds-scanResult-undo")
+			?.classList.toggle("disabled", !this.undoStack.length);
+		document
+			.getElementById("dds-scanResult-redo")
+			?.classList.toggle("disabled", !this.redoStack.length);
+		document
+			.getElementById("dds-scanResult-reset")
+			?.classList.toggle("disabled", isUnedited(this.editState, this.templateColorMode));
+	}
+
+	/**
+	 * Handle the undo/redo keyboard shortcuts while the view is shown.
+	 *
+	 * @remarks
+	 * <kbd>Ctrl</kbd>/<kbd>Cmd</kbd>+<kbd>Z</kbd> undoes; adding <kbd>Shift</kbd>, or <kbd>Ctrl</kbd>/<kbd>Cmd</kbd>+<kbd>Y</kbd>, redoes.
+	 * Shortcuts typed in text fields are left to the browser.
+	 *
+	 * @internal
+	 */
+	private handleHistoryKeydown(event: KeyboardEvent): void {
+		const container = getElement(this.config.container);
+		if (!container || container.style.display === "none" || this.cropState) return;
+		if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+
+		const target = event.target as HTMLElement | null;
+		if (target?.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target?.tagName ?? "")) {
+			return;
+		}
+
+		const key = event.key.toLowerCase();
+		if (key === "z" && !event.shiftKey) {
+			this.handleUndo();
+		} else if (key === "z" || key === "y") {
+			this.handleRedo();
+		} else {
+			return;
+		}
+		event.preventDefault();
 	}
 
 	/**
@@ -632,19 +1500,44 @@ export default class DocumentResultView {
 			const optionBtn = document.createElement("button");
 			optionBtn.className = "dds-filter-option";
 			optionBtn.textContent = option.label;
-			// Mark and display active filter
-			if (option.id === this.editState.filterId) optionBtn.classList.add("active");
+			optionBtn.dataset.filterId = option.id ?? "";
 			optionBtn.addEventListener("click", (event) => {
 				event.stopPropagation();
+				menu.classList.remove("show");
+				if (option.id === this.editState.filterId) return;
+
+				this.recordEdit();
 				this.editState.filterId = option.id;
-				menu.querySelector(".dds-filter-option.active")?.classList.remove("active");
-				optionBtn.classList.add("active");
+				this.updateFilterMenu();
 				this.applyEdits();
-				menu.classList.remove("show");
+				this.emitEditApplied("filter");
 			});
 			menu.appendChild(optionBtn);
 		}
 
+		const heading = document.createElement("div");
+		heading.className = "dds-filter-heading";
+		heading.textContent = getString("colorModeMenuTitle");
+		menu.appendChild(heading);
+
+		const colorModes: { mode: DocumentColorMode; label: string }[] = [
+			{ mode: "color", label: getString("colorModeColorBtn") },
+			{ mode: "grayscale", label: getString("colorModeGrayscaleBtn") },
+			{ mode: "binary", label: getString("colorModeBinaryBtn") },
+		];
+		for (const { mode, label } of colorModes) {
+			const modeBtn = document.createElement("button");
+			modeBtn.className = "dds-filter-option";
+			modeBtn.textContent = label;
+			modeBtn.dataset.colorMode = mode;
+			modeBtn.addEventListener("click", (event) => {
+				event.stopPropagation();
+				menu.classList.remove("show");
+				this.handleColorMode(mode);
+			});
+			menu.appendChild(modeBtn);
+		}
+
 		// Close the menu when clicking anywhere outside the filter button.
 		this.filterMenuOutsideClick = (event: MouseEvent) => {
 			if (!filterBtn.contains(event.target as Node)) {
@@ -654,9 +1547,163 @@ export default class DocumentResultView {
 		document.addEventListener("click", this.filterMenuOutsideClick);
 
 		filterBtn.appendChild(menu);
+		this.updateFilterMenu();
 		menu.classList.add("show");
 	}
 
+	/**
+	 * Mark the active filter of {@link editState} in the filter menu, if it was built.
+	 *
+	 * @internal
+	 */
+	private updateFilterMenu(): void {
+		document
+			.querySelectorAll<HTMLElement>("#dds-scanResult-filter [data-filter-id]")
+			.forEach((optionBtn) =>
+				optionBtn.classList.toggle(
+					"active",
+					(optionBtn.dataset.filterId || null) === this.editState.filterId,
+				),
+			);
+		document
+			.querySelectorAll<HTMLElement>("#dds-scanResult-filter [data-color-mode]")
+			.forEach((modeBtn) =>
+				modeBtn.classList.toggle(
+					"active",
+					modeBtn.dataset.colorMode === (this.editState.colorMode ?? this.templateColorMode),
+				),
+			);
+	}
+
+	/**
+	 * Switch the corrected image to another colour mode of the normalizer engine.
+	 *
+	 * @remarks
+	 * The image is re-normalized from the original image and boundaries on first use, then reused; the rotation, filter and adjustments are re-applied on top of it.
+	 *
+	 * @internal
+	 */
+	private async handleColorMode(colorMode: DocumentColorMode): Promise<void> {
+		if (colorMode === (this.editState.colorMode ?? this.templateColorMode)) return;
+
+		try {
+			const image = await this.getColorModeImage(colorMode);
+			this.recordEdit();
+			this.editState.colorMode = colorMode;
+			this.setBaseImage(image);
+			this.applyEdits();
+			this.updateFilterMenu();
+			this.updateHistoryButtons();
+			this.emitEditApplied("colorMode");
+		} catch (ex) {
+			const error = toDocumentScannerError(ex, EnumDDSErrorCode.NORMALIZATION_FAILED);
+			console.error(error.message);
+			reportError(this.resources, error);
+		}
+	}
+
+	/**
+	 * Get the corrected image of the current result in a colour mode, normalizing it with a loading screen on first use.
+	 *
+	 * @throws {DocumentScannerError} If the image cannot be normalized ({@link EnumDDSErrorCode.NORMALIZATION_FAILED})
+	 *
+	 * @internal
+	 */
+	private async getColorModeImage(colorMode: DocumentColorMode): Promise<DeskewedImageResultItem> {
+		const cached = this.colorModeImages.get(colorMode);
+		if (cached) return cached;
+
+		const container = getElement(this.config.container);
+		createStyle("dds-loading-screen-style", DEFAULT_LOADING_SCREEN_STYLE);
+		const loadingScreen = container ? showLoadingScreen(container) : undefined;
+		try {
+			const image = await this.normalizeInColorMode(this.resources.result, colorMode);
+			this.colorModeImages.set(colorMode, image);
+			return image;
+		} finally {
+			loadingScreen?.hide();
+		}
+	}
+
+	/**
+	 * Read the colour mode of the normalization template, which new scans are corrected in.
+	 *
+	 * @remarks
+	 * Falls back to `"color"` if the template cannot be read.
+	 *
+	 * @internal
+	 */
+	private async getTemplateColorMode(): Promise<DocumentColorMode> {
+		const { cvRouter } = this.resources;
+		if (!cvRouter) return "color";
+		try {
+			return await getTemplateColorMode(
+				cvRouter,
+				this.config.utilizedTemplateNames?.normalize || DEFAULT_TEMPLATE_NAMES.normalize,
+			);
+		} catch {
+			return "color";
+		}
+	}
+
+	/**
+	 * Correct the original image of a result in a colour mode, with {@link DocumentResultViewConfig.binarization}.
+	 *
+	 * @param result - A result holding the original image and its boundaries; the full image is corrected without boundaries
+	 * @param colorMode - The {@link DocumentColorMode}
+	 *
+	 * @remarks
+	 * Also used by the {@link DocumentPagesView} to keep the colour mode of a re-cropped page.
+	 *
+	 * @throws {DocumentScannerError} If the image cannot be normalized ({@link EnumDDSErrorCode.NORMALIZATION_FAILED})
+	 *
+	 * @internal
+	 */
+	async normalizeInColorMode(
+		result: DocumentResult | undefined,
+		colorMode: DocumentColorMode,
+	): Promise<DeskewedImageResultItem> {
+		const { cvRouter } = this.resources;
+		const originalImage = result?.originalImageResult;
+		if (!cvRouter || !originalImage) {
+			throw new DocumentScannerError(
+				EnumDDSErrorCode.NORMALIZATION_FAILED,
+				"Original image is missing from the scan result",
+			);
+		}
+
+		const quadrilateral = result.detectedQuadrilateral ?? getFullImageQuadrilateral(originalImage);
+		const image = await normalizeDocumentInColorMode(
+			cvRouter,
+			originalImage,
+			quadrilateral.points,
+			this.config.utilizedTemplateNames?.normalize || DEFAULT_TEMPLATE_NAMES.normalize,
+			colorMode,
+			this.config.binarization,
+		);
+		if (!image) {
+			throw new DocumentScannerError(
+				EnumDDSErrorCode.NORMALIZATION_FAILED,
+				"Failed to normalize image",
+			);
+		}
+		return image;
+	}
+
+	/**
+	 * Use `image` as the unedited corrected image that edits are derived from.
+	 *
+	 * @internal
+	 */
+	private setBaseImage(image: DeskewedImageResultItem): void {
+		const canvas = image.toCanvas();
+		this.baseCorrectedImage = image;
+		this.pristineCanvas = document.createElement("canvas");
+		this.pristineCanvas.width = canvas.width;
+		this.pristineCanvas.height = canvas.height;
+		this.pristineCanvas.getContext("2d")?.drawImage(canvas, 0, 0);
+	}
+
 	/**
 	 * Recompute the displayed image from the pristine corrected image, applying the active filter
 	 * and rotation, then publish the edited image so share/upload/done export it.
@@ -671,17 +1718,7 @@ export default class DocumentResultView {
 		if (!this.baseCorrectedImage || !this.displayCanvas || !this.pristineCanvas) return;
 
 		// Derive from the untouched pristine copy for unstacked edits
-		let working = document.createElement("canvas");
-		const filter = FILTER_OPTIONS.find((option) => option.id === this.editState.filterId);
-		if (filter) {
-			filter.apply(this.pristineCanvas, working);
-		} else {
-			working.width = this.pristineCanvas.width;
-			working.height = this.pristineCanvas.height;
-			working.getContext("2d")?.drawImage(this.pristineCanvas, 0, 0);
-		}
-
-		working = rotateCanvas(working, this.editState.rotation);
+		const working = applyEditState(this.pristineCanvas, this.editState);
 
 		// Redraw the live canvas in place to avoid a full view rebuild.
 		this.displayCanvas.width = working.width;
@@ -696,13 +1733,38 @@ export default class DocumentResultView {
 		}
 	}
 
+	/**
+	 * Emit the `editApplied` event for a crop, rotation, fine rotation, filter, adjustment or colour mode change, or a step through the edit history.
+	 *
+	 * @internal
+	 */
+	private emitEditApplied(
+		edit:
+			| "crop"
+			| "rotate"
+			| "straighten"
+			| "filter"
+			| "adjust"
+			| "colorMode"
+			| "undo"
+			| "redo"
+			| "reset",
+	): void {
+		this.resources.emit?.("editApplied", {
+			edit,
+			pageId: this.editingPage?.id,
+			editState: { ...this.editState },
+		});
+	}
+
 	/**
 	 * Create the toolbar controls for the result view.
 	 *
 	 * @returns The HTMLElement containing the toolbar with all configured buttons
 	 *
 	 * @remarks
-	 * Detects mobile/share capability, creates retake/correction/share/upload/done buttons. Customizable via {@link DocumentResultViewToolbarButtonsConfig}.
+	 * Detects mobile/share capability, creates retake/edit/history/correction/share/upload/done buttons. Customizable via {@link DocumentResultViewToolbarButtonsConfig}.
+	 * The undo, redo and reset buttons are created enabled so their click handlers are attached; {@link updateHistoryButtons} disables them until they apply.
 	 *
 	 * @internal
 	 */
@@ -726,7 +1788,7 @@ export default class DocumentResultView {
 				label: toolbarButtonsConfig?.retake?.label || "Re-take",
 				onClick: () => this.handleRetake(),
 				className: `${toolbarButtonsConfig?.retake?.className || ""}`,
-				isHidden: toolbarButtonsConfig?.retake?.isHidden || false,
+				isHidden: toolbarButtonsConfig?.retake?.isHidden || !!this.resources.reviewingPageId,
 				isDisabled: !this.scannerView,
 			},
 			{
@@ -738,6 +1800,24 @@ export default class DocumentResultView {
 				isHidden: toolbarButtonsConfig?.rotate?.isHidden || false,
 				isDisabled: !this.resources.result?.correctedImageResult,
 			},
+			{
+				id: `dds-scanResult-straighten`,
+				icon: toolbarButtonsConfig?.straighten?.icon || DDS_ICONS.straighten,
+				label: toolbarButtonsConfig?.straighten?.label || "Straighten",
+				onClick: () => this.handleStraighten(),
+				className: `${toolbarButtonsConfig?.straighten?.className || ""}`,
+				isHidden: toolbarButtonsConfig?.straighten?.isHidden || false,
+				isDisabled: !this.resources.result?.correctedImageResult,
+			},
+			{
+				id: `dds-scanResult-crop`,
+				icon: toolbarButtonsConfig?.crop?.icon || DDS_ICONS.crop,
+				label: toolbarButtonsConfig?.crop?.label || "Crop",
+				onClick: () => this.handleCrop(),
+				className: `${toolbarButtonsConfig?.crop?.className || ""}`,
+				isHidden: toolbarButtonsConfig?.crop?.isHidden || false,
+				isDisabled: !this.resources.result?.correctedImageResult,
+			},
 			{
 				id: `dds-scanResult-filter`,
 				icon: toolbarButtonsConfig?.filter?.icon || DDS_ICONS.filter,
@@ -747,6 +1827,39 @@ export default class DocumentResultView {
 				isHidden: toolbarButtonsConfig?.filter?.isHidden || false,
 				isDisabled: !this.resources.result?.correctedImageResult,
 			},
+			{
+				id: `dds-scanResult-adjust`,
+				icon: toolbarButtonsConfig?.adjust?.icon || DDS_ICONS.adjust,
+				label: toolbarButtonsConfig?.adjust?.label || "Adjust",
+				onClick: () => this.handleAdjust(),
+				className: `${toolbarButtonsConfig?.adjust?.className || ""}`,
+				isHidden: toolbarButtonsConfig?.adjust?.isHidden || false,
+				isDisabled: !this.resources.result?.correctedImageResult,
+			},
+			{
+				id: `dds-scanResult-undo`,
+				icon: toolbarButtonsConfig?.undo?.icon || DDS_ICONS.undo,
+				label: toolbarButtonsConfig?.undo?.label || "Undo",
+				onClick: () => this.handleUndo(),
+				className: `${toolbarButtonsConfig?.undo?.className || ""}`,
+				isHidden: toolbarButtonsConfig?.undo?.isHidden || false,
+			},
+			{
+				id: `dds-scanResult-redo`,
+				icon: toolbarButtonsConfig?.redo?.icon || DDS_ICONS.redo,
+				label: toolbarButtonsConfig?.redo?.label || "Redo",
+				onClick: () => this.handleRedo(),
+				className: `${toolbarButtonsConfig?.redo?.className || ""}`,
+				isHidden: toolbarButtonsConfig?.redo?.isHidden || false,
+			},
+			{
+				id: `dds-scanResult-reset`,
+				icon: toolbarButtonsConfig?.reset?.icon || DDS_ICONS.reset,
+				label: toolbarButtonsConfig?.reset?.label || "Reset",
+				onClick: () => this.handleReset(),
+				className: `${toolbarButtonsConfig?.reset?.className || ""}`,
+				isHidden: toolbarButtonsConfig?.reset?.isHidden || false,
+			},
 			{
 				id: `dds-scanResult-correct`,
 				icon: toolbarButtonsConfig?.correct?.icon || DDS_ICONS.normalize,
@@ -809,6 +1922,7 @@ export default class DocumentResultView {
 			// Create and add scan result view image container
 			const scanResultViewImageContainer = document.createElement("div");
 			Object.assign(scanResultViewImageContainer.style, {
+				position: "relative",
 				width: "100%",
 				height: "100%",
 				display: "flex",
@@ -817,30 +1931,54 @@ export default class DocumentResultView {
 				minHeight: "0",
 			});
 
-			// Add scan result image
-			const scanResultImg = (
-				this.resources.result.correctedImageResult as DeskewedImageResultItem
-			)?.toCanvas();
+			// Add scan result image; a re-edited page is shown from its unedited corrected image
+			const baseImage = (this.editingPage?.baseCorrectedImageResult ??
+				this.resources.result.correctedImageResult) as DeskewedImageResultItem;
+
+			// Restore a re-edited page's edits, otherwise preserve filter, adjustments and colour mode across scans in continuous scanning mode
+			this.editState = this.editingPage
+				? { ...this.editingPage.editState }
+				: this.resources.enableContinuousScanning
+					? { ...this.editState, rotation: 0, straighten: undefined, crop: undefined }
+					: { rotation: 0, filterId: null };
+			this.undoStack = [];
+			this.redoStack = [];
+
+			// A new scan is corrected in the template's colour mode; re-normalize it if another colour mode is kept
+			this.templateColorMode = await this.getTemplateColorMode();
+			const baseColorMode = this.editingPage?.editState.colorMode ?? this.templateColorMode;
+			this.editState.colorMode ??= baseColorMode;
+			this.colorModeImages = new Map([[baseColorMode, baseImage]]);
+			let colorModeImage = baseImage;
+			if (this.editState.colorMode !== baseColorMode) {
+				try {
+					colorModeImage = await this.getColorModeImage(this.editState.colorMode);
+				} catch (ex) {
+					reportError(
+						this.resources,
+						toDocumentScannerError(ex, EnumDDSErrorCode.NORMALIZATION_FAILED),
+					);
+					this.editState.colorMode = baseColorMode;
+				}
+			}
+
+			// Capture an immutable pristine copy and the live canvas for editing.
+			this.setBaseImage(colorModeImage);
+			// Start a new scan upright; the user can still rotate it
+			if (!this.editingPage && this.resources.enableAutoOrientation) {
+				this.editState.rotation = detectOrientation(this.pristineCanvas!);
+			}
+			const scanResultImg = document.createElement("canvas");
 			Object.assign(scanResultImg.style, {
 				maxWidth: "100%",
 				maxHeight: "100%",
 				objectFit: "contain",
 			});
-
-			// Capture an immutable pristine copy and the live canvas for rotate/filter editing.
-			this.baseCorrectedImage = this.resources.result
-				.correctedImageResult as DeskewedImageResultItem;
+			scanResultImg.width = this.pristineCanvas!.width;
+			scanResultImg.height = this.pristineCanvas!.height;
+			scanResultImg.getContext("2d")?.drawImage(this.pristineCanvas!, 0, 0);
 			this.displayCanvas = scanResultImg;
-			this.pristineCanvas = document.createElement("canvas");
-			this.pristineCanvas.width = scanResultImg.width;
-			this.pristineCanvas.height = scanResultImg.height;
-			this.pristineCanvas.getContext("2d")?.drawImage(scanResultImg, 0, 0);
-			// Preserve filter across scans in continuous scanning mode
-			this.editState = {
-				rotation: 0,
-				filterId: this.resources.enableContinuousScanning ? this.editState.filterId : null,
-			};
-			if (this.editState.filterId !== null) this.applyEdits();
+			if (hasEdits(this.editState) || colorModeImage !== baseImage) this.applyEdits();
 
 			scanResultViewImageContainer.appendChild(scanResultImg);
 			resultViewWrapper.appendChild(scanResultViewImageContainer);
@@ -849,20 +1987,28 @@ export default class DocumentResultView {
 			const controlContainer = this.createControls();
 			resultViewWrapper.appendChild(controlContainer);
 
-			if (this.resources.enableContinuousScanning) this.createScanMoreButton(controlContainer);
+			// A page re-edited from the DocumentPagesView returns there instead of scanning more
+			if (this.resources.enableContinuousScanning && !this.resources.reviewingPageId)
+				this.createScanMoreButton(controlContainer);
 
 			const container = getElement(this.config.container);
 			if (container) container.appendChild(resultViewWrapper);
+			this.updateHistoryButtons();
+
+			if (!this.historyKeydown) {
+				this.historyKeydown = (event) => this.handleHistoryKeydown(event);
+				document.addEventListener("keydown", this.historyKeydown);
+			}
 
 			// Hide retake button on flow.STATIC_FILE
 			if (this.resources.result._flowType === EnumFlowType.STATIC_FILE) {
 				const retakeBtn = document.querySelector("#dds-scanResult-retake") as HTMLElement;
-				retakeBtn.style.display = "none";
+				retakeBtn.classList.add("hide");
 			}
 		} catch (ex: any) {
-			let errMsg = ex?.message || ex;
-			console.error(errMsg);
-			alert(errMsg);
+			const error = toDocumentScannerError(ex, EnumDDSErrorCode.INITIALIZATION_FAILED);
+			console.error(error.message);
+			reportError(this.resources, error);
 		}
 	}
 
@@ -923,6 +2069,27 @@ export default class DocumentResultView {
 			this.filterMenuOutsideClick = undefined;
 		}
 
+		if (this.adjustMenuOutsideClick) {
+			document.removeEventListener("click", this.adjustMenuOutsideClick);
+			this.adjustMenuOutsideClick = undefined;
+		}
+		if (this.straightenMenuOutsideClick) {
+			document.removeEventListener("click", this.straightenMenuOutsideClick);
+			this.straightenMenuOutsideClick = undefined;
+		}
+		this.exitCropMode();
+		if (this.adjustFrame !== undefined) {
+			cancelAnimationFrame(this.adjustFrame);
+			this.adjustFrame = undefined;
+		}
+		this.adjustInProgress = false;
+		this.colorModeImages.clear();
+
+		if (this.historyKeydown) {
+			document.removeEventListener("keydown", this.historyKeydown);
+			this.historyKeydown = undefined;
+		}
+
 		// Clear resolver only if not preserving
 		if (!preserveResolver) {
 			this.currentScanResultViewResolver = undefined;
@@ -930,6 +2097,49 @@ export default class DocumentResultView {
 	}
 }
 
+/** Crop box and controls of the result view crop mode. */
+interface CropState {
+	/** The crop box, in fractions of the displayed (rotated) image. */
+	rect: CropRect;
+	aspect: CropAspectPreset;
+	overlay: HTMLElement;
+	box: HTMLElement;
+	controls: HTMLElement;
+	resizeObserver: ResizeObserver;
+	aspectMenuOutsideClick?: (event: MouseEvent) => void;
+}
+
+/** An aspect ratio preset of crop mode; `ratio` is width over height, in pixels. */
+interface CropAspectPreset {
+	id: string;
+	/** {@link StringConfig} key for presets with a name rather than a ratio. */
+	labelKey?: keyof StringConfig;
+	ratio?: number;
+}
+
+const CROP_ASPECT_PRESETS: CropAspectPreset[] = [
+	{ id: "free", labelKey: "cropAspectFreeBtn" },
+	{ id: "original", labelKey: "cropAspectOriginalBtn" },
+	{ id: "1:1", ratio: 1 },
+	{ id: "4:3", ratio: 4 / 3 },
+	{ id: "3:4", ratio: 3 / 4 },
+	{ id: "16:9", ratio: 16 / 9 },
+	{ id: "A4", ratio: 210 / 297 },
+	{ id: "Letter", ratio: 8.5 / 11 },
+];
+
+/** Smallest side of the crop box, in CSS pixels. */
+const CROP_MIN_SIZE = 32;
+
+function clamp(value: number, min: number, max: number): number {
+	return Math.min(max, Math.max(min, value));
+}
+
+/** Whether `editState` shows the corrected image as scanned, in the template's colour mode and without edits. */
+function isUnedited(editState: PageEditState, templateColorMode: DocumentColorMode): boolean {
+	return !hasEdits(editState) && (editState.colorMode ?? templateColorMode) === templateColorMode;
+}
+
 const DEFAULT_RESULT_VIEW_CSS = `
   .dds-result-view-container {
     display: flex;
@@ -1030,6 +2240,16 @@ const FILTER_DROPDOWN_STYLE = ` /* Filter button customization */
     border-bottom: 1px solid rgba(255, 255, 255, 0.1);
   }
 
+  /* Section title above the engine colour modes */
+  .dds-filter-heading {
+    padding: 0.5rem 1rem;
+    color: var(--dds-filter-menu-text, #ffffff);
+    opacity: 0.6;
+    font-family: Verdana, Geneva, Tahoma, sans-serif;
+    font-size: 12px;
+    border-bottom: 1px solid rgba(255, 255, 255, 0.1);
+  }
+
   /* Landscape: the controls column clips overflow-x, cutting off the centred drop-up. Make the button
      static so the menu anchors to the (relative) wrapper instead, then pin it left of the 8rem column. */
   @media (orientation: landscape) and (max-width: 1024px) {
@@ -1037,10 +2257,100 @@ const FILTER_DROPDOWN_STYLE = ` /* Filter button customization */
     #dds-scanResult-filter { position: static; }
     #dds-scanResult-filter .dds-filter-menu {
       inset: auto calc(8rem + 0.5rem) 0.5rem auto; transform: none;
+      max-height: calc(100% - 1rem); overflow-y: auto;
     }
   }
 `;
 
+const ADJUST_MENU_STYLE = `
+  /* The panel is wider than a button: anchor it to the (relative) wrapper, centred above the footer. */
+  .dds-result-view-container { position: relative; }
+  #dds-scanResult-adjust,
+  #dds-scanResult-straighten { position: static; }
+  #dds-scanResult-adjust .dds-adjust-menu,
+  #dds-scanResult-straighten .dds-adjust-menu {
+    bottom: calc(5.5rem + 0.25rem);
+    width: min(22rem, calc(100% - 1rem));
+    padding: 0.5rem 1rem;
+    box-sizing: border-box;
+    cursor: default;
+  }
+
+  .dds-adjust-row {
+    display: grid;
+    grid-template-columns: 6rem 1fr 2.5rem;
+    align-items: center;
+    gap: 0.75rem;
+    padding: 0.5rem 0;
+    color: var(--dds-filter-menu-text, #ffffff);
+    font-family: Verdana, Geneva, Tahoma, sans-serif;
+    font-size: 14px;
+  }
+
+  .dds-adjust-row input[type="range"] {
+    width: 100%;
+    margin: 0;
+    accent-color: var(--dds-primary, #fe8e14);
+  }
+
+  .dds-adjust-row output {
+    text-align: right;
+    font-variant-numeric: tabular-nums;
+  }
+
+  .dds-straighten-auto {
+    width: 100%;
+    margin: 0.5rem 0;
+    padding: 0.5rem;
+    border: 1px solid var(--dds-primary, #fe8e14);
+    border-radius: 4px;
+    background: none;
+    color: var(--dds-primary, #fe8e14);
+    font-family: Verdana, Geneva, Tahoma, sans-serif;
+    font-size: 14px;
+    cursor: pointer;
+  }
+
+  @media (orientation: landscape) and (max-width: 1024px) {
+    #dds-scanResult-adjust .dds-adjust-menu,
+    #dds-scanResult-straighten .dds-adjust-menu {
+      inset: auto calc(8rem + 0.5rem) 0.5rem auto; transform: none;
+    }
+  }
+`;
+
+const CROP_STYLE = `
+  /* Crop mode swaps the toolbar for the crop controls. */
+  .dds-result-view-container.dds-cropping > .dds-controls:not(.dds-crop-controls) { display: none; }
+
+  .dds-crop-overlay {
+    position: absolute;
+    overflow: hidden;
+    touch-action: none;
+  }
+
+  .dds-crop-box {
+    position: absolute;
+    box-sizing: border-box;
+    border: 2px solid #ffffff;
+    /* Dim the image outside the box; the overlay clips the shadow to the image. */
+    box-shadow: 0 0 0 9999px rgba(0, 0, 0, 0.5);
+    cursor: move;
+  }
+
+  .dds-crop-handle {
+    position: absolute;
+    width: 24px;
+    height: 24px;
+    box-sizing: border-box;
+    border: 0 solid var(--dds-primary, #fe8e14);
+  }
+  .dds-crop-handle-nw { top: 0; left: 0; border-top-width: 4px; border-left-width: 4px; cursor: nwse-resize; }
+  .dds-crop-handle-ne { top: 0; right: 0; border-top-width: 4px; border-right-width: 4px; cursor: nesw-resize; }
+  .dds-crop-handle-sw { bottom: 0; left: 0; border-bottom-width: 4px; border-left-width: 4px; cursor: nesw-resize; }
+  .dds-crop-handle-se { bottom: 0; right: 0; border-bottom-width: 4px; border-right-width: 4px; cursor: nwse-resize; }
+`;
+
 const SCAN_MORE_STYLE = `
   #dds-scanResult-scanMore { bottom: calc(100% + 1.5rem); background-color: var(--dds-scan-more-bg, #323234); }
   #dds-scanResult-scanMore .dds-filter-option { gap: 0.5rem; padding: 0 1.25rem; min-height: 4rem; font-size: 14px; color: var(--dds-scan-more-text, #ffffff); }
@@ -16,11 +16,22 @@ import { SharedResources } from "../DocumentScanner";
 import {
 	DEFAULT_TEMPLATE_NAMES,
 	DocumentResult,
+	EnumDDSErrorCode,
+	EnumDDSViews,
 	EnumFlowType,
 	EnumResultStatus,
 	UtilizedTemplateNames,
 } from "./utils/types";
 import { DEFAULT_LOADING_SCREEN_STYLE, showLoadingScreen } from "./utils/LoadingScreen";
+import {
+	isMultiPageFile,
+	isSupportedFile,
+	normalizeDocument,
+	readDocumentPage,
+	toDSImageData,
+} from "./utils/documentProcessing";
+import { readImageRotation } from "./utils/imageDecoding";
+import { DocumentScannerError, reportError, toDocumentScannerError } from "./utils/errors";
 import {
 	createStyle,
 	findClosestResolutionLevel,
@@ -104,6 +115,36 @@ export interface ScanRegion {
 	};
 }
 
+/**
+ * A scan region shaped like an ID card, as in ISO/IEC 7810 ID-1 (85.60 × 53.98 mm): bank cards, driving licences and most national ID cards.
+ *
+ * @remarks
+ * Used by default in {@link DocumentScannerConfig.idCardMode}. Can also be passed to {@link DocumentScannerViewConfig.scanRegion} directly.
+ *
+ * @example
+ * ```javascript
+ * const documentScanner = new Dynamsoft.DocumentScanner({
+ *     license: "YOUR_LICENSE_KEY_HERE",
+ *     scannerViewConfig: {
+ *         scanRegion: Dynamsoft.ID_CARD_SCAN_REGION,
+ *     },
+ * });
+ * ```
+ *
+ * @public
+ */
+export const ID_CARD_SCAN_REGION: ScanRegion = {
+	ratio: {
+		width: 85.6,
+		height: 53.98,
+	},
+	regionBottomMargin: 80,
+	style: {
+		strokeWidth: 3,
+		strokeColor: "#ffffff",
+	},
+};
+
 /**
  * The `DocumentScannerViewConfig` interface passes settings to the {@link DocumentScanner} constructor through the {@link DocumentScannerConfig} to apply UI and business logic customizations for the {@link DocumentScannerView}.
  *
@@ -137,6 +178,13 @@ export interface DocumentScannerViewConfig {
 	 * @internal
 	 */
 	_showResultView?: boolean;
+	/**
+	 * @privateRemarks
+	 * Indicates if {@link DocumentPagesView} is shown, which "Done ({count})" and the thumbnail then open.
+	 *
+	 * @internal
+	 */
+	_showPagesView?: boolean;
 	/**
 	 * Path to the Capture Vision template file for scanning configuration.
 	 *
@@ -346,6 +394,8 @@ export default class DocumentScannerView {
 	private autoCropEnabled: boolean = false;
 	private isCapturing: boolean = false;
 	private isClosing: boolean = false;
+	// Unregisters the session listener that keeps the thumbnail on the last page.
+	private unsubscribeSession?: () => void;
 
 	private resizeTimer: number | null = null;
 
@@ -395,6 +445,8 @@ export default class DocumentScannerView {
 
 	private loadingScreen: ReturnType<typeof showLoadingScreen> | null = null;
 	private toastObserver: MutationObserver | null = null;
+	// Shows SharedResources.scanPrompt over the camera
+	private scanPromptElement: HTMLElement | null = null;
 
 	/**
 	 * Display a loading overlay on top of the scanner view.
@@ -519,6 +571,11 @@ export default class DocumentScannerView {
 			return;
 		}
 
+		// With the pages view, the thumbnail follows the last page however pages are added, edited or deleted
+		if (this.config._showPagesView && !this.unsubscribeSession) {
+			this.unsubscribeSession = this.resources.session?.subscribe(() => this.syncThumbnail());
+		}
+
 		// Set default value for autoCrop, smartCapture and boundsDetection modes
 		this.boundsDetectionEnabled =
 			this.config?.enableBoundsDetectionMode ??
@@ -564,6 +621,9 @@ export default class DocumentScannerView {
 			let newSettings = await cvRouter.getSimplifiedSettings(this.templateNames.detect);
 			newSettings.outputOriginalImage = true;
 			newSettings.documentSettings.scaleDownThreshold = 1000;
+			// Find, and outline, every document in the feed in multi-document mode
+			const maxDocuments = this.resources.maxDocumentsPerImage ?? 1;
+			if (maxDocuments > 1) newSettings.documentSettings.expectedDocumentsCount = maxDocuments;
 			await cvRouter.updateSettings(this.templateNames.detect, newSettings);
 
 			cvRouter.maxImageSideLength = Infinity;
@@ -574,14 +634,15 @@ export default class DocumentScannerView {
 
 			this.initialized = true;
 		} catch (ex: any) {
-			let errMsg = ex?.message || ex;
-			console.error(errMsg);
-			alert(errMsg);
+			const error = toDocumentScannerError(ex, EnumDDSErrorCode.INITIALIZATION_FAILED);
+			console.error(error.message);
+			reportError(this.resources, error);
 			this.closeCamera();
 			const result = {
 				status: {
 					code: EnumResultStatus.RS_FAILED,
 					message: "DDS Init error",
+					errorCode: error.code,
 				},
 			};
 			this.currentScanResolver?.(result);
@@ -665,8 +726,11 @@ export default class DocumentScannerView {
 			poweredByDynamsoft.style.display = "none";
 		}
 
-		// Add a subdued border to thumbnail preview if onThumbnailClicked callback is provided
-		if (this.resources.onThumbnailClicked && this.DCE_ELEMENTS.thumbnailPreview) {
+		// Add a subdued border to thumbnail preview if it is clickable
+		if (
+			(this.resources.onThumbnailClicked || this.config._showPagesView) &&
+			this.DCE_ELEMENTS.thumbnailPreview
+		) {
 			(this.DCE_ELEMENTS.thumbnailPreview as HTMLElement).style.border =
 				"2px solid rgba(255, 255, 255, 0.4)";
 			(this.DCE_ELEMENTS.thumbnailPreview as HTMLElement).style.cursor = "pointer";
@@ -776,7 +840,7 @@ export default class DocumentScannerView {
 		// Optional: continuous scan done button
 		if (this.DCE_ELEMENTS.continuousScanDoneBtn) {
 			this.DCE_ELEMENTS.continuousScanDoneBtn.onclick = () => {
-				this.handleContinuousScanDone();
+				this.handleContinuousScanDone(true);
 			};
 		}
 
@@ -807,6 +871,8 @@ export default class DocumentScannerView {
 			// Only invoke callback if it's defined and we have a result
 			if (this.resources.onThumbnailClicked && this.resources.result) {
 				await this.resources.onThumbnailClicked(this.resources.result);
+			} else if (this.config._showPagesView) {
+				this.handleContinuousScanDone(true);
 			}
 		});
 
@@ -842,16 +908,19 @@ export default class DocumentScannerView {
 	/**
 	 * Handle the "Done" button click in continuous scanning mode to complete the scanning session.
 	 *
+	 * @param review - Whether to open the {@link DocumentPagesView} (if shown) instead of ending the session
+	 *
 	 * @remarks
 	 * Closes camera and resolves with cancelled status. Prevents closing during capture.
 	 *
 	 * @internal
 	 */
-	private handleContinuousScanDone() {
+	private handleContinuousScanDone(review: boolean = false) {
 		if (this.isCapturing || this.isClosing) {
 			return;
 		}
 
+		this.resources.reviewRequested = review && !!this.config._showPagesView;
 		this.isClosing = true;
 		this.closeCamera();
 		this.currentScanResolver?.({
@@ -866,15 +935,15 @@ export default class DocumentScannerView {
 	 * Update the "Done" button visibility and text based on the number of completed scans.
 	 *
 	 * @remarks
-	 * Shows button if completedScansCount > 0, displays "Done (N)".
+	 * Shows button if the session holds at least one page, displays "Done (N)".
 	 *
 	 * @internal
 	 */
 	private updateContinuousScanDoneButton() {
 		if (!this.DCE_ELEMENTS.continuousScanDoneBtn) return;
 
-		// Show/hide button based on completedScansCount
-		if ((this.resources.completedScansCount ?? 0) > 0) {
+		// Show/hide button based on the number of pages in the session
+		if ((this.resources.session?.count ?? 0) > 0) {
 			this.DCE_ELEMENTS.continuousScanDoneBtn.style.display = "block";
 		} else {
 			this.DCE_ELEMENTS.continuousScanDoneBtn.style.display = "none";
@@ -886,7 +955,7 @@ export default class DocumentScannerView {
 		if (textEl) {
 			textEl.textContent = getString("continuousScanDoneBtn").replace(
 				"{count}",
-				String(this.resources.completedScansCount ?? 0),
+				String(this.resources.session?.count ?? 0),
 			);
 		}
 	}
@@ -911,6 +980,26 @@ export default class DocumentScannerView {
 		this.DCE_ELEMENTS.thumbnailPreview.style.display = "block";
 	}
 
+	/**
+	 * Show the last page of the session in the thumbnail preview, or hide the preview once the session is empty.
+	 *
+	 * @remarks
+	 * Used with the {@link DocumentPagesView}, where pages may also be kept through the correction/result views or deleted during review, and after importing several files via {@link importFiles}.
+	 *
+	 * @internal
+	 */
+	private syncThumbnail() {
+		const { session } = this.resources;
+		if (!this.DCE_ELEMENTS.thumbnailPreview || !session) return;
+
+		const lastImage = session.pages[session.count - 1]?.correctedImageResult;
+		if (lastImage) {
+			this.updateThumbnail(lastImage.toCanvas());
+		} else {
+			this.DCE_ELEMENTS.thumbnailPreview.style.display = "none";
+		}
+	}
+
 	/**
 	 * Detect if device is running iOS.
 	 *
@@ -1281,19 +1370,22 @@ export default class DocumentScannerView {
 	}
 
 	/**
-	 * Open a file picker dialog to upload and process an image file for document scanning.
+	 * Open a file picker dialog to upload and process an image, PDF or TIFF file for document scanning.
 	 *
 	 * @remarks
 	 * This method provides an alternative to camera capture by allowing users to select and
 	 * process existing image files from their device. The complete workflow includes:
 	 *
 	 * **File Selection:**
-	 * 1. Creates a hidden file input element accepting PNG and JPEG images
+	 * 1. Creates a hidden file input element accepting PNG, JPEG, WebP, AVIF, HEIC/HEIF, TIFF and PDF files (several at once in continuous scanning mode)
 	 * 2. Programmatically triggers the file picker dialog
-	 * 3. Validates the selected file is an image type
+	 * 3. Validates the selected files are supported
+	 *
+	 * In continuous scanning mode, several files or a PDF/TIFF file are imported page by page via {@link importFiles} and the camera stays open.
+	 * Otherwise, the first page of the file is processed as follows.
 	 *
 	 * **Image Processing:**
-	 * 1. Converts the file to a blob via {@link fileToBlob}
+	 * 1. Decodes the first page of the file via {@link readDocumentPage}, applying its EXIF orientation (recorded as {@link DocumentResult.appliedRotation})
 	 * 2. Detects document boundaries using {@link CaptureVisionRouter.capture} with the detection template
 	 * 3. Falls back to full image bounds if no document is detected
 	 * 4. Performs perspective correction via {@link normalizeImage}
@@ -1316,7 +1408,6 @@ export default class DocumentScannerView {
 	 *
 	 * Called by the "Upload Image" button click handler set up in {@link assignDCEClickEvents}.
 	 *
-	 * @see {@link fileToBlob} - Converts File to Blob with image dimensions
 	 * @see {@link normalizeImage} - Performs perspective correction
 	 * @see {@link animateFloatingImage} - Animates the captured image (continuous mode)
 	 * @see {@link updateThumbnail} - Updates thumbnail preview (continuous mode)
@@ -1330,33 +1421,50 @@ export default class DocumentScannerView {
 		// Create hidden file input
 		const input = document.createElement("input");
 		input.type = "file";
-		input.accept = "image/png,image/jpeg";
+		input.accept =
+			"image/png,image/jpeg,image/webp,image/avif,image/heic,image/heif,image/tiff,application/pdf,.heic,.heif,.tif,.tiff,.pdf";
+		// Several files can be imported at once as pages of the continuous scanning session
+		const canImport = !!this.resources.enableContinuousScanning && !!this.resources.importFiles;
+		input.multiple = canImport;
 		input.style.display = "none";
 		document.body.appendChild(input);
 
 		try {
 			this.showScannerLoadingOverlay(getString("processingImageMsg"));
 
-			// Get file from input
-			const file = await new Promise<File>((resolve, reject) => {
+			// Get files from input
+			const files = await new Promise<File[]>((resolve, reject) => {
 				input.onchange = (e: Event) => {
-					const f = (e.target as HTMLInputElement).files?.[0];
-					if (!f?.type.startsWith("image/")) {
-						reject(new Error("Please select an image file"));
+					const supported = Array.from((e.target as HTMLInputElement).files || []).filter(
+						isSupportedFile,
+					);
+					if (!supported.length) {
+						reject(
+							new DocumentScannerError(
+								EnumDDSErrorCode.UNSUPPORTED_FILE,
+								"Please select an image or PDF file",
+							),
+						);
 						return;
 					}
-					resolve(f);
+					resolve(supported);
 				};
 
 				input.addEventListener("cancel", () => this.hideScannerLoadingOverlay(false));
 				input.click();
 			});
 
-			if (!file) {
+			if (!files.length) {
 				this.hideScannerLoadingOverlay(false);
 				return;
 			}
 
+			if (canImport && (files.length > 1 || isMultiPageFile(files[0]))) {
+				await this.importFiles(files);
+				return;
+			}
+			const [file] = files;
+
 			// Only close camera in single scan mode
 			if (!this.resources.enableContinuousScanning) {
 				this.closeCamera(false);
@@ -1365,16 +1473,19 @@ export default class DocumentScannerView {
 				this.cvRouter.stopCapturing();
 			}
 
-			// Convert file to blob
-			const { blob } = await this.fileToBlob(file);
+			// Decode the file, or the first page of a PDF or TIFF file, upright as given by its orientation metadata
+			const page = await readDocumentPage(file, 0);
+			const appliedRotation = page instanceof Blob ? await readImageRotation(page) : 0;
+			const image = await toDSImageData(page, this.resources.heicDecoderPath);
 
 			this.capturedResultItems = (
-				await this.cvRouter.capture(blob, this.templateNames.detect)
+				await this.cvRouter.capture(image, this.templateNames.detect)
 			).items;
 			this.originalImageData = (this.capturedResultItems[0] as OriginalImageResultItem)?.imageData;
 
 			// Reset captured items if not using bounds detection
 			let detectedQuadrilateral: Quadrilateral;
+			let otherQuadrilaterals: Quadrilateral[] = [];
 			const useImageDimensions = this.capturedResultItems?.length <= 1;
 			if (useImageDimensions) {
 				this.capturedResultItems = [];
@@ -1389,17 +1500,19 @@ export default class DocumentScannerView {
 					area: height * width,
 				} as Quadrilateral;
 			} else {
-				detectedQuadrilateral = (
-					this.capturedResultItems.find(
-						(item) => item.type === EnumCapturedResultItemType.CRIT_DETECTED_QUAD,
-					) as DetectedQuadResultItem
-				)?.location;
+				[detectedQuadrilateral, ...otherQuadrilaterals] = this.getDetectedQuadrilaterals();
 			}
 
 			const correctedImageResult = await this.normalizeImage(
 				detectedQuadrilateral.points,
 				this.originalImageData,
 			);
+			const additionalDocuments = await this.normalizeAdditionalDocuments(
+				otherQuadrilaterals,
+				this.originalImageData,
+				EnumFlowType.UPLOADED_IMAGE,
+				appliedRotation,
+			);
 
 			const result = {
 				status: {
@@ -1409,7 +1522,9 @@ export default class DocumentScannerView {
 				originalImageResult: this.originalImageData,
 				correctedImageResult,
 				detectedQuadrilateral,
+				appliedRotation,
 				_flowType: EnumFlowType.UPLOADED_IMAGE,
+				...(additionalDocuments.length > 0 && { additionalDocuments }),
 			};
 
 			// Update shared resources
@@ -1436,15 +1551,16 @@ export default class DocumentScannerView {
 			// Resolve scan promise to go through correction/result views
 			this.currentScanResolver?.(result);
 		} catch (ex: any) {
-			let errMsg = ex?.message || ex;
-			console.error(errMsg);
-			alert(errMsg);
+			const error = toDocumentScannerError(ex, EnumDDSErrorCode.FILE_DECODE_FAILED);
+			console.error(error.message);
+			reportError(this.resources, error);
 			this.closeCamera();
 
 			const result = {
 				status: {
 					code: EnumResultStatus.RS_FAILED,
 					message: "Error processing uploaded image",
+					errorCode: error.code,
 				},
 			};
 			this.currentScanResolver?.(result);
@@ -1454,59 +1570,27 @@ export default class DocumentScannerView {
 	}
 
 	/**
-	 * Convert an image File object to a Blob with extracted image dimensions.
+	 * Import several uploaded files as pages of the continuous scanning session.
 	 *
-	 * @param file - The File object to convert (must be an image file)
-	 * @returns Promise resolving to an object containing the blob, width, and height
+	 * @param files - The image, PDF or TIFF files selected in {@link uploadImage}
 	 *
 	 * @remarks
-	 * This method converts an image file to a blob format suitable for processing by the
-	 * Dynamsoft Capture Vision SDK while preserving the original image format and dimensions.
-	 *
-	 * **Conversion Process:**
-	 * 1. Creates an {@link https://developer.mozilla.org/en-US/docs/Web/API/Image | Image} element and loads the file via {@link https://developer.mozilla.org/en-US/docs/Web/API/URL/createObjectURL_static | URL.createObjectURL}
-	 * 2. Extracts the image's natural width and height once loaded
-	 * 3. Draws the image to a canvas at full resolution (no scaling)
-	 * 4. Converts the canvas to a blob using {@link https://developer.mozilla.org/en-US/docs/Web/API/HTMLCanvasElement/toBlob | HTMLCanvasElement.toBlob}
-	 * 5. Preserves the original file's MIME type (e.g., "image/jpeg", "image/png")
-	 * 6. Returns the blob along with dimensions for downstream processing
-	 *
-	 * **Why This Approach:**
-	 * - The Dynamsoft SDK's {@link CaptureVisionRouter.capture} method accepts Blob inputs
-	 * - The canvas intermediate step ensures consistent processing across different browsers
-	 * - Extracting dimensions separately avoids redundant image analysis in later steps
-	 *
-	 * This method is called by {@link uploadImage} to prepare uploaded files for document
-	 * detection and normalization.
-	 *
-	 * @throws {Error} If the image fails to load or blob creation fails
-	 *
-	 * @see {@link uploadImage} - Calls this method to process uploaded files
-	 * @see {@link CaptureVisionRouter.capture} - Processes the blob for document detection
-	 * @see {@link https://developer.mozilla.org/en-US/docs/Web/API/Blob | Blob API} - The blob format returned
+	 * Pauses capturing while {@link SharedResources.importFiles} processes every page with its progress,
+	 * then refreshes the thumbnail and "Done (N)" button and resumes capturing. The camera stays open so the user can keep scanning.
 	 *
 	 * @internal
 	 */
-	private async fileToBlob(file: File): Promise<{ blob: Blob; width: number; height: number }> {
-		return new Promise((resolve, reject) => {
-			const img = new Image();
-			img.onload = () => {
-				const canvas = document.createElement("canvas");
-				canvas.width = img.width;
-				canvas.height = img.height;
-				const ctx = canvas.getContext("2d");
-				ctx?.drawImage(img, 0, 0);
-				canvas.toBlob((blob) => {
-					if (blob) {
-						resolve({ blob, width: img.width, height: img.height });
-					} else {
-						reject(new Error("Failed to create blob"));
-					}
-				}, file.type);
-			};
-			img.onerror = reject;
-			img.src = URL.createObjectURL(file);
-		});
+	private async importFiles(files: File[]) {
+		this.hideScannerLoadingOverlay(false);
+		this.cvRouter.stopCapturing();
+
+		try {
+			await this.resources.importFiles?.(files);
+		} finally {
+			this.syncThumbnail();
+			this.updateContinuousScanDoneButton();
+			await this.cvRouter.startCapturing(this.templateNames.detect);
+		}
 	}
 
 	/**
@@ -2124,7 +2208,7 @@ export default class DocumentScannerView {
 				configContainer.style.display = "block";
 				// Just update the done button and return early
 				if (this.DCE_ELEMENTS.continuousScanDoneBtn) {
-					if ((this.resources.completedScansCount ?? 0) > 0) {
+					if ((this.resources.session?.count ?? 0) > 0) {
 						this.DCE_ELEMENTS.continuousScanDoneBtn.style.display = "block";
 						this.updateContinuousScanDoneButton();
 					} else {
@@ -2152,13 +2236,15 @@ export default class DocumentScannerView {
 					await cameraEnhancer.open();
 				} catch (error: any) {
 					// Handle camera access errors (e.g., camera already in use by another tab)
-					const errorMessage = error?.message || error;
-					if (errorMessage.includes("in use") || errorMessage.includes("not available")) {
-						throw new Error(
+					const cameraError = toDocumentScannerError(error, EnumDDSErrorCode.CAMERA_ERROR);
+					if (cameraError.code === EnumDDSErrorCode.CAMERA_IN_USE) {
+						throw new DocumentScannerError(
+							EnumDDSErrorCode.CAMERA_IN_USE,
 							"Camera is already in use by another tab or application. Please close other tabs/applications using the camera and try again.",
+							error,
 						);
 					}
-					throw error;
+					throw cameraError;
 				}
 			} else if (cameraEnhancer?.isPaused()) {
 				try {
@@ -2185,6 +2271,13 @@ export default class DocumentScannerView {
 				await this.initializeElements();
 			}
 
+			if (cameraEnhancer?.isOpen()) {
+				this.resources.emit?.("cameraOpened", {
+					camera: cameraEnhancer.getSelectedCamera(),
+					resolution: cameraEnhancer.getResolution(),
+				});
+			}
+
 			// Add resize
 			window.addEventListener("resize", this.handleResize);
 
@@ -2197,10 +2290,7 @@ export default class DocumentScannerView {
 
 			// Show/hide and update continuous scan done button
 			if (this.DCE_ELEMENTS.continuousScanDoneBtn) {
-				if (
-					this.resources.enableContinuousScanning &&
-					(this.resources.completedScansCount ?? 0) > 0
-				) {
+				if (this.resources.enableContinuousScanning && (this.resources.session?.count ?? 0) > 0) {
 					this.DCE_ELEMENTS.continuousScanDoneBtn.style.display = "block";
 					this.updateContinuousScanDoneButton();
 				} else {
@@ -2208,14 +2298,16 @@ export default class DocumentScannerView {
 				}
 			}
 		} catch (ex: any) {
-			let errMsg = ex?.message || ex;
-			console.error(errMsg);
-			alert(errMsg);
+			const error = toDocumentScannerError(ex, EnumDDSErrorCode.CAMERA_ERROR);
+			console.error(error.message);
+			this.resources.emit?.("cameraError", { code: error.code, message: error.message });
+			reportError(this.resources, error);
 			this.closeCamera();
 			const result = {
 				status: {
 					code: EnumResultStatus.RS_FAILED,
 					message: "DDS Open Camera Error",
+					errorCode: error.code,
 				},
 			};
 			this.currentScanResolver?.(result);
@@ -2560,13 +2652,17 @@ export default class DocumentScannerView {
 			}
 
 			if (!this.originalImageData) {
-				throw new Error("Failed to capture image frame");
+				throw new DocumentScannerError(
+					EnumDDSErrorCode.CAPTURE_FAILED,
+					"Failed to capture image frame",
+				);
 			}
 			const originalImageData = this.originalImageData;
 
 			// Reset captured items if not using bounds detection
 			let correctedImageResult = null;
 			let detectedQuadrilateral: Quadrilateral;
+			let otherQuadrilaterals: Quadrilateral[] = [];
 			if (shouldUseLatestFrame) {
 				this.capturedResultItems = [];
 				const { width, height } = originalImageData;
@@ -2580,19 +2676,18 @@ export default class DocumentScannerView {
 					area: height * width,
 				} as Quadrilateral;
 			} else {
-				detectedQuadrilateral = (
-					this.capturedResultItems.find(
-						(item) => item.type === EnumCapturedResultItemType.CRIT_DETECTED_QUAD,
-					) as DetectedQuadResultItem
-				)?.location;
+				[detectedQuadrilateral, ...otherQuadrilaterals] = this.getDetectedQuadrilaterals();
 			}
 
 			// If theres no detected quads, we shouldnt convert to scanRegionCoordinates since we're using the full image.
 			if (!shouldUseLatestFrame) {
 				// A scan region is always active, so convert to scanRegionCoordinates
-				detectedQuadrilateral.points = detectedQuadrilateral.points.map(
-					(point) => this.resources.cameraEnhancer?.convertToScanRegionCoordinates(point) || point,
-				) as Quadrilateral["points"];
+				for (const quadrilateral of [detectedQuadrilateral, ...otherQuadrilaterals]) {
+					quadrilateral.points = quadrilateral.points.map(
+						(point) =>
+							this.resources.cameraEnhancer?.convertToScanRegionCoordinates(point) || point,
+					) as Quadrilateral["points"];
+				}
 			}
 
 			const flowType = this.getFlowType();
@@ -2623,6 +2718,11 @@ export default class DocumentScannerView {
 				detectedQuadrilateral.points,
 				originalImageData,
 			);
+			const additionalDocuments = await this.normalizeAdditionalDocuments(
+				otherQuadrilaterals,
+				originalImageData,
+				flowType,
+			);
 
 			// Resume camera after normalization (only in continuous scanning mode)
 			if (this.resources.enableContinuousScanning) {
@@ -2665,6 +2765,7 @@ export default class DocumentScannerView {
 				correctedImageResult,
 				detectedQuadrilateral,
 				_flowType: flowType,
+				...(additionalDocuments.length > 0 && { additionalDocuments }),
 			};
 
 			// Show animation in continuous scanning mode
@@ -2693,9 +2794,9 @@ export default class DocumentScannerView {
 			// Resolve scan promise
 			this.currentScanResolver?.(result);
 		} catch (ex: any) {
-			let errMsg = ex?.message || ex;
-			console.error(errMsg);
-			alert(errMsg);
+			const error = toDocumentScannerError(ex, EnumDDSErrorCode.CAPTURE_FAILED);
+			console.error(error.message);
+			reportError(this.resources, error);
 
 			// Clean up overlay and re-enable buttons
 			if (this.resources.enableContinuousScanning) {
@@ -2725,6 +2826,7 @@ export default class DocumentScannerView {
 				status: {
 					code: EnumResultStatus.RS_FAILED,
 					message: "Error capturing image",
+					errorCode: error.code,
 				},
 			};
 			this.currentScanResolver?.(result);
@@ -2748,6 +2850,14 @@ export default class DocumentScannerView {
 			this.trackFrameClarity(result);
 		}
 
+		const detectedQuad = result.processedDocumentResult?.detectedQuadResultItems?.[0];
+		if (detectedQuad) {
+			this.resources.emit?.("quadDetected", {
+				quadrilateral: detectedQuad.location,
+				crossVerified: (detectedQuad as any).crossVerificationStatus === 1,
+			});
+		}
+
 		if (this.smartCaptureEnabled || this.autoCropEnabled) {
 			this.handleAutoCaptureMode(result);
 		}
@@ -2788,12 +2898,19 @@ export default class DocumentScannerView {
 			this.crossVerificationCount = 0;
 			this.lastCaptureTimestamp = Date.now();
 
+			this.resources.emit?.("autoCaptureTriggered", {
+				mode: this.autoCropEnabled ? "autoCrop" : "smartCapture",
+			});
 			await this.takePhoto();
 		}
 	}
 
 	/** Close the camera and settle any in-flight {@link launch} promise so callers don't hang when disposed mid-capture. */
 	dispose() {
+		this.unsubscribeSession?.();
+		this.unsubscribeSession = undefined;
+		this.scanPromptElement?.remove();
+		this.scanPromptElement = null;
 		this.closeCamera();
 		this.currentScanResolver?.({
 			status: {
@@ -2813,9 +2930,11 @@ export default class DocumentScannerView {
 
 			return new Promise(async (resolve) => {
 				this.currentScanResolver = resolve;
+				this.resources.emit?.("viewChanged", { view: EnumDDSViews.Scanner });
 
 				// Start capturing
 				await this.openCamera();
+				this.updateScanPrompt();
 
 				if (this.boundsDetectionEnabled) {
 					await cvRouter.startCapturing(this.templateNames.detect);
@@ -2837,13 +2956,14 @@ export default class DocumentScannerView {
 				this.crossVerificationCount = 0;
 			});
 		} catch (ex: any) {
-			let errMsg = ex?.message || ex;
-			console.error("DDS Launch error: ", errMsg);
+			const error = toDocumentScannerError(ex, EnumDDSErrorCode.INITIALIZATION_FAILED);
+			console.error("DDS Launch error: ", error.message);
 			this.closeCamera();
 			const result = {
 				status: {
 					code: EnumResultStatus.RS_FAILED,
 					message: "DDS Launch error",
+					errorCode: error.code,
 				},
 			};
 			this.currentScanResolver?.(result);
@@ -2851,22 +2971,125 @@ export default class DocumentScannerView {
 		}
 	}
 
+	/**
+	 * Show {@link SharedResources.scanPrompt} over the camera, or remove the prompt when there is none.
+	 *
+	 * @remarks
+	 * The prompt is announced to screen readers as it changes. Called by {@link launch} once the camera is open.
+	 *
+	 * @internal
+	 */
+	private updateScanPrompt() {
+		const message = this.resources.scanPrompt;
+		const container = getElement(this.config.container);
+		if (!message || !container) {
+			this.scanPromptElement?.remove();
+			this.scanPromptElement = null;
+			return;
+		}
+
+		createStyle("dds-scanner-view-style", DEFAULT_SCANNER_VIEW_CSS);
+		if (!this.scanPromptElement) {
+			this.scanPromptElement = document.createElement("div");
+			this.scanPromptElement.className = "dds-scanner-prompt";
+			this.scanPromptElement.setAttribute("role", "status");
+			this.scanPromptElement.setAttribute("aria-live", "polite");
+		}
+		if (getComputedStyle(container).position === "static") container.style.position = "relative";
+
+		// Keep the prompt after the camera view so it stays on top
+		container.append(this.scanPromptElement);
+		this.scanPromptElement.textContent = message;
+	}
+
+	/**
+	 * Retrieve the boundaries of the documents found in the last frame or uploaded image.
+	 *
+	 * @returns The boundaries in {@link capturedResultItems}, most prominent first, at most {@link SharedResources.maxDocumentsPerImage}
+	 *
+	 * @internal
+	 */
+	private getDetectedQuadrilaterals(): Quadrilateral[] {
+		return this.capturedResultItems
+			.filter((item) => item.type === EnumCapturedResultItemType.CRIT_DETECTED_QUAD)
+			.slice(0, this.resources.maxDocumentsPerImage ?? 1)
+			.map((item) => (item as DetectedQuadResultItem).location);
+	}
+
+	/**
+	 * Correct the documents other than the most prominent one in multi-document mode.
+	 *
+	 * @param quadrilaterals - Boundaries of the other documents, in pixels of `originalImageData`
+	 * @param originalImageData - The captured or uploaded image
+	 * @param flowType - The {@link EnumFlowType} of the capture
+	 * @param appliedRotation - Rotation applied to an uploaded image, see {@link DocumentResult.appliedRotation}
+	 * @returns One result per boundary, for {@link DocumentResult.additionalDocuments}
+	 *
+	 * @internal
+	 */
+	private async normalizeAdditionalDocuments(
+		quadrilaterals: Quadrilateral[],
+		originalImageData: OriginalImageResultItem["imageData"],
+		flowType: EnumFlowType,
+		appliedRotation?: number,
+	): Promise<DocumentResult[]> {
+		const documents: DocumentResult[] = [];
+		// One at a time, as they share the router
+		for (const detectedQuadrilateral of quadrilaterals) {
+			documents.push({
+				status: {
+					code: EnumResultStatus.RS_SUCCESS,
+					message: "Success",
+				},
+				originalImageResult: originalImageData,
+				correctedImageResult: await this.normalizeImage(
+					detectedQuadrilateral.points,
+					originalImageData,
+				),
+				detectedQuadrilateral,
+				appliedRotation,
+				_flowType: flowType,
+			});
+		}
+		return documents;
+	}
+
 	async normalizeImage(
 		points: Quadrilateral["points"],
 		originalImageData: OriginalImageResultItem["imageData"],
 	): Promise<DeskewedImageResultItem> {
-		const cvRouter = this.cvRouter;
-
-		const settings = await cvRouter.getSimplifiedSettings(this.templateNames.normalize);
-		settings.roiMeasuredInPercentage = false;
-		settings.roi.points = points;
-		await cvRouter.updateSettings(this.templateNames.normalize, settings);
-
-		const result = await cvRouter.capture(originalImageData, this.templateNames.normalize);
+		const correctedImageResult = await normalizeDocument(
+			this.cvRouter,
+			originalImageData,
+			points,
+			this.templateNames.normalize,
+		);
 		// If deskewed result found
-		if (result?.processedDocumentResult?.deskewedImageResultItems?.[0]) {
-			return result.processedDocumentResult.deskewedImageResultItems[0];
+		if (correctedImageResult) {
+			return correctedImageResult;
 		}
-		throw new Error("Failed to normalize image");
+		throw new DocumentScannerError(
+			EnumDDSErrorCode.NORMALIZATION_FAILED,
+			"Failed to normalize image",
+		);
 	}
 }
+
+const DEFAULT_SCANNER_VIEW_CSS = `
+  .dds-scanner-prompt {
+    position: absolute;
+    top: 12%;
+    left: 50%;
+    transform: translateX(-50%);
+    z-index: 10;
+    max-width: 80%;
+    padding: 0.5rem 1rem;
+    border-radius: 1rem;
+    background-color: rgba(0, 0, 0, 0.6);
+    color: #ffffff;
+    font-family: Verdana, Geneva, Tahoma, sans-serif;
+    font-size: 14px;
+    text-align: center;
+    pointer-events: none;
+  }
+`;
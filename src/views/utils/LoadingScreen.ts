@@ -132,11 +132,93 @@ export function showLoadingScreen(container: HTMLElement, options: LoadingScreen
 	};
 }
 
+/**
+ * Configuration options for a prompt screen.
+ *
+ * @internal
+ */
+interface PromptScreenOptions {
+	/** The question to ask. */
+	message: string;
+	/** Label of the button that answers `true`. */
+	confirmLabel: string;
+	/** Label of the button that answers `false`. */
+	cancelLabel: string;
+}
+
+/**
+ * Display a full-screen overlay that asks a question with two buttons.
+ *
+ * @param container - The container element to append the prompt screen to
+ * @param options - The question and button labels
+ *
+ * @returns A promise that resolves to `true` if the user confirms, `false` if they cancel
+ *
+ * @remarks
+ * The prompt uses the overlay of {@link showLoadingScreen} and is removed with the same fade-out once answered.
+ *
+ * @internal
+ */
+export function showPromptScreen(
+	container: HTMLElement,
+	options: PromptScreenOptions,
+): Promise<boolean> {
+	const overlayDiv = document.createElement("div");
+	overlayDiv.className = "dds-loading-screen";
+	overlayDiv.setAttribute("role", "alertdialog");
+	overlayDiv.setAttribute("aria-modal", "true");
+
+	const loadingDiv = document.createElement("div");
+	loadingDiv.className = "dds-loading";
+
+	const contentDiv = document.createElement("div");
+	contentDiv.className = "dds-loading-content";
+
+	const messageDiv = document.createElement("div");
+	messageDiv.className = "dds-loading-message";
+	messageDiv.id = "dds-prompt-message";
+	messageDiv.textContent = options.message;
+	overlayDiv.setAttribute("aria-labelledby", messageDiv.id);
+
+	const buttonsDiv = document.createElement("div");
+	buttonsDiv.className = "dds-prompt-buttons";
+
+	const cancelBtn = document.createElement("button");
+	cancelBtn.type = "button";
+	cancelBtn.className = "dds-prompt-btn";
+	cancelBtn.textContent = options.cancelLabel;
+
+	const confirmBtn = document.createElement("button");
+	confirmBtn.type = "button";
+	confirmBtn.className = "dds-prompt-btn dds-prompt-btn-primary";
+	confirmBtn.textContent = options.confirmLabel;
+
+	buttonsDiv.append(cancelBtn, confirmBtn);
+	contentDiv.append(messageDiv, buttonsDiv);
+	loadingDiv.appendChild(contentDiv);
+	overlayDiv.appendChild(loadingDiv);
+	container.appendChild(overlayDiv);
+	confirmBtn.focus();
+
+	return new Promise((resolve) => {
+		const answer = (value: boolean) => {
+			confirmBtn.disabled = cancelBtn.disabled = true;
+			overlayDiv.classList.add("fade-out");
+			setTimeout(() => {
+				overlayDiv.parentNode?.removeChild(overlayDiv);
+			}, 200);
+			resolve(value);
+		};
+		confirmBtn.addEventListener("click", () => answer(true));
+		cancelBtn.addEventListener("click", () => answer(false));
+	});
+}
+
 /**
  * Default CSS styles for loading screens.
  *
  * @remarks
- * Defines styles for {@link showLoadingScreen}.
+ * Defines styles for {@link showLoadingScreen} and {@link showPromptScreen}.
  * Includes fade-out animation for smooth transitions.
  *
  * @public
@@ -188,6 +270,28 @@ export const DEFAULT_LOADING_SCREEN_STYLE = `
     opacity: 0.9;
   }
 
+  .dds-prompt-buttons {
+    display: flex;
+    gap: 12px;
+  }
+
+  .dds-prompt-btn {
+    min-width: 96px;
+    padding: 10px 16px;
+    border: 1px solid var(--dds-toolbar-btn-inactive, #ffffff);
+    border-radius: 4px;
+    background: transparent;
+    color: var(--dds-toolbar-btn-inactive, #ffffff);
+    font-family: Verdana, Geneva, Tahoma, sans-serif;
+    font-size: 14px;
+    cursor: pointer;
+  }
+
+  .dds-prompt-btn-primary {
+    border-color: var(--dds-primary, #fe8e14);
+    background-color: var(--dds-primary, #fe8e14);
+  }
+
   @keyframes spin {
     from {
       transform: rotate(0deg);
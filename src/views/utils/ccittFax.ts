@@ -0,0 +1,299 @@
+/**
+ * Parameters of a CCITT Group 3/Group 4 fax bitstream, as found in TIFF tags and PDF `CCITTFaxDecode` parameters.
+ *
+ * @internal
+ */
+export interface CcittFaxOptions {
+	/**
+	 * Coding scheme: negative for pure two-dimensional Group 4 (T.6), `0` for one-dimensional Group 3 (T.4),
+	 * positive for mixed one/two-dimensional Group 3 where a tag bit after each EOL selects the coding of the row.
+	 */
+	k: number;
+	/** Width of the image in pixels. */
+	columns: number;
+	/** Height of the image in pixels. */
+	rows: number;
+	/** Whether every row starts on a byte boundary. */
+	byteAlign?: boolean;
+	/** Whether rows are one-dimensional without EOL codes (TIFF "Modified Huffman" compression). */
+	modifiedHuffman?: boolean;
+}
+
+/** Run lengths keyed by {@link codeKey}; makeup codes are multiples of 64. */
+type CodeTable = Map<number, number>;
+
+/** Makeup codes from 1792 to 2560, shared by both colors. */
+const EXTENDED_MAKEUP_CODES = [
+	"00000001000",
+	"00000001100",
+	"00000001101",
+	"000000010010",
+	"000000010011",
+	"000000010100",
+	"000000010101",
+	"000000010110",
+	"000000010111",
+	"000000011100",
+	"000000011101",
+	"000000011110",
+	"000000011111",
+];
+
+const WHITE_CODES = buildTable(
+	[
+		"00110101 000111 0111 1000 1011 1100 1110 1111 10011 10100 00111 01000 001000 000011 110100 110101",
+		"101010 101011 0100111 0001100 0001000 0010111 0000011 0000100 0101000 0101011 0010011 0100100",
+		"0011000 00000010 00000011 00011010 00011011 00010010 00010011 00010100 00010101 00010110 00010111",
+		"00101000 00101001 00101010 00101011 00101100 00101101 00000100 00000101 00001010 00001011",
+		"01010010 01010011 01010100 01010101 00100100 00100101 01011000 01011001 01011010 01011011",
+		"01001010 01001011 00110010 00110011 00110100",
+	],
+	[
+		"11011 10010 010111 0110111 00110110 00110111 01100100 01100101 01101000 01100111 011001100",
+		"011001101 011010010 011010011 011010100 011010101 011010110 011010111 011011000 011011001",
+		"011011010 011011011 010011000 010011001 010011010 011000 010011011",
+	],
+);
+
+const BLACK_CODES = buildTable(
+	[
+		"0000110111 010 11 10 011 0011 0010 00011 000101 000100 0000100 0000101 0000111 00000100",
+		"00000111 000011000 0000010111 0000011000 0000001000 00001100111 00001101000 00001101100",
+		"00000110111 00000101000 00000010111 00000011000 000011001010 000011001011 000011001100",
+		"000011001101 000001101000 000001101001 000001101010 000001101011 000011010010 000011010011",
+		"000011010100 000011010101 000011010110 000011010111 000001101100 000001101101 000011011010",
+		"000011011011 000001010100 000001010101 000001010110 000001010111 000001100100 000001100101",
+		"000001010010 000001010011 000000100100 000000110111 000000111000 000000100111 000000101000",
+		"000001011000 000001011001 000000101011 000000101100 000001011010 000001100110 000001100111",
+	],
+	[
+		"0000001111 000011001000 000011001001 000001011011 000000110011 000000110100 000000110101",
+		"0000001101100 0000001101101 0000001001010 0000001001011 0000001001100 0000001001101",
+		"0000001110010 0000001110011 0000001110100 0000001110101 0000001110110 0000001110111",
+		"0000001010010 0000001010011 0000001010100 0000001010101 0000001011010 0000001011011",
+		"0000001100100 0000001100101",
+	],
+);
+
+/** Two-dimensional coding modes. */
+enum Mode {
+	Pass,
+	Horizontal,
+	Vertical,
+	Extension,
+	Eol,
+}
+
+/** Two-dimensional mode codes, mapped to `[mode, vertical offset]`. */
+const MODE_CODES = new Map<number, [Mode, number]>(
+	(
+		[
+			["1", Mode.Vertical, 0],
+			["011", Mode.Vertical, 1],
+			["000011", Mode.Vertical, 2],
+			["0000011", Mode.Vertical, 3],
+			["010", Mode.Vertical, -1],
+			["000010", Mode.Vertical, -2],
+			["0000010", Mode.Vertical, -3],
+			["001", Mode.Horizontal, 0],
+			["0001", Mode.Pass, 0],
+			["0000001", Mode.Extension, 0],
+			["000000000001", Mode.Eol, 0],
+		] as const
+	).map(([code, mode, offset]) => [codeKey(code), [mode, offset]]),
+);
+
+const MAX_CODE_LENGTH = 13;
+const EOL_LENGTH = 12;
+
+function codeKey(code: string): number {
+	return (code.length << 16) | parseInt(code, 2);
+}
+
+function buildTable(terminating: string[], makeup: string[]): CodeTable {
+	const table: CodeTable = new Map();
+	const add = (codes: string[], run: (index: number) => number) =>
+		codes
+			.join(" ")
+			.split(" ")
+			.forEach((code, index) => table.set(codeKey(code), run(index)));
+
+	add(terminating, (index) => index);
+	add(makeup, (index) => (index + 1) * 64);
+	add(EXTENDED_MAKEUP_CODES, (index) => 1792 + index * 64);
+	return table;
+}
+
+class BitReader {
+	private position = 0;
+
+	constructor(private data: Uint8Array) {}
+
+	get exhausted(): boolean {
+		return this.position >= this.data.length * 8;
+	}
+
+	readBit(): number {
+		const byte = this.data[this.position >> 3] ?? 0;
+		const bit = (byte >> (7 - (this.position & 7))) & 1;
+		this.position++;
+		return bit;
+	}
+
+	/** Read bits until they form a code of `table`, or return `undefined` if none matches. */
+	readCode<T>(table: Map<number, T>): T | undefined {
+		let code = 0;
+		for (let length = 1; length <= MAX_CODE_LENGTH; length++) {
+			code = (code << 1) | this.readBit();
+			const value = table.get((length << 16) | code);
+			if (value !== undefined) return value;
+		}
+		return undefined;
+	}
+
+	/** Consume an EOL (at least 11 zero bits, including fill bits, followed by a one) if one comes next. */
+	skipEol(): boolean {
+		const start = this.position;
+		let zeros = 0;
+		while (!this.exhausted && this.readBit() === 0) zeros++;
+
+		if (zeros >= EOL_LENGTH - 1 && !this.exhausted) return true;
+		this.position = start;
+		return false;
+	}
+
+	alignToByte() {
+		this.position = (this.position + 7) & ~7;
+	}
+}
+
+function readRun(reader: BitReader, white: boolean): number {
+	let total = 0;
+	for (;;) {
+		const run = reader.readCode(white ? WHITE_CODES : BLACK_CODES);
+		if (run === undefined) throw new Error("Invalid CCITT fax data");
+
+		total += run;
+		if (run < 64) return total;
+	}
+}
+
+/**
+ * Decode a one-dimensional row into the positions where the color changes, starting with white.
+ */
+function decodeRow1D(reader: BitReader, columns: number): number[] {
+	const changes: number[] = [];
+	let position = 0;
+	let white = true;
+
+	while (position < columns) {
+		position = Math.min(position + readRun(reader, white), columns);
+		changes.push(position);
+		white = !white;
+	}
+	return changes;
+}
+
+/**
+ * Decode a two-dimensional row against the changing elements of the reference (previous) row.
+ *
+ * @returns The changing elements of the row, or `undefined` at the end of the data block
+ */
+function decodeRow2D(
+	reader: BitReader,
+	reference: number[],
+	columns: number,
+): number[] | undefined {
+	const changes: number[] = [];
+	let a0 = -1;
+	let white = true;
+
+	while (a0 < columns) {
+		// b1: first change on the reference row right of a0 and to the color opposite to a0's, b2 the next one
+		let index = white ? 0 : 1;
+		while (index < reference.length && reference[index] <= a0) index += 2;
+		const b1 = reference[index] ?? columns;
+		const b2 = reference[index + 1] ?? columns;
+
+		const mode = reader.readCode(MODE_CODES);
+		if (!mode) throw new Error("Invalid CCITT fax data");
+
+		switch (mode[0]) {
+			case Mode.Pass:
+				a0 = b2;
+				break;
+			case Mode.Horizontal: {
+				const a1 = Math.min(Math.max(a0, 0) + readRun(reader, white), columns);
+				const a2 = Math.min(a1 + readRun(reader, !white), columns);
+				changes.push(a1, a2);
+				a0 = a2;
+				break;
+			}
+			case Mode.Vertical: {
+				const a1 = Math.min(Math.max(b1 + mode[1], 0), columns);
+				changes.push(a1);
+				a0 = a1;
+				white = !white;
+				break;
+			}
+			case Mode.Eol:
+				// EOFB (two EOLs) ends a Group 4 block
+				return undefined;
+			default:
+				throw new Error("Unsupported CCITT fax extension");
+		}
+	}
+	return changes;
+}
+
+/**
+ * Decode a CCITT Group 3 or Group 4 fax bitstream.
+ *
+ * @param data - The compressed bitstream
+ * @param options - The {@link CcittFaxOptions} of the bitstream
+ * @returns One byte per pixel, row by row: 255 for white and 0 for black
+ *
+ * @remarks
+ * Rows missing at the end of truncated data are left white.
+ *
+ * @throws {Error} If the bitstream is corrupt or uses an unsupported extension
+ *
+ * @internal
+ */
+export function decodeCcittFax(data: Uint8Array, options: CcittFaxOptions): Uint8Array {
+	const { k, columns, rows } = options;
+	const pixels = new Uint8Array(columns * rows).fill(255);
+	const reader = new BitReader(data);
+
+	let reference: number[] = [];
+	for (let row = 0; row < rows && !reader.exhausted; row++) {
+		if (options.modifiedHuffman || (options.byteAlign && k < 0)) reader.alignToByte();
+
+		let twoDimensional = k < 0;
+		if (k >= 0 && !options.modifiedHuffman) {
+			// Fill bits before an EOL are zeros, so they are skipped with it; rows without EOL are aligned instead
+			let hasEol = reader.skipEol();
+			if (!hasEol && options.byteAlign) {
+				reader.alignToByte();
+				hasEol = reader.skipEol();
+			}
+			// Mixed coding: a tag bit after the EOL tells whether the row is one- or two-dimensional
+			if (k > 0) twoDimensional = hasEol && reader.readBit() === 0;
+			if (reader.exhausted) break;
+		}
+
+		const changes = twoDimensional
+			? decodeRow2D(reader, reference, columns)
+			: decodeRow1D(reader, columns);
+		if (!changes) break;
+
+		// Fill black runs, which start at even-indexed changes
+		const offset = row * columns;
+		for (let i = 0; i < changes.length; i += 2) {
+			const end = changes[i + 1] ?? columns;
+			pixels.fill(0, offset + changes[i], offset + end);
+		}
+		reference = changes;
+	}
+	return pixels;
+}
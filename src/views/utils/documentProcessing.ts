@@ -0,0 +1,356 @@
+import {
+	CaptureVisionRouter,
+	DeskewedImageResultItem,
+	DetectedQuadResultItem,
+	DSImageData,
+	EnumCapturedResultItemType,
+	EnumImageColourMode,
+	EnumImagePixelFormat,
+	ImageIO,
+	ImageProcessor,
+	Quadrilateral,
+} from "dynamsoft-capture-vision-bundle";
+import { DocumentScannerError } from "./errors";
+import { decodeImageFile, isImageFile } from "./imageDecoding";
+import { canvasToResultItem } from "./imageEditing";
+import { isPdf, readPdf } from "./pdfReader";
+import { isTiff, readTiff } from "./tiffReader";
+import { BinarizationOptions, DocumentColorMode, DocumentSource, EnumDDSErrorCode } from "./types";
+
+const COLOUR_MODES: Record<DocumentColorMode, EnumImageColourMode> = {
+	color: EnumImageColourMode.ICM_COLOUR,
+	grayscale: EnumImageColourMode.ICM_GRAYSCALE,
+	binary: EnumImageColourMode.ICM_BINARY,
+};
+
+/**
+ * The pages of an opened file; single images have one page.
+ *
+ * @internal
+ */
+export interface DocumentPages {
+	pageCount: number;
+	/** Decode the page at `index` (0-based). */
+	readPage(index: number): Promise<DocumentSource>;
+	/** Release the file content; no page can be read afterwards. */
+	close(): void;
+}
+
+/**
+ * Detect the boundaries of the most prominent document in an image.
+ *
+ * @param cvRouter - The router to run detection with
+ * @param image - The image to search
+ * @param templateName - Name of the detection template, usually {@link UtilizedTemplateNames.detect}
+ * @returns The document boundaries, or `undefined` if no document was found
+ *
+ * @internal
+ */
+export async function detectDocumentBoundary(
+	cvRouter: CaptureVisionRouter,
+	image: DSImageData,
+	templateName: string,
+): Promise<Quadrilateral | undefined> {
+	const result = await cvRouter.capture(image, templateName);
+	return (
+		result.items.find(
+			(item) => item.type === EnumCapturedResultItemType.CRIT_DETECTED_QUAD,
+		) as DetectedQuadResultItem
+	)?.location;
+}
+
+/**
+ * Detect the boundaries of every document in an image.
+ *
+ * @param cvRouter - The router to run detection with
+ * @param image - The image to search
+ * @param templateName - Name of the detection template, usually {@link UtilizedTemplateNames.detect}
+ * @param maxCount - Most documents to return
+ * @returns The document boundaries, most prominent first; empty if no document was found
+ *
+ * @remarks
+ * The count is passed through the template settings, so calls on the same router must not overlap.
+ * It only applies to this call: the template's own count is restored afterwards.
+ *
+ * @internal
+ */
+export async function detectDocumentBoundaries(
+	cvRouter: CaptureVisionRouter,
+	image: DSImageData,
+	templateName: string,
+	maxCount: number,
+): Promise<Quadrilateral[]> {
+	const settings = await cvRouter.getSimplifiedSettings(templateName);
+	const templateCount = settings.documentSettings.expectedDocumentsCount;
+	settings.documentSettings.expectedDocumentsCount = maxCount;
+	await cvRouter.updateSettings(templateName, settings);
+
+	try {
+		const result = await cvRouter.capture(image, templateName);
+		return result.items
+			.filter((item) => item.type === EnumCapturedResultItemType.CRIT_DETECTED_QUAD)
+			.slice(0, maxCount)
+			.map((item) => (item as DetectedQuadResultItem).location);
+	} finally {
+		if (templateCount !== maxCount) {
+			settings.documentSettings.expectedDocumentsCount = templateCount;
+			await cvRouter.updateSettings(templateName, settings);
+		}
+	}
+}
+
+/**
+ * Apply perspective correction to the region of an image enclosed by `points`.
+ *
+ * @param cvRouter - The router to run normalization with
+ * @param image - The original image
+ * @param points - The document boundaries, in pixels of `image`
+ * @param templateName - Name of the normalization template, usually {@link UtilizedTemplateNames.normalize}
+ * @param colorMode - Colour mode of the corrected image; the template's own colour mode when omitted
+ * @returns The corrected image, or `undefined` if normalization produced no image
+ *
+ * @remarks
+ * The boundaries and colour mode are passed through the template settings, so calls on the same router must not overlap.
+ * A colour mode only applies to this call: the template's own mode is restored afterwards.
+ *
+ * @internal
+ */
+export async function normalizeDocument(
+	cvRouter: CaptureVisionRouter,
+	image: DSImageData,
+	points: Quadrilateral["points"],
+	templateName: string,
+	colorMode?: DocumentColorMode,
+): Promise<DeskewedImageResultItem | undefined> {
+	const settings = await cvRouter.getSimplifiedSettings(templateName);
+	const templateColourMode = settings.documentSettings.colourMode;
+	settings.roiMeasuredInPercentage = false;
+	settings.roi.points = points;
+	if (colorMode) settings.documentSettings.colourMode = COLOUR_MODES[colorMode];
+	await cvRouter.updateSettings(templateName, settings);
+
+	try {
+		const result = await cvRouter.capture(image, templateName);
+		return result?.processedDocumentResult?.deskewedImageResultItems?.[0];
+	} finally {
+		if (settings.documentSettings.colourMode !== templateColourMode) {
+			settings.documentSettings.colourMode = templateColourMode;
+			await cvRouter.updateSettings(templateName, settings);
+		}
+	}
+}
+
+/**
+ * Read the colour mode a normalization template corrects documents in, as used by {@link normalizeDocument} without a colour mode.
+ *
+ * @param cvRouter - The router holding the template
+ * @param templateName - Name of the normalization template, usually {@link UtilizedTemplateNames.normalize}
+ * @returns The {@link DocumentColorMode} of the template; `"color"` for modes without an equivalent
+ *
+ * @internal
+ */
+export async function getTemplateColorMode(
+	cvRouter: CaptureVisionRouter,
+	templateName: string,
+): Promise<DocumentColorMode> {
+	const settings = await cvRouter.getSimplifiedSettings(templateName);
+	const templateColourMode = settings.documentSettings.colourMode;
+	const modes = Object.keys(COLOUR_MODES) as DocumentColorMode[];
+	return modes.find((mode) => COLOUR_MODES[mode] === templateColourMode) ?? "color";
+}
+
+/**
+ * Apply perspective correction in a colour mode, binarizing with custom settings if given.
+ *
+ * @param binarization - Settings for the `"binary"` mode; without any, the normalizer binarizes the image itself
+ *
+ * @remarks
+ * With {@link BinarizationOptions}, the document is normalized in grayscale and binarized by the engine's image processor.
+ * See {@link normalizeDocument} for the other parameters.
+ *
+ * @internal
+ */
+export async function normalizeDocumentInColorMode(
+	cvRouter: CaptureVisionRouter,
+	image: DSImageData,
+	points: Quadrilateral["points"],
+	templateName: string,
+	colorMode?: DocumentColorMode,
+	binarization?: BinarizationOptions,
+): Promise<DeskewedImageResultItem | undefined> {
+	const { threshold, blockSize, compensation } = binarization ?? {};
+	const customBinarization =
+		threshold !== undefined || blockSize !== undefined || compensation !== undefined;
+	if (colorMode !== "binary" || !customBinarization) {
+		return normalizeDocument(cvRouter, image, points, templateName, colorMode);
+	}
+
+	const grayscale = await normalizeDocument(cvRouter, image, points, templateName, "grayscale");
+	if (!grayscale) return undefined;
+
+	const processor = new ImageProcessor();
+	const source = await grayscale.toBlob("image/png");
+	const binary = blockSize
+		? await processor.convertToBinaryLocal(source, blockSize, compensation ?? 0)
+		: await processor.convertToBinaryGlobal(source, threshold ?? -1);
+
+	// The binary image is 1 bit per pixel; let the engine encode it for the canvas
+	const file = await new ImageIO().saveToFile(binary, "binary.png");
+	const bitmap = await decodeImageFile(file);
+	const canvas = document.createElement("canvas");
+	canvas.width = bitmap.width;
+	canvas.height = bitmap.height;
+	canvas.getContext("2d")?.drawImage(bitmap, 0, 0);
+	bitmap.close();
+
+	return canvasToResultItem(canvas, grayscale);
+}
+
+/**
+ * Boundaries covering the whole image, used when no document is detected.
+ *
+ * @internal
+ */
+export function getFullImageQuadrilateral(image: { width: number; height: number }): Quadrilateral {
+	const { width, height } = image;
+	return {
+		points: [
+			{ x: 0, y: 0 },
+			{ x: width, y: 0 },
+			{ x: width, y: height },
+			{ x: 0, y: height },
+		],
+		area: height * width,
+	} as Quadrilateral;
+}
+
+/**
+ * Whether a file may contain several pages (PDF or TIFF).
+ *
+ * @internal
+ */
+export function isMultiPageFile(file: File): boolean {
+	return ["application/pdf", "image/tiff"].includes(file.type) || /\.(pdf|tiff?)$/i.test(file.name);
+}
+
+/**
+ * Whether a file can be used as a document source: any image the browser decodes, HEIC/HEIF, PDF or TIFF.
+ *
+ * @internal
+ */
+export function isSupportedFile(file: File): boolean {
+	return isImageFile(file) || isMultiPageFile(file);
+}
+
+/**
+ * Open a file as a list of pages.
+ *
+ * @param file - The file to open
+ *
+ * @remarks
+ * PDF and TIFF files are recognized by their content and split into pages. Any other file is a single page
+ * that is decoded by the browser. Call {@link DocumentPages.close} once all needed pages are read.
+ *
+ * @throws {Error} If a PDF or TIFF file cannot be read
+ *
+ * @internal
+ */
+export async function openDocumentPages(file: Blob): Promise<DocumentPages> {
+	const header = new Uint8Array(await file.slice(0, 1024).arrayBuffer());
+
+	if (isPdf(header)) return readPdf(new Uint8Array(await file.arrayBuffer()));
+	if (isTiff(header)) return readTiff(new Uint8Array(await file.arrayBuffer()));
+
+	return { pageCount: 1, readPage: async () => file, close: () => {} };
+}
+
+/**
+ * Read a single page of opened pages.
+ *
+ * @param pages - The pages of the file
+ * @param pageIndex - 0-based index of the page
+ *
+ * @throws {Error} If the file has no such page or it cannot be read
+ *
+ * @internal
+ */
+export function readOpenedPage(pages: DocumentPages, pageIndex: number): Promise<DocumentSource> {
+	if (!Number.isInteger(pageIndex) || pageIndex < 0 || pageIndex >= pages.pageCount) {
+		throw new Error(
+			`Page ${pageIndex + 1} does not exist; the file has ${pages.pageCount} page(s)`,
+		);
+	}
+	return pages.readPage(pageIndex);
+}
+
+/**
+ * Read a single page of a file.
+ *
+ * @param file - The file to read
+ * @param pageIndex - 0-based index of the page
+ *
+ * @throws {Error} If the file cannot be read or has no such page
+ *
+ * @internal
+ */
+export async function readDocumentPage(file: Blob, pageIndex: number): Promise<DocumentSource> {
+	const pages = await openDocumentPages(file);
+	try {
+		return await readOpenedPage(pages, pageIndex);
+	} finally {
+		pages.close();
+	}
+}
+
+/**
+ * Convert any {@link DocumentSource} into image data the router can process.
+ *
+ * @param source - The image to convert
+ * @param heicDecoderPath - URL of the HEIC decoder script, used when the browser cannot decode a HEIC/HEIF source
+ *
+ * @remarks
+ * Encoded sources are decoded via {@link decodeImageFile}, with their EXIF orientation applied, and drawn on a detached canvas; no element is added to the page.
+ *
+ * @throws {Error} If the source cannot be decoded
+ *
+ * @internal
+ */
+export async function toDSImageData(
+	source: DocumentSource,
+	heicDecoderPath?: string,
+): Promise<DSImageData> {
+	if (isDSImageData(source)) return source;
+
+	if (source instanceof HTMLCanvasElement) return canvasToDSImageData(source);
+
+	const bitmap = source instanceof Blob ? await decodeImageFile(source, heicDecoderPath) : source;
+
+	const canvas = document.createElement("canvas");
+	canvas.width = bitmap.width;
+	canvas.height = bitmap.height;
+	canvas.getContext("2d")?.drawImage(bitmap, 0, 0);
+
+	// Only release bitmaps decoded here; a caller's ImageBitmap stays usable
+	if (bitmap !== source) bitmap.close();
+
+	return canvasToDSImageData(canvas);
+}
+
+function isDSImageData(source: DocumentSource): source is DSImageData {
+	return "bytes" in source && "format" in source;
+}
+
+function canvasToDSImageData(canvas: HTMLCanvasElement): DSImageData {
+	const pixels = canvas.getContext("2d")?.getImageData(0, 0, canvas.width, canvas.height);
+	if (!pixels) {
+		throw new Error("Failed to read image pixels");
+	}
+
+	return {
+		bytes: new Uint8Array(pixels.data.buffer),
+		width: canvas.width,
+		height: canvas.height,
+		stride: canvas.width * 4,
+		format: EnumImagePixelFormat.IPF_ABGR_8888,
+	};
+}
@@ -0,0 +1,170 @@
+import { Point } from "dynamsoft-capture-vision-bundle";
+
+/** Longest side of the downscaled copy the image gradients are computed on. */
+const EDGE_MAP_SIZE = 1024;
+
+/** Weakest mean gradient across a boundary edge, in luma levels, that counts as a paper edge. */
+const MIN_EDGE_STRENGTH = 24;
+
+/** Most samples taken along one boundary edge. */
+const MAX_EDGE_SAMPLES = 64;
+
+/**
+ * Horizontal and vertical luma gradients of a downscaled copy of an image, used to snap boundary edges.
+ *
+ * @internal
+ */
+export interface EdgeMap {
+	gx: Float32Array;
+	gy: Float32Array;
+	width: number;
+	height: number;
+	/** Edge map pixels per image pixel. */
+	scale: number;
+}
+
+/**
+ * Compute the {@link EdgeMap} of an image with a Sobel operator.
+ *
+ * @returns The edge map, or `undefined` if the canvas cannot be read
+ *
+ * @internal
+ */
+export function createEdgeMap(canvas: HTMLCanvasElement): EdgeMap | undefined {
+	const scale = Math.min(1, EDGE_MAP_SIZE / Math.max(canvas.width, canvas.height));
+	const width = Math.max(3, Math.round(canvas.width * scale));
+	const height = Math.max(3, Math.round(canvas.height * scale));
+	const small = document.createElement("canvas");
+	small.width = width;
+	small.height = height;
+	const ctx = small.getContext("2d");
+	if (!ctx) return undefined;
+	ctx.drawImage(canvas, 0, 0, width, height);
+	const data = ctx.getImageData(0, 0, width, height).data;
+
+	const luma = new Float32Array(width * height);
+	for (let i = 0; i < luma.length; i++) {
+		luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+	}
+
+	const gx = new Float32Array(luma.length);
+	const gy = new Float32Array(luma.length);
+	for (let y = 1; y < height - 1; y++) {
+		for (let x = 1; x < width - 1; x++) {
+			const i = y * width + x;
+			const tl = luma[i - width - 1];
+			const tr = luma[i - width + 1];
+			const bl = luma[i + width - 1];
+			const br = luma[i + width + 1];
+			// Sobel kernels, divided by 4 so that a step of one luma level gives a gradient of 1
+			gx[i] = (tr + 2 * luma[i + 1] + br - tl - 2 * luma[i - 1] - bl) / 4;
+			gy[i] = (bl + 2 * luma[i + width] + br - tl - 2 * luma[i - width] - tr) / 4;
+		}
+	}
+	return { gx, gy, width, height, scale: width / canvas.width };
+}
+
+/**
+ * Move a dragged corner of a boundary onto nearby paper edges.
+ *
+ * @param map - The {@link EdgeMap} of the image
+ * @param points - The boundary corners, in image coordinates
+ * @param index - Index of the dragged corner in `points`
+ * @param radius - How far the corner may move, in image pixels
+ * @returns The snapped corner, or the dragged corner if no strong edges are within `radius`
+ *
+ * @remarks
+ * Searches for the position where the two boundary edges meeting at the corner lie best along image edges.
+ *
+ * @internal
+ */
+export function snapCorner(map: EdgeMap, points: Point[], index: number, radius: number): Point {
+	const corner = points[index];
+	const previous = points[(index + points.length - 1) % points.length];
+	const next = points[(index + 1) % points.length];
+	const steps = Math.max(1, Math.round(radius * map.scale));
+	const step = 1 / map.scale;
+
+	let best = corner;
+	let bestScore = MIN_EDGE_STRENGTH;
+	for (let dy = -steps; dy <= steps; dy++) {
+		for (let dx = -steps; dx <= steps; dx++) {
+			if (dx * dx + dy * dy > steps * steps) continue;
+			const candidate = { x: corner.x + dx * step, y: corner.y + dy * step };
+			const score = Math.min(
+				edgeStrength(map, previous, candidate),
+				edgeStrength(map, candidate, next),
+			);
+			if (score > bestScore) {
+				bestScore = score;
+				best = candidate;
+			}
+		}
+	}
+	return best;
+}
+
+/**
+ * Move a dragged boundary edge, without turning it, onto a nearby paper edge.
+ *
+ * @param map - The {@link EdgeMap} of the image
+ * @param points - The boundary corners, in image coordinates
+ * @param index - Index of the edge, which runs from `points[index]` to the next corner
+ * @param radius - How far the edge may move, in image pixels
+ * @returns The offset to add to both ends of the edge; zero if no strong edge is within `radius`
+ *
+ * @internal
+ */
+export function snapEdge(map: EdgeMap, points: Point[], index: number, radius: number): Point {
+	const start = points[index];
+	const end = points[(index + 1) % points.length];
+	const length = Math.hypot(end.x - start.x, end.y - start.y);
+	if (!length) return { x: 0, y: 0 };
+	const normal = { x: -(end.y - start.y) / length, y: (end.x - start.x) / length };
+	const steps = Math.max(1, Math.round(radius * map.scale));
+
+	let offset = 0;
+	let bestScore = MIN_EDGE_STRENGTH;
+	for (let i = -steps; i <= steps; i++) {
+		const shift = i / map.scale;
+		const score = edgeStrength(
+			map,
+			{ x: start.x + normal.x * shift, y: start.y + normal.y * shift },
+			{ x: end.x + normal.x * shift, y: end.y + normal.y * shift },
+		);
+		if (score > bestScore) {
+			bestScore = score;
+			offset = shift;
+		}
+	}
+	return { x: normal.x * offset, y: normal.y * offset };
+}
+
+/**
+ * Mean gradient across the segment from `start` to `end` (in image coordinates), sampled along its length.
+ *
+ * @remarks
+ * Only the gradient component perpendicular to the segment counts, so texture and text crossing it score low.
+ */
+function edgeStrength(map: EdgeMap, start: Point, end: Point): number {
+	const x0 = start.x * map.scale;
+	const y0 = start.y * map.scale;
+	const x1 = end.x * map.scale;
+	const y1 = end.y * map.scale;
+	const length = Math.hypot(x1 - x0, y1 - y0);
+	if (length < 2) return 0;
+	const nx = -(y1 - y0) / length;
+	const ny = (x1 - x0) / length;
+
+	const samples = Math.min(MAX_EDGE_SAMPLES, Math.floor(length));
+	let sum = 0;
+	for (let i = 0; i < samples; i++) {
+		const t = (i + 0.5) / samples;
+		const x = Math.round(x0 + (x1 - x0) * t);
+		const y = Math.round(y0 + (y1 - y0) * t);
+		if (x < 0 || y < 0 || x >= map.width || y >= map.height) continue;
+		const p = y * map.width + x;
+		sum += Math.abs(map.gx[p] * nx + map.gy[p] * ny);
+	}
+	return sum / samples;
+}
@@ -0,0 +1,109 @@
+import type { SharedResources } from "../../DocumentScanner";
+import { EnumDDSErrorCode } from "./types";
+
+/**
+ * Error raised by the Document Scanner, identified by an {@link EnumDDSErrorCode}.
+ *
+ * @remarks
+ * Passed to {@link DocumentScannerConfig.onError}. The same code is set on {@link ResultStatus.errorCode} when the failure ends a scan.
+ *
+ * @public
+ */
+export class DocumentScannerError extends Error {
+	/**
+	 * The reason of the failure.
+	 *
+	 * @public
+	 */
+	readonly code: EnumDDSErrorCode;
+	/**
+	 * The original error, if the failure was raised by the browser or the engine.
+	 *
+	 * @public
+	 */
+	readonly cause?: unknown;
+
+	constructor(code: EnumDDSErrorCode, message: string, cause?: unknown) {
+		super(message);
+		this.name = "DocumentScannerError";
+		this.code = code;
+		this.cause = cause;
+	}
+}
+
+/**
+ * Wrap any thrown value in a {@link DocumentScannerError}.
+ *
+ * @param ex - The thrown value
+ * @param fallbackCode - Code to use when the failure is not recognized
+ * @returns `ex` itself if it already is a {@link DocumentScannerError}
+ *
+ * @remarks
+ * Camera errors are recognized by their `DOMException` name, license errors by their message. Both are only recognized
+ * when `fallbackCode` is a camera or initialization code, as other failures, such as exporting a canvas or reading
+ * IndexedDB, raise `DOMException`s with the same names.
+ *
+ * @internal
+ */
+export function toDocumentScannerError(
+	ex: unknown,
+	fallbackCode: EnumDDSErrorCode = EnumDDSErrorCode.UNKNOWN,
+): DocumentScannerError {
+	if (ex instanceof DocumentScannerError) return ex;
+
+	const message = String((ex as any)?.message || ex);
+	const code = CAMERA_CODES.includes(fallbackCode) ? classifyError(ex, message) : undefined;
+	return new DocumentScannerError(code ?? fallbackCode, message, ex);
+}
+
+/**
+ * Show an error to the user with {@link DocumentScannerConfig.onError}, or `alert()` if it is not set.
+ *
+ * @param resources - The {@link SharedResources} holding {@link SharedResources.onError}
+ * @param error - The error to report
+ *
+ * @internal
+ */
+export function reportError(
+	resources: Partial<SharedResources>,
+	error: DocumentScannerError,
+): void {
+	if (!resources.onError) {
+		alert(error.message);
+		return;
+	}
+
+	try {
+		resources.onError(error);
+	} catch (ex) {
+		console.error("Error in onError handler:", ex);
+	}
+}
+
+/** Codes of failures of the camera or of starting the scanner, which {@link classifyError} refines. */
+const CAMERA_CODES = [
+	EnumDDSErrorCode.CAMERA_PERMISSION_DENIED,
+	EnumDDSErrorCode.CAMERA_IN_USE,
+	EnumDDSErrorCode.CAMERA_NOT_FOUND,
+	EnumDDSErrorCode.CAMERA_ERROR,
+	EnumDDSErrorCode.CAPTURE_FAILED,
+	EnumDDSErrorCode.INITIALIZATION_FAILED,
+];
+
+function classifyError(ex: unknown, message: string): EnumDDSErrorCode | undefined {
+	switch ((ex as any)?.name) {
+		case "NotAllowedError":
+		case "SecurityError":
+			return EnumDDSErrorCode.CAMERA_PERMISSION_DENIED;
+		case "NotReadableError":
+			return EnumDDSErrorCode.CAMERA_IN_USE;
+		case "NotFoundError":
+		case "OverconstrainedError":
+			return EnumDDSErrorCode.CAMERA_NOT_FOUND;
+	}
+
+	if (/licen[cs]e/i.test(message)) return EnumDDSErrorCode.LICENSE_INVALID;
+	if (/in use|not available/i.test(message)) return EnumDDSErrorCode.CAMERA_IN_USE;
+	if (/permission/i.test(message)) return EnumDDSErrorCode.CAMERA_PERMISSION_DENIED;
+	return undefined;
+}
@@ -0,0 +1,139 @@
+import { DeskewedImageResultItem } from "dynamsoft-capture-vision-bundle";
+import { canvasToResultItem } from "./imageEditing";
+import { DocumentResult } from "./types";
+
+/**
+ * A side of an ID card, scanned in this order in ID card mode.
+ *
+ * @public
+ */
+export type IdCardSide = "front" | "back";
+
+/**
+ * Settings of the two-sided ID card workflow.
+ *
+ * @see {@link DocumentScannerConfig.idCardMode}
+ *
+ * @example
+ * ```javascript
+ * const documentScanner = new Dynamsoft.DocumentScanner({
+ *     license: "YOUR_LICENSE_KEY_HERE",
+ *     idCardMode: {
+ *         combineSides: true,
+ *         combinedLayout: "horizontal",
+ *     },
+ * });
+ * ```
+ *
+ * @public
+ */
+export interface IdCardModeConfig {
+	/**
+	 * Composite both sides onto a single page, returned in {@link IdCardResult.combinedImageResult}.
+	 *
+	 * @defaultValue false
+	 *
+	 * @public
+	 */
+	combineSides?: boolean;
+	/**
+	 * How the sides are placed on the combined page: the front above the back (`"vertical"`), or left of it (`"horizontal"`).
+	 *
+	 * @remarks
+	 * Only applies with {@link combineSides}. The back is scaled to the width (or height) of the front, and both sides are framed by a white margin.
+	 *
+	 * @defaultValue "vertical"
+	 *
+	 * @public
+	 */
+	combinedLayout?: "vertical" | "horizontal";
+}
+
+/**
+ * Both sides of an ID card scanned in ID card mode.
+ *
+ * @see {@link DocumentResult.idCard}
+ *
+ * @public
+ */
+export interface IdCardResult {
+	/**
+	 * Result of the front side.
+	 *
+	 * @public
+	 */
+	front: DocumentResult;
+	/**
+	 * Result of the back side.
+	 *
+	 * @public
+	 */
+	back: DocumentResult;
+	/**
+	 * Both corrected sides on a single page, ready to export.
+	 *
+	 * @remarks
+	 * Only present with {@link IdCardModeConfig.combineSides}.
+	 *
+	 * @public
+	 */
+	combinedImageResult?: DeskewedImageResultItem;
+}
+
+/** The sides of an ID card, in scanning order. @internal */
+export const ID_CARD_SIDES: IdCardSide[] = ["front", "back"];
+
+/** Margin around and between the sides on a combined page, as a fraction of the front's longest side. */
+const COMBINED_MARGIN = 0.05;
+
+/**
+ * Draw the corrected front and back of an ID card on a single page.
+ *
+ * @param front - The corrected front side
+ * @param back - The corrected back side
+ * @param layout - Placement of the sides, see {@link IdCardModeConfig.combinedLayout}
+ * @returns The combined page
+ *
+ * @internal
+ */
+export function combineIdCardSides(
+	front: DeskewedImageResultItem,
+	back: DeskewedImageResultItem,
+	layout: IdCardModeConfig["combinedLayout"] = "vertical",
+): DeskewedImageResultItem {
+	const frontCanvas = front.toCanvas();
+	const backCanvas = back.toCanvas();
+	const vertical = layout !== "horizontal";
+	const margin = Math.round(Math.max(frontCanvas.width, frontCanvas.height) * COMBINED_MARGIN);
+
+	// Match the back to the front along the shared side
+	const scale = vertical
+		? frontCanvas.width / backCanvas.width
+		: frontCanvas.height / backCanvas.height;
+	const backWidth = Math.round(backCanvas.width * scale);
+	const backHeight = Math.round(backCanvas.height * scale);
+
+	const canvas = document.createElement("canvas");
+	canvas.width = vertical
+		? frontCanvas.width + margin * 2
+		: frontCanvas.width + backWidth + margin * 3;
+	canvas.height = vertical
+		? frontCanvas.height + backHeight + margin * 3
+		: frontCanvas.height + margin * 2;
+
+	const ctx = canvas.getContext("2d");
+	if (ctx) {
+		ctx.fillStyle = "#ffffff";
+		ctx.fillRect(0, 0, canvas.width, canvas.height);
+		ctx.imageSmoothingQuality = "high";
+		ctx.drawImage(frontCanvas, margin, margin);
+		ctx.drawImage(
+			backCanvas,
+			vertical ? margin : frontCanvas.width + margin * 2,
+			vertical ? frontCanvas.height + margin * 2 : margin,
+			backWidth,
+			backHeight,
+		);
+	}
+	return canvasToResultItem(canvas, front);
+}
@@ -0,0 +1,290 @@
+import { DocumentScannerError } from "./errors";
+import { EnumDDSErrorCode } from "./types";
+
+/** Most pixels a decoded PDF or TIFF page may have, so that a malformed file cannot exhaust memory; A4 at 600 dpi fits. */
+const MAX_PAGE_PIXELS = 6000 * 8000;
+
+/**
+ * Decompress zlib (deflate) data with the browser's `DecompressionStream`.
+ *
+ * @remarks
+ * Data after the end of the compressed stream, or a truncated stream, does not fail the decoding
+ * as long as some output was produced — both are common in real-world PDF and TIFF files.
+ *
+ * @internal
+ */
+export async function inflate(data: Uint8Array): Promise<Uint8Array> {
+	const reader = new Blob([data as BlobPart])
+		.stream()
+		.pipeThrough(new DecompressionStream("deflate"))
+		.getReader();
+
+	const chunks: Uint8Array[] = [];
+	try {
+		for (;;) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			chunks.push(value);
+		}
+	} catch (error) {
+		if (!chunks.length) throw error;
+	}
+	return concatBytes(chunks);
+}
+
+/**
+ * Decompress LZW data as used by TIFF and the PDF `LZWDecode` filter (MSB-first codes, 9 to 12 bits).
+ *
+ * @param data - The compressed data
+ * @param earlyChange - `1` to widen codes one entry early, as TIFF and PDF do by default
+ *
+ * @internal
+ */
+export function decodeLzw(data: Uint8Array, earlyChange = 1): Uint8Array {
+	const CLEAR = 256;
+	const END = 257;
+	const prefixes = new Int16Array(4096);
+	const suffixes = new Uint8Array(4096);
+	const lengths = new Uint16Array(4096);
+	for (let i = 0; i < 256; i++) {
+		suffixes[i] = i;
+		lengths[i] = 1;
+	}
+
+	let output = new Uint8Array(data.length * 3);
+	let outputLength = 0;
+	let bitPosition = 0;
+	let codeLength = 9;
+	let next = 258;
+	let previous = -1;
+
+	const readCode = () => {
+		let code = 0;
+		for (let i = 0; i < codeLength; i++) {
+			const byte = data[bitPosition >> 3];
+			code = (code << 1) | ((byte >> (7 - (bitPosition & 7))) & 1);
+			bitPosition++;
+		}
+		return code;
+	};
+
+	// Write the string of `code` at the end of the output, walking its prefixes backwards
+	const writeString = (code: number) => {
+		const length = lengths[code];
+		if (outputLength + length > output.length) {
+			const grown = new Uint8Array(Math.max(output.length * 2, outputLength + length));
+			grown.set(output.subarray(0, outputLength));
+			output = grown;
+		}
+		for (let i = length - 1, entry = code; i >= 0; i--, entry = prefixes[entry]) {
+			output[outputLength + i] = suffixes[entry];
+		}
+		outputLength += length;
+	};
+
+	while (bitPosition + codeLength <= data.length * 8) {
+		const code = readCode();
+		if (code === END) break;
+		if (code === CLEAR) {
+			codeLength = 9;
+			next = 258;
+			previous = -1;
+			continue;
+		}
+		if (previous < 0) {
+			if (code > 255) break;
+			writeString(code);
+			previous = code;
+			continue;
+		}
+		if (code > next || next >= 4096) break;
+
+		// A code not yet in the table (KwKwK) repeats the previous string plus its own first byte
+		const start = outputLength;
+		writeString(code < next ? code : previous);
+		const firstByte = output[start];
+		if (code === next) {
+			writeString(firstByte);
+		}
+
+		prefixes[next] = previous;
+		suffixes[next] = firstByte;
+		lengths[next] = lengths[previous] + 1;
+		next++;
+		if (next + earlyChange >= 1 << codeLength && codeLength < 12) codeLength++;
+
+		previous = code;
+	}
+	return output.subarray(0, outputLength);
+}
+
+/**
+ * Decompress PackBits run-length data, as used by TIFF and the PDF `RunLengthDecode` filter.
+ *
+ * @internal
+ */
+export function decodePackBits(data: Uint8Array): Uint8Array {
+	const chunks: Uint8Array[] = [];
+	let position = 0;
+
+	while (position < data.length) {
+		const header = (data[position++] << 24) >> 24;
+		if (header >= 0) {
+			chunks.push(data.subarray(position, position + header + 1));
+			position += header + 1;
+		} else if (header !== -128) {
+			chunks.push(new Uint8Array(1 - header).fill(data[position++]));
+		}
+	}
+	return concatBytes(chunks);
+}
+
+/**
+ * Undo the horizontal differencing predictor (TIFF predictor 2) on 8-bit samples, in place.
+ *
+ * @internal
+ */
+export function undoHorizontalPredictor(
+	data: Uint8Array,
+	rowBytes: number,
+	bytesPerPixel: number,
+): Uint8Array {
+	for (let row = 0; row + rowBytes <= data.length; row += rowBytes) {
+		for (let i = row + bytesPerPixel; i < row + rowBytes; i++) {
+			data[i] = (data[i] + data[i - bytesPerPixel]) & 0xff;
+		}
+	}
+	return data;
+}
+
+/**
+ * Undo PNG row filters (PDF predictors 10 to 15), where every row starts with its filter type byte.
+ *
+ * @internal
+ */
+export function undoPngPredictor(
+	data: Uint8Array,
+	rowBytes: number,
+	bytesPerPixel: number,
+): Uint8Array {
+	const rows = Math.floor(data.length / (rowBytes + 1));
+	const output = new Uint8Array(rows * rowBytes);
+
+	for (let row = 0; row < rows; row++) {
+		const filter = data[row * (rowBytes + 1)];
+		const input = row * (rowBytes + 1) + 1;
+		const offset = row * rowBytes;
+
+		for (let i = 0; i < rowBytes; i++) {
+			const left = i >= bytesPerPixel ? output[offset + i - bytesPerPixel] : 0;
+			const up = row > 0 ? output[offset + i - rowBytes] : 0;
+			const upLeft =
+				row > 0 && i >= bytesPerPixel ? output[offset + i - rowBytes - bytesPerPixel] : 0;
+
+			let predicted = 0;
+			if (filter === 1) predicted = left;
+			else if (filter === 2) predicted = up;
+			else if (filter === 3) predicted = (left + up) >> 1;
+			else if (filter === 4) predicted = paeth(left, up, upLeft);
+
+			output[offset + i] = (data[input + i] + predicted) & 0xff;
+		}
+	}
+	return output;
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+	const estimate = left + up - upLeft;
+	const distanceLeft = Math.abs(estimate - left);
+	const distanceUp = Math.abs(estimate - up);
+	const distanceUpLeft = Math.abs(estimate - upLeft);
+	if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) return left;
+	return distanceUp <= distanceUpLeft ? up : upLeft;
+}
+
+/**
+ * Unpack interleaved samples of 1, 2, 4, 8 or 16 bits into one byte per sample.
+ *
+ * @param data - Rows of packed samples, each row starting on a byte boundary
+ * @param width - Pixels per row
+ * @param height - Number of rows
+ * @param samplesPerPixel - Samples (color components) per pixel
+ * @param bits - Bits per sample
+ * @param options - `scale` stretches values to 0–255 (otherwise raw values, e.g. palette indices, are kept);
+ * `littleEndian` is the byte order of 16-bit samples
+ *
+ * @internal
+ */
+export function unpackSamples(
+	data: Uint8Array,
+	width: number,
+	height: number,
+	samplesPerPixel: number,
+	bits: number,
+	options: { scale?: boolean; littleEndian?: boolean } = {},
+): Uint8Array {
+	const { scale = true, littleEndian = false } = options;
+	const rowSamples = width * samplesPerPixel;
+	const rowBytes = Math.ceil((rowSamples * bits) / 8);
+	const output = new Uint8Array(rowSamples * height);
+
+	if (bits === 8) {
+		for (let row = 0; row < height; row++) {
+			output.set(data.subarray(row * rowBytes, row * rowBytes + rowSamples), row * rowSamples);
+		}
+		return output;
+	}
+
+	if (bits === 16) {
+		// Keep the most significant byte
+		const high = littleEndian ? 1 : 0;
+		for (let row = 0; row < height; row++) {
+			for (let i = 0; i < rowSamples; i++) {
+				output[row * rowSamples + i] = data[row * rowBytes + i * 2 + high] ?? 0;
+			}
+		}
+		return output;
+	}
+
+	if (![1, 2, 4].includes(bits)) {
+		throw new Error(`Unsupported bits per sample: ${bits}`);
+	}
+
+	const mask = (1 << bits) - 1;
+	const factor = scale ? 255 / mask : 1;
+	for (let row = 0; row < height; row++) {
+		for (let i = 0; i < rowSamples; i++) {
+			const bitOffset = i * bits;
+			const byte = data[row * rowBytes + (bitOffset >> 3)] ?? 0;
+			const value = (byte >> (8 - bits - (bitOffset & 7))) & mask;
+			output[row * rowSamples + i] = Math.round(value * factor);
+		}
+	}
+	return output;
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+	const output = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+	let offset = 0;
+	for (const chunk of chunks) {
+		output.set(chunk, offset);
+		offset += chunk.length;
+	}
+	return output;
+}
+
+/**
+ * Check the size given in a file header before allocating the pixels of a page.
+ *
+ * @throws {DocumentScannerError} `UNSUPPORTED_FILE` if the page has more than {@link MAX_PAGE_PIXELS} pixels
+ *
+ * @internal
+ */
+export function checkPageSize(width: number, height: number): void {
+	if (width * height > MAX_PAGE_PIXELS) {
+		throw new DocumentScannerError(
+			EnumDDSErrorCode.UNSUPPORTED_FILE,
+			`Pages of ${width} x ${height} pixels are too large`,
+		);
+	}
+}
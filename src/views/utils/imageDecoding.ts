@@ -0,0 +1,207 @@
+import { DocumentScannerError } from "./errors";
+import { EnumDDSErrorCode } from "./types";
+
+/** Clockwise rotation in degrees displayed by each EXIF orientation value (1 to 8). */
+const EXIF_ORIENTATION_ROTATIONS = [0, 0, 0, 180, 180, 270, 90, 90, 270];
+
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+/** ISOBMFF brands of HEIF images, including AVIF. */
+const HEIF_BRANDS = [
+	"heic",
+	"heix",
+	"heim",
+	"heis",
+	"hevc",
+	"hevx",
+	"mif1",
+	"msf1",
+	"avif",
+	"avis",
+];
+
+/** Only the start of a file is searched for orientation metadata. */
+const HEADER_SIZE = 256 * 1024;
+
+/** The `heic2any` function exposed by the HEIC decoder script. */
+type HeicDecoder = (options: {
+	blob: Blob;
+	toType?: string;
+	quality?: number;
+}) => Promise<Blob | Blob[]>;
+
+let heicDecoder: Promise<HeicDecoder> | undefined;
+
+/**
+ * Whether a file looks like an image the browser may decode, judging by its MIME type or extension.
+ *
+ * @remarks
+ * HEIC/HEIF files often have an empty MIME type, so their extension is checked as well.
+ *
+ * @internal
+ */
+export function isImageFile(file: File): boolean {
+	return file.type.startsWith("image/") || /\.(heic|heif|webp|avif)$/i.test(file.name);
+}
+
+/**
+ * Decode an encoded image file, applying its orientation metadata.
+ *
+ * @param file - The image file (JPEG, PNG, WebP, AVIF, HEIC/HEIF or any other format the browser decodes)
+ * @param heicDecoderPath - URL of the `heic2any` script, loaded once to decode HEIC/HEIF images the browser cannot decode
+ * @returns The decoded image, as displayed: EXIF orientation (or HEIF rotation) is already applied
+ *
+ * @throws {DocumentScannerError} If the image cannot be decoded ({@link EnumDDSErrorCode.FILE_DECODE_FAILED})
+ *
+ * @internal
+ */
+export async function decodeImageFile(file: Blob, heicDecoderPath?: string): Promise<ImageBitmap> {
+	try {
+		return await createImageBitmap(file, { imageOrientation: "from-image" });
+	} catch {
+		// Only Safari decodes HEIC natively; other browsers need the external decoder
+		const header = new Uint8Array(await file.slice(0, 32).arrayBuffer());
+		if (!isHeif(header) || !heicDecoderPath) {
+			throw new DocumentScannerError(EnumDDSErrorCode.FILE_DECODE_FAILED, "Failed to decode image");
+		}
+	}
+
+	try {
+		const decode = await loadHeicDecoder(heicDecoderPath);
+		const converted = await decode({ blob: file, toType: "image/jpeg", quality: 0.92 });
+		return await createImageBitmap(Array.isArray(converted) ? converted[0] : converted);
+	} catch (ex: any) {
+		throw new DocumentScannerError(
+			EnumDDSErrorCode.FILE_DECODE_FAILED,
+			`Failed to decode HEIC image: ${ex?.message || ex}`,
+			ex,
+		);
+	}
+}
+
+/**
+ * Read the clockwise rotation that decoding applies to an image file because of its orientation metadata.
+ *
+ * @param file - The image file
+ * @returns The rotation in degrees (0, 90, 180 or 270); 0 if the file has no orientation metadata
+ *
+ * @remarks
+ * Reads the EXIF orientation of JPEG and WebP files, and the `irot` property of HEIF and AVIF files.
+ * Mirrored EXIF orientations are undone as well, but only their rotation is reported.
+ *
+ * @internal
+ */
+export async function readImageRotation(file: Blob): Promise<number> {
+	const header = new Uint8Array(await file.slice(0, HEADER_SIZE).arrayBuffer());
+
+	if (isHeif(header)) return readHeifRotation(header);
+
+	const exif = findExif(header);
+	const orientation = exif ? readExifOrientation(exif) : 1;
+	return EXIF_ORIENTATION_ROTATIONS[orientation] ?? 0;
+}
+
+function isHeif(header: Uint8Array): boolean {
+	return ascii(header, 4, 8) === "ftyp" && HEIF_BRANDS.includes(ascii(header, 8, 12));
+}
+
+/**
+ * Find the EXIF data (a TIFF structure) in the APP1 segment of a JPEG file or the `EXIF` chunk of a WebP file.
+ */
+function findExif(header: Uint8Array): Uint8Array | undefined {
+	// JPEG: walk the marker segments up to the image data
+	if (header[0] === 0xff && header[1] === 0xd8) {
+		for (let offset = 2; offset + 4 <= header.length && header[offset] === 0xff;) {
+			const marker = header[offset + 1];
+			const length = (header[offset + 2] << 8) | header[offset + 3];
+			if (marker === 0xda) break;
+			if (marker === 0xe1 && ascii(header, offset + 4, offset + 10) === "Exif\0\0") {
+				return header.subarray(offset + 10, offset + 2 + length);
+			}
+			offset += 2 + length;
+		}
+		return undefined;
+	}
+
+	// WebP: walk the RIFF chunks
+	if (ascii(header, 0, 4) === "RIFF" && ascii(header, 8, 12) === "WEBP") {
+		const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+		for (let offset = 12; offset + 8 <= header.length;) {
+			const size = view.getUint32(offset + 4, true);
+			if (ascii(header, offset, offset + 4) === "EXIF") {
+				const exif = header.subarray(offset + 8, offset + 8 + size);
+				// Some encoders keep the JPEG "Exif\0\0" prefix
+				return ascii(exif, 0, 6) === "Exif\0\0" ? exif.subarray(6) : exif;
+			}
+			offset += 8 + size + (size & 1);
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Read the orientation tag from the first IFD of EXIF data.
+ */
+function readExifOrientation(exif: Uint8Array): number {
+	if (exif.length < 8) return 1;
+
+	const view = new DataView(exif.buffer, exif.byteOffset, exif.byteLength);
+	const littleEndian = exif[0] === 0x49;
+	const ifd = view.getUint32(4, littleEndian);
+	if (ifd + 2 > exif.length) return 1;
+
+	const entryCount = view.getUint16(ifd, littleEndian);
+	for (let i = 0; i < entryCount; i++) {
+		const entry = ifd + 2 + i * 12;
+		if (entry + 12 > exif.length) break;
+		if (view.getUint16(entry, littleEndian) === EXIF_ORIENTATION_TAG) {
+			return view.getUint16(entry + 8, littleEndian);
+		}
+	}
+	return 1;
+}
+
+/**
+ * Read the `irot` (image rotation) property of a HEIF file, which rotates the image anti-clockwise.
+ */
+function readHeifRotation(header: Uint8Array): number {
+	const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+	for (let offset = 4; offset + 5 <= header.length; offset++) {
+		// The box is 9 bytes: size, type, then the number of quarter turns in the low 2 bits
+		if (ascii(header, offset, offset + 4) === "irot" && view.getUint32(offset - 4) === 9) {
+			const quarterTurns = header[offset + 4] & 3;
+			return ((4 - quarterTurns) % 4) * 90;
+		}
+	}
+	return 0;
+}
+
+/**
+ * Load the HEIC decoder script once and return its `heic2any` function.
+ */
+function loadHeicDecoder(path: string): Promise<HeicDecoder> {
+	heicDecoder ??= new Promise<HeicDecoder>((resolve, reject) => {
+		const script = document.createElement("script");
+		script.src = path;
+		script.async = true;
+		script.onload = () => {
+			const decode = (window as any).heic2any as HeicDecoder | undefined;
+			if (decode) {
+				resolve(decode);
+			} else {
+				reject(new Error(`No HEIC decoder found in ${path}`));
+			}
+		};
+		script.onerror = () => reject(new Error(`Failed to load the HEIC decoder from ${path}`));
+		document.head.appendChild(script);
+	}).catch((error) => {
+		// Allow a later upload to try again
+		heicDecoder = undefined;
+		throw error;
+	});
+	return heicDecoder;
+}
+
+function ascii(bytes: Uint8Array, start: number, end: number): string {
+	return String.fromCharCode(...bytes.subarray(start, end));
+}
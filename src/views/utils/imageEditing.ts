@@ -2,6 +2,7 @@ import { BlackwhiteFilter, GrayscaleFilter, InvertFilter, SepiaFilter } from "im
 
 import { DeskewedImageResultItem, EnumImagePixelFormat } from "dynamsoft-capture-vision-bundle";
 import type { StringConfig } from "./index";
+import type { CropRect, ImageAdjustments, PageEditState } from "./types";
 
 /**
  * A selectable image filter for the {@link DocumentResultView} filter menu.
@@ -46,8 +47,243 @@ export const FILTER_OPTIONS: FilterOption[] = [
 		labelKey: "filterInvertedBtn",
 		apply: (source, target) => new InvertFilter(target).process(source),
 	},
+	{
+		id: "clean",
+		labelKey: "filterCleanBtn",
+		apply: removeShadows,
+	},
 ];
 
+/** Longest side of the downscaled copy the illumination is estimated on. */
+const ILLUMINATION_SIZE = 256;
+
+/** Fractions of the local background brightness mapped to black and to white by {@link removeShadows}. */
+const CLEAN_BLACK_POINT = 0.1;
+const CLEAN_WHITE_POINT = 0.9;
+
+/**
+ * Remove shadows and uneven lighting from `source` and whiten its paper background, writing the result onto `target`.
+ *
+ * @remarks
+ * The illumination is estimated on a downscaled copy: a max filter wider than the strokes of the print leaves only the
+ * paper, and a box blur smooths it. Each pixel is then divided by the illumination at its position, so the paper
+ * becomes evenly white (including colour casts) while print keeps its contrast.
+ *
+ * @internal
+ */
+export function removeShadows(source: HTMLCanvasElement, target: HTMLCanvasElement): void {
+	const { width, height } = source;
+	target.width = width;
+	target.height = height;
+	const ctx = target.getContext("2d");
+	if (!ctx || !width || !height) return;
+	ctx.drawImage(source, 0, 0);
+
+	const scale = Math.min(1, ILLUMINATION_SIZE / Math.max(width, height));
+	const small = document.createElement("canvas");
+	small.width = Math.max(1, Math.round(width * scale));
+	small.height = Math.max(1, Math.round(height * scale));
+	const smallCtx = small.getContext("2d");
+	if (!smallCtx) return;
+	smallCtx.drawImage(source, 0, 0, small.width, small.height);
+
+	const field = smallCtx.getImageData(0, 0, small.width, small.height);
+	const radius = Math.max(2, Math.round(Math.max(small.width, small.height) * 0.02));
+	filterSeparable(field, radius, "max");
+	filterSeparable(field, radius * 2, "mean");
+	smallCtx.putImageData(field, 0, 0);
+
+	// Bilinear upscaling keeps the illumination smooth at full resolution
+	const illumination = document.createElement("canvas");
+	illumination.width = width;
+	illumination.height = height;
+	const illuminationCtx = illumination.getContext("2d");
+	if (!illuminationCtx) return;
+	illuminationCtx.imageSmoothingQuality = "high";
+	illuminationCtx.drawImage(small, 0, 0, width, height);
+
+	const background = illuminationCtx.getImageData(0, 0, width, height).data;
+	const image = ctx.getImageData(0, 0, width, height);
+	const data = image.data;
+	const range = CLEAN_WHITE_POINT - CLEAN_BLACK_POINT;
+	for (let i = 0; i < data.length; i += 4) {
+		for (let c = 0; c < 3; c++) {
+			const ratio = data[i + c] / Math.max(1, background[i + c]);
+			data[i + c] = ((ratio - CLEAN_BLACK_POINT) / range) * 255;
+		}
+	}
+	ctx.putImageData(image, 0, 0);
+}
+
+/**
+ * Replace each colour channel of `image` with the maximum or mean over a `(2 * radius + 1)` square around it.
+ */
+function filterSeparable(image: ImageData, radius: number, reduce: "max" | "mean"): void {
+	const { width, height, data } = image;
+	const rows = new Uint8ClampedArray(data.length);
+	filterLines(data, rows, width, height, 4, width * 4, radius, reduce);
+	filterLines(rows, data, height, width, width * 4, 4, radius, reduce);
+}
+
+/**
+ * Filter `lines` lines of `length` pixels, `step` bytes apart within a line and `lineStep` bytes apart between lines.
+ */
+function filterLines(
+	source: Uint8ClampedArray,
+	target: Uint8ClampedArray,
+	length: number,
+	lines: number,
+	step: number,
+	lineStep: number,
+	radius: number,
+	reduce: "max" | "mean",
+): void {
+	for (let line = 0; line < lines; line++) {
+		const start = line * lineStep;
+		for (let i = 0; i < length; i++) {
+			const from = Math.max(0, i - radius);
+			const to = Math.min(length - 1, i + radius);
+			const index = start + i * step;
+			for (let c = 0; c < 3; c++) {
+				let value = 0;
+				for (let k = from; k <= to; k++) {
+					const sample = source[start + k * step + c];
+					value = reduce === "max" ? Math.max(value, sample) : value + sample;
+				}
+				target[index + c] = reduce === "max" ? value : value / (to - from + 1);
+			}
+			target[index + 3] = source[index + 3];
+		}
+	}
+}
+
+/**
+ * A slider of the {@link DocumentResultView} adjust panel.
+ *
+ * @internal
+ */
+export interface AdjustmentOption {
+	id: keyof ImageAdjustments;
+	/** {@link StringConfig} key for the slider label, so adjustment names are configurable. */
+	labelKey: keyof StringConfig;
+	min: number;
+	max: number;
+	step: number;
+	/** The value that leaves the image unchanged. */
+	neutral: number;
+}
+
+/**
+ * The sliders offered in the result view adjust panel, in the order they are applied.
+ *
+ * @internal
+ */
+export const ADJUSTMENT_OPTIONS: AdjustmentOption[] = [
+	{ id: "brightness", labelKey: "adjustBrightnessLabel", min: -100, max: 100, step: 1, neutral: 0 },
+	{ id: "contrast", labelKey: "adjustContrastLabel", min: -100, max: 100, step: 1, neutral: 0 },
+	{ id: "saturation", labelKey: "adjustSaturationLabel", min: -100, max: 100, step: 1, neutral: 0 },
+	{ id: "gamma", labelKey: "adjustGammaLabel", min: 0.2, max: 3, step: 0.05, neutral: 1 },
+	{ id: "sharpen", labelKey: "adjustSharpenLabel", min: 0, max: 100, step: 1, neutral: 0 },
+];
+
+/**
+ * Whether `editState` changes the corrected image at all.
+ *
+ * @internal
+ */
+export function hasEdits(editState: PageEditState): boolean {
+	return (
+		editState.filterId !== null ||
+		editState.rotation % 360 !== 0 ||
+		(editState.straighten ?? 0) !== 0 ||
+		editState.crop !== undefined ||
+		hasAdjustments(editState.adjustments)
+	);
+}
+
+function hasAdjustments(adjustments?: ImageAdjustments): boolean {
+	return ADJUSTMENT_OPTIONS.some(
+		(option) => (adjustments?.[option.id] ?? option.neutral) !== option.neutral,
+	);
+}
+
+/**
+ * Return a new canvas containing `source` with `adjustments` applied, or `source` itself if there are none.
+ *
+ * @remarks
+ * Brightness, contrast and gamma are combined in one lookup table; saturation mixes each pixel with its luma;
+ * sharpening adds a 3x3 Laplacian of the adjusted image.
+ *
+ * @internal
+ */
+export function adjustCanvas(
+	source: HTMLCanvasElement,
+	adjustments?: ImageAdjustments,
+): HTMLCanvasElement {
+	if (!hasAdjustments(adjustments)) return source;
+
+	const { width, height } = source;
+	const target = document.createElement("canvas");
+	target.width = width;
+	target.height = height;
+	const ctx = target.getContext("2d");
+	if (!ctx) return source;
+	ctx.drawImage(source, 0, 0);
+
+	const image = ctx.getImageData(0, 0, width, height);
+	const data = image.data;
+
+	const offset = ((adjustments?.brightness ?? 0) / 100) * 255;
+	const contrast = adjustments?.contrast ?? 0;
+	const contrastFactor = contrast >= 0 ? 1 + (contrast / 100) * 3 : 1 + contrast / 100;
+	const inverseGamma = 1 / Math.max(0.01, adjustments?.gamma ?? 1);
+	const lut = new Uint8ClampedArray(256);
+	for (let value = 0; value < 256; value++) {
+		const toned = Math.min(255, Math.max(0, (value + offset - 128) * contrastFactor + 128));
+		lut[value] = 255 * Math.pow(toned / 255, inverseGamma);
+	}
+
+	const saturation = 1 + (adjustments?.saturation ?? 0) / 100;
+	for (let i = 0; i < data.length; i += 4) {
+		let r = lut[data[i]];
+		let g = lut[data[i + 1]];
+		let b = lut[data[i + 2]];
+		if (saturation !== 1) {
+			const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+			r = luma + (r - luma) * saturation;
+			g = luma + (g - luma) * saturation;
+			b = luma + (b - luma) * saturation;
+		}
+		data[i] = r;
+		data[i + 1] = g;
+		data[i + 2] = b;
+	}
+
+	const amount = (adjustments?.sharpen ?? 0) / 100;
+	if (amount > 0 && width > 2 && height > 2) {
+		const blurred = data.slice();
+		const stride = width * 4;
+		for (let y = 1; y < height - 1; y++) {
+			for (let x = 1; x < width - 1; x++) {
+				const i = y * stride + x * 4;
+				for (let c = 0; c < 3; c++) {
+					const center = blurred[i + c];
+					const edges =
+						4 * center -
+						blurred[i + c - 4] -
+						blurred[i + c + 4] -
+						blurred[i + c - stride] -
+						blurred[i + c + stride];
+					data[i + c] = center + amount * edges;
+				}
+			}
+		}
+	}
+
+	ctx.putImageData(image, 0, 0);
+	return target;
+}
+
 /**
  * Return a new canvas containing `canvas` rotated clockwise by `degrees` (a multiple of 90).
  *
@@ -71,6 +307,392 @@ export function rotateCanvas(canvas: HTMLCanvasElement, degrees: number): HTMLCa
 	return rotated;
 }
 
+/** Largest fine rotation, in degrees either way, offered by the result view straighten panel. */
+export const MAX_STRAIGHTEN_ANGLE = 15;
+
+/** Longest side of the downscaled copy the text line angle is estimated on. */
+const SKEW_ESTIMATION_SIZE = 800;
+
+/** Longest side of the downscaled copy the page orientation is detected on; ascenders and descenders need more detail. */
+const ORIENTATION_DETECTION_SIZE = 1600;
+
+/** Smallest imbalance between ascender and descender ink that {@link detectOrientation} trusts. */
+const MIN_ORIENTATION_ASYMMETRY = 0.15;
+
+/**
+ * Return a new canvas of the same size containing `canvas` rotated clockwise by `degrees`, or `canvas` itself for 0.
+ *
+ * @remarks
+ * The rotated image is enlarged just enough to cover the whole canvas, so the output keeps its bounds without empty corners.
+ *
+ * @internal
+ */
+export function straightenCanvas(canvas: HTMLCanvasElement, degrees = 0): HTMLCanvasElement {
+	if (!degrees) return canvas;
+
+	const { width, height } = canvas;
+	const straightened = document.createElement("canvas");
+	straightened.width = width;
+	straightened.height = height;
+	const ctx = straightened.getContext("2d");
+	if (!ctx || !width || !height) return canvas;
+
+	const radians = (degrees * Math.PI) / 180;
+	const cos = Math.abs(Math.cos(radians));
+	const sin = Math.abs(Math.sin(radians));
+	const scale = Math.max(cos + (height / width) * sin, (width / height) * sin + cos);
+
+	ctx.imageSmoothingQuality = "high";
+	ctx.translate(width / 2, height / 2);
+	ctx.rotate(radians);
+	ctx.scale(scale, scale);
+	ctx.drawImage(canvas, -width / 2, -height / 2);
+	return straightened;
+}
+
+/**
+ * Estimate the clockwise rotation, in degrees, that levels the text lines of a document.
+ *
+ * @returns An angle within {@link MAX_STRAIGHTEN_ANGLE} either way, rounded to 0.1 degree; 0 if no text is found
+ *
+ * @remarks
+ * Dark pixels of a downscaled copy are projected onto the vertical axis at each candidate angle. Text lines
+ * collapse into the sharpest profile when the angle matches their slope, so the angle with the highest sum of
+ * squared bin counts wins. A coarse search is refined around its best angle.
+ *
+ * @internal
+ */
+export function estimateSkewAngle(canvas: HTMLCanvasElement): number {
+	const ink = findInk(canvas, SKEW_ESTIMATION_SIZE);
+	if (!ink) return 0;
+	const { mask, width, height } = ink;
+
+	const xs: number[] = [];
+	const ys: number[] = [];
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			if (mask[y * width + x]) {
+				xs.push(x - width / 2);
+				ys.push(y - height / 2);
+			}
+		}
+	}
+
+	const diagonal = Math.ceil(Math.hypot(width, height));
+	const bins = new Float64Array(diagonal + 1);
+	const score = (degrees: number): number => {
+		const radians = (degrees * Math.PI) / 180;
+		const cos = Math.cos(radians);
+		const sin = Math.sin(radians);
+		bins.fill(0);
+		for (let i = 0; i < xs.length; i++) {
+			bins[Math.round(ys[i] * cos - xs[i] * sin + diagonal / 2)]++;
+		}
+		let sum = 0;
+		for (const count of bins) sum += count * count;
+		return sum;
+	};
+	const search = (from: number, to: number, step: number): number => {
+		let best = 0;
+		let bestScore = -1;
+		for (let degrees = from; degrees <= to + step / 2; degrees += step) {
+			const value = score(degrees);
+			if (value > bestScore) {
+				bestScore = value;
+				best = degrees;
+			}
+		}
+		return best;
+	};
+
+	const coarse = search(-MAX_STRAIGHTEN_ANGLE, MAX_STRAIGHTEN_ANGLE, 0.5);
+	const slope = search(coarse - 0.5, coarse + 0.5, 0.1);
+	// Lines sloping down to the right are levelled by an anti-clockwise rotation
+	const angle = Math.round(-slope * 10) / 10;
+	return Math.max(-MAX_STRAIGHTEN_ANGLE, Math.min(MAX_STRAIGHTEN_ANGLE, angle)) || 0;
+}
+
+/**
+ * Return a new canvas containing the `crop` rectangle of `canvas`, or `canvas` itself if there is no crop.
+ *
+ * @internal
+ */
+export function cropCanvas(canvas: HTMLCanvasElement, crop?: CropRect): HTMLCanvasElement {
+	if (!crop) return canvas;
+
+	const x = Math.round(crop.x * canvas.width);
+	const y = Math.round(crop.y * canvas.height);
+	const cropped = document.createElement("canvas");
+	cropped.width = Math.max(1, Math.min(canvas.width - x, Math.round(crop.width * canvas.width)));
+	cropped.height = Math.max(
+		1,
+		Math.min(canvas.height - y, Math.round(crop.height * canvas.height)),
+	);
+	const ctx = cropped.getContext("2d");
+	if (!ctx) return canvas;
+	ctx.drawImage(canvas, -x, -y);
+	return cropped;
+}
+
+/**
+ * Return the rectangle covering the same part of an image after the image is rotated clockwise by `degrees` (a multiple of 90).
+ *
+ * @internal
+ */
+export function rotateCropRect(crop: CropRect, degrees: number): CropRect {
+	let rotated = crop;
+	const quarterTurns = ((Math.round(degrees / 90) % 4) + 4) % 4;
+	for (let i = 0; i < quarterTurns; i++) {
+		rotated = {
+			x: 1 - rotated.y - rotated.height,
+			y: rotated.x,
+			width: rotated.height,
+			height: rotated.width,
+		};
+	}
+	return rotated;
+}
+
+/**
+ * Resize `start` by dragging its `corner` ("nw", "ne", "sw" or "se") by `dx` and `dy`, keeping the opposite corner in place.
+ *
+ * @remarks
+ * With a `ratio`, the width follows the drag and the height follows the width, both shrunk to stay within the image.
+ *
+ * @internal
+ */
+export function resizeCropRect(
+	start: CropRect,
+	corner: string,
+	dx: number,
+	dy: number,
+	minWidth: number,
+	minHeight: number,
+	ratio?: number,
+): CropRect {
+	const west = corner.includes("w");
+	const north = corner.includes("n");
+	const anchorX = west ? start.x + start.width : start.x;
+	const anchorY = north ? start.y + start.height : start.y;
+	const maxWidth = west ? anchorX : 1 - anchorX;
+	const maxHeight = north ? anchorY : 1 - anchorY;
+
+	let width = clamp(start.width + (west ? -dx : dx), Math.min(minWidth, maxWidth), maxWidth);
+	let height = clamp(start.height + (north ? -dy : dy), Math.min(minHeight, maxHeight), maxHeight);
+	if (ratio) {
+		height = width / ratio;
+		if (height > maxHeight) {
+			height = maxHeight;
+			width = height * ratio;
+		}
+	}
+
+	return {
+		x: west ? anchorX - width : anchorX,
+		y: north ? anchorY - height : anchorY,
+		width,
+		height,
+	};
+}
+
+/**
+ * The largest rectangle of `ratio` (in fractions of the image) within `rect`, centred on it.
+ *
+ * @internal
+ */
+export function fitCropRect(rect: CropRect, ratio: number): CropRect {
+	let width = rect.width;
+	let height = width / ratio;
+	if (height > rect.height) {
+		height = rect.height;
+		width = height * ratio;
+	}
+	return {
+		x: rect.x + (rect.width - width) / 2,
+		y: rect.y + (rect.height - height) / 2,
+		width,
+		height,
+	};
+}
+
+/**
+ * Detect the clockwise rotation, in degrees, that turns a sideways or upside-down document upright.
+ *
+ * @returns 0, 90, 180 or 270; 0 when the page holds too little text to tell
+ *
+ * @remarks
+ * Text lines give a sharper ink profile across them than along them, which tells horizontal from vertical lines.
+ * Within each line, Latin script has more ink in its ascenders and capitals than in its descenders, which tells which
+ * side of the lines is up. Pages in other scripts or without text are usually left as they are.
+ *
+ * @internal
+ */
+export function detectOrientation(canvas: HTMLCanvasElement): number {
+	const ink = findInk(canvas, ORIENTATION_DETECTION_SIZE);
+	if (!ink) return 0;
+	const { mask, width, height } = ink;
+
+	const rows = new Float64Array(height);
+	const columns = new Float64Array(width);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			if (mask[y * width + x]) {
+				rows[y]++;
+				columns[x]++;
+			}
+		}
+	}
+
+	// Lines run along the rows unless the column profile is clearly sharper
+	if (profileSharpness(columns) <= profileSharpness(rows) * 1.2) {
+		return lineAsymmetry(rows) < -MIN_ORIENTATION_ASYMMETRY ? 180 : 0;
+	}
+
+	// Rotating clockwise brings the left side of the page to the top
+	const asymmetry = lineAsymmetry(columns);
+	if (Math.abs(asymmetry) < MIN_ORIENTATION_ASYMMETRY) return 0;
+	return asymmetry > 0 ? 90 : 270;
+}
+
+/**
+ * Mark the pixels of a downscaled copy of `canvas` that are clearly darker than the page, such as print.
+ *
+ * @returns The mask, one byte per pixel, or `undefined` if there is too little ink to analyse
+ */
+function findInk(
+	canvas: HTMLCanvasElement,
+	size: number,
+): { mask: Uint8Array; width: number; height: number } | undefined {
+	const scale = Math.min(1, size / Math.max(canvas.width, canvas.height));
+	const width = Math.max(1, Math.round(canvas.width * scale));
+	const height = Math.max(1, Math.round(canvas.height * scale));
+	const small = document.createElement("canvas");
+	small.width = width;
+	small.height = height;
+	const ctx = small.getContext("2d");
+	if (!ctx) return undefined;
+	ctx.drawImage(canvas, 0, 0, width, height);
+	const data = ctx.getImageData(0, 0, width, height).data;
+
+	const luma = new Float32Array(width * height);
+	let total = 0;
+	for (let i = 0; i < luma.length; i++) {
+		luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+		total += luma[i];
+	}
+	const threshold = (total / luma.length) * 0.7;
+
+	const mask = new Uint8Array(luma.length);
+	let count = 0;
+	for (let i = 0; i < luma.length; i++) {
+		if (luma[i] < threshold) {
+			mask[i] = 1;
+			count++;
+		}
+	}
+	return count < 100 ? undefined : { mask, width, height };
+}
+
+/**
+ * How unevenly ink is spread over the bins of a profile: 1 when even, higher when concentrated in lines.
+ */
+function profileSharpness(profile: Float64Array): number {
+	let sum = 0;
+	let sumOfSquares = 0;
+	for (const count of profile) {
+		sum += count;
+		sumOfSquares += count * count;
+	}
+	return sum ? (profile.length * sumOfSquares) / (sum * sum) : 0;
+}
+
+/**
+ * Balance of ink before and after the core band of each text line in an ink profile across the lines.
+ *
+ * @returns Between -1 and 1: positive when more ink sits before the core (ascenders on the low-index side), 0 when unknown
+ */
+function lineAsymmetry(profile: Float64Array): number {
+	let peak = 0;
+	for (const count of profile) peak = Math.max(peak, count);
+	const gap = peak * 0.02;
+
+	let before = 0;
+	let after = 0;
+	for (let start = 0; start < profile.length;) {
+		if (profile[start] <= gap) {
+			start++;
+			continue;
+		}
+		let end = start;
+		while (end + 1 < profile.length && profile[end + 1] > gap) end++;
+
+		if (end - start >= 4) {
+			let linePeak = 0;
+			for (let i = start; i <= end; i++) linePeak = Math.max(linePeak, profile[i]);
+			let coreStart = start;
+			while (profile[coreStart] < linePeak / 2) coreStart++;
+			let coreEnd = end;
+			while (profile[coreEnd] < linePeak / 2) coreEnd--;
+
+			for (let i = start; i < coreStart; i++) before += profile[i];
+			for (let i = coreEnd + 1; i <= end; i++) after += profile[i];
+		}
+		start = end + 1;
+	}
+	return before + after ? (before - after) / (before + after) : 0;
+}
+
+/**
+ * Return a new canvas containing `source` with the adjustments, filter, fine rotation, crop and rotation of `editState` applied.
+ *
+ * @remarks
+ * `source` is never modified, so edits can always be recomputed from the same pristine image.
+ *
+ * @internal
+ */
+export function applyEditState(
+	source: HTMLCanvasElement,
+	editState: PageEditState,
+): HTMLCanvasElement {
+	const adjusted = adjustCanvas(source, editState.adjustments);
+	const working = document.createElement("canvas");
+	const filter = FILTER_OPTIONS.find((option) => option.id === editState.filterId);
+	if (filter) {
+		filter.apply(adjusted, working);
+	} else if (adjusted !== source) {
+		return transformCanvas(adjusted, editState);
+	} else {
+		working.width = source.width;
+		working.height = source.height;
+		working.getContext("2d")?.drawImage(source, 0, 0);
+	}
+
+	return transformCanvas(working, editState);
+}
+
+/**
+ * Straighten, crop and rotate `canvas` as set in `editState`.
+ */
+function transformCanvas(canvas: HTMLCanvasElement, editState: PageEditState): HTMLCanvasElement {
+	const straightened = straightenCanvas(canvas, editState.straighten);
+	return rotateCanvas(cropCanvas(straightened, editState.crop), editState.rotation);
+}
+
+/**
+ * Render the edits of a page on top of its corrected image.
+ *
+ * @returns `base` itself when `editState` has no edits, otherwise a new result item wrapping the edited image
+ *
+ * @internal
+ */
+export function renderEditedImage(
+	base: DeskewedImageResultItem,
+	editState: PageEditState,
+): DeskewedImageResultItem {
+	if (!hasEdits(editState)) return base;
+	return canvasToResultItem(applyEditState(base.toCanvas(), editState), base);
+}
+
 /**
  * Wrap an edited canvas in a {@link DeskewedImageResultItem}-compatible object.
  *
@@ -111,3 +733,26 @@ export function canvasToResultItem(
 			}),
 	};
 }
+
+/**
+ * Draw decoded RGBA pixels on a new canvas.
+ *
+ * @internal
+ */
+export function pixelsToCanvas(
+	rgba: Uint8ClampedArray,
+	width: number,
+	height: number,
+): HTMLCanvasElement {
+	const canvas = document.createElement("canvas");
+	canvas.width = width;
+	canvas.height = height;
+	canvas
+		.getContext("2d")
+		?.putImageData(new ImageData(rgba as Uint8ClampedArray<ArrayBuffer>, width, height), 0, 0);
+	return canvas;
+}
+
+function clamp(value: number, min: number, max: number): number {
+	return Math.min(max, Math.max(min, value));
+}
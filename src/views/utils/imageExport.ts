@@ -0,0 +1,321 @@
+import { DeskewedImageResultItem } from "dynamsoft-capture-vision-bundle";
+import { createPdf } from "./pdfWriter";
+import { DocumentScannerError } from "./errors";
+import { EnumDDSErrorCode } from "./types";
+
+/**
+ * File format of an exported document.
+ *
+ * @remarks
+ * - `"png"`: lossless, best for black & white documents, but large for photos
+ * - `"jpeg"`: lossy, small files for photos and colour documents
+ * - `"webp"`: lossy, smaller than JPEG at the same quality; browsers that cannot encode WebP (such as Safari) produce PNG instead
+ * - `"pdf"`: a single-page PDF with a JPEG image, see {@link createPdf}
+ *
+ * @public
+ */
+export type DocumentExportFormat = "png" | "jpeg" | "webp" | "pdf";
+
+/**
+ * Information passed to {@link DocumentExportOptions.filename} to name an exported file.
+ *
+ * @public
+ */
+export interface DocumentExportFileInfo {
+	/**
+	 * Format of the file.
+	 *
+	 * @remarks
+	 * May differ from {@link DocumentExportOptions.format} when the browser cannot encode the requested format.
+	 *
+	 * @public
+	 */
+	format: DocumentExportFormat;
+	/**
+	 * File extension for the format, without the dot (for example `"jpg"`).
+	 *
+	 * @public
+	 */
+	extension: string;
+	/**
+	 * Time of the export, in milliseconds since the epoch.
+	 *
+	 * @public
+	 */
+	timestamp: number;
+	/**
+	 * The configured filename prefix ({@link StringConfig.downloadFilenamePrefix}).
+	 *
+	 * @public
+	 */
+	prefix: string;
+	/**
+	 * Size of the exported image in pixels, after any downscaling.
+	 *
+	 * @public
+	 */
+	width: number;
+	/**
+	 * @see {@link width}
+	 *
+	 * @public
+	 */
+	height: number;
+}
+
+/**
+ * Options for the files that the {@link DocumentResultView} shares, downloads and passes to its callbacks.
+ *
+ * @example
+ * ```javascript
+ * const documentScanner = new Dynamsoft.DocumentScanner({
+ *     license: "YOUR_LICENSE_KEY_HERE",
+ *     resultViewConfig: {
+ *         exportOptions: {
+ *             format: "jpeg",
+ *             quality: 0.8,
+ *             maxDimension: 2000,
+ *             dpi: 200,
+ *             filename: ({ timestamp, extension }) => `invoice-${timestamp}.${extension}`,
+ *         },
+ *         onUpload: async (result, file) => {
+ *             await fetch("/upload", { method: "POST", body: file });
+ *         },
+ *     },
+ * });
+ * ```
+ *
+ * @public
+ */
+export interface DocumentExportOptions {
+	/**
+	 * File format.
+	 *
+	 * @see {@link DocumentExportFormat}
+	 *
+	 * @defaultValue "png"
+	 *
+	 * @public
+	 */
+	format?: DocumentExportFormat;
+	/**
+	 * Quality between 0 and 1 for lossy formats (`"jpeg"`, `"webp"`, and the image of a `"pdf"`).
+	 *
+	 * @defaultValue 0.92 for `"jpeg"` and `"webp"`, 0.85 for `"pdf"`
+	 *
+	 * @public
+	 */
+	quality?: number;
+	/**
+	 * Maximum width and height of the exported image, in pixels.
+	 *
+	 * @remarks
+	 * Larger images are downscaled to fit, keeping their aspect ratio. Smaller images are never upscaled.
+	 *
+	 * @public
+	 */
+	maxDimension?: number;
+	/**
+	 * Resolution recorded in the file, in dots per inch.
+	 *
+	 * @remarks
+	 * Written to the JFIF header of JPEG files and the `pHYs` chunk of PNG files; sets the page size of PDF files. WebP files have no resolution field, so it is ignored for them.
+	 * This only tags the file: set {@link maxDimension} to reduce the number of pixels.
+	 *
+	 * @defaultValue No tag for images; 150 for PDF
+	 *
+	 * @public
+	 */
+	dpi?: number;
+	/**
+	 * Create the name of the exported file.
+	 *
+	 * @param info - The {@link DocumentExportFileInfo} of the file
+	 * @returns The filename, including its extension
+	 *
+	 * @defaultValue `{prefix}-{timestamp}.{extension}`
+	 *
+	 * @public
+	 */
+	filename?: (info: DocumentExportFileInfo) => string;
+}
+
+const MIME_TYPES: Record<DocumentExportFormat, string> = {
+	png: "image/png",
+	jpeg: "image/jpeg",
+	webp: "image/webp",
+	pdf: "application/pdf",
+};
+
+const EXTENSIONS: Record<DocumentExportFormat, string> = {
+	png: "png",
+	jpeg: "jpg",
+	webp: "webp",
+	pdf: "pdf",
+};
+
+/**
+ * Encode a document image as a file, as configured by {@link DocumentExportOptions}.
+ *
+ * @param image - The image to export, usually {@link DocumentResult.correctedImageResult}
+ * @param options - The {@link DocumentExportOptions}
+ * @param prefix - Filename prefix passed to {@link DocumentExportOptions.filename}
+ * @returns The encoded file, named by {@link DocumentExportOptions.filename}
+ *
+ * @throws {DocumentScannerError} If the image cannot be encoded ({@link EnumDDSErrorCode.EXPORT_FAILED})
+ *
+ * @internal
+ */
+export async function exportDocumentImage(
+	image: DeskewedImageResultItem | HTMLCanvasElement,
+	options: DocumentExportOptions = {},
+	prefix = "document",
+): Promise<File> {
+	const { maxDimension, dpi } = options;
+	const canvas = downscaleCanvas(
+		image instanceof HTMLCanvasElement ? image : image.toCanvas(),
+		maxDimension,
+	);
+
+	let format = options.format ?? "png";
+	let blob: Blob;
+	if (format === "pdf") {
+		blob = await createPdf([canvas], { dpi, jpegQuality: options.quality });
+	} else {
+		const encoded = await new Promise<Blob | null>((resolve) =>
+			canvas.toBlob(resolve, MIME_TYPES[format], options.quality ?? 0.92),
+		);
+		if (!encoded) {
+			throw new DocumentScannerError(
+				EnumDDSErrorCode.EXPORT_FAILED,
+				"Failed to convert image to blob",
+			);
+		}
+
+		// Browsers fall back to PNG for formats they cannot encode
+		format =
+			(Object.keys(MIME_TYPES) as DocumentExportFormat[]).find(
+				(key) => MIME_TYPES[key] === encoded.type,
+			) ?? format;
+		blob = dpi ? await setImageDensity(encoded, format, dpi) : encoded;
+	}
+
+	const info: DocumentExportFileInfo = {
+		format,
+		extension: EXTENSIONS[format],
+		timestamp: Date.now(),
+		prefix,
+		width: canvas.width,
+		height: canvas.height,
+	};
+	const name = options.filename?.(info) || `${info.prefix}-${info.timestamp}.${info.extension}`;
+	return new File([blob], name, { type: blob.type });
+}
+
+/**
+ * Return `canvas` scaled down so that neither side exceeds `maxDimension`, or `canvas` itself if it already fits.
+ *
+ * @internal
+ */
+function downscaleCanvas(canvas: HTMLCanvasElement, maxDimension?: number): HTMLCanvasElement {
+	const scale = maxDimension ? maxDimension / Math.max(canvas.width, canvas.height) : 1;
+	if (scale >= 1) return canvas;
+
+	const scaled = document.createElement("canvas");
+	scaled.width = Math.max(1, Math.round(canvas.width * scale));
+	scaled.height = Math.max(1, Math.round(canvas.height * scale));
+	const ctx = scaled.getContext("2d");
+	if (!ctx) return canvas;
+	ctx.imageSmoothingQuality = "high";
+	ctx.drawImage(canvas, 0, 0, scaled.width, scaled.height);
+	return scaled;
+}
+
+/**
+ * Record a resolution in the header of a JPEG or PNG file; other formats are returned unchanged.
+ *
+ * @internal
+ */
+async function setImageDensity(
+	blob: Blob,
+	format: DocumentExportFormat,
+	dpi: number,
+): Promise<Blob> {
+	const bytes = new Uint8Array(await blob.arrayBuffer());
+	const density = Math.round(dpi);
+
+	if (format === "jpeg" && bytes[0] === 0xff && bytes[1] === 0xd8) {
+		// JFIF APP0: "JFIF\0", version, units (1 = dots per inch), horizontal and vertical density, no thumbnail
+		const hasJfif = bytes[2] === 0xff && bytes[3] === 0xe0 && latin1(bytes, 6, 11) === "JFIF\0";
+		const app0 = hasJfif
+			? bytes.slice(2, 4 + ((bytes[4] << 8) | bytes[5]))
+			: new Uint8Array([0xff, 0xe0, 0, 16, 0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 0, 0, 0, 0, 0]);
+		app0[11] = 1;
+		app0[12] = app0[14] = density >> 8;
+		app0[13] = app0[15] = density & 0xff;
+
+		const rest = bytes.subarray(hasJfif ? 2 + app0.length : 2);
+		return new Blob([bytes.subarray(0, 2), app0, rest] as BlobPart[], { type: blob.type });
+	}
+
+	if (format === "png") {
+		// pHYs chunk in pixels per meter
+		const pixelsPerMeter = Math.round(dpi / 0.0254);
+		const chunk = new Uint8Array(21);
+		const view = new DataView(chunk.buffer);
+		view.setUint32(0, 9);
+		chunk.set([0x70, 0x48, 0x59, 0x73], 4);
+		view.setUint32(8, pixelsPerMeter);
+		view.setUint32(12, pixelsPerMeter);
+		chunk[16] = 1;
+		view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+		// Only one pHYs chunk is allowed, before the image data: replace the encoder's,
+		// or add one right after IHDR (8-byte signature + 25-byte IHDR chunk)
+		let start = 8 + 25;
+		let end = start;
+		const bytesView = new DataView(bytes.buffer);
+		for (let offset = 8; offset + 8 <= bytes.length;) {
+			const type = latin1(bytes, offset + 4, offset + 8);
+			const next = offset + 12 + bytesView.getUint32(offset);
+			if (type === "pHYs") {
+				[start, end] = [offset, next];
+				break;
+			}
+			if (type === "IDAT" || type === "IEND") break;
+			offset = next;
+		}
+
+		return new Blob([bytes.subarray(0, start), chunk, bytes.subarray(end)] as BlobPart[], {
+			type: blob.type,
+		});
+	}
+
+	return blob;
+}
+
+let crcTable: Uint32Array | undefined;
+
+/**
+ * CRC-32 checksum as used by PNG chunks.
+ *
+ * @internal
+ */
+function crc32(bytes: Uint8Array): number {
+	if (!crcTable) {
+		crcTable = new Uint32Array(256);
+		for (let n = 0; n < 256; n++) {
+			let c = n;
+			for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+			crcTable[n] = c >>> 0;
+		}
+	}
+
+	let crc = 0xffffffff;
+	for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+function latin1(bytes: Uint8Array, start: number, end: number): string {
+	return String.fromCharCode(...bytes.subarray(start, end));
+}
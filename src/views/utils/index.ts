@@ -68,6 +68,11 @@ const DEFAULT_CONTROLS_STYLE = `
     cursor: default;
   }
 
+  .dds-control-btn:focus-visible {
+    outline: 2px solid var(--dds-primary, #fe8e14);
+    outline-offset: -2px;
+  }
+
   .dds-control-icon-wrapper {
     flex: 0.75;
     display: flex;
@@ -126,6 +131,11 @@ const DEFAULT_CONTROLS_STYLE = `
  * Adapts to orientation: horizontal (portrait) or vertical (landscape ≤ 1024px).
  * Supports image/SVG icons, custom classes, disabled/hidden states.
  *
+ * The container is an ARIA toolbar with a single tab stop: the arrow keys, <kbd>Home</kbd> and <kbd>End</kbd>
+ * move focus between buttons in the order they appear on screen, which may differ from the DOM order, and
+ * <kbd>Enter</kbd> or <kbd>Space</kbd> presses the focused button. `aria-disabled` follows the `disabled` class,
+ * including when a view toggles it later.
+ *
  * @param buttons - Array of button definitions conforming to {@link ToolbarButton} interface
  * @param containerStyle - Optional CSS style properties to apply to the container element
  * @returns A styled HTMLElement containing the toolbar buttons
@@ -141,6 +151,7 @@ export function createControls(
 	// Create container
 	const container = document.createElement("div");
 	container.className = "dds-controls";
+	container.setAttribute("role", "toolbar");
 
 	// Apply custom container styles if provided
 	if (containerStyle) {
@@ -152,17 +163,21 @@ export function createControls(
 		const buttonEl = document.createElement("div");
 		buttonEl.id = button.id;
 		buttonEl.className = `dds-control-btn ${button?.className}`;
+		buttonEl.setAttribute("role", "button");
+		buttonEl.setAttribute("aria-label", button.label);
+		buttonEl.tabIndex = -1;
 
 		// Create icon container
 		const iconContainer = document.createElement("div");
 		iconContainer.className = "dds-control-icon-wrapper";
+		iconContainer.setAttribute("aria-hidden", "true");
 
 		if (isSVGString(button.icon)) {
 			iconContainer.innerHTML = button.icon;
 		} else {
 			const iconImg = document.createElement("img");
 			iconImg.src = button.icon;
-			iconImg.alt = button.label;
+			iconImg.alt = "";
 			iconImg.width = 24;
 			iconImg.height = 24;
 			iconContainer.appendChild(iconImg);
@@ -176,6 +191,7 @@ export function createControls(
 		// Add disabled state if specified
 		if (button.isDisabled) {
 			buttonEl.classList.add("disabled");
+			buttonEl.setAttribute("aria-disabled", "true");
 		}
 
 		if (button.isHidden) {
@@ -193,9 +209,96 @@ export function createControls(
 		container.appendChild(buttonEl);
 	});
 
+	setupToolbarKeyboard(container);
 	return container;
 }
 
+/**
+ * Make the buttons of a toolbar created by {@link createControls} reachable and usable from the keyboard.
+ *
+ * @internal
+ */
+function setupToolbarKeyboard(container: HTMLElement) {
+	// Views hide buttons with the hide class or an inline style; before the toolbar is rendered, only those can tell
+	const isShown = (button: HTMLElement) =>
+		container.getClientRects().length
+			? button.getClientRects().length > 0
+			: !button.classList.contains("hide") && button.style.display !== "none";
+
+	const buttons = () =>
+		Array.from(container.querySelectorAll<HTMLElement>(".dds-control-btn"))
+			.filter(isShown)
+			.map((button) => ({ button, rect: button.getBoundingClientRect() }))
+			// Screen order: row by row, then left to right
+			.sort((a, b) => a.rect.top - b.rect.top || a.rect.left - b.rect.left)
+			.map(({ button }) => button);
+
+	const focusButton = (button?: HTMLElement) => {
+		if (!button) return;
+		container.querySelectorAll<HTMLElement>(".dds-control-btn").forEach((other) => {
+			other.tabIndex = other === button ? 0 : -1;
+		});
+		button.focus();
+	};
+
+	// The first shown button is the tab stop until another one gets focus, or the tab stop is hidden
+	const updateTabStop = () => {
+		const all = Array.from(container.querySelectorAll<HTMLElement>(".dds-control-btn"));
+		const current = all.find((button) => button.tabIndex === 0);
+		if (current && isShown(current)) return;
+		const [next] = buttons();
+		if (!next) return;
+		all.forEach((button) => {
+			button.tabIndex = button === next ? 0 : -1;
+		});
+	};
+	updateTabStop();
+
+	container.addEventListener("focusin", (event) => {
+		const target = event.target as HTMLElement;
+		if (target.classList.contains("dds-control-btn")) focusButton(target);
+	});
+
+	container.addEventListener("keydown", (event) => {
+		const target = event.target as HTMLElement;
+		if (!target.classList.contains("dds-control-btn")) return;
+
+		if (event.key === "Enter" || event.key === " ") {
+			event.preventDefault();
+			if (!target.classList.contains("disabled")) target.click();
+			return;
+		}
+
+		const ordered = buttons();
+		const index = ordered.indexOf(target);
+		const next: Record<string, HTMLElement | undefined> = {
+			ArrowRight: ordered[index + 1],
+			ArrowDown: ordered[index + 1],
+			ArrowLeft: ordered[index - 1],
+			ArrowUp: ordered[index - 1],
+			Home: ordered[0],
+			End: ordered[ordered.length - 1],
+		};
+		if (event.key in next) {
+			event.preventDefault();
+			focusButton(next[event.key]);
+		}
+	});
+
+	// Views toggle the disabled class directly, for example the undo and redo buttons, and hide buttons
+	new MutationObserver((mutations) => {
+		mutations.forEach(({ target }) => {
+			const button = target as HTMLElement;
+			if (!button.classList.contains("dds-control-btn")) return;
+			const disabled = button.classList.contains("disabled");
+			if ((button.getAttribute("aria-disabled") === "true") !== disabled) {
+				button.setAttribute("aria-disabled", String(disabled));
+			}
+		});
+		updateTabStop();
+	}).observe(container, { subtree: true, attributes: true, attributeFilter: ["class", "style"] });
+}
+
 /**
  * Determines whether automatic perspective correction should be applied based on the capture flow type.
  *
@@ -277,6 +380,15 @@ export interface ThemeColor {
 	 * @public
 	 */
 	correctionQuad?: string;
+	/**
+	 * Stroke and corner-handle color of the boundary quadrilateral in the
+	 * correction view while it cannot be corrected (for example when its edges
+	 * cross), and of the warning message explaining why.
+	 *
+	 * @defaultValue "#e5484d"
+	 * @public
+	 */
+	correctionQuadInvalid?: string;
 	/**
 	 * Body background for the correction and result views.
 	 *
@@ -328,6 +440,7 @@ const THEME_VAR_MAP: Record<keyof ThemeColor, string> = {
 	activeIndicator: "--dds-active-indicator",
 	inactiveIndicator: "--dds-inactive-indicator",
 	correctionQuad: "--dds-correction-quad",
+	correctionQuadInvalid: "--dds-correction-quad-invalid",
 	backgroundView: "--dds-bg-view",
 	backgroundToolbar: "--dds-bg-toolbar",
 	filterMenuBackground: "--dds-filter-menu-bg",
@@ -342,6 +455,7 @@ const THEME_DEFAULTS: Required<ThemeColor> = {
 	activeIndicator: "#43cc48",
 	inactiveIndicator: "#575757",
 	correctionQuad: "#fe8e14",
+	correctionQuadInvalid: "#e5484d",
 	backgroundView: "#575757",
 	backgroundToolbar: "#323234",
 	filterMenuBackground: "#323234",
@@ -403,7 +517,7 @@ export function getThemeColor(key: keyof ThemeColor): string {
  * `correctionViewConfig.toolbarButtonsConfig` and `resultViewConfig.toolbarButtonsConfig`
  * for those.
  *
- * Strings that include a `{count}` or `{error}` placeholder are noted inline; the
+ * Strings that include a `{count}`, `{index}`, `{error}`, `{corner}`, `{x}` or `{y}` placeholder are noted inline; the
  * placeholder is substituted at render time.
  *
  * @public
@@ -415,6 +529,26 @@ export interface StringConfig {
 	initializingCameraMsg?: string;
 	/** Loading overlay message shown while processing a captured or uploaded image. @defaultValue "Processing image..." */
 	processingImageMsg?: string;
+	/**
+	 * Loading overlay message shown while importing several image files. The literal substrings
+	 * `{index}` and `{count}` are replaced with the current file number and the number of files.
+	 *
+	 * @defaultValue "Processing image {index} of {count}..."
+	 */
+	processingImagesMsg?: string;
+	/** Loading overlay message shown while restoring the pages of a saved session. @defaultValue "Restoring pages..." */
+	restoringSessionMsg?: string;
+	/**
+	 * Question shown over the scanner view when a saved session can be resumed. The literal substring
+	 * `{count}` is replaced with the number of saved pages.
+	 *
+	 * @defaultValue "Resume your previous scan ({count} pages)?"
+	 */
+	resumeSessionPrompt?: string;
+	/** Button of the resume prompt that restores the saved pages. @defaultValue "Resume" */
+	resumeSessionBtn?: string;
+	/** Button of the resume prompt that discards the saved pages. @defaultValue "Start Over" */
+	discardSessionBtn?: string;
 
 	/**
 	 * Label of the "Done" button in continuous scanning mode. The literal substring
@@ -426,7 +560,7 @@ export interface StringConfig {
 
 	/** `title` field passed to the Web Share API when sharing the corrected image. @defaultValue "Scanned Document" */
 	shareTitle?: string;
-	/** Filename prefix for downloaded images. Final filename is `{prefix}-{timestamp}.png`. @defaultValue "document" */
+	/** Filename prefix for downloaded images. Final filename is `{prefix}-{timestamp}.{extension}`, unless {@link DocumentExportOptions.filename} is set. @defaultValue "document" */
 	downloadFilenamePrefix?: string;
 
 	/** Alert shown when the upload or share button handler throws. @defaultValue "Failed" */
@@ -438,6 +572,13 @@ export interface StringConfig {
 	 * @defaultValue "Error processing image: {error}"
 	 */
 	shareErrorAlert?: string;
+	/**
+	 * Alert shown when the corrected image cannot be exported for {@link DocumentResultViewConfig.onDone},
+	 * which is then called without a file.
+	 *
+	 * @defaultValue "The document could not be exported."
+	 */
+	exportFailedAlert?: string;
 
 	/** Tooltip on the scanner view header button that opens the camera/resolution picker. @defaultValue "Select Camera or Resolution" */
 	selectCameraBtnTitle?: string;
@@ -456,6 +597,42 @@ export interface StringConfig {
 
 	/** Label of the continuous-mode "Scan More" button. @defaultValue "Scan More" */
 	scanMoreBtn?: string;
+	/** Scanner view prompt for the first side in ID card mode. @defaultValue "Scan the front of the ID card" */
+	idCardFrontMsg?: string;
+	/** Scanner view prompt for the second side in ID card mode. @defaultValue "Turn the card over and scan the back" */
+	idCardBackMsg?: string;
+	/** Correction view warning when edges of the boundary cross. @defaultValue "The corners are in the wrong order. Drag them back around the document." */
+	quadSelfIntersectingMsg?: string;
+	/** Correction view warning when a corner of the boundary points inwards. @defaultValue "The boundary bends inwards. Drag the corners onto the document corners." */
+	quadConcaveMsg?: string;
+	/** Correction view warning when the boundary covers too little of the image. @defaultValue "The boundary is too small." */
+	quadTooSmallMsg?: string;
+	/** Correction view warning when a corner of the boundary is very sharp. @defaultValue "A corner of the boundary is too sharp." */
+	quadSharpAngleMsg?: string;
+	/**
+	 * Correction view alert when another document boundary cannot be corrected in multi-document mode. The
+	 * literal substring `{index}` is replaced with the number of the boundary, counting from 1.
+	 *
+	 * @defaultValue "Document {index} could not be corrected."
+	 */
+	documentCorrectionFailedAlert?: string;
+	/** Correction view: accessible label of the top left corner handle. @defaultValue "Top left corner" */
+	cornerTopLeftLabel?: string;
+	/** Correction view: accessible label of the top right corner handle. @defaultValue "Top right corner" */
+	cornerTopRightLabel?: string;
+	/** Correction view: accessible label of the bottom right corner handle. @defaultValue "Bottom right corner" */
+	cornerBottomRightLabel?: string;
+	/** Correction view: accessible label of the bottom left corner handle. @defaultValue "Bottom left corner" */
+	cornerBottomLeftLabel?: string;
+	/** Correction view: accessible description of the corner handles. @defaultValue "Use the arrow keys to move the corner. Hold Shift to move it faster." */
+	cornerHandleHint?: string;
+	/**
+	 * Correction view: announcement after a corner is moved with the keyboard. The literal substrings
+	 * `{corner}`, `{x}` and `{y}` are replaced with the corner label and its position in image pixels.
+	 *
+	 * @defaultValue "{corner}: {x}, {y}"
+	 */
+	cornerPositionMsg?: string;
 	/** Result view filter menu: the "no filter" option. @defaultValue "Original" */
 	filterOriginalBtn?: string;
 	/** Result view filter menu: the grayscale option. @defaultValue "Grayscale" */
@@ -466,17 +643,80 @@ export interface StringConfig {
 	filterSepiaBtn?: string;
 	/** Result view filter menu: the inverted option. @defaultValue "Inverted" */
 	filterInvertedBtn?: string;
+	/** Result view filter menu: the shadow removal and background whitening option. @defaultValue "Whiten Background" */
+	filterCleanBtn?: string;
+	/** Result view filter menu: title of the engine colour modes. @defaultValue "Color Mode" */
+	colorModeMenuTitle?: string;
+	/** Result view filter menu: the colour mode. @defaultValue "Color" */
+	colorModeColorBtn?: string;
+	/** Result view filter menu: the grayscale colour mode. @defaultValue "Grayscale" */
+	colorModeGrayscaleBtn?: string;
+	/** Result view filter menu: the binary colour mode. @defaultValue "Binary" */
+	colorModeBinaryBtn?: string;
+	/** Result view adjust panel: the brightness slider. @defaultValue "Brightness" */
+	adjustBrightnessLabel?: string;
+	/** Result view adjust panel: the contrast slider. @defaultValue "Contrast" */
+	adjustContrastLabel?: string;
+	/** Result view adjust panel: the saturation slider. @defaultValue "Saturation" */
+	adjustSaturationLabel?: string;
+	/** Result view adjust panel: the gamma slider. @defaultValue "Gamma" */
+	adjustGammaLabel?: string;
+	/** Result view adjust panel: the sharpen slider. @defaultValue "Sharpen" */
+	adjustSharpenLabel?: string;
+	/** Result view straighten panel: the fine rotation slider. @defaultValue "Angle" */
+	straightenAngleLabel?: string;
+	/** Result view straighten panel: the button that levels text lines automatically. @defaultValue "Auto Straighten" */
+	straightenAutoBtn?: string;
+	/** Result view crop mode: the button that leaves crop mode without cropping. @defaultValue "Cancel" */
+	cropCancelBtn?: string;
+	/** Result view crop mode: the button that opens the aspect ratio presets. @defaultValue "Aspect Ratio" */
+	cropAspectBtn?: string;
+	/** Result view crop mode: the button that crops the image. @defaultValue "Apply" */
+	cropApplyBtn?: string;
+	/** Result view crop mode: the aspect ratio preset that leaves the crop box unconstrained. @defaultValue "Free" */
+	cropAspectFreeBtn?: string;
+	/** Result view crop mode: the aspect ratio preset that keeps the proportions of the image. @defaultValue "Original" */
+	cropAspectOriginalBtn?: string;
+
+	/**
+	 * Heading of the page review view in continuous scanning mode. The literal substring
+	 * `{count}` is replaced with the number of pages at render time.
+	 *
+	 * @defaultValue "Pages ({count})"
+	 */
+	pagesViewTitle?: string;
+	/** Message shown in the page review view once every page has been deleted. @defaultValue "No pages yet" */
+	pagesViewEmptyMsg?: string;
+	/**
+	 * Accessible label of a page thumbnail in the page review view. The literal substring
+	 * `{index}` is replaced with the page number at render time.
+	 *
+	 * @defaultValue "Page {index}"
+	 */
+	pageThumbnailLabel?: string;
+	/** Tooltip / accessible label on the page review view button that re-crops a page. @defaultValue "Re-crop" */
+	recropPageBtnTitle?: string;
+	/** Tooltip / accessible label on the page review view button that re-edits a page. @defaultValue "Edit" */
+	editPageBtnTitle?: string;
+	/** Tooltip / accessible label on the page review view button that deletes a page. @defaultValue "Delete" */
+	deletePageBtnTitle?: string;
 }
 
 const STRING_DEFAULTS: Required<StringConfig> = {
 	loadingMsg: "Loading...",
 	initializingCameraMsg: "Initializing camera...",
 	processingImageMsg: "Processing image...",
+	processingImagesMsg: "Processing image {index} of {count}...",
+	restoringSessionMsg: "Restoring pages...",
+	resumeSessionPrompt: "Resume your previous scan ({count} pages)?",
+	resumeSessionBtn: "Resume",
+	discardSessionBtn: "Start Over",
 	continuousScanDoneBtn: "Done ({count})",
 	shareTitle: "Scanned Document",
 	downloadFilenamePrefix: "document",
 	uploadShareFailedAlert: "Failed",
 	shareErrorAlert: "Error processing image: {error}",
+	exportFailedAlert: "The document could not be exported.",
 	selectCameraBtnTitle: "Select Camera or Resolution",
 	uploadImageBtnTitle: "Upload Image",
 	closeScannerBtnTitle: "Close",
@@ -484,11 +724,48 @@ const STRING_DEFAULTS: Required<StringConfig> = {
 	cameraSwitcherResolutionLabel: "Resolution",
 	takePhotoBtnTitle: "Take Photo",
 	scanMoreBtn: "Scan More",
+	idCardFrontMsg: "Scan the front of the ID card",
+	idCardBackMsg: "Turn the card over and scan the back",
+	quadSelfIntersectingMsg:
+		"The corners are in the wrong order. Drag them back around the document.",
+	quadConcaveMsg: "The boundary bends inwards. Drag the corners onto the document corners.",
+	quadTooSmallMsg: "The boundary is too small.",
+	quadSharpAngleMsg: "A corner of the boundary is too sharp.",
+	documentCorrectionFailedAlert: "Document {index} could not be corrected.",
+	cornerTopLeftLabel: "Top left corner",
+	cornerTopRightLabel: "Top right corner",
+	cornerBottomRightLabel: "Bottom right corner",
+	cornerBottomLeftLabel: "Bottom left corner",
+	cornerHandleHint: "Use the arrow keys to move the corner. Hold Shift to move it faster.",
+	cornerPositionMsg: "{corner}: {x}, {y}",
 	filterOriginalBtn: "Original",
 	filterGrayscaleBtn: "Grayscale",
 	filterBlackWhiteBtn: "Black & White",
 	filterSepiaBtn: "Sepia",
 	filterInvertedBtn: "Inverted",
+	filterCleanBtn: "Whiten Background",
+	colorModeMenuTitle: "Color Mode",
+	colorModeColorBtn: "Color",
+	colorModeGrayscaleBtn: "Grayscale",
+	colorModeBinaryBtn: "Binary",
+	adjustBrightnessLabel: "Brightness",
+	adjustContrastLabel: "Contrast",
+	adjustSaturationLabel: "Saturation",
+	adjustGammaLabel: "Gamma",
+	adjustSharpenLabel: "Sharpen",
+	straightenAngleLabel: "Angle",
+	straightenAutoBtn: "Auto Straighten",
+	cropCancelBtn: "Cancel",
+	cropAspectBtn: "Aspect Ratio",
+	cropApplyBtn: "Apply",
+	cropAspectFreeBtn: "Free",
+	cropAspectOriginalBtn: "Original",
+	pagesViewTitle: "Pages ({count})",
+	pagesViewEmptyMsg: "No pages yet",
+	pageThumbnailLabel: "Page {index}",
+	recropPageBtnTitle: "Re-crop",
+	editPageBtnTitle: "Edit",
+	deletePageBtnTitle: "Delete",
 };
 
 let resolvedStrings: Required<StringConfig> = { ...STRING_DEFAULTS };
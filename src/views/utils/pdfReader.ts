@@ -0,0 +1,758 @@
+import { decodeCcittFax } from "./ccittFax";
+import type { DocumentPages } from "./documentProcessing";
+import { DocumentScannerError } from "./errors";
+import {
+	checkPageSize,
+	decodeLzw,
+	decodePackBits,
+	inflate,
+	undoHorizontalPredictor,
+	undoPngPredictor,
+	unpackSamples,
+} from "./imageCodecs";
+import { pixelsToCanvas, rotateCanvas } from "./imageEditing";
+import { DocumentSource, EnumDDSErrorCode } from "./types";
+
+class PdfName {
+	constructor(readonly name: string) {}
+}
+
+class PdfRef {
+	constructor(
+		readonly num: number,
+		readonly gen: number,
+	) {}
+}
+
+class PdfStream {
+	constructor(
+		readonly dict: PdfDict,
+		readonly data: Uint8Array,
+	) {}
+}
+
+type PdfDict = Map<string, PdfObject>;
+
+/** A parsed PDF object; strings are kept as raw bytes. */
+type PdfObject =
+	number | boolean | null | Uint8Array | PdfName | PdfRef | PdfDict | PdfStream | PdfObject[];
+
+/** Resources and rotation of a page, which may be inherited from the page tree. */
+interface PdfPage {
+	resources: PdfObject;
+	rotate: number;
+}
+
+const WHITESPACE = new Set([0, 9, 10, 12, 13, 32]);
+const DELIMITERS = new Set([..."()<>[]{}/%"].map((char) => char.charCodeAt(0)));
+
+/**
+ * Whether `header` contains the `%PDF-` signature, which may follow up to 1024 bytes of junk.
+ *
+ * @internal
+ */
+export function isPdf(header: Uint8Array): boolean {
+	const signature = [0x25, 0x50, 0x44, 0x46, 0x2d];
+	for (let start = 0; start + signature.length <= Math.min(header.length, 1024); start++) {
+		if (signature.every((byte, i) => header[start + i] === byte)) return true;
+	}
+	return false;
+}
+
+/**
+ * Open a (multi-page) PDF file, such as phone photos or scans saved as PDF.
+ *
+ * @param data - The content of the file
+ * @returns The pages of the file; each page is only decoded when read
+ *
+ * @remarks
+ * Each page is read as the largest image drawn on it, so PDFs made of scanned or photographed pages are supported,
+ * but text and vector content is not rendered. Images may be JPEG, CCITT fax, or raw pixels compressed with
+ * Flate, LZW or run-length encoding, in gray, RGB, CMYK or indexed colors. The page rotation is applied.
+ *
+ * @throws {DocumentScannerError} `UNSUPPORTED_FILE` if the file is encrypted or a page has no image,
+ * `FILE_DECODE_FAILED` if it has no page tree
+ *
+ * @internal
+ */
+export async function readPdf(data: Uint8Array): Promise<DocumentPages> {
+	let pdf: PdfDocument | undefined = new PdfDocument(data);
+	await pdf.loadObjectStreams();
+
+	const trailer = pdf.findTrailer();
+	if (trailer.has("Encrypt")) {
+		throw new DocumentScannerError(
+			EnumDDSErrorCode.UNSUPPORTED_FILE,
+			"Encrypted PDF files are not supported",
+		);
+	}
+
+	const catalog = pdf.resolve(trailer.get("Root"));
+	const pages: PdfPage[] = [];
+	if (catalog instanceof Map) {
+		pdf.collectPages(catalog.get("Pages") ?? null, { resources: null, rotate: 0 }, pages);
+	}
+	if (!pages.length) {
+		throw new DocumentScannerError(EnumDDSErrorCode.FILE_DECODE_FAILED, "The PDF file has no page");
+	}
+
+	return {
+		pageCount: pages.length,
+		readPage: async (index) => {
+			if (!pdf) throw new Error("The PDF file has been closed");
+
+			const page = pages[index];
+			const image = pdf.findLargestImage(page.resources);
+			if (!image) {
+				throw new DocumentScannerError(
+					EnumDDSErrorCode.UNSUPPORTED_FILE,
+					`Page ${index + 1} of the PDF file has no image; only scanned or photographed pages are supported`,
+				);
+			}
+			return pdf.decodeImage(image, page.rotate);
+		},
+		close: () => {
+			// Drop the file content and the parsed objects
+			pdf = undefined;
+		},
+	};
+}
+
+class PdfDocument {
+	private position = 0;
+	/** Byte offsets of the objects stored directly in the file; later definitions win. */
+	private offsets = new Map<number, number>();
+	/** Objects stored in compressed object streams. */
+	private compressedObjects = new Map<number, PdfObject>();
+	private cache = new Map<number, PdfObject>();
+
+	constructor(private data: Uint8Array) {
+		const text = this.latin1(0, data.length);
+		const objectPattern = /(?<!\d)(\d+)\s+\d+\s+obj\b/g;
+		for (let match; (match = objectPattern.exec(text));) {
+			this.offsets.set(Number(match[1]), match.index);
+		}
+	}
+
+	/** Parse every object stream up front, so that all later lookups are synchronous. */
+	async loadObjectStreams() {
+		for (const objectNum of this.offsets.keys()) {
+			const stream = this.getObject(objectNum);
+			if (!(stream instanceof PdfStream) || name(stream.dict.get("Type")) !== "ObjStm") continue;
+
+			try {
+				const content = await this.decodeFilters(stream);
+				const count = num(stream.dict.get("N"));
+				const first = num(stream.dict.get("First"));
+				const parser = new PdfDocument(content);
+
+				const entries: [number, number][] = [];
+				for (let i = 0; i < count; i++) {
+					entries.push([num(parser.parseObject()), num(parser.parseObject())]);
+				}
+				for (const [compressedNum, offset] of entries) {
+					parser.position = first + offset;
+					if (!this.compressedObjects.has(compressedNum)) {
+						this.compressedObjects.set(compressedNum, parser.parseObject());
+					}
+				}
+			} catch (error) {
+				console.warn("Skipping unreadable PDF object stream:", error);
+			}
+		}
+	}
+
+	/** The trailer dictionary, or the dictionary of the last cross-reference stream. */
+	findTrailer(): PdfDict {
+		const text = this.latin1(Math.max(0, this.data.length - 4096), this.data.length);
+		const keyword = text.lastIndexOf("trailer");
+		if (keyword >= 0) {
+			this.position = this.data.length - text.length + keyword + "trailer".length;
+			const trailer = this.parseObject();
+			if (trailer instanceof Map && trailer.has("Root")) return trailer;
+		}
+
+		// Cross-reference streams hold the trailer entries in their dictionary
+		let found: PdfDict = new Map();
+		for (const objectNum of this.offsets.keys()) {
+			const object = this.getObject(objectNum);
+			if (object instanceof PdfStream && name(object.dict.get("Type")) === "XRef") {
+				found = object.dict;
+			}
+		}
+		return found;
+	}
+
+	resolve(object: PdfObject | undefined, depth = 0): PdfObject {
+		if (object instanceof PdfRef && depth < 32) {
+			return this.resolve(this.getObject(object.num), depth + 1);
+		}
+		return object ?? null;
+	}
+
+	collectPages(node: PdfObject, inherited: PdfPage, pages: PdfPage[], depth = 0) {
+		const dict = this.resolve(node);
+		if (!(dict instanceof Map) || depth > 64) return;
+
+		const page: PdfPage = {
+			resources: dict.get("Resources") ?? inherited.resources,
+			rotate: num(this.resolve(dict.get("Rotate") ?? inherited.rotate)),
+		};
+
+		const kids = this.resolve(dict.get("Kids"));
+		if (Array.isArray(kids)) {
+			kids.forEach((kid) => this.collectPages(kid, page, pages, depth + 1));
+		} else {
+			pages.push(page);
+		}
+	}
+
+	/** The image XObject with the most pixels, searched through form XObjects as well. */
+	findLargestImage(resources: PdfObject, depth = 0): PdfStream | undefined {
+		const resourceDict = this.resolve(resources);
+		const xObjects = resourceDict instanceof Map && this.resolve(resourceDict.get("XObject"));
+		if (!(xObjects instanceof Map) || depth > 4) return undefined;
+
+		let largest: PdfStream | undefined;
+		let largestArea = 0;
+		for (const value of xObjects.values()) {
+			const object = this.resolve(value);
+			if (!(object instanceof PdfStream)) continue;
+
+			const subtype = name(object.dict.get("Subtype"));
+			const candidate =
+				subtype === "Image"
+					? object
+					: subtype === "Form"
+						? this.findLargestImage(object.dict.get("Resources") ?? null, depth + 1)
+						: undefined;
+
+			const area = candidate
+				? num(this.resolve(candidate.dict.get("Width"))) *
+					num(this.resolve(candidate.dict.get("Height")))
+				: 0;
+			if (candidate && area > largestArea) {
+				largest = candidate;
+				largestArea = area;
+			}
+		}
+		return largest;
+	}
+
+	async decodeImage(image: PdfStream, rotate: number): Promise<DocumentSource> {
+		const dict = image.dict;
+		const get = (key: string) => this.resolve(dict.get(key));
+
+		const width = num(get("Width"));
+		const height = num(get("Height"));
+		const isMask = get("ImageMask") === true;
+		const filters = asArray(get("Filter")).map((filter) => name(this.resolve(filter)));
+		const lastFilter = filters[filters.length - 1];
+
+		// JPEG images are left to the browser
+		if (lastFilter === "DCTDecode") {
+			const bytes = await this.decodeFilters(image, filters.length - 1);
+			return rotatePage(new Blob([bytes as BlobPart], { type: "image/jpeg" }), rotate);
+		}
+
+		checkPageSize(width, height);
+		let bits = isMask ? 1 : num(get("BitsPerComponent"));
+		let samples: Uint8Array;
+		if (lastFilter === "CCITTFaxDecode") {
+			const params = this.resolve(asArray(get("DecodeParms"))[filters.length - 1]);
+			const param = (key: string, fallback: number | boolean) =>
+				(params instanceof Map ? this.resolve(params.get(key)) : null) ?? fallback;
+
+			const columns = num(param("Columns", 1728));
+			const rows = num(param("Rows", height));
+			checkPageSize(columns, rows);
+
+			const encoded = await this.decodeFilters(image, filters.length - 1);
+			const fax = decodeCcittFax(encoded, {
+				k: num(param("K", 0)),
+				columns,
+				rows,
+				byteAlign: param("EncodedByteAlign", false) === true,
+			});
+			// Samples are 1 for white, unless BlackIs1 is set
+			const blackIs1 = param("BlackIs1", false) === true;
+			samples = fax.map((value) => ((value === 255) !== blackIs1 ? 1 : 0));
+			bits = 1;
+		} else {
+			const content = await this.decodeFilters(image);
+			samples = unpackSamples(
+				content,
+				width,
+				height,
+				isMask ? 1 : this.componentCount(dict),
+				bits,
+				{
+					scale: false,
+				},
+			);
+			// Only the most significant byte of 16-bit samples is kept
+			bits = Math.min(bits, 8);
+		}
+
+		const rgba = isMask
+			? this.maskToRgba(samples, width * height, get("Decode"))
+			: this.samplesToRgba(samples, width * height, bits, dict);
+		return rotatePage(pixelsToCanvas(rgba, width, height), rotate);
+	}
+
+	/** Number of color components per pixel of an image. */
+	private componentCount(dict: PdfDict): number {
+		const colorSpace = this.resolve(dict.get("ColorSpace"));
+		return this.describeColorSpace(colorSpace).components;
+	}
+
+	private describeColorSpace(colorSpace: PdfObject): {
+		components: number;
+		family: string;
+		base?: PdfObject;
+		lookup?: PdfObject;
+	} {
+		const resolved = this.resolve(colorSpace);
+		const family = name(Array.isArray(resolved) ? this.resolve(resolved[0]) : resolved);
+
+		switch (family) {
+			case "DeviceGray":
+			case "CalGray":
+			case "Separation":
+				return { components: 1, family };
+			case "DeviceRGB":
+			case "CalRGB":
+			case "Lab":
+				return { components: 3, family };
+			case "DeviceCMYK":
+				return { components: 4, family };
+			case "ICCBased": {
+				const profile = Array.isArray(resolved) && this.resolve(resolved[1]);
+				const components =
+					profile instanceof PdfStream ? num(this.resolve(profile.dict.get("N"))) : 3;
+				return { components, family };
+			}
+			case "Indexed":
+				return Array.isArray(resolved)
+					? { components: 1, family: "Indexed", base: resolved[1], lookup: resolved[3] }
+					: { components: 1, family: "DeviceGray" };
+			default:
+				throw new Error(`Unsupported PDF color space: ${family || "unknown"}`);
+		}
+	}
+
+	private samplesToRgba(
+		samples: Uint8Array,
+		pixelCount: number,
+		bits: number,
+		dict: PdfDict,
+	): Uint8ClampedArray {
+		const colorSpace = this.describeColorSpace(dict.get("ColorSpace") ?? null);
+		const decode = asArray(this.resolve(dict.get("Decode"))).map((value) =>
+			num(this.resolve(value)),
+		);
+		const maxValue = (1 << bits) - 1;
+
+		let palette: Uint8Array | undefined;
+		let paletteComponents = 0;
+		if (colorSpace.family === "Indexed") {
+			const lookup = this.resolve(colorSpace.lookup);
+			palette =
+				lookup instanceof PdfStream
+					? lookup.data
+					: lookup instanceof Uint8Array
+						? lookup
+						: undefined;
+			paletteComponents = this.describeColorSpace(colorSpace.base ?? null).components;
+		}
+
+		const rgba = new Uint8ClampedArray(pixelCount * 4);
+		const { components } = colorSpace;
+		for (let i = 0, s = 0, p = 0; i < pixelCount; i++, s += components, p += 4) {
+			rgba[p + 3] = 255;
+
+			if (palette) {
+				const entry = samples[s] * paletteComponents;
+				writeColor(rgba, p, paletteComponents, (c) => palette![entry + c] ?? 0);
+				continue;
+			}
+
+			// Scale each sample to 0-255, flipping it when the Decode array is inverted
+			writeColor(rgba, p, components, (c) => {
+				const value = (samples[s + c] * 255) / maxValue;
+				const inverted = decode.length > 2 * c + 1 && decode[2 * c] > decode[2 * c + 1];
+				return inverted ? 255 - value : value;
+			});
+
+			// Separation tints give the amount of ink, not of light
+			if (colorSpace.family === "Separation") {
+				rgba[p] = rgba[p + 1] = rgba[p + 2] = 255 - rgba[p];
+			}
+		}
+		return rgba;
+	}
+
+	/** Render a stencil mask as black where it paints and white elsewhere. */
+	private maskToRgba(
+		samples: Uint8Array,
+		pixelCount: number,
+		decode: PdfObject,
+	): Uint8ClampedArray {
+		const paintValue = asArray(decode).map((value) => num(this.resolve(value)))[0] === 1 ? 1 : 0;
+		const rgba = new Uint8ClampedArray(pixelCount * 4);
+		for (let i = 0, p = 0; i < pixelCount; i++, p += 4) {
+			const gray = samples[i] === paintValue ? 0 : 255;
+			rgba[p] = rgba[p + 1] = rgba[p + 2] = gray;
+			rgba[p + 3] = 255;
+		}
+		return rgba;
+	}
+
+	/**
+	 * Apply the first `count` filters of a stream.
+	 */
+	private async decodeFilters(stream: PdfStream, count = Infinity): Promise<Uint8Array> {
+		const { dict } = stream;
+		const filters = asArray(this.resolve(dict.get("Filter")));
+		const params = asArray(this.resolve(dict.get("DecodeParms")));
+
+		let data = stream.data;
+		for (let i = 0; i < Math.min(filters.length, count); i++) {
+			const filter = name(this.resolve(filters[i]));
+			const param = this.resolve(params[i]);
+			const options = param instanceof Map ? param : new Map<string, PdfObject>();
+
+			switch (filter) {
+				case "FlateDecode":
+					data = this.undoPredictor(await inflate(data), options);
+					break;
+				case "LZWDecode":
+					data = this.undoPredictor(
+						decodeLzw(data, num(this.resolve(options.get("EarlyChange") ?? 1))),
+						options,
+					);
+					break;
+				case "RunLengthDecode":
+					data = decodePackBits(data);
+					break;
+				case "ASCIIHexDecode":
+					data = decodeAsciiHex(data);
+					break;
+				case "ASCII85Decode":
+					data = decodeAscii85(data);
+					break;
+				default:
+					throw new Error(`Unsupported PDF image encoding: ${filter}`);
+			}
+		}
+		return data;
+	}
+
+	private undoPredictor(data: Uint8Array, params: PdfDict): Uint8Array {
+		const param = (key: string, fallback: number) => num(this.resolve(params.get(key) ?? fallback));
+		const predictor = param("Predictor", 1);
+		if (predictor === 1) return data;
+
+		const colors = param("Colors", 1);
+		const bits = param("BitsPerComponent", 8);
+		const rowBytes = Math.ceil((colors * bits * param("Columns", 1)) / 8);
+		const bytesPerPixel = Math.max(1, Math.ceil((colors * bits) / 8));
+
+		if (predictor >= 10) return undoPngPredictor(data, rowBytes, bytesPerPixel);
+		if (predictor === 2 && bits === 8)
+			return undoHorizontalPredictor(data, rowBytes, bytesPerPixel);
+		throw new Error(`Unsupported PDF predictor: ${predictor}`);
+	}
+
+	private getObject(objectNum: number): PdfObject {
+		if (this.cache.has(objectNum)) return this.cache.get(objectNum)!;
+		if (this.compressedObjects.has(objectNum)) return this.compressedObjects.get(objectNum)!;
+
+		const offset = this.offsets.get(objectNum);
+		if (offset === undefined) return null;
+
+		// Guard against objects whose stream length refers back to themselves
+		this.cache.set(objectNum, null);
+		const saved = this.position;
+		this.position = offset;
+		let object: PdfObject = null;
+		try {
+			this.parseObject(); // object number
+			this.parseObject(); // generation
+			this.readToken(); // "obj"
+			object = this.parseObject();
+			if (object instanceof Map) object = this.parseStream(object);
+		} catch (error) {
+			console.warn(`Skipping unreadable PDF object ${objectNum}:`, error);
+		}
+		this.position = saved;
+		this.cache.set(objectNum, object);
+		return object;
+	}
+
+	private parseStream(dict: PdfDict): PdfObject {
+		const afterDict = this.position;
+		if (this.readToken() !== "stream") {
+			this.position = afterDict;
+			return dict;
+		}
+
+		// The keyword is followed by CRLF or LF
+		if (this.data[this.position] === 13) this.position++;
+		if (this.data[this.position] === 10) this.position++;
+		const start = this.position;
+
+		let length = num(this.resolve(dict.get("Length")));
+		const endKeyword = this.latin1(start + length, start + length + 32);
+		if (!length || !/^\s*endstream/.test(endKeyword)) {
+			// Wrong or missing length: find the end keyword instead
+			const end = this.latin1(start, this.data.length).indexOf("endstream");
+			length = end < 0 ? this.data.length - start : end;
+		}
+		return new PdfStream(dict, this.data.subarray(start, start + length));
+	}
+
+	parseObject(): PdfObject {
+		this.skipWhitespace();
+		const byte = this.data[this.position];
+
+		if (byte === 0x3c && this.data[this.position + 1] === 0x3c) {
+			this.position += 2;
+			const dict: PdfDict = new Map();
+			for (;;) {
+				this.skipWhitespace();
+				if (this.position >= this.data.length) break;
+				if (this.data[this.position] === 0x3e) {
+					this.position += 2;
+					break;
+				}
+				const key = this.parseObject();
+				const value = this.parseObject();
+				if (key instanceof PdfName) dict.set(key.name, value);
+			}
+			return dict;
+		}
+		if (byte === 0x5b) {
+			this.position++;
+			const array: PdfObject[] = [];
+			for (;;) {
+				this.skipWhitespace();
+				if (this.position >= this.data.length) break;
+				if (this.data[this.position] === 0x5d) {
+					this.position++;
+					break;
+				}
+				array.push(this.parseObject());
+			}
+			return array;
+		}
+		if (byte === 0x3c) return this.parseHexString();
+		if (byte === 0x28) return this.parseLiteralString();
+		if (byte === 0x2f) {
+			this.position++;
+			const token = this.readToken();
+			return new PdfName(
+				token.replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))),
+			);
+		}
+
+		const token = this.readToken();
+		if (token === "true") return true;
+		if (token === "false") return false;
+		if (token === "null" || token === "") {
+			if (token === "") this.position++;
+			return null;
+		}
+
+		const value = Number(token);
+		if (Number.isNaN(value)) return null;
+
+		// An integer may start an indirect reference: "12 0 R"
+		if (Number.isInteger(value)) {
+			const saved = this.position;
+			this.skipWhitespace();
+			const generation = this.readToken();
+			this.skipWhitespace();
+			if (/^\d+$/.test(generation) && this.readToken() === "R") {
+				return new PdfRef(value, Number(generation));
+			}
+			this.position = saved;
+		}
+		return value;
+	}
+
+	private parseHexString(): Uint8Array {
+		const end = this.data.indexOf(0x3e, this.position);
+		const hex = this.latin1(this.position + 1, end < 0 ? this.data.length : end);
+		this.position = end < 0 ? this.data.length : end + 1;
+		return decodeAsciiHex(new TextEncoder().encode(hex + ">"));
+	}
+
+	private parseLiteralString(): Uint8Array {
+		const bytes: number[] = [];
+		let depth = 0;
+		this.position++;
+
+		while (this.position < this.data.length) {
+			const byte = this.data[this.position++];
+			if (byte === 0x28) depth++;
+			if (byte === 0x29 && depth-- === 0) break;
+
+			if (byte !== 0x5c) {
+				bytes.push(byte);
+				continue;
+			}
+
+			// Escape sequences
+			const escaped = this.data[this.position++];
+			const simple: Record<number, number> = { 0x6e: 10, 0x72: 13, 0x74: 9, 0x62: 8, 0x66: 12 };
+			if (escaped in simple) {
+				bytes.push(simple[escaped]);
+			} else if (escaped >= 0x30 && escaped <= 0x37) {
+				let octal = escaped - 0x30;
+				for (
+					let i = 0;
+					i < 2 && this.data[this.position] >= 0x30 && this.data[this.position] <= 0x37;
+					i++
+				) {
+					octal = octal * 8 + this.data[this.position++] - 0x30;
+				}
+				bytes.push(octal & 0xff);
+			} else if (escaped === 13) {
+				if (this.data[this.position] === 10) this.position++;
+			} else if (escaped !== 10) {
+				bytes.push(escaped);
+			}
+		}
+		return new Uint8Array(bytes);
+	}
+
+	private readToken(): string {
+		this.skipWhitespace();
+		const start = this.position;
+		while (
+			this.position < this.data.length &&
+			!WHITESPACE.has(this.data[this.position]) &&
+			!DELIMITERS.has(this.data[this.position])
+		) {
+			this.position++;
+		}
+		return this.latin1(start, this.position);
+	}
+
+	private skipWhitespace() {
+		while (this.position < this.data.length) {
+			const byte = this.data[this.position];
+			if (byte === 0x25) {
+				// Comments run to the end of the line
+				while (this.position < this.data.length && ![10, 13].includes(this.data[this.position])) {
+					this.position++;
+				}
+			} else if (WHITESPACE.has(byte)) {
+				this.position++;
+			} else {
+				break;
+			}
+		}
+	}
+
+	private latin1(start: number, end: number): string {
+		let text = "";
+		// Convert in chunks to stay below the argument limit of String.fromCharCode
+		for (let i = start; i < end; i += 0x8000) {
+			text += String.fromCharCode(...this.data.subarray(i, Math.min(i + 0x8000, end)));
+		}
+		return text;
+	}
+}
+
+function name(object: PdfObject | undefined): string {
+	return object instanceof PdfName ? object.name : "";
+}
+
+function num(object: PdfObject | undefined): number {
+	return typeof object === "number" ? object : 0;
+}
+
+function asArray(object: PdfObject | undefined): PdfObject[] {
+	if (object === undefined || object === null) return [];
+	return Array.isArray(object) ? object : [object];
+}
+
+function writeColor(
+	rgba: Uint8ClampedArray,
+	offset: number,
+	components: number,
+	component: (index: number) => number,
+) {
+	if (components === 4) {
+		// CMYK
+		const white = 255 - component(3);
+		rgba[offset] = ((255 - component(0)) * white) / 255;
+		rgba[offset + 1] = ((255 - component(1)) * white) / 255;
+		rgba[offset + 2] = ((255 - component(2)) * white) / 255;
+	} else if (components >= 3) {
+		rgba[offset] = component(0);
+		rgba[offset + 1] = component(1);
+		rgba[offset + 2] = component(2);
+	} else {
+		rgba[offset] = rgba[offset + 1] = rgba[offset + 2] = component(0);
+	}
+}
+
+function decodeAsciiHex(data: Uint8Array): Uint8Array {
+	const digits: number[] = [];
+	for (const byte of data) {
+		if (byte === 0x3e) break;
+		const digit = parseInt(String.fromCharCode(byte), 16);
+		if (!Number.isNaN(digit)) digits.push(digit);
+	}
+	// An odd number of digits is completed with a trailing 0
+	if (digits.length % 2) digits.push(0);
+
+	const bytes = new Uint8Array(digits.length / 2);
+	for (let i = 0; i < bytes.length; i++) bytes[i] = (digits[2 * i] << 4) | digits[2 * i + 1];
+	return bytes;
+}
+
+function decodeAscii85(data: Uint8Array): Uint8Array {
+	const bytes: number[] = [];
+	let group: number[] = [];
+
+	const flush = (count: number) => {
+		while (group.length < 5) group.push(84);
+		const value = group.reduce((total, digit) => total * 85 + digit, 0);
+		for (let i = 0; i < count; i++) bytes.push((value >>> (24 - 8 * i)) & 0xff);
+		group = [];
+	};
+
+	for (const byte of data) {
+		if (byte === 0x7e) break; // "~>" ends the data
+		if (byte === 0x7a && !group.length) {
+			bytes.push(0, 0, 0, 0);
+		} else if (byte >= 0x21 && byte <= 0x75) {
+			group.push(byte - 0x21);
+			if (group.length === 5) flush(4);
+		}
+	}
+	if (group.length) flush(group.length - 1);
+	return new Uint8Array(bytes);
+}
+
+async function rotatePage(
+	source: Blob | HTMLCanvasElement,
+	rotate: number,
+): Promise<DocumentSource> {
+	if (!(((rotate % 360) + 360) % 360)) return source;
+
+	let canvas = source as HTMLCanvasElement;
+	if (source instanceof Blob) {
+		const bitmap = await createImageBitmap(source);
+		canvas = document.createElement("canvas");
+		canvas.width = bitmap.width;
+		canvas.height = bitmap.height;
+		canvas.getContext("2d")?.drawImage(bitmap, 0, 0);
+		bitmap.close();
+	}
+	return rotateCanvas(canvas, rotate);
+}
@@ -0,0 +1,527 @@
+import { DeskewedImageResultItem } from "dynamsoft-capture-vision-bundle";
+
+/**
+ * Named paper sizes supported by {@link createPdf}, in PDF points (1/72 inch).
+ *
+ * @internal
+ */
+const PDF_PAGE_SIZES = {
+	A4: { width: 595.28, height: 841.89 },
+	Letter: { width: 612, height: 792 },
+};
+
+/**
+ * Page size of a generated PDF.
+ *
+ * @remarks
+ * - `"A4"` / `"Letter"`: fixed paper size; each image is scaled to fit inside the page margins, centered, and the page is turned to landscape for landscape images
+ * - `"fit"`: every page takes the size of its image at {@link PdfExportOptions.dpi}
+ * - `{ width, height }`: custom fixed size in PDF points (1/72 inch)
+ *
+ * @public
+ */
+export type PdfPageSize = "A4" | "Letter" | "fit" | { width: number; height: number };
+
+/**
+ * Document information written to the PDF.
+ *
+ * @public
+ */
+export interface PdfMetadata {
+	/**
+	 * Title of the document.
+	 *
+	 * @public
+	 */
+	title?: string;
+	/**
+	 * Name of the person or organization that created the document.
+	 *
+	 * @public
+	 */
+	author?: string;
+	/**
+	 * Subject of the document.
+	 *
+	 * @public
+	 */
+	subject?: string;
+	/**
+	 * Keywords associated with the document.
+	 *
+	 * @public
+	 */
+	keywords?: string[];
+	/**
+	 * Name of the application that created the original content.
+	 *
+	 * @public
+	 */
+	creator?: string;
+	/**
+	 * Name of the application that produced the PDF.
+	 *
+	 * @defaultValue "Dynamsoft Mobile Document Scanner"
+	 *
+	 * @public
+	 */
+	producer?: string;
+	/**
+	 * Creation date of the document.
+	 *
+	 * @defaultValue The time the PDF is generated
+	 *
+	 * @public
+	 */
+	creationDate?: Date;
+}
+
+/**
+ * Options for {@link createPdf}.
+ *
+ * @example
+ * ```javascript
+ * const pdf = await Dynamsoft.createPdf([result.correctedImageResult], {
+ *     pageSize: "A4",
+ *     dpi: 200,
+ *     metadata: { title: "Invoice" },
+ * });
+ * ```
+ *
+ * @public
+ */
+export interface PdfExportOptions {
+	/**
+	 * Page size of the generated PDF.
+	 *
+	 * @see {@link PdfPageSize}
+	 *
+	 * @defaultValue "fit"
+	 *
+	 * @public
+	 */
+	pageSize?: PdfPageSize;
+	/**
+	 * Resolution of the embedded images, in dots per inch.
+	 *
+	 * @remarks
+	 * With `pageSize: "fit"`, this sets the physical size of each page. With a fixed page size, images with a higher resolution than this on the page are downscaled to keep the file small.
+	 *
+	 * @defaultValue 150
+	 *
+	 * @public
+	 */
+	dpi?: number;
+	/**
+	 * Compression of the embedded images.
+	 *
+	 * @remarks
+	 * - `"jpeg"`: lossy JPEG (`DCTDecode`) streams, best for photos and colour documents
+	 * - `"flate"`: lossless `FlateDecode` streams, best for black & white or text-only documents
+	 *
+	 * @defaultValue "jpeg"
+	 *
+	 * @public
+	 */
+	imageEncoding?: "jpeg" | "flate";
+	/**
+	 * JPEG quality between 0 and 1, used when {@link imageEncoding} is `"jpeg"`.
+	 *
+	 * @defaultValue 0.85
+	 *
+	 * @public
+	 */
+	jpegQuality?: number;
+	/**
+	 * Blank margin around each image on fixed-size pages, in PDF points (1/72 inch).
+	 *
+	 * @defaultValue 0
+	 *
+	 * @public
+	 */
+	margin?: number;
+	/**
+	 * Document information written to the PDF.
+	 *
+	 * @public
+	 */
+	metadata?: PdfMetadata;
+}
+
+/**
+ * An image {@link createPdf} can write as a page.
+ *
+ * @public
+ */
+export type PdfPageImage = DeskewedImageResultItem | HTMLCanvasElement;
+
+/**
+ * Encoded image stream of a single page.
+ *
+ * @internal
+ */
+interface EncodedImage {
+	width: number;
+	height: number;
+	filter?: "DCTDecode" | "FlateDecode";
+	data: Uint8Array;
+}
+
+/**
+ * Create a multi-page PDF with one image per page.
+ *
+ * @param images - The page images, in page order
+ * @param options - The {@link PdfExportOptions} for page size, resolution, compression and metadata
+ * @returns A promise resolving to a PDF `Blob` (`application/pdf`)
+ *
+ * @remarks
+ * This is a lightweight writer that only embeds images; no Dynamsoft Document Viewer engine is needed. Pass the {@link DocumentResult.correctedImageResult} of one or many scans, or the pages of a {@link ScanSession} (see {@link ScanSession.toPdf}).
+ *
+ * @throws {Error} If no image is provided or an image cannot be encoded
+ *
+ * @example
+ * Upload the scanned document as a PDF from the {@link DocumentResultView}:
+ * ```javascript
+ * const documentScanner = new Dynamsoft.DocumentScanner({
+ *     license: "YOUR_LICENSE_KEY_HERE",
+ *     resultViewConfig: {
+ *         onUpload: async (result) => {
+ *             const pdf = await Dynamsoft.createPdf([result.correctedImageResult], { pageSize: "A4" });
+ *             await fetch("/upload", { method: "POST", body: pdf });
+ *         },
+ *     },
+ * });
+ * ```
+ *
+ * @public
+ */
+export async function createPdf(
+	images: PdfPageImage[],
+	options: PdfExportOptions = {},
+): Promise<Blob> {
+	if (!images.length) {
+		throw new Error("No image to export to PDF");
+	}
+
+	const { pageSize = "fit", dpi = 150, margin = 0, metadata = {} } = options;
+	const writer = new PdfObjectWriter();
+
+	// Fixed object numbers: 1 = catalog, 2 = page tree, 3 = document info. Pages follow.
+	const pageRefs: number[] = [];
+	let nextObject = 4;
+
+	const pages: { pageObject: number; contentObject: number; imageObject: number }[] = [];
+	for (let i = 0; i < images.length; i++) {
+		pages.push({
+			pageObject: nextObject++,
+			contentObject: nextObject++,
+			imageObject: nextObject++,
+		});
+		pageRefs.push(pages[i].pageObject);
+	}
+
+	writer.writeHeader();
+	writer.writeObject(1, `<< /Type /Catalog /Pages 2 0 R >>`);
+	writer.writeObject(
+		2,
+		`<< /Type /Pages /Kids [${pageRefs.map((ref) => `${ref} 0 R`).join(" ")}] /Count ${pageRefs.length} >>`,
+	);
+	writer.writeObject(3, createInfoDictionary(metadata));
+
+	for (let i = 0; i < images.length; i++) {
+		const source = toCanvas(images[i]);
+		const layout = computePageLayout(source.width, source.height, pageSize, dpi, margin);
+		const image = await encodeImage(
+			resizeCanvas(source, layout.imageWidth, layout.imageHeight),
+			options,
+		);
+		const { pageObject, contentObject, imageObject } = pages[i];
+
+		writer.writeObject(
+			pageObject,
+			`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(layout.pageWidth)} ${formatNumber(layout.pageHeight)}] ` +
+				`/Resources << /XObject << /Im0 ${imageObject} 0 R >> >> /Contents ${contentObject} 0 R >>`,
+		);
+		writer.writeStream(
+			contentObject,
+			"",
+			encodeLatin1(
+				`q ${formatNumber(layout.drawWidth)} 0 0 ${formatNumber(layout.drawHeight)} ` +
+					`${formatNumber(layout.x)} ${formatNumber(layout.y)} cm /Im0 Do Q`,
+			),
+		);
+		writer.writeStream(
+			imageObject,
+			`/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+				`/ColorSpace /DeviceRGB /BitsPerComponent 8${image.filter ? ` /Filter /${image.filter}` : ""}`,
+			image.data,
+		);
+	}
+
+	writer.writeTrailer(nextObject, 1, 3);
+	return writer.toBlob();
+}
+
+/**
+ * Compute the page size, the placement of the image on the page and the pixel size to embed it at.
+ *
+ * @internal
+ */
+function computePageLayout(
+	width: number,
+	height: number,
+	pageSize: PdfPageSize,
+	dpi: number,
+	margin: number,
+) {
+	const pointsPerPixel = 72 / dpi;
+
+	if (pageSize === "fit") {
+		const pageWidth = width * pointsPerPixel;
+		const pageHeight = height * pointsPerPixel;
+		return {
+			pageWidth,
+			pageHeight,
+			drawWidth: pageWidth,
+			drawHeight: pageHeight,
+			x: 0,
+			y: 0,
+			imageWidth: width,
+			imageHeight: height,
+		};
+	}
+
+	let { width: pageWidth, height: pageHeight } =
+		typeof pageSize === "string" ? PDF_PAGE_SIZES[pageSize] : pageSize;
+	// Turn named paper sizes to match the orientation of the image
+	if (typeof pageSize === "string" && width > height !== pageWidth > pageHeight) {
+		[pageWidth, pageHeight] = [pageHeight, pageWidth];
+	}
+
+	const availableWidth = Math.max(1, pageWidth - margin * 2);
+	const availableHeight = Math.max(1, pageHeight - margin * 2);
+	const scale = Math.min(availableWidth / width, availableHeight / height);
+	const drawWidth = width * scale;
+	const drawHeight = height * scale;
+
+	// Never embed more pixels than the requested DPI needs at the drawn size
+	const maxImageWidth = Math.max(1, Math.round(drawWidth / pointsPerPixel));
+	const downscale = Math.min(1, maxImageWidth / width);
+
+	return {
+		pageWidth,
+		pageHeight,
+		drawWidth,
+		drawHeight,
+		x: (pageWidth - drawWidth) / 2,
+		y: (pageHeight - drawHeight) / 2,
+		imageWidth: Math.max(1, Math.round(width * downscale)),
+		imageHeight: Math.max(1, Math.round(height * downscale)),
+	};
+}
+
+/**
+ * Get a canvas for a page image.
+ *
+ * @internal
+ */
+function toCanvas(image: PdfPageImage): HTMLCanvasElement {
+	return image instanceof HTMLCanvasElement ? image : image.toCanvas();
+}
+
+/**
+ * Return `canvas` scaled to `width` x `height`, or `canvas` itself if it already has that size.
+ *
+ * @internal
+ */
+function resizeCanvas(canvas: HTMLCanvasElement, width: number, height: number): HTMLCanvasElement {
+	if (canvas.width === width && canvas.height === height) return canvas;
+
+	const resized = document.createElement("canvas");
+	resized.width = width;
+	resized.height = height;
+	const ctx = resized.getContext("2d");
+	if (!ctx) return canvas;
+	ctx.imageSmoothingQuality = "high";
+	ctx.drawImage(canvas, 0, 0, width, height);
+	return resized;
+}
+
+/**
+ * Encode a canvas as a PDF image stream.
+ *
+ * @remarks
+ * Transparent pixels are flattened onto white, as PDF image streams have no alpha channel here.
+ *
+ * @internal
+ */
+async function encodeImage(
+	canvas: HTMLCanvasElement,
+	options: PdfExportOptions,
+): Promise<EncodedImage> {
+	const { imageEncoding = "jpeg", jpegQuality = 0.85 } = options;
+	const { width, height } = canvas;
+
+	const flattened = document.createElement("canvas");
+	flattened.width = width;
+	flattened.height = height;
+	const ctx = flattened.getContext("2d");
+	if (!ctx) throw new Error("Failed to encode PDF image");
+	ctx.fillStyle = "#ffffff";
+	ctx.fillRect(0, 0, width, height);
+	ctx.drawImage(canvas, 0, 0);
+
+	if (imageEncoding === "jpeg") {
+		const blob = await new Promise<Blob | null>((resolve) =>
+			flattened.toBlob(resolve, "image/jpeg", jpegQuality),
+		);
+		if (!blob) throw new Error("Failed to encode PDF image");
+		return { width, height, filter: "DCTDecode", data: new Uint8Array(await blob.arrayBuffer()) };
+	}
+
+	const rgba = ctx.getImageData(0, 0, width, height).data;
+	const rgb = new Uint8Array(width * height * 3);
+	for (let src = 0, dst = 0; src < rgba.length; src += 4, dst += 3) {
+		rgb[dst] = rgba[src];
+		rgb[dst + 1] = rgba[src + 1];
+		rgb[dst + 2] = rgba[src + 2];
+	}
+
+	// CompressionStream's "deflate" format is the zlib stream FlateDecode expects
+	if (typeof CompressionStream === "undefined") {
+		return { width, height, data: rgb };
+	}
+	const compressed = new Blob([rgb]).stream().pipeThrough(new CompressionStream("deflate"));
+	return {
+		width,
+		height,
+		filter: "FlateDecode",
+		data: new Uint8Array(await new Response(compressed).arrayBuffer()),
+	};
+}
+
+/**
+ * Build the document information dictionary.
+ *
+ * @internal
+ */
+function createInfoDictionary(metadata: PdfMetadata): string {
+	const entries: [string, string | undefined][] = [
+		["Title", metadata.title],
+		["Author", metadata.author],
+		["Subject", metadata.subject],
+		["Keywords", metadata.keywords?.join(", ")],
+		["Creator", metadata.creator],
+		["Producer", metadata.producer ?? "Dynamsoft Mobile Document Scanner"],
+	];
+
+	const fields = entries
+		.filter((entry): entry is [string, string] => !!entry[1])
+		.map(([key, value]) => `/${key} ${encodeTextString(value)}`);
+	fields.push(`/CreationDate ${encodeTextString(formatDate(metadata.creationDate ?? new Date()))}`);
+
+	return `<< ${fields.join(" ")} >>`;
+}
+
+/**
+ * Encode a PDF text string: a literal string for printable ASCII, UTF-16BE hex otherwise.
+ *
+ * @internal
+ */
+function encodeTextString(value: string): string {
+	if (/^[\x20-\x7e]*$/.test(value)) {
+		return `(${value.replace(/[\\()]/g, (char) => `\\${char}`)})`;
+	}
+
+	let hex = "FEFF";
+	for (let i = 0; i < value.length; i++) {
+		hex += value.charCodeAt(i).toString(16).padStart(4, "0");
+	}
+	return `<${hex.toUpperCase()}>`;
+}
+
+/**
+ * Format a date as a PDF date string (`D:YYYYMMDDHHmmSSZ`).
+ *
+ * @internal
+ */
+function formatDate(date: Date): string {
+	const pad = (value: number) => String(value).padStart(2, "0");
+	return (
+		`D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+		`${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+	);
+}
+
+/**
+ * Format a number for PDF content, with at most two decimals.
+ *
+ * @internal
+ */
+function formatNumber(value: number): string {
+	return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Encode a string containing only Latin-1 characters as bytes.
+ *
+ * @internal
+ */
+function encodeLatin1(value: string): Uint8Array {
+	const bytes = new Uint8Array(value.length);
+	for (let i = 0; i < value.length; i++) bytes[i] = value.charCodeAt(i) & 0xff;
+	return bytes;
+}
+
+/**
+ * Sequential writer for PDF objects that records byte offsets for the cross-reference table.
+ *
+ * @internal
+ */
+class PdfObjectWriter {
+	private chunks: Uint8Array[] = [];
+	private length = 0;
+	private offsets: number[] = [];
+
+	writeHeader(): void {
+		// The binary comment marks the file as binary for transfer tools
+		this.write(encodeLatin1("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n"));
+	}
+
+	writeObject(objectNumber: number, body: string): void {
+		this.offsets[objectNumber] = this.length;
+		this.write(encodeLatin1(`${objectNumber} 0 obj\n${body}\nendobj\n`));
+	}
+
+	writeStream(objectNumber: number, dictionary: string, data: Uint8Array): void {
+		this.offsets[objectNumber] = this.length;
+		this.write(
+			encodeLatin1(`${objectNumber} 0 obj\n<< ${dictionary} /Length ${data.length} >>\nstream\n`),
+		);
+		this.write(data);
+		this.write(encodeLatin1(`\nendstream\nendobj\n`));
+	}
+
+	writeTrailer(objectCount: number, rootObject: number, infoObject: number): void {
+		const xrefOffset = this.length;
+		let xref = `xref\n0 ${objectCount}\n0000000000 65535 f \n`;
+		for (let i = 1; i < objectCount; i++) {
+			xref += `${String(this.offsets[i] ?? 0).padStart(10, "0")} 00000 n \n`;
+		}
+		this.write(
+			encodeLatin1(
+				`${xref}trailer\n<< /Size ${objectCount} /Root ${rootObject} 0 R /Info ${infoObject} 0 R >>\n` +
+					`startxref\n${xrefOffset}\n%%EOF\n`,
+			),
+		);
+	}
+
+	toBlob(): Blob {
+		return new Blob(this.chunks as BlobPart[], { type: "application/pdf" });
+	}
+
+	private write(bytes: Uint8Array): void {
+		this.chunks.push(bytes);
+		this.length += bytes.length;
+	}
+}
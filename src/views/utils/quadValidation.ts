@@ -0,0 +1,88 @@
+import { Point } from "dynamsoft-capture-vision-bundle";
+import { QuadValidationIssue, QuadValidationResult } from "./types";
+
+/** Smallest boundary area, as a fraction of the image area. */
+const MIN_QUAD_AREA = 0.01;
+
+/** Smallest interior angle of a boundary corner, in degrees. */
+const MIN_QUAD_ANGLE = 20;
+
+/**
+ * Check that a document boundary can be perspective-corrected: it must be convex, not fold over itself, cover
+ * enough of the image and have no very sharp corners.
+ *
+ * @param points - The four boundary corners, in order around the boundary
+ * @param width - Width of the image
+ * @param height - Height of the image
+ * @returns The {@link QuadValidationResult}
+ *
+ * @internal
+ */
+export function validateQuad(points: Point[], width: number, height: number): QuadValidationResult {
+	const issues: QuadValidationIssue[] = [];
+	const count = points.length;
+
+	// Opposite edges crossing fold the boundary over itself; otherwise mixed turns mean a dent
+	if (
+		segmentsIntersect(points[0], points[1], points[2], points[3]) ||
+		segmentsIntersect(points[1], points[2], points[3], points[0])
+	) {
+		issues.push("self-intersecting");
+	} else {
+		const turns = points.map((point, i) =>
+			cross(points[(i + count - 1) % count], point, points[(i + 1) % count]),
+		);
+		if (turns.some((turn) => turn > 0) && turns.some((turn) => turn < 0)) issues.push("concave");
+	}
+
+	// Shoelace formula
+	let doubleArea = 0;
+	for (let i = 0; i < count; i++) {
+		const next = points[(i + 1) % count];
+		doubleArea += points[i].x * next.y - next.x * points[i].y;
+	}
+	const area = width && height ? Math.abs(doubleArea) / 2 / (width * height) : 0;
+	if (area < MIN_QUAD_AREA) issues.push("too-small");
+
+	const minAngle = Math.min(
+		...points.map((point, i) =>
+			angle(points[(i + count - 1) % count], point, points[(i + 1) % count]),
+		),
+	);
+	if (minAngle < MIN_QUAD_ANGLE) issues.push("sharp-angle");
+
+	return { isValid: !issues.length, issues, area, minAngle };
+}
+
+/**
+ * Z component of the cross product of `a → b` and `b → c`: its sign tells which way the path turns at `b`.
+ */
+function cross(a: Point, b: Point, c: Point): number {
+	return (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+}
+
+/**
+ * Angle at `b` between `b → a` and `b → c`, in degrees; 0 if either side has no length.
+ */
+function angle(a: Point, b: Point, c: Point): number {
+	const ux = a.x - b.x;
+	const uy = a.y - b.y;
+	const vx = c.x - b.x;
+	const vy = c.y - b.y;
+	const lengths = Math.hypot(ux, uy) * Math.hypot(vx, vy);
+	if (!lengths) return 0;
+	return (Math.acos(Math.max(-1, Math.min(1, (ux * vx + uy * vy) / lengths))) * 180) / Math.PI;
+}
+
+/**
+ * Whether the segments `a → b` and `c → d` cross each other.
+ */
+function segmentsIntersect(a: Point, b: Point, c: Point, d: Point): boolean {
+	const abc = cross(a, b, c);
+	const abd = cross(a, b, d);
+	const cda = cross(c, d, a);
+	const cdb = cross(c, d, b);
+	return (
+		((abc > 0 && abd < 0) || (abc < 0 && abd > 0)) && ((cda > 0 && cdb < 0) || (cda < 0 && cdb > 0))
+	);
+}
@@ -0,0 +1,496 @@
+import {
+	DeskewedImageResultItem,
+	DSImageData,
+	EnumCapturedResultItemType,
+	ImageIO,
+	Quadrilateral,
+} from "dynamsoft-capture-vision-bundle";
+import type ScanSession from "../../ScanSession";
+import { canvasToResultItem } from "./imageEditing";
+import { EnumFlowType, PageEditState, ScannedPage } from "./types";
+
+/**
+ * Options for saving the pages of a continuous scanning session in the browser, so they survive a reload or a closed tab.
+ *
+ * @example
+ * ```javascript
+ * const documentScanner = new Dynamsoft.DocumentScanner({
+ *     license: "YOUR_LICENSE_KEY_HERE",
+ *     enableContinuousScanning: true,
+ *     sessionPersistence: {
+ *         maxPages: 30,
+ *         onResumeSession: async ({ pageCount }) => await askUser(`Continue with ${pageCount} pages?`),
+ *     },
+ * });
+ * ```
+ *
+ * @public
+ */
+export interface SessionPersistenceConfig {
+	/**
+	 * Name of the IndexedDB database the pages are saved in.
+	 *
+	 * @remarks
+	 * Use different names to keep the sessions of several scanners on the same origin apart.
+	 *
+	 * @defaultValue "dds-scan-session"
+	 *
+	 * @public
+	 */
+	databaseName?: string;
+	/**
+	 * Maximum number of pages saved. Later pages are kept in memory only.
+	 *
+	 * @defaultValue 100
+	 *
+	 * @public
+	 */
+	maxPages?: number;
+	/**
+	 * Maximum total size of the saved images, in bytes. Pages that do not fit are kept in memory only.
+	 *
+	 * @defaultValue 209715200 (200 MB)
+	 *
+	 * @public
+	 */
+	maxStorageSize?: number;
+	/**
+	 * JPEG quality between 0 and 1 of the saved corrected images.
+	 *
+	 * @defaultValue 0.92
+	 *
+	 * @public
+	 */
+	imageQuality?: number;
+	/**
+	 * Decide whether to resume a saved session when {@link DocumentScanner.launch} starts.
+	 *
+	 * @param info - The {@link SavedSessionInfo} of the saved session
+	 * @returns `true` to restore the saved pages, `false` to discard them
+	 *
+	 * @defaultValue Ask over the scanner view with {@link StringConfig.resumeSessionPrompt}
+	 *
+	 * @public
+	 */
+	onResumeSession?: (info: SavedSessionInfo) => boolean | Promise<boolean>;
+}
+
+/**
+ * Summary of a session saved by {@link SessionPersistenceConfig}.
+ *
+ * @public
+ */
+export interface SavedSessionInfo {
+	/**
+	 * Number of saved pages.
+	 *
+	 * @public
+	 */
+	pageCount: number;
+	/**
+	 * Time of the last change to the saved pages, in milliseconds since the epoch.
+	 *
+	 * @public
+	 */
+	savedAt: number;
+}
+
+/** A corrected image as stored: encoded pixels plus the result item fields. */
+interface StoredImage {
+	blob: Blob;
+	sourceLocation: Quadrilateral;
+	targetROIDefName: string;
+	taskName: string;
+}
+
+/** A {@link ScannedPage} as stored in the `pages` object store. */
+interface StoredPage {
+	id: string;
+	createdAt: number;
+	editState: PageEditState;
+	appliedRotation?: number;
+	detectedQuadrilateral?: Quadrilateral;
+	flowType?: EnumFlowType;
+	originalImage?: Blob;
+	baseCorrectedImage?: StoredImage;
+	/** Not set when the page has no edits, so the corrected image is the base image. */
+	correctedImage?: StoredImage;
+	size: number;
+}
+
+/** The page order and save time, stored under {@link META_KEY} in the `meta` object store. */
+interface StoredMeta {
+	pageIds: string[];
+	savedAt: number;
+}
+
+/** The parts of a page last written, compared by reference to detect changes. */
+interface PageSnapshot {
+	originalImageResult?: DSImageData;
+	baseCorrectedImageResult?: DeskewedImageResultItem;
+	correctedImageResult?: DeskewedImageResultItem;
+	editState: string;
+	detectedQuadrilateral: string;
+	/** Whether the page is saved; pages that did not fit the storage limits are kept in memory only. */
+	saved: boolean;
+	/** Size of the encoded images; not set if the page was left out for {@link SessionPersistenceConfig.maxPages} before encoding. */
+	size?: number;
+}
+
+const DB_VERSION = 1;
+const PAGES_STORE = "pages";
+const META_STORE = "meta";
+const META_KEY = "session";
+
+const DEFAULT_DATABASE_NAME = "dds-scan-session";
+const DEFAULT_MAX_PAGES = 100;
+const DEFAULT_MAX_STORAGE_SIZE = 200 * 1024 * 1024;
+const DEFAULT_IMAGE_QUALITY = 0.92;
+
+/**
+ * Mirror of a {@link ScanSession} in IndexedDB, written as pages are added, edited, reordered or removed.
+ *
+ * @remarks
+ * Writes run one at a time in the background; a change made while a write is running is picked up by the next one.
+ * Storage errors (private browsing, quota exceeded) are logged and never interrupt scanning.
+ *
+ * @internal
+ */
+export default class SessionStore {
+	private db?: Promise<IDBDatabase>;
+	private queue: Promise<void> = Promise.resolve();
+	private syncPending = false;
+	private snapshots = new Map<string, PageSnapshot>();
+	private unsubscribe?: () => void;
+
+	constructor(private config: SessionPersistenceConfig = {}) {}
+
+	/**
+	 * Start saving every change of a session.
+	 *
+	 * @internal
+	 */
+	attach(session: ScanSession): void {
+		this.detach();
+		this.unsubscribe = session.subscribe(() => this.scheduleSync(session));
+	}
+
+	/**
+	 * Stop saving changes. Saved pages are kept.
+	 *
+	 * @internal
+	 */
+	detach(): void {
+		this.unsubscribe?.();
+		this.unsubscribe = undefined;
+	}
+
+	/**
+	 * Read the summary of the saved session.
+	 *
+	 * @returns The summary, or `undefined` if no page is saved
+	 *
+	 * @internal
+	 */
+	async getInfo(): Promise<SavedSessionInfo | undefined> {
+		await this.queue;
+		const meta = await this.request<StoredMeta | undefined>(META_STORE, "readonly", (store) =>
+			store.get(META_KEY),
+		);
+		return meta?.pageIds.length
+			? { pageCount: meta.pageIds.length, savedAt: meta.savedAt }
+			: undefined;
+	}
+
+	/**
+	 * Read and decode the saved pages, in page order.
+	 *
+	 * @remarks
+	 * The pages are remembered as saved, so restoring them into the attached session does not write them again.
+	 *
+	 * @internal
+	 */
+	async load(): Promise<ScannedPage[]> {
+		await this.queue;
+		const meta = await this.request<StoredMeta | undefined>(META_STORE, "readonly", (store) =>
+			store.get(META_KEY),
+		);
+
+		const pages: ScannedPage[] = [];
+		for (const id of meta?.pageIds ?? []) {
+			const stored = await this.request<StoredPage | undefined>(PAGES_STORE, "readonly", (store) =>
+				store.get(id),
+			);
+			if (!stored) continue;
+
+			try {
+				const page = await this.decodePage(stored);
+				pages.push(page);
+				this.snapshots.set(page.id, this.snapshot(page, true, stored.size));
+			} catch (error) {
+				console.warn(`Failed to restore saved page ${id}:`, error);
+			}
+		}
+		return pages;
+	}
+
+	/**
+	 * Delete every saved page, after any write in progress.
+	 *
+	 * @internal
+	 */
+	clear(): Promise<void> {
+		this.queue = this.queue.then(async () => {
+			try {
+				const db = await this.open();
+				await transactionDone(db, [PAGES_STORE, META_STORE], (tx) => {
+					tx.objectStore(PAGES_STORE).clear();
+					tx.objectStore(META_STORE).clear();
+				});
+			} catch (error) {
+				console.warn("Failed to clear the saved scan session:", error);
+			}
+			// Only now, as a write queued before would remember its pages as saved again
+			this.snapshots.clear();
+		});
+		return this.queue;
+	}
+
+	private scheduleSync(session: ScanSession): void {
+		if (this.syncPending) return;
+		this.syncPending = true;
+
+		this.queue = this.queue.then(async () => {
+			this.syncPending = false;
+			try {
+				await this.sync(session);
+			} catch (error) {
+				console.warn("Failed to save the scan session:", error);
+			}
+		});
+	}
+
+	/**
+	 * Write the pages that changed since the last sync, delete removed pages and save the page order.
+	 *
+	 * @remarks
+	 * Pages that did not fit the limits are saved by a later sync once removed pages have made room for them.
+	 */
+	private async sync(session: ScanSession): Promise<void> {
+		const maxPages = this.config.maxPages ?? DEFAULT_MAX_PAGES;
+		const maxStorageSize = this.config.maxStorageSize ?? DEFAULT_MAX_STORAGE_SIZE;
+		const pages = session.pages.slice();
+		const db = await this.open();
+
+		// Delete removed pages first to free their share of the size limit
+		const currentIds = new Set(pages.map((page) => page.id));
+		const removedIds = [...this.snapshots.keys()].filter((id) => !currentIds.has(id));
+		removedIds.forEach((id) => this.snapshots.delete(id));
+
+		const savedIds: string[] = [];
+		const writes: StoredPage[] = [];
+		let totalSize = 0;
+		let newlySkipped = 0;
+		for (const page of pages) {
+			const previous = this.snapshots.get(page.id);
+			if (previous && !this.hasChanged(page, previous)) {
+				if (previous.saved && savedIds.length < maxPages) {
+					savedIds.push(page.id);
+					totalSize += previous.size ?? 0;
+					continue;
+				}
+				// Unchanged pages that did not fit before are only encoded again once they fit
+				const fits =
+					savedIds.length < maxPages && totalSize + (previous.size ?? 0) <= maxStorageSize;
+				if (!previous.saved && !fits) continue;
+			}
+
+			const stored = savedIds.length < maxPages ? await this.encodePage(page) : undefined;
+			if (!stored || totalSize + stored.size > maxStorageSize) {
+				// An outdated copy would restore the page as it was before the change
+				if (previous?.saved) removedIds.push(page.id);
+				if (!previous || previous.saved) newlySkipped++;
+				this.snapshots.set(page.id, this.snapshot(page, false, stored?.size));
+				continue;
+			}
+
+			writes.push(stored);
+			savedIds.push(page.id);
+			totalSize += stored.size;
+			this.snapshots.set(page.id, this.snapshot(page, true, stored.size));
+		}
+
+		if (newlySkipped) {
+			console.warn(`${newlySkipped} page(s) exceed the session storage limits and are not saved`);
+		}
+
+		await transactionDone(db, [PAGES_STORE, META_STORE], (tx) => {
+			const pageStore = tx.objectStore(PAGES_STORE);
+			removedIds.forEach((id) => pageStore.delete(id));
+			writes.forEach((stored) => pageStore.put(stored));
+			tx.objectStore(META_STORE).put({ pageIds: savedIds, savedAt: Date.now() }, META_KEY);
+		});
+	}
+
+	private hasChanged(page: ScannedPage, snapshot: PageSnapshot): boolean {
+		return (
+			page.originalImageResult !== snapshot.originalImageResult ||
+			page.baseCorrectedImageResult !== snapshot.baseCorrectedImageResult ||
+			page.correctedImageResult !== snapshot.correctedImageResult ||
+			JSON.stringify(page.editState) !== snapshot.editState ||
+			JSON.stringify(page.detectedQuadrilateral) !== snapshot.detectedQuadrilateral
+		);
+	}
+
+	private snapshot(page: ScannedPage, saved: boolean, size?: number): PageSnapshot {
+		return {
+			originalImageResult: page.originalImageResult,
+			baseCorrectedImageResult: page.baseCorrectedImageResult,
+			correctedImageResult: page.correctedImageResult,
+			editState: JSON.stringify(page.editState),
+			detectedQuadrilateral: JSON.stringify(page.detectedQuadrilateral),
+			saved,
+			size,
+		};
+	}
+
+	private async encodePage(page: ScannedPage): Promise<StoredPage> {
+		const originalImage = page.originalImageResult
+			? await new ImageIO().saveToFile(page.originalImageResult, `${page.id}.jpg`)
+			: undefined;
+		const baseCorrectedImage = page.baseCorrectedImageResult
+			? await this.encodeImage(page.baseCorrectedImageResult)
+			: undefined;
+		const correctedImage =
+			page.correctedImageResult && page.correctedImageResult !== page.baseCorrectedImageResult
+				? await this.encodeImage(page.correctedImageResult)
+				: undefined;
+
+		return {
+			id: page.id,
+			createdAt: page.createdAt,
+			editState: { ...page.editState },
+			appliedRotation: page.appliedRotation,
+			detectedQuadrilateral: page.detectedQuadrilateral && clone(page.detectedQuadrilateral),
+			flowType: page._flowType,
+			originalImage,
+			baseCorrectedImage,
+			correctedImage,
+			size:
+				(originalImage?.size ?? 0) +
+				(baseCorrectedImage?.blob.size ?? 0) +
+				(correctedImage?.blob.size ?? 0),
+		};
+	}
+
+	private async decodePage(stored: StoredPage): Promise<ScannedPage> {
+		const baseCorrectedImageResult =
+			stored.baseCorrectedImage && (await decodeImage(stored.baseCorrectedImage));
+		return {
+			id: stored.id,
+			createdAt: stored.createdAt,
+			editState: stored.editState,
+			appliedRotation: stored.appliedRotation,
+			detectedQuadrilateral: stored.detectedQuadrilateral,
+			originalImageResult: stored.originalImage
+				? await new ImageIO().readFromFile(
+						new File([stored.originalImage], `${stored.id}.jpg`, { type: "image/jpeg" }),
+					)
+				: undefined,
+			baseCorrectedImageResult,
+			correctedImageResult: stored.correctedImage
+				? await decodeImage(stored.correctedImage)
+				: baseCorrectedImageResult,
+			_flowType: stored.flowType,
+		};
+	}
+
+	private async encodeImage(image: DeskewedImageResultItem): Promise<StoredImage> {
+		const canvas = image.toCanvas();
+		const blob = await new Promise<Blob | null>((resolve) =>
+			canvas.toBlob(resolve, "image/jpeg", this.config.imageQuality ?? DEFAULT_IMAGE_QUALITY),
+		);
+		if (!blob) {
+			throw new Error("Failed to encode page image");
+		}
+
+		return {
+			blob,
+			sourceLocation: clone(image.sourceLocation),
+			targetROIDefName: image.targetROIDefName,
+			taskName: image.taskName,
+		};
+	}
+
+	private open(): Promise<IDBDatabase> {
+		this.db ??= new Promise<IDBDatabase>((resolve, reject) => {
+			const request = indexedDB.open(this.config.databaseName || DEFAULT_DATABASE_NAME, DB_VERSION);
+			request.onupgradeneeded = () => {
+				const db = request.result;
+				if (!db.objectStoreNames.contains(PAGES_STORE)) {
+					db.createObjectStore(PAGES_STORE, { keyPath: "id" });
+				}
+				if (!db.objectStoreNames.contains(META_STORE)) {
+					db.createObjectStore(META_STORE);
+				}
+			};
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(request.error);
+		}).catch((error) => {
+			// Allow a later call to try again
+			this.db = undefined;
+			throw error;
+		});
+		return this.db;
+	}
+
+	private async request<T>(
+		storeName: string,
+		mode: IDBTransactionMode,
+		createRequest: (store: IDBObjectStore) => IDBRequest,
+	): Promise<T> {
+		const db = await this.open();
+		return new Promise<T>((resolve, reject) => {
+			const request = createRequest(db.transaction(storeName, mode).objectStore(storeName));
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(request.error);
+		});
+	}
+}
+
+function transactionDone(
+	db: IDBDatabase,
+	storeNames: string[],
+	write: (tx: IDBTransaction) => void,
+): Promise<void> {
+	return new Promise<void>((resolve, reject) => {
+		const tx = db.transaction(storeNames, "readwrite");
+		tx.oncomplete = () => resolve();
+		tx.onerror = () => reject(tx.error);
+		tx.onabort = () => reject(tx.error);
+		write(tx);
+	});
+}
+
+async function decodeImage(stored: StoredImage): Promise<DeskewedImageResultItem> {
+	const bitmap = await createImageBitmap(stored.blob);
+	const canvas = document.createElement("canvas");
+	canvas.width = bitmap.width;
+	canvas.height = bitmap.height;
+	canvas.getContext("2d")?.drawImage(bitmap, 0, 0);
+	bitmap.close();
+
+	const base = {
+		type: EnumCapturedResultItemType.CRIT_DESKEWED_IMAGE,
+		referenceItem: null,
+		targetROIDefName: stored.targetROIDefName,
+		taskName: stored.taskName,
+		sourceLocation: stored.sourceLocation,
+	} as unknown as DeskewedImageResultItem;
+	return canvasToResultItem(canvas, base);
+}
+
+/** Copy a plain object, dropping anything IndexedDB cannot store such as functions. */
+function clone<T>(value: T): T {
+	return JSON.parse(JSON.stringify(value));
+}
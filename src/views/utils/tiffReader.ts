@@ -0,0 +1,367 @@
+import { decodeCcittFax } from "./ccittFax";
+import type { DocumentPages } from "./documentProcessing";
+import {
+	checkPageSize,
+	decodeLzw,
+	decodePackBits,
+	inflate,
+	undoHorizontalPredictor,
+	unpackSamples,
+} from "./imageCodecs";
+import { pixelsToCanvas } from "./imageEditing";
+import type { DocumentSource } from "./types";
+
+/** TIFF tags used to decode a page. */
+enum Tag {
+	NewSubfileType = 254,
+	ImageWidth = 256,
+	ImageLength = 257,
+	BitsPerSample = 258,
+	Compression = 259,
+	PhotometricInterpretation = 262,
+	FillOrder = 266,
+	StripOffsets = 273,
+	SamplesPerPixel = 277,
+	RowsPerStrip = 278,
+	StripByteCounts = 279,
+	XResolution = 282,
+	YResolution = 283,
+	PlanarConfiguration = 284,
+	T4Options = 292,
+	Predictor = 317,
+	ColorMap = 320,
+	TileWidth = 322,
+	JPEGTables = 347,
+}
+
+enum Compression {
+	None = 1,
+	CcittRle = 2,
+	CcittT4 = 3,
+	CcittT6 = 4,
+	Lzw = 5,
+	OldJpeg = 6,
+	Jpeg = 7,
+	Deflate = 8,
+	PackBits = 32773,
+	AdobeDeflate = 32946,
+}
+
+enum Photometric {
+	WhiteIsZero = 0,
+	BlackIsZero = 1,
+	Rgb = 2,
+	Palette = 3,
+	Cmyk = 5,
+}
+
+/** Byte size of each TIFF field type. */
+const FIELD_TYPE_SIZES: Record<number, number> = {
+	1: 1, // BYTE
+	2: 1, // ASCII
+	3: 2, // SHORT
+	4: 4, // LONG
+	5: 8, // RATIONAL
+	6: 1, // SBYTE
+	7: 1, // UNDEFINED
+	8: 2, // SSHORT
+	9: 4, // SLONG
+	10: 8, // SRATIONAL
+	11: 4, // FLOAT
+	12: 8, // DOUBLE
+};
+
+type TiffTags = Map<number, number[]>;
+
+/**
+ * Whether `header` starts with a TIFF byte order mark and magic number.
+ *
+ * @internal
+ */
+export function isTiff(header: Uint8Array): boolean {
+	return (
+		(header[0] === 0x49 && header[1] === 0x49 && header[2] === 42 && header[3] === 0) ||
+		(header[0] === 0x4d && header[1] === 0x4d && header[2] === 0 && header[3] === 42)
+	);
+}
+
+/**
+ * Open a (multi-page) TIFF file, such as a received fax.
+ *
+ * @param data - The content of the file
+ * @returns The pages of the file; each page is only decoded when read
+ *
+ * @remarks
+ * Supports strip-based images that are uncompressed or compressed with CCITT Group 3/4, LZW, PackBits, Deflate
+ * or JPEG (single strip), in bilevel, grayscale, palette, RGB or CMYK. Thumbnails stored as reduced-resolution
+ * images are skipped, and fax pages with a different vertical resolution are stretched to their real proportions.
+ *
+ * @throws {Error} If the file is not a valid TIFF file
+ *
+ * @internal
+ */
+export function readTiff(data: Uint8Array): DocumentPages {
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+	const littleEndian = data[0] === 0x49;
+
+	if (view.getUint16(2, littleEndian) === 43) {
+		throw new Error("BigTIFF files are not supported");
+	}
+
+	const pages: TiffTags[] = [];
+	const visited = new Set<number>();
+	let offset = view.getUint32(4, littleEndian);
+
+	while (offset && offset + 2 <= data.length && !visited.has(offset)) {
+		visited.add(offset);
+		const entryCount = view.getUint16(offset, littleEndian);
+		const tags: TiffTags = new Map();
+
+		for (let i = 0; i < entryCount; i++) {
+			const entry = offset + 2 + i * 12;
+			if (entry + 12 > data.length) break;
+			tags.set(view.getUint16(entry, littleEndian), readField(view, entry, littleEndian));
+		}
+
+		// Skip reduced-resolution copies (thumbnails) of other pages
+		if (!((tags.get(Tag.NewSubfileType)?.[0] ?? 0) & 1)) pages.push(tags);
+
+		const nextOffset = offset + 2 + entryCount * 12;
+		offset = nextOffset + 4 <= data.length ? view.getUint32(nextOffset, littleEndian) : 0;
+	}
+
+	if (!pages.length) {
+		throw new Error("The TIFF file has no image");
+	}
+
+	let content: Uint8Array | undefined = data;
+	return {
+		pageCount: pages.length,
+		readPage: async (index) => {
+			if (!content) throw new Error("The TIFF file has been closed");
+			return decodePage(content, pages[index], littleEndian);
+		},
+		close: () => {
+			content = undefined;
+		},
+	};
+}
+
+function readField(view: DataView, entry: number, littleEndian: boolean): number[] {
+	const type = view.getUint16(entry + 2, littleEndian);
+	const count = view.getUint32(entry + 4, littleEndian);
+	const size = FIELD_TYPE_SIZES[type] ?? 1;
+
+	let offset = size * count <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian);
+	const available = Math.max(0, Math.floor((view.byteLength - offset) / size));
+
+	const values: number[] = [];
+	for (let i = 0; i < Math.min(count, available); i++, offset += size) {
+		switch (type) {
+			case 3:
+				values.push(view.getUint16(offset, littleEndian));
+				break;
+			case 4:
+				values.push(view.getUint32(offset, littleEndian));
+				break;
+			case 5:
+				values.push(
+					view.getUint32(offset, littleEndian) / (view.getUint32(offset + 4, littleEndian) || 1),
+				);
+				break;
+			case 8:
+				values.push(view.getInt16(offset, littleEndian));
+				break;
+			case 9:
+				values.push(view.getInt32(offset, littleEndian));
+				break;
+			case 10:
+				values.push(
+					view.getInt32(offset, littleEndian) / (view.getInt32(offset + 4, littleEndian) || 1),
+				);
+				break;
+			case 11:
+				values.push(view.getFloat32(offset, littleEndian));
+				break;
+			case 12:
+				values.push(view.getFloat64(offset, littleEndian));
+				break;
+			default:
+				values.push(view.getUint8(offset));
+		}
+	}
+	return values;
+}
+
+async function decodePage(
+	data: Uint8Array,
+	tags: TiffTags,
+	littleEndian: boolean,
+): Promise<DocumentSource> {
+	const tag = (id: Tag, fallback: number) => tags.get(id)?.[0] ?? fallback;
+
+	const width = tag(Tag.ImageWidth, 0);
+	const height = tag(Tag.ImageLength, 0);
+	const compression = tag(Tag.Compression, Compression.None);
+	const samplesPerPixel = tag(Tag.SamplesPerPixel, 1);
+	const bits = tag(Tag.BitsPerSample, 1);
+	const rowsPerStrip = Math.min(tag(Tag.RowsPerStrip, height), height);
+	const offsets = tags.get(Tag.StripOffsets) ?? [];
+	const byteCounts = tags.get(Tag.StripByteCounts) ?? [];
+
+	if (!width || !height || !offsets.length) {
+		throw new Error("Invalid TIFF image");
+	}
+	checkPageSize(width, height);
+	if (tags.has(Tag.TileWidth)) {
+		throw new Error("Tiled TIFF images are not supported");
+	}
+	if (samplesPerPixel > 1 && tag(Tag.PlanarConfiguration, 1) !== 1) {
+		throw new Error("Planar TIFF images are not supported");
+	}
+
+	const strips = offsets.map((offset, i) => {
+		const strip = data.subarray(offset, offset + (byteCounts[i] ?? data.length - offset));
+		// FillOrder 2 stores the first pixel in the least significant bit
+		return tag(Tag.FillOrder, 1) === 2 ? strip.map(reverseBits) : strip;
+	});
+
+	if (compression === Compression.Jpeg && strips.length === 1) {
+		// Shared tables are a JPEG stream of their own: splice them in between the strip's SOI marker and its data
+		const tables = tags.get(Tag.JPEGTables);
+		const parts = tables
+			? [strips[0].subarray(0, 2), new Uint8Array(tables.slice(2, -2)), strips[0].subarray(2)]
+			: [strips[0]];
+		return new Blob(parts as BlobPart[], { type: "image/jpeg" });
+	}
+
+	let photometric = tag(Tag.PhotometricInterpretation, Photometric.WhiteIsZero);
+	let pixels: Uint8Array;
+
+	if (
+		compression === Compression.CcittRle ||
+		compression === Compression.CcittT4 ||
+		compression === Compression.CcittT6
+	) {
+		// The decoder already maps white runs to 255, so only BlackIsZero images need inverting
+		pixels = new Uint8Array(width * height);
+		const t4Options = tag(Tag.T4Options, 0);
+		strips.forEach((strip, i) => {
+			const rows = Math.min(rowsPerStrip, height - i * rowsPerStrip);
+			if (rows <= 0) return;
+			const decoded = decodeCcittFax(strip, {
+				k: compression === Compression.CcittT6 ? -1 : t4Options & 1 ? 1 : 0,
+				columns: width,
+				rows,
+				byteAlign: compression === Compression.CcittT4 && !!(t4Options & 4),
+				modifiedHuffman: compression === Compression.CcittRle,
+			});
+			pixels.set(decoded, i * rowsPerStrip * width);
+		});
+		if (photometric === Photometric.BlackIsZero) pixels = pixels.map((value) => 255 - value);
+		photometric = Photometric.BlackIsZero;
+	} else {
+		const predictor = tag(Tag.Predictor, 1);
+		if (predictor !== 1 && (predictor !== 2 || bits !== 8)) {
+			throw new Error(`Unsupported TIFF predictor: ${predictor}`);
+		}
+
+		const rowBytes = Math.ceil((width * samplesPerPixel * bits) / 8);
+		const stripBytes = rowsPerStrip * rowBytes;
+		const raw = new Uint8Array(rowBytes * height);
+
+		for (const [i, strip] of strips.entries()) {
+			const start = i * stripBytes;
+			if (start >= raw.length) break;
+
+			let decoded = await decompress(strip, compression);
+			if (predictor === 2) decoded = undoHorizontalPredictor(decoded, rowBytes, samplesPerPixel);
+			raw.set(decoded.subarray(0, Math.min(stripBytes, raw.length - start)), start);
+		}
+
+		const scale = photometric !== Photometric.Palette;
+		pixels = unpackSamples(raw, width, height, samplesPerPixel, bits, { scale, littleEndian });
+	}
+
+	const colorMap = tags.get(Tag.ColorMap) ?? [];
+	const rgba = toRgba(pixels, width * height, samplesPerPixel, photometric, colorMap, bits);
+	const canvas = pixelsToCanvas(rgba, width, height);
+
+	// Fax pages are often scanned at half the vertical resolution (e.g. 204 x 98 dpi)
+	const aspect = tag(Tag.XResolution, 0) / tag(Tag.YResolution, 0);
+	if (!isFinite(aspect) || !aspect || Math.abs(aspect - 1) < 0.1) return canvas;
+	checkPageSize(width, Math.round(height * aspect));
+
+	const stretched = document.createElement("canvas");
+	stretched.width = width;
+	stretched.height = Math.round(height * aspect);
+	stretched.getContext("2d")?.drawImage(canvas, 0, 0, stretched.width, stretched.height);
+	return stretched;
+}
+
+async function decompress(strip: Uint8Array, compression: number): Promise<Uint8Array> {
+	switch (compression) {
+		case Compression.None:
+			return strip.slice();
+		case Compression.Lzw:
+			return decodeLzw(strip);
+		case Compression.PackBits:
+			return decodePackBits(strip);
+		case Compression.Deflate:
+		case Compression.AdobeDeflate:
+			return inflate(strip);
+		default:
+			throw new Error(`Unsupported TIFF compression: ${compression}`);
+	}
+}
+
+function toRgba(
+	samples: Uint8Array,
+	pixelCount: number,
+	samplesPerPixel: number,
+	photometric: number,
+	colorMap: number[],
+	bits: number,
+): Uint8ClampedArray {
+	const rgba = new Uint8ClampedArray(pixelCount * 4);
+	const paletteSize = 1 << bits;
+
+	for (let i = 0, s = 0, p = 0; i < pixelCount; i++, s += samplesPerPixel, p += 4) {
+		switch (photometric) {
+			case Photometric.Rgb:
+				rgba[p] = samples[s];
+				rgba[p + 1] = samples[s + 1];
+				rgba[p + 2] = samples[s + 2];
+				break;
+			case Photometric.Palette:
+				// Color map entries are 16-bit, all reds first, then greens, then blues
+				rgba[p] = (colorMap[samples[s]] ?? 0) >> 8;
+				rgba[p + 1] = (colorMap[paletteSize + samples[s]] ?? 0) >> 8;
+				rgba[p + 2] = (colorMap[2 * paletteSize + samples[s]] ?? 0) >> 8;
+				break;
+			case Photometric.Cmyk: {
+				const white = 255 - samples[s + 3];
+				rgba[p] = ((255 - samples[s]) * white) / 255;
+				rgba[p + 1] = ((255 - samples[s + 1]) * white) / 255;
+				rgba[p + 2] = ((255 - samples[s + 2]) * white) / 255;
+				break;
+			}
+			case Photometric.WhiteIsZero:
+				rgba[p] = rgba[p + 1] = rgba[p + 2] = 255 - samples[s];
+				break;
+			case Photometric.BlackIsZero:
+				rgba[p] = rgba[p + 1] = rgba[p + 2] = samples[s];
+				break;
+			default:
+				throw new Error(`Unsupported TIFF color space: ${photometric}`);
+		}
+		rgba[p + 3] = 255;
+	}
+	return rgba;
+}
+
+function reverseBits(byte: number): number {
+	let reversed = 0;
+	for (let i = 0; i < 8; i++) reversed |= ((byte >> i) & 1) << (7 - i);
+	return reversed;
+}
@@ -3,12 +3,15 @@ import {
 	Quadrilateral,
 	DeskewedImageResultItem,
 } from "dynamsoft-capture-vision-bundle";
+import type ScanSession from "../../ScanSession";
+import type { DocumentExportFormat } from "./imageExport";
+import type { IdCardResult } from "./idCard";
 
 /**
  * Enumeration of available view types in the Document Scanner system.
  *
  * @remarks
- * Scanner: camera view, Result: final view, Correction: boundary adjustment view.
+ * Scanner: camera view, Result: final view, Correction: boundary adjustment view, Pages: page review view in continuous scanning mode.
  *
  * @public
  */
@@ -25,6 +28,10 @@ export enum EnumDDSViews {
 	 * Intermediate view for adjusting detected document boundaries.
 	 */
 	Correction = "correction",
+	/**
+	 * Grid of every page kept in continuous scanning mode, for reviewing, reordering and re-editing pages.
+	 */
+	Pages = "pages",
 }
 
 /**
@@ -87,6 +94,77 @@ export enum EnumResultStatus {
 	RS_FAILED = 2,
 }
 
+/**
+ * Enumeration of the reasons a Document Scanner operation can fail.
+ *
+ * @remarks
+ * Set on {@link ResultStatus.errorCode} of failed results and on {@link DocumentScannerError.code} of errors passed to {@link DocumentScannerConfig.onError}.
+ *
+ * @public
+ */
+export enum EnumDDSErrorCode {
+	/**
+	 * The user or the browser denied access to the camera, or the page is not served over HTTPS.
+	 */
+	CAMERA_PERMISSION_DENIED = "cameraPermissionDenied",
+	/**
+	 * The camera is used by another tab or application.
+	 */
+	CAMERA_IN_USE = "cameraInUse",
+	/**
+	 * No camera was found, or none supports the requested settings.
+	 */
+	CAMERA_NOT_FOUND = "cameraNotFound",
+	/**
+	 * The camera failed for another reason.
+	 */
+	CAMERA_ERROR = "cameraError",
+	/**
+	 * The license key is invalid or expired.
+	 */
+	LICENSE_INVALID = "licenseInvalid",
+	/**
+	 * The engine, its resources or a view failed to initialize.
+	 */
+	INITIALIZATION_FAILED = "initializationFailed",
+	/**
+	 * Another {@link DocumentScanner.launch} session is in progress.
+	 */
+	SESSION_IN_PROGRESS = "sessionInProgress",
+	/**
+	 * The file is not an image, PDF or TIFF file.
+	 */
+	UNSUPPORTED_FILE = "unsupportedFile",
+	/**
+	 * The file could not be read or decoded.
+	 */
+	FILE_DECODE_FAILED = "fileDecodeFailed",
+	/**
+	 * No camera frame could be captured.
+	 */
+	CAPTURE_FAILED = "captureFailed",
+	/**
+	 * Document boundary detection failed.
+	 */
+	DETECTION_FAILED = "detectionFailed",
+	/**
+	 * Perspective correction of the document failed.
+	 */
+	NORMALIZATION_FAILED = "normalizationFailed",
+	/**
+	 * The corrected image could not be encoded, shared or downloaded.
+	 */
+	EXPORT_FAILED = "exportFailed",
+	/**
+	 * The {@link DocumentResultViewConfig.onUpload} handler failed.
+	 */
+	UPLOAD_FAILED = "uploadFailed",
+	/**
+	 * Any other failure.
+	 */
+	UNKNOWN = "unknown",
+}
+
 /**
  * Enumeration of document scanning flow types indicating capture method.
  *
@@ -129,7 +207,7 @@ export enum EnumFlowType {
  * if (result.status.code === EnumResultStatus.RS_SUCCESS) {
  *   console.log("Scan successful!");
  * } else if (result.status.code === EnumResultStatus.RS_FAILED) {
- *   console.error("Scan failed:", result.status.message);
+ *   console.error("Scan failed:", result.status.errorCode, result.status.message);
  * }
  * ```
  *
@@ -145,6 +223,11 @@ export type ResultStatus = {
 	 * Optional error message (typically populated when failed).
 	 */
 	message?: string;
+	/**
+	 * Reason of the failure, set when {@link code} is {@link EnumResultStatus.RS_FAILED}.
+	 * @see {@link EnumDDSErrorCode}
+	 */
+	errorCode?: EnumDDSErrorCode;
 };
 
 /**
@@ -186,13 +269,517 @@ export interface DocumentResult {
 	 * @public
 	 */
 	detectedQuadrilateral?: Quadrilateral;
+	/**
+	 * Clockwise rotation in degrees (0, 90, 180 or 270) applied to an uploaded or processed image file from its orientation metadata, before detection.
+	 *
+	 * @remarks
+	 * Phone cameras store photos in the sensor's orientation and record how to display them in the EXIF orientation tag (JPEG, WebP) or the `irot` property (HEIC/HEIF, AVIF).
+	 * {@link originalImageResult} is already upright; a non-zero value tells how the stored pixels were turned to get there. Not set for camera captures.
+	 *
+	 * @public
+	 */
+	appliedRotation?: number;
+	/**
+	 * The other documents found in the same image, each corrected on its own.
+	 *
+	 * @remarks
+	 * Only present when {@link DocumentScannerConfig.enableMultiDocument} is enabled and the image holds more than one document.
+	 * Each entry shares {@link originalImageResult} with this result and has its own {@link correctedImageResult} and {@link detectedQuadrilateral}.
+	 * This result holds the most prominent document; in continuous scanning mode every document is kept as its own {@link ScannedPage}.
+	 *
+	 * @public
+	 */
+	additionalDocuments?: DocumentResult[];
+	/**
+	 * Every page kept during the scanning session, in page order.
+	 *
+	 * @remarks
+	 * Only present on the result returned by {@link DocumentScanner.launch} when {@link DocumentScannerConfig.enableContinuousScanning} is enabled.
+	 * @see {@link ScanSession}
+	 *
+	 * @public
+	 */
+	session?: ScanSession;
+	/**
+	 * Both sides of the card scanned in ID card mode.
+	 *
+	 * @remarks
+	 * Only present on the result returned by {@link DocumentScanner.launch} when {@link DocumentScannerConfig.idCardMode} is enabled.
+	 * The rest of this result is the front side.
+	 *
+	 * @public
+	 */
+	idCard?: IdCardResult;
 	/**
 	 * Internal property tracking capture method.
 	 * @internal
 	 */
 	_flowType?: EnumFlowType;
+	/**
+	 * Edits applied in the {@link DocumentResultView}, carried over to the {@link ScannedPage} the result is stored as.
+	 * @internal
+	 */
+	_editState?: PageEditState;
+	/**
+	 * Corrected image before {@link _editState} was applied.
+	 * @internal
+	 */
+	_baseCorrectedImageResult?: DeskewedImageResultItem;
 }
 
+/**
+ * A problem that keeps a document boundary from producing a usable corrected image.
+ *
+ * @remarks
+ * - `"self-intersecting"`: two edges cross, so the boundary folds over itself
+ * - `"concave"`: a corner points inwards
+ * - `"too-small"`: the boundary covers less than 1% of the image
+ * - `"sharp-angle"`: a corner is sharper than 20 degrees
+ *
+ * @public
+ */
+export type QuadValidationIssue = "self-intersecting" | "concave" | "too-small" | "sharp-angle";
+
+/**
+ * Result of checking a document boundary in the {@link DocumentCorrectionView}.
+ *
+ * @public
+ */
+export interface QuadValidationResult {
+	/**
+	 * Whether the boundary has no {@link issues}.
+	 *
+	 * @public
+	 */
+	isValid: boolean;
+	/**
+	 * The problems found, most severe first.
+	 *
+	 * @public
+	 */
+	issues: QuadValidationIssue[];
+	/**
+	 * Area of the boundary, as a fraction of the image area.
+	 *
+	 * @public
+	 */
+	area: number;
+	/**
+	 * Smallest interior angle of the boundary, in degrees.
+	 *
+	 * @public
+	 */
+	minAngle: number;
+}
+
+/**
+ * Edits applied on top of a page's corrected image in the {@link DocumentResultView}.
+ *
+ * @remarks
+ * Edits are never baked into {@link ScannedPage.baseCorrectedImageResult}; they are re-applied on demand so a page can be re-edited without loss.
+ *
+ * @public
+ */
+export interface PageEditState {
+	/**
+	 * Clockwise rotation in degrees (0, 90, 180 or 270).
+	 *
+	 * @defaultValue 0
+	 *
+	 * @public
+	 */
+	rotation: number;
+	/**
+	 * Fine clockwise rotation in degrees, between -15 and 15, that straightens skewed text lines.
+	 *
+	 * @remarks
+	 * Applied after the filter and before {@link rotation}. The image keeps its size: it is enlarged just enough to leave no empty corners.
+	 *
+	 * @defaultValue undefined (no fine rotation)
+	 *
+	 * @public
+	 */
+	straighten?: number;
+	/**
+	 * Rectangle the image is cropped to in the {@link DocumentResultView}, in fractions of the straightened image before {@link rotation}.
+	 *
+	 * @remarks
+	 * Applied after {@link straighten} and before {@link rotation}, so the crop stays on the same part of the document when the image is rotated.
+	 *
+	 * @defaultValue undefined (no crop)
+	 *
+	 * @public
+	 */
+	crop?: CropRect;
+	/**
+	 * Identifier of the active filter (a {@link DocumentFilter}), or `null` for the original image.
+	 *
+	 * @defaultValue null
+	 *
+	 * @public
+	 */
+	filterId: string | null;
+	/**
+	 * Brightness, contrast, saturation, gamma and sharpness, applied before the filter.
+	 *
+	 * @defaultValue undefined (no adjustment)
+	 *
+	 * @public
+	 */
+	adjustments?: ImageAdjustments;
+	/**
+	 * Colour mode the corrected image was normalized in.
+	 *
+	 * @remarks
+	 * Unlike the other edits, the colour mode is produced by the normalizer engine from the original image, so {@link ScannedPage.baseCorrectedImageResult} is already in this mode.
+	 *
+	 * @defaultValue "color"
+	 *
+	 * @public
+	 */
+	colorMode?: DocumentColorMode;
+}
+
+/**
+ * An axis-aligned rectangle in fractions (0 to 1) of an image's width and height.
+ *
+ * @public
+ */
+export interface CropRect {
+	/**
+	 * Left edge, as a fraction of the image width.
+	 *
+	 * @public
+	 */
+	x: number;
+	/**
+	 * Top edge, as a fraction of the image height.
+	 *
+	 * @public
+	 */
+	y: number;
+	/**
+	 * Width, as a fraction of the image width.
+	 *
+	 * @public
+	 */
+	width: number;
+	/**
+	 * Height, as a fraction of the image height.
+	 *
+	 * @public
+	 */
+	height: number;
+}
+
+/**
+ * Colour mode of a corrected image, produced by the normalizer engine.
+ *
+ * @remarks
+ * - `"color"`: the full-colour document
+ * - `"grayscale"`: an engine-enhanced grayscale document
+ * - `"binary"`: a black & white document binarized by the engine, tunable with {@link BinarizationOptions}
+ *
+ * @public
+ */
+export type DocumentColorMode = "color" | "grayscale" | "binary";
+
+/**
+ * Image filter applied on top of a corrected image, as offered in the {@link DocumentResultView} filter menu.
+ *
+ * @remarks
+ * - `"grayscale"`, `"black-white"`, `"sepia"` and `"invert"`: colour filters
+ * - `"clean"`: removes shadows and uneven lighting, and whitens the paper background
+ *
+ * @public
+ */
+export type DocumentFilter = "grayscale" | "black-white" | "sepia" | "invert" | "clean";
+
+/**
+ * Binarization settings for the `"binary"` {@link DocumentColorMode}.
+ *
+ * @remarks
+ * Without any option, the normalizer's own binarization is used. Otherwise the document is normalized in grayscale, then binarized with a global {@link threshold}, or locally (adaptive) when {@link blockSize} is set.
+ *
+ * @public
+ */
+export interface BinarizationOptions {
+	/**
+	 * Global threshold between 0 and 255; darker pixels become black. `-1` computes the threshold from the image.
+	 *
+	 * @remarks
+	 * Ignored when {@link blockSize} is set.
+	 *
+	 * @public
+	 */
+	threshold?: number;
+	/**
+	 * Size in pixels of the blocks used for local (adaptive) binarization, which copes better with uneven lighting than a global threshold.
+	 *
+	 * @public
+	 */
+	blockSize?: number;
+	/**
+	 * Value subtracted from the local threshold of each block; higher values turn more pixels white.
+	 *
+	 * @defaultValue 0
+	 *
+	 * @public
+	 */
+	compensation?: number;
+}
+
+/**
+ * Adjustments set with the sliders of the {@link DocumentResultView} "Adjust" panel.
+ *
+ * @remarks
+ * Omitted values leave the image unchanged. They are applied in the order listed, before the filter and rotation of the {@link PageEditState}.
+ *
+ * @public
+ */
+export interface ImageAdjustments {
+	/**
+	 * Brightness offset, from -100 (darker) to 100 (lighter).
+	 *
+	 * @defaultValue 0
+	 *
+	 * @public
+	 */
+	brightness?: number;
+	/**
+	 * Contrast, from -100 (flat gray) to 100 (four times the contrast).
+	 *
+	 * @defaultValue 0
+	 *
+	 * @public
+	 */
+	contrast?: number;
+	/**
+	 * Saturation, from -100 (grayscale) to 100 (twice as saturated).
+	 *
+	 * @defaultValue 0
+	 *
+	 * @public
+	 */
+	saturation?: number;
+	/**
+	 * Gamma correction, from 0.2 to 3. Values above 1 lighten the midtones, which helps with faint print.
+	 *
+	 * @defaultValue 1
+	 *
+	 * @public
+	 */
+	gamma?: number;
+	/**
+	 * Sharpening strength, from 0 (none) to 100.
+	 *
+	 * @defaultValue 0
+	 *
+	 * @public
+	 */
+	sharpen?: number;
+}
+
+/**
+ * A single page kept in a {@link ScanSession}.
+ *
+ * @public
+ */
+export interface ScannedPage {
+	/**
+	 * Stable identifier of the page, unique within the session and unchanged by reordering or edits.
+	 *
+	 * @public
+	 */
+	readonly id: string;
+	/**
+	 * Original captured image before processing.
+	 *
+	 * @public
+	 */
+	originalImageResult?: DSImageData;
+	/**
+	 * Document boundaries (quadrilateral) used to correct {@link originalImageResult}.
+	 *
+	 * @public
+	 */
+	detectedQuadrilateral?: Quadrilateral;
+	/**
+	 * Perspective-corrected image before any {@link editState} is applied.
+	 *
+	 * @public
+	 */
+	baseCorrectedImageResult?: DeskewedImageResultItem;
+	/**
+	 * Final image of the page, with {@link editState} applied.
+	 *
+	 * @public
+	 */
+	correctedImageResult?: DeskewedImageResultItem;
+	/**
+	 * Clockwise rotation in degrees applied to the source image file from its orientation metadata.
+	 *
+	 * @see {@link DocumentResult.appliedRotation}
+	 *
+	 * @public
+	 */
+	appliedRotation?: number;
+	/**
+	 * Edits applied on top of {@link baseCorrectedImageResult}.
+	 *
+	 * @public
+	 */
+	editState: PageEditState;
+	/**
+	 * Time the page was added to the session, in milliseconds since the epoch.
+	 *
+	 * @public
+	 */
+	createdAt: number;
+	/**
+	 * Internal property tracking capture method.
+	 * @internal
+	 */
+	_flowType?: EnumFlowType;
+}
+
+/**
+ * An image that {@link DocumentScanner.process} can detect and correct a document in.
+ *
+ * @remarks
+ * `File` and `Blob` sources must be in an image format the browser can decode (such as JPEG, PNG, WebP or AVIF), HEIC/HEIF, or PDF or TIFF files; see {@link DocumentProcessOptions.pageIndex}.
+ * Their orientation metadata is applied, see {@link DocumentResult.appliedRotation}.
+ *
+ * @public
+ */
+export type DocumentSource = File | Blob | ImageBitmap | HTMLCanvasElement | DSImageData;
+
+/**
+ * Options for {@link DocumentScanner.process}.
+ *
+ * @public
+ */
+export interface DocumentProcessOptions {
+	/**
+	 * Document boundaries to correct, in pixels of the source image. Skips boundary detection.
+	 *
+	 * @public
+	 */
+	quadrilateral?: Quadrilateral;
+	/**
+	 * Only detect the document boundaries, without correcting the image.
+	 *
+	 * @remarks
+	 * The result has no {@link DocumentResult.correctedImageResult}, and no {@link DocumentResult.detectedQuadrilateral} if no document was found. Without this option, the full image is corrected when no document is found.
+	 *
+	 * @defaultValue false
+	 * @public
+	 */
+	detectOnly?: boolean;
+	/**
+	 * 0-based index of the page to process when the source is a PDF or TIFF file.
+	 *
+	 * @remarks
+	 * PDF pages are read from the largest image drawn on them, so text or vector-only pages cannot be processed.
+	 *
+	 * @defaultValue 0
+	 * @public
+	 */
+	pageIndex?: number;
+	/**
+	 * Colour mode of the corrected image.
+	 *
+	 * @defaultValue "color"
+	 * @public
+	 */
+	colorMode?: DocumentColorMode;
+	/**
+	 * Binarization settings used when {@link colorMode} is `"binary"`.
+	 *
+	 * @public
+	 */
+	binarization?: BinarizationOptions;
+	/**
+	 * Filter applied to the corrected image, such as `"clean"` to remove shadows and whiten the background.
+	 *
+	 * @remarks
+	 * The unfiltered image is kept, so the filter can still be changed when the result is added to a {@link ScanSession}.
+	 *
+	 * @defaultValue undefined (no filter)
+	 * @public
+	 */
+	filter?: DocumentFilter;
+	/**
+	 * Turn a document that was captured sideways or upside down upright, see {@link DocumentScannerConfig.enableAutoOrientation}.
+	 *
+	 * @remarks
+	 * The rotation is added to {@link DocumentResult.correctedImageResult} and can still be changed when the result is added to a {@link ScanSession}.
+	 *
+	 * @defaultValue {@link DocumentScannerConfig.enableAutoOrientation}
+	 * @public
+	 */
+	autoOrientation?: boolean;
+}
+
+/**
+ * Events emitted by a {@link DocumentScanner} during the scanning lifecycle, mapped to the payload passed to their handlers.
+ *
+ * @remarks
+ * - `viewChanged`: a view was shown
+ * - `cameraOpened`: the camera started streaming
+ * - `cameraError`: the camera could not be opened
+ * - `quadDetected`: document boundaries were found in a video frame; emitted for every such frame while bounds detection is on
+ * - `autoCaptureTriggered`: smart capture or auto crop decided to capture the current frame
+ * - `pageAdded`: a scan or imported page was kept in the {@link ScanSession}
+ * - `editApplied`: the user cropped, rotated, straightened, filtered or adjusted a document (a `"crop"` is either new boundaries in the {@link DocumentCorrectionView} or a rectangle in the {@link DocumentResultView}), changed its colour mode, or undid, redid or reset these edits
+ * - `exportStarted`: the corrected image is being encoded to be shared, downloaded, uploaded or passed to `onDone`
+ * - `disposed`: the scanner released its camera, engine and views, see {@link DocumentScanner.dispose}
+ *
+ * @see {@link DocumentScanner.on}
+ *
+ * @public
+ */
+export interface DocumentScannerEventMap {
+	viewChanged: { view: EnumDDSViews };
+	cameraOpened: {
+		camera: { deviceId: string; label: string };
+		resolution: { width: number; height: number };
+	};
+	cameraError: { code: EnumDDSErrorCode; message: string };
+	quadDetected: { quadrilateral: Quadrilateral; crossVerified: boolean };
+	autoCaptureTriggered: { mode: "smartCapture" | "autoCrop" };
+	pageAdded: { page: ScannedPage; index: number };
+	editApplied: {
+		edit:
+			| "crop"
+			| "rotate"
+			| "straighten"
+			| "filter"
+			| "adjust"
+			| "colorMode"
+			| "undo"
+			| "redo"
+			| "reset";
+		/** The page being re-edited from the {@link DocumentPagesView}, if any. */
+		pageId?: string;
+		/** Rotation, fine rotation, crop, filter, adjustments and colour mode after the edit. Not set for a `"crop"` in the {@link DocumentCorrectionView}. */
+		editState?: PageEditState;
+		/** Boundaries after the edit. Only set for a `"crop"` in the {@link DocumentCorrectionView}. */
+		quadrilateral?: Quadrilateral;
+	};
+	exportStarted: { action: "share" | "upload" | "done"; format: DocumentExportFormat };
+	disposed: {};
+}
+
+/**
+ * Handler registered with {@link DocumentScanner.on} for one of the {@link DocumentScannerEventMap} events.
+ *
+ * @public
+ */
+export type DocumentScannerEventHandler<K extends keyof DocumentScannerEventMap> = (
+	payload: DocumentScannerEventMap[K],
+) => void;
+
 /**
  * A simplified configuration type for toolbar buttons.
  *
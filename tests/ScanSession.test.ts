@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from "vitest";
+import ScanSession from "../src/ScanSession";
+import { DocumentResult, EnumResultStatus } from "../src/views/utils/types";
+
+function createResult(): DocumentResult {
+	return { status: { code: EnumResultStatus.RS_SUCCESS, message: "Success" } };
+}
+
+function createSession(pageCount: number): { session: ScanSession; ids: string[] } {
+	const session = new ScanSession();
+	const ids = Array.from({ length: pageCount }, () => session.addPage(createResult()).id);
+	return { session, ids };
+}
+
+describe("ScanSession", () => {
+	it("gives every page a unique id and a default edit state", () => {
+		const { session, ids } = createSession(3);
+
+		expect(new Set(ids).size).toBe(3);
+		expect(session.count).toBe(3);
+		expect(session.pages[0].editState).toEqual({ rotation: 0, filterId: null });
+	});
+
+	it("moves a page to a new position", () => {
+		const { session, ids } = createSession(4);
+
+		expect(session.movePage(ids[0], 2)).toBe(true);
+		expect(session.pages.map((page) => page.id)).toEqual([ids[1], ids[2], ids[0], ids[3]]);
+
+		expect(session.movePage(ids[3], 0)).toBe(true);
+		expect(session.pages.map((page) => page.id)).toEqual([ids[3], ids[1], ids[2], ids[0]]);
+	});
+
+	it("clamps the target index to the page range", () => {
+		const { session, ids } = createSession(3);
+
+		session.movePage(ids[0], 10);
+		expect(session.indexOf(ids[0])).toBe(2);
+
+		session.movePage(ids[0], -5);
+		expect(session.indexOf(ids[0])).toBe(0);
+	});
+
+	it("only notifies listeners when a move changes the order", () => {
+		const { session, ids } = createSession(3);
+		const listener = vi.fn();
+		session.subscribe(listener);
+
+		session.movePage(ids[1], 1);
+		expect(listener).not.toHaveBeenCalled();
+
+		session.movePage(ids[1], 0);
+		expect(listener).toHaveBeenCalledTimes(1);
+	});
+
+	it("returns false when moving or removing an unknown page", () => {
+		const { session } = createSession(2);
+		const listener = vi.fn();
+		session.subscribe(listener);
+
+		expect(session.movePage("missing", 0)).toBe(false);
+		expect(session.removePage("missing")).toBe(false);
+		expect(session.count).toBe(2);
+		expect(listener).not.toHaveBeenCalled();
+	});
+
+	it("removes a page and keeps the order of the others", () => {
+		const { session, ids } = createSession(3);
+
+		expect(session.removePage(ids[1])).toBe(true);
+		expect(session.pages.map((page) => page.id)).toEqual([ids[0], ids[2]]);
+		expect(session.getPage(ids[1])).toBeUndefined();
+		expect(session.indexOf(ids[1])).toBe(-1);
+	});
+
+	it("keeps ids unique after pages are removed", () => {
+		const { session, ids } = createSession(2);
+
+		session.removePage(ids[1]);
+		const added = session.addPage(createResult());
+
+		expect(ids).not.toContain(added.id);
+	});
+
+	it("stops notifying a listener once it is unsubscribed", () => {
+		const { session, ids } = createSession(2);
+		const listener = vi.fn();
+		const unsubscribe = session.subscribe(listener);
+
+		session.removePage(ids[0]);
+		unsubscribe();
+		session.clear();
+
+		expect(listener).toHaveBeenCalledTimes(1);
+		expect(session.count).toBe(0);
+	});
+});
@@ -0,0 +1,39 @@
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+
+/**
+ * Create a canvas filled with `color`.
+ */
+export function createCanvas(width: number, height: number, color = "#ffffff"): HTMLCanvasElement {
+	const canvas = document.createElement("canvas");
+	canvas.width = width;
+	canvas.height = height;
+	const ctx = canvas.getContext("2d")!;
+	ctx.fillStyle = color;
+	ctx.fillRect(0, 0, width, height);
+	return canvas;
+}
+
+/**
+ * Read the RGBA value of a pixel.
+ */
+export function getPixel(canvas: HTMLCanvasElement, x: number, y: number): number[] {
+	return Array.from(canvas.getContext("2d")!.getImageData(x, y, 1, 1).data);
+}
+
+/**
+ * Read a blob as a Latin-1 string, one character per byte.
+ */
+export async function readLatin1(blob: Blob): Promise<string> {
+	const bytes = new Uint8Array(await blob.arrayBuffer());
+	let text = "";
+	for (const byte of bytes) text += String.fromCharCode(byte);
+	return text;
+}
+
+/**
+ * Read a file in `tests/fixtures`.
+ */
+export function readFixture(name: string): Uint8Array {
+	return new Uint8Array(readFileSync(resolve("tests/fixtures", name)));
+}
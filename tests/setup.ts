@@ -0,0 +1,10 @@
+import { Canvas, ImageData } from "@napi-rs/canvas";
+
+// happy-dom has no 2D context, so canvases are backed by @napi-rs/canvas to draw and read real pixels
+const createElement = document.createElement.bind(document);
+document.createElement = ((tagName: string, options?: ElementCreationOptions) =>
+	tagName.toLowerCase() === "canvas"
+		? new Canvas(300, 150)
+		: createElement(tagName, options)) as typeof document.createElement;
+
+Object.assign(globalThis, { HTMLCanvasElement: Canvas, ImageData });
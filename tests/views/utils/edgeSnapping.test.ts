@@ -0,0 +1,112 @@
+import { Point } from "dynamsoft-capture-vision-bundle";
+import { describe, expect, it } from "vitest";
+import { createEdgeMap, snapCorner, snapEdge } from "../../../src/views/utils/edgeSnapping";
+import { createCanvas } from "../../helpers";
+
+/** A white page on a dark gray background, covering `page` of a `width` x `height` image. */
+function createPhoto(width: number, height: number, page: [number, number, number, number]) {
+	const canvas = createCanvas(width, height, "#404040");
+	const ctx = canvas.getContext("2d")!;
+	ctx.fillStyle = "#ffffff";
+	ctx.fillRect(page[0], page[1], page[2] - page[0], page[3] - page[1]);
+	return canvas;
+}
+
+/** The corners of the page, clockwise from the top left. */
+function pageCorners([left, top, right, bottom]: number[]): Point[] {
+	return [
+		{ x: left, y: top },
+		{ x: right, y: top },
+		{ x: right, y: bottom },
+		{ x: left, y: bottom },
+	];
+}
+
+function expectNear(actual: Point, expected: Point, tolerance: number) {
+	expect(Math.abs(actual.x - expected.x)).toBeLessThanOrEqual(tolerance);
+	expect(Math.abs(actual.y - expected.y)).toBeLessThanOrEqual(tolerance);
+}
+
+function expectNoOffset(offset: Point) {
+	expect(offset.x).toBeCloseTo(0);
+	expect(offset.y).toBeCloseTo(0);
+}
+
+describe("snapCorner", () => {
+	const page: [number, number, number, number] = [100, 80, 300, 220];
+	const map = createEdgeMap(createPhoto(400, 300, page))!;
+
+	it("moves a dragged corner onto the page corner", () => {
+		const points = pageCorners(page);
+		points[0] = { x: 106, y: 85 };
+		expectNear(snapCorner(map, points, 0, 12), { x: 100, y: 80 }, 1);
+
+		points[0] = { x: 100, y: 80 };
+		points[2] = { x: 294, y: 226 };
+		expectNear(snapCorner(map, points, 2, 12), { x: 300, y: 220 }, 1);
+	});
+
+	it("keeps the dragged corner without edges within the radius", () => {
+		const points = pageCorners(page);
+		points[0] = { x: 200, y: 150 };
+		expect(snapCorner(map, points, 0, 10)).toBe(points[0]);
+
+		points[0] = { x: 120, y: 100 };
+		expect(snapCorner(map, points, 0, 10)).toBe(points[0]);
+	});
+
+	it("works in image coordinates on a downscaled edge map", () => {
+		const large: [number, number, number, number] = [400, 320, 1600, 1200];
+		const largeMap = createEdgeMap(createPhoto(2048, 1536, large))!;
+		expect(largeMap.scale).toBe(0.5);
+
+		const points = pageCorners(large);
+		points[1] = { x: 1588, y: 334 };
+		expectNear(snapCorner(largeMap, points, 1, 30), { x: 1600, y: 320 }, 2);
+	});
+});
+
+describe("snapEdge", () => {
+	const page: [number, number, number, number] = [100, 80, 300, 220];
+	const map = createEdgeMap(createPhoto(400, 300, page))!;
+
+	it("returns the offset that moves a dragged edge onto the page edge", () => {
+		const points = pageCorners(page);
+		points[0] = { x: 100, y: 86 };
+		points[1] = { x: 300, y: 86 };
+		const offset = snapEdge(map, points, 0, 10);
+		expect(offset.x).toBeCloseTo(0);
+		expect(Math.abs(offset.y + 6)).toBeLessThanOrEqual(1);
+
+		const right = pageCorners(page);
+		right[1] = { x: 292, y: 80 };
+		right[2] = { x: 292, y: 220 };
+		const rightOffset = snapEdge(map, right, 1, 10);
+		expect(Math.abs(rightOffset.x - 8)).toBeLessThanOrEqual(1);
+		expect(rightOffset.y).toBeCloseTo(0);
+	});
+
+	it("returns no offset without an edge along it within the radius", () => {
+		const points = pageCorners(page);
+		points[0] = { x: 100, y: 120 };
+		points[1] = { x: 300, y: 120 };
+		expectNoOffset(snapEdge(map, points, 0, 10));
+	});
+
+	it("ignores edges that cross it", () => {
+		// A horizontal edge across the left side of the page
+		const points = [
+			{ x: 50, y: 150 },
+			{ x: 150, y: 150 },
+			{ x: 150, y: 250 },
+			{ x: 50, y: 250 },
+		];
+		expectNoOffset(snapEdge(map, points, 0, 10));
+	});
+
+	it("returns no offset for an edge without length", () => {
+		const points = pageCorners(page);
+		points[1] = points[0];
+		expectNoOffset(snapEdge(map, points, 0, 10));
+	});
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { DocumentScannerError, toDocumentScannerError } from "../../../src/views/utils/errors";
+import { EnumDDSErrorCode } from "../../../src/views/utils/types";
+
+function domException(name: string, message = "Failed") {
+	return new DOMException(message, name);
+}
+
+describe("toDocumentScannerError", () => {
+	it("keeps a DocumentScannerError", () => {
+		const error = new DocumentScannerError(EnumDDSErrorCode.UPLOAD_FAILED, "Failed");
+		expect(toDocumentScannerError(error, EnumDDSErrorCode.CAMERA_ERROR)).toBe(error);
+	});
+
+	it("recognizes camera and license failures of the camera and initialization", () => {
+		const code = (ex: unknown, fallbackCode: EnumDDSErrorCode) =>
+			toDocumentScannerError(ex, fallbackCode).code;
+
+		expect(code(domException("NotAllowedError"), EnumDDSErrorCode.CAMERA_ERROR)).toBe(
+			EnumDDSErrorCode.CAMERA_PERMISSION_DENIED,
+		);
+		expect(code(domException("NotReadableError"), EnumDDSErrorCode.CAMERA_ERROR)).toBe(
+			EnumDDSErrorCode.CAMERA_IN_USE,
+		);
+		expect(code(domException("OverconstrainedError"), EnumDDSErrorCode.CAPTURE_FAILED)).toBe(
+			EnumDDSErrorCode.CAMERA_NOT_FOUND,
+		);
+		expect(code(new Error("The license has expired"), EnumDDSErrorCode.INITIALIZATION_FAILED)).toBe(
+			EnumDDSErrorCode.LICENSE_INVALID,
+		);
+		expect(code(new Error("Something else"), EnumDDSErrorCode.CAMERA_ERROR)).toBe(
+			EnumDDSErrorCode.CAMERA_ERROR,
+		);
+	});
+
+	it("keeps the fallback code of other failures", () => {
+		const tainted = toDocumentScannerError(
+			domException("SecurityError", "The canvas has been tainted"),
+			EnumDDSErrorCode.EXPORT_FAILED,
+		);
+		expect(tainted.code).toBe(EnumDDSErrorCode.EXPORT_FAILED);
+		expect(tainted.message).toBe("The canvas has been tainted");
+
+		expect(toDocumentScannerError(domException("NotFoundError")).code).toBe(
+			EnumDDSErrorCode.UNKNOWN,
+		);
+		expect(
+			toDocumentScannerError(
+				new Error("Template is not available"),
+				EnumDDSErrorCode.NORMALIZATION_FAILED,
+			).code,
+		).toBe(EnumDDSErrorCode.NORMALIZATION_FAILED);
+	});
+});
@@ -0,0 +1,62 @@
+import { DeskewedImageResultItem } from "dynamsoft-capture-vision-bundle";
+import { describe, expect, it } from "vitest";
+import { combineIdCardSides } from "../../../src/views/utils/idCard";
+import { createCanvas, getPixel } from "../../helpers";
+
+function side(width: number, height: number, color: string): DeskewedImageResultItem {
+	const canvas = createCanvas(width, height, color);
+	return { toCanvas: () => canvas } as unknown as DeskewedImageResultItem;
+}
+
+const WHITE = [255, 255, 255, 255];
+const RED = [255, 0, 0, 255];
+const BLUE = [0, 0, 255, 255];
+
+// A 200 x 120 red front gives a margin of 10 pixels
+describe("combineIdCardSides", () => {
+	it("places the back below the front, scaled to its width", () => {
+		const combined = combineIdCardSides(side(200, 120, "#ff0000"), side(150, 60, "#0000ff"));
+		const canvas = combined.toCanvas();
+
+		// The back becomes 200 x 80
+		expect([canvas.width, canvas.height]).toEqual([220, 230]);
+		expect([combined.imageData.width, combined.imageData.height]).toEqual([220, 230]);
+		expect(getPixel(canvas, 5, 5)).toEqual(WHITE);
+		expect(getPixel(canvas, 110, 70)).toEqual(RED);
+		expect(getPixel(canvas, 110, 135)).toEqual(WHITE);
+		expect(getPixel(canvas, 15, 145)).toEqual(BLUE);
+		expect(getPixel(canvas, 205, 215)).toEqual(BLUE);
+		expect(getPixel(canvas, 110, 225)).toEqual(WHITE);
+		expect(getPixel(canvas, 215, 180)).toEqual(WHITE);
+	});
+
+	it("places the back right of the front, scaled to its height", () => {
+		const combined = combineIdCardSides(
+			side(200, 120, "#ff0000"),
+			side(100, 60, "#0000ff"),
+			"horizontal",
+		);
+		const canvas = combined.toCanvas();
+
+		// The back becomes 200 x 120
+		expect([canvas.width, canvas.height]).toEqual([430, 140]);
+		expect(getPixel(canvas, 110, 70)).toEqual(RED);
+		expect(getPixel(canvas, 215, 70)).toEqual(WHITE);
+		expect(getPixel(canvas, 225, 15)).toEqual(BLUE);
+		expect(getPixel(canvas, 415, 125)).toEqual(BLUE);
+		expect(getPixel(canvas, 425, 70)).toEqual(WHITE);
+		expect(getPixel(canvas, 320, 135)).toEqual(WHITE);
+	});
+
+	it("scales the margin with the longest side of the front", () => {
+		const canvas = combineIdCardSides(
+			side(400, 600, "#ff0000"),
+			side(400, 600, "#0000ff"),
+		).toCanvas();
+
+		expect([canvas.width, canvas.height]).toEqual([460, 1290]);
+		expect(getPixel(canvas, 25, 25)).toEqual(WHITE);
+		expect(getPixel(canvas, 35, 35)).toEqual(RED);
+		expect(getPixel(canvas, 35, 665)).toEqual(BLUE);
+	});
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import {
+	decodeLzw,
+	decodePackBits,
+	inflate,
+	undoHorizontalPredictor,
+	undoPngPredictor,
+	unpackSamples,
+} from "../../../src/views/utils/imageCodecs";
+
+/** Pack 9-bit LZW codes MSB-first. */
+function packCodes(codes: number[]): Uint8Array {
+	const output = new Uint8Array(Math.ceil((codes.length * 9) / 8));
+	codes.forEach((code, i) => {
+		for (let bit = 0; bit < 9; bit++) {
+			const position = i * 9 + bit;
+			if ((code >> (8 - bit)) & 1) output[position >> 3] |= 0x80 >> (position & 7);
+		}
+	});
+	return output;
+}
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+	const stream = new Blob([data as BlobPart])
+		.stream()
+		.pipeThrough(new CompressionStream("deflate"));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+describe("inflate", () => {
+	const text = new TextEncoder().encode("A scanned page, ".repeat(64));
+
+	it("decompresses zlib data and ignores trailing bytes", async () => {
+		const compressed = await deflate(text);
+		const padded = new Uint8Array([...compressed, 0, 0, 0x0a]);
+
+		expect(await inflate(compressed)).toEqual(text);
+		expect(await inflate(padded)).toEqual(text);
+	});
+
+	it("keeps the output of a truncated stream, but fails without output", async () => {
+		const compressed = await deflate(text);
+		const partial = await inflate(compressed.subarray(0, compressed.length - 8));
+
+		expect(partial.length).toBeGreaterThan(0);
+		expect(partial).toEqual(text.subarray(0, partial.length));
+		await expect(inflate(new Uint8Array([1, 2, 3]))).rejects.toThrow();
+	});
+});
+
+describe("decodeLzw", () => {
+	it("decodes literal codes and stops at the end code", () => {
+		// Clear, "A", "B", end, then data that must be ignored
+		expect(decodeLzw(packCodes([256, 65, 66, 257, 67]))).toEqual(new Uint8Array([65, 66]));
+	});
+
+	it("decodes a code that is defined by itself", () => {
+		// 258 is not in the table yet when read: it is the previous string plus its own first byte
+		expect(decodeLzw(packCodes([256, 65, 258, 257]))).toEqual(new Uint8Array([65, 65, 65]));
+	});
+
+	it("reuses table entries", () => {
+		// "AB", then 258 = "AB" and 259 = "BA"
+		expect(decodeLzw(packCodes([256, 65, 66, 258, 259, 257]))).toEqual(
+			new TextEncoder().encode("ABABBA"),
+		);
+	});
+});
+
+describe("decodePackBits", () => {
+	it("expands literal and repeated runs, and skips no-op headers", () => {
+		// 3 literal bytes, 4 repeated bytes, a no-op, then 1 literal byte
+		const data = new Uint8Array([2, 1, 2, 3, 0xfd, 9, 0x80, 0, 7]);
+		expect(decodePackBits(data)).toEqual(new Uint8Array([1, 2, 3, 9, 9, 9, 9, 7]));
+	});
+});
+
+describe("undoHorizontalPredictor", () => {
+	it("adds each sample to the one on its left, row by row", () => {
+		// Two RGB pixels per row; the second pixel stores the difference with the first
+		const data = new Uint8Array([10, 20, 30, 5, 250, 1, 100, 0, 0, 1, 1, 1]);
+		expect(undoHorizontalPredictor(data, 6, 3)).toEqual(
+			new Uint8Array([10, 20, 30, 15, 14, 31, 100, 0, 0, 101, 1, 1]),
+		);
+	});
+});
+
+describe("undoPngPredictor", () => {
+	it("undoes the filter given at the start of each row", () => {
+		// Two gray pixels per row, filtered with Sub, Up, Average, Paeth and None
+		const data = new Uint8Array([1, 10, 5, 2, 1, 1, 3, 4, 0, 4, 1, 1, 0, 7, 8]);
+		expect(undoPngPredictor(data, 2, 1)).toEqual(
+			new Uint8Array([10, 15, 11, 16, 9, 12, 10, 13, 7, 8]),
+		);
+	});
+});
+
+describe("unpackSamples", () => {
+	it("scales 1, 2 and 4-bit samples to 0–255, with rows starting on a byte boundary", () => {
+		expect(unpackSamples(new Uint8Array([0b10100000, 0b01000000]), 3, 2, 1, 1)).toEqual(
+			new Uint8Array([255, 0, 255, 0, 255, 0]),
+		);
+		expect(unpackSamples(new Uint8Array([0b00011011]), 4, 1, 1, 2)).toEqual(
+			new Uint8Array([0, 85, 170, 255]),
+		);
+		expect(unpackSamples(new Uint8Array([0x0f, 0x80]), 3, 1, 1, 4)).toEqual(
+			new Uint8Array([0, 255, 136]),
+		);
+	});
+
+	it("keeps raw values without scaling", () => {
+		expect(unpackSamples(new Uint8Array([0b00011011]), 4, 1, 1, 2, { scale: false })).toEqual(
+			new Uint8Array([0, 1, 2, 3]),
+		);
+	});
+
+	it("keeps the high byte of 16-bit samples in either byte order", () => {
+		const data = new Uint8Array([0x12, 0x34, 0xab, 0xcd]);
+		expect(unpackSamples(data, 2, 1, 1, 16)).toEqual(new Uint8Array([0x12, 0xab]));
+		expect(unpackSamples(data, 2, 1, 1, 16, { littleEndian: true })).toEqual(
+			new Uint8Array([0x34, 0xcd]),
+		);
+	});
+
+	it("rejects unsupported sample sizes", () => {
+		expect(() => unpackSamples(new Uint8Array(4), 1, 1, 1, 32)).toThrow(
+			"Unsupported bits per sample: 32",
+		);
+	});
+});
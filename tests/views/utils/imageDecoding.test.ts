@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { readImageRotation } from "../../../src/views/utils/imageDecoding";
+import { readFixture } from "../../helpers";
+
+/** EXIF data (a TIFF structure) holding only an orientation tag. */
+function exif(orientation: number, littleEndian = false): number[] {
+	const bytes = new Uint8Array(26);
+	const view = new DataView(bytes.buffer);
+	bytes.set(littleEndian ? [0x49, 0x49, 42, 0] : [0x4d, 0x4d, 0, 42]);
+	view.setUint32(4, 8, littleEndian);
+	view.setUint16(8, 1, littleEndian);
+	view.setUint16(10, 0x0112, littleEndian);
+	view.setUint16(12, 3, littleEndian);
+	view.setUint32(14, 1, littleEndian);
+	view.setUint16(18, orientation, littleEndian);
+	return Array.from(bytes);
+}
+
+/** A JPEG marker segment; the length covers itself and the payload. */
+function segment(marker: number, payload: number[]): number[] {
+	const length = payload.length + 2;
+	return [0xff, marker, length >> 8, length & 0xff, ...payload];
+}
+
+function ascii(text: string): number[] {
+	return Array.from(text, (char) => char.charCodeAt(0));
+}
+
+function jpeg(...segments: number[][]): Blob {
+	return new Blob([new Uint8Array([0xff, 0xd8, ...segments.flat(), 0xff, 0xd9])]);
+}
+
+/** A RIFF chunk, padded to an even size. */
+function chunk(type: string, payload: number[]): number[] {
+	const size = payload.length;
+	const padding = size & 1 ? [0] : [];
+	return [...ascii(type), size & 0xff, (size >> 8) & 0xff, 0, 0, ...payload, ...padding];
+}
+
+function webp(...chunks: number[][]): Blob {
+	const body = [...ascii("WEBP"), ...chunks.flat()];
+	const size = body.length;
+	return new Blob([new Uint8Array([...ascii("RIFF"), size & 0xff, size >> 8, 0, 0, ...body])]);
+}
+
+describe("readImageRotation", () => {
+	it.each([
+		["orientation-6.jpg", 90],
+		["orientation-3.webp", 180],
+		["orientation-8.avif", 270],
+	])("reads the rotation of %s", async (name, rotation) => {
+		expect(await readImageRotation(new Blob([readFixture(name) as BlobPart]))).toBe(rotation);
+	});
+
+	it("finds the EXIF segment after other JPEG segments, in either byte order", async () => {
+		const app0 = segment(0xe0, [...ascii("JFIF\0"), 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+		const app1 = (orientation: number, littleEndian: boolean) =>
+			segment(0xe1, [...ascii("Exif\0\0"), ...exif(orientation, littleEndian)]);
+
+		expect(await readImageRotation(jpeg(app0, app1(6, false)))).toBe(90);
+		expect(await readImageRotation(jpeg(app0, app1(8, true)))).toBe(270);
+	});
+
+	it("reports the rotation of mirrored orientations", async () => {
+		const app1 = (orientation: number) =>
+			segment(0xe1, [...ascii("Exif\0\0"), ...exif(orientation)]);
+
+		expect(await readImageRotation(jpeg(app1(2)))).toBe(0);
+		expect(await readImageRotation(jpeg(app1(4)))).toBe(180);
+		expect(await readImageRotation(jpeg(app1(5)))).toBe(270);
+		expect(await readImageRotation(jpeg(app1(7)))).toBe(90);
+	});
+
+	it("ignores EXIF data after the start of the image data", async () => {
+		const sos = segment(0xda, [0, 0, 0]);
+		const app1 = segment(0xe1, [...ascii("Exif\0\0"), ...exif(6)]);
+		expect(await readImageRotation(jpeg(sos, app1))).toBe(0);
+	});
+
+	it("reads WebP EXIF chunks with or without the JPEG prefix", async () => {
+		const vp8x = chunk("VP8X", [8, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+
+		expect(await readImageRotation(webp(vp8x, chunk("EXIF", exif(3))))).toBe(180);
+		expect(
+			await readImageRotation(webp(vp8x, chunk("EXIF", [...ascii("Exif\0\0"), ...exif(6)]))),
+		).toBe(90);
+	});
+
+	it("returns 0 without orientation metadata", async () => {
+		const png = new Blob([new Uint8Array([0x89, ...ascii("PNG\r\n\x1a\n"), 0, 0, 0, 0])]);
+
+		expect(await readImageRotation(png)).toBe(0);
+		expect(await readImageRotation(jpeg(segment(0xe0, ascii("JFIF\0"))))).toBe(0);
+		expect(await readImageRotation(webp(chunk("VP8 ", [0, 0])))).toBe(0);
+	});
+});
@@ -0,0 +1,224 @@
+import { describe, expect, it } from "vitest";
+import {
+	cropCanvas,
+	detectOrientation,
+	estimateSkewAngle,
+	fitCropRect,
+	removeShadows,
+	resizeCropRect,
+	rotateCanvas,
+	rotateCropRect,
+	straightenCanvas,
+} from "../../../src/views/utils/imageEditing";
+import { CropRect } from "../../../src/views/utils/types";
+import { createCanvas, getPixel } from "../../helpers";
+
+/**
+ * Draw a page of fake Latin text: lines of letter blocks of varying widths, with ascenders on every
+ * third letter and descenders on every ninth.
+ */
+function createTextPage(width = 600, height = 800): HTMLCanvasElement {
+	const canvas = createCanvas(width, height);
+	const ctx = canvas.getContext("2d")!;
+	ctx.fillStyle = "#000000";
+	for (let top = 80, line = 0; top < height - 80; top += 36, line++) {
+		let letter = 0;
+		// Letters of successive lines do not line up
+		for (let x = 60 + ((line * 7) % 11); x < width - 60; letter++) {
+			const letterWidth = 5 + ((letter * 5 + line) % 4);
+			// A space after every sixth letter
+			if (letter % 7 !== 6) {
+				const ascender = letter % 3 === 0 ? 8 : 0;
+				const descender = letter % 9 === 4 ? 6 : 0;
+				ctx.fillRect(x, top - ascender, letterWidth, 12 + ascender + descender);
+			}
+			x += letterWidth + 3;
+		}
+	}
+	return canvas;
+}
+
+describe("estimateSkewAngle", () => {
+	it("returns 0 for a level page", () => {
+		expect(Math.abs(estimateSkewAngle(createTextPage()))).toBeLessThanOrEqual(0.2);
+	});
+
+	it.each([3, -2, 7.5])("levels text rotated by %s degrees", (degrees) => {
+		const skewed = straightenCanvas(createTextPage(), degrees);
+		expect(Math.abs(estimateSkewAngle(skewed) + degrees)).toBeLessThanOrEqual(0.3);
+	});
+
+	it("returns 0 without text", () => {
+		expect(estimateSkewAngle(createCanvas(400, 300))).toBe(0);
+		expect(estimateSkewAngle(createCanvas(400, 300, "#808080"))).toBe(0);
+	});
+
+	it("stays within the straightening range", () => {
+		const angle = estimateSkewAngle(straightenCanvas(createTextPage(), 30));
+		expect(Math.abs(angle)).toBeLessThanOrEqual(15);
+	});
+});
+
+describe("detectOrientation", () => {
+	it("leaves an upright page as it is", () => {
+		expect(detectOrientation(createTextPage())).toBe(0);
+	});
+
+	it.each([90, 180, 270])("turns a page rotated by %s degrees upright", (degrees) => {
+		const rotated = rotateCanvas(createTextPage(), degrees);
+		expect((detectOrientation(rotated) + degrees) % 360).toBe(0);
+	});
+
+	it("returns 0 without text", () => {
+		expect(detectOrientation(createCanvas(600, 800))).toBe(0);
+	});
+
+	it("returns 0 when lines have no up or down", () => {
+		// Letters without ascenders or descenders
+		const canvas = createCanvas(600, 800);
+		const ctx = canvas.getContext("2d")!;
+		for (let top = 80; top < 720; top += 36) {
+			for (let x = 60; x < 540; x += 10) ctx.fillRect(x, top, 7, 12);
+		}
+		expect(detectOrientation(rotateCanvas(canvas, 180))).toBe(0);
+	});
+});
+
+describe("removeShadows", () => {
+	it("evens out a shaded page and keeps the text dark", () => {
+		const page = createTextPage();
+		// A shadow across the page, darkest at the right edge
+		const shaded = createCanvas(page.width, page.height);
+		const ctx = shaded.getContext("2d")!;
+		ctx.drawImage(page, 0, 0);
+		const shadow = ctx.createLinearGradient(0, 0, page.width, 0);
+		shadow.addColorStop(0, "#ffffff");
+		shadow.addColorStop(1, "#8c8c8c");
+		ctx.globalCompositeOperation = "multiply";
+		ctx.fillStyle = shadow;
+		ctx.fillRect(0, 0, page.width, page.height);
+		expect(getPixel(shaded, page.width - 10, 10)[0]).toBeLessThan(150);
+
+		const target = document.createElement("canvas");
+		removeShadows(shaded, target);
+
+		const original = page.getContext("2d")!.getImageData(0, 0, page.width, page.height).data;
+		const cleaned = target.getContext("2d")!.getImageData(0, 0, page.width, page.height).data;
+		for (let i = 0; i < original.length; i += 4 * 7) {
+			for (let c = 0; c < 3; c++) {
+				if (original[i + c] === 255) expect(cleaned[i + c]).toBeGreaterThanOrEqual(245);
+				else expect(cleaned[i + c]).toBeLessThanOrEqual(40);
+			}
+		}
+	});
+});
+
+function expectRect(actual: CropRect, expected: CropRect) {
+	expect(actual.x).toBeCloseTo(expected.x);
+	expect(actual.y).toBeCloseTo(expected.y);
+	expect(actual.width).toBeCloseTo(expected.width);
+	expect(actual.height).toBeCloseTo(expected.height);
+}
+
+describe("rotateCropRect", () => {
+	const crop = { x: 0.1, y: 0.2, width: 0.3, height: 0.4 };
+
+	it("follows the image through quarter turns", () => {
+		expectRect(rotateCropRect(crop, 90), { x: 0.4, y: 0.1, width: 0.4, height: 0.3 });
+		expectRect(rotateCropRect(crop, 180), { x: 0.6, y: 0.4, width: 0.3, height: 0.4 });
+		expectRect(rotateCropRect(crop, 270), { x: 0.2, y: 0.6, width: 0.4, height: 0.3 });
+	});
+
+	it("treats negative and full turns like their equivalents", () => {
+		expectRect(rotateCropRect(crop, -90), rotateCropRect(crop, 270));
+		expectRect(rotateCropRect(crop, 360), crop);
+		expectRect(rotateCropRect(crop, 0), crop);
+	});
+
+	it("covers the same pixels as cropping before rotating", () => {
+		// A red block inside the crop of a 100 x 50 image
+		const canvas = createCanvas(100, 50);
+		const ctx = canvas.getContext("2d")!;
+		ctx.fillStyle = "#ff0000";
+		ctx.fillRect(20, 10, 10, 10);
+		const rect = { x: 0.1, y: 0.1, width: 0.4, height: 0.6 };
+
+		for (const degrees of [90, 180, 270]) {
+			const expected = rotateCanvas(cropCanvas(canvas, rect), degrees);
+			const actual = cropCanvas(rotateCanvas(canvas, degrees), rotateCropRect(rect, degrees));
+
+			expect([actual.width, actual.height]).toEqual([expected.width, expected.height]);
+			for (let y = 0; y < expected.height; y += 3) {
+				for (let x = 0; x < expected.width; x += 3) {
+					expect(getPixel(actual, x, y)).toEqual(getPixel(expected, x, y));
+				}
+			}
+		}
+	});
+});
+
+describe("resizeCropRect", () => {
+	const start = { x: 0.2, y: 0.2, width: 0.4, height: 0.4 };
+
+	it("keeps the opposite corner in place", () => {
+		expectRect(resizeCropRect(start, "se", 0.1, 0.05, 0.1, 0.1), {
+			x: 0.2,
+			y: 0.2,
+			width: 0.5,
+			height: 0.45,
+		});
+		expectRect(resizeCropRect(start, "nw", -0.1, -0.1, 0.1, 0.1), {
+			x: 0.1,
+			y: 0.1,
+			width: 0.5,
+			height: 0.5,
+		});
+		expectRect(resizeCropRect(start, "ne", 0.1, 0.1, 0.1, 0.1), {
+			x: 0.2,
+			y: 0.3,
+			width: 0.5,
+			height: 0.3,
+		});
+	});
+
+	it("stays within the image and above the minimum size", () => {
+		expectRect(resizeCropRect(start, "se", 1, 1, 0.1, 0.1), {
+			x: 0.2,
+			y: 0.2,
+			width: 0.8,
+			height: 0.8,
+		});
+		expectRect(resizeCropRect(start, "sw", 1, -1, 0.1, 0.05), {
+			x: 0.5,
+			y: 0.2,
+			width: 0.1,
+			height: 0.05,
+		});
+	});
+
+	it("keeps an aspect ratio, shrinking to fit the image", () => {
+		expectRect(resizeCropRect(start, "se", 0.2, 0, 0.1, 0.1, 2), {
+			x: 0.2,
+			y: 0.2,
+			width: 0.6,
+			height: 0.3,
+		});
+		// 0.6 wide would be 1.2 high, but only 0.8 is left below the top edge
+		expectRect(resizeCropRect(start, "se", 0.2, 0, 0.1, 0.1, 0.5), {
+			x: 0.2,
+			y: 0.2,
+			width: 0.4,
+			height: 0.8,
+		});
+	});
+});
+
+describe("fitCropRect", () => {
+	it("returns the largest centred rectangle of the ratio", () => {
+		const rect = { x: 0, y: 0.25, width: 1, height: 0.5 };
+
+		expectRect(fitCropRect(rect, 1), { x: 0.25, y: 0.25, width: 0.5, height: 0.5 });
+		expectRect(fitCropRect(rect, 4), { x: 0, y: 0.375, width: 1, height: 0.25 });
+		expectRect(fitCropRect(rect, 2), rect);
+	});
+});
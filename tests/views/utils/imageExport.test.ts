@@ -0,0 +1,157 @@
+import { DeskewedImageResultItem } from "dynamsoft-capture-vision-bundle";
+import { crc32 } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { exportDocumentImage } from "../../../src/views/utils/imageExport";
+import { createCanvas } from "../../helpers";
+
+interface PngChunk {
+	type: string;
+	data: Uint8Array;
+}
+
+function readPngChunks(bytes: Uint8Array): PngChunk[] {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	const chunks: PngChunk[] = [];
+	for (let offset = 8; offset < bytes.length;) {
+		const length = view.getUint32(offset);
+		chunks.push({
+			type: String.fromCharCode(...bytes.subarray(offset + 4, offset + 8)),
+			data: bytes.subarray(offset + 8, offset + 8 + length),
+		});
+		offset += 12 + length;
+	}
+	return chunks;
+}
+
+/** A PNG chunk with its length and checksum. */
+function createPngChunk(type: string, data: number[]): Uint8Array {
+	const chunk = new Uint8Array(12 + data.length);
+	const view = new DataView(chunk.buffer);
+	view.setUint32(0, data.length);
+	chunk.set(
+		[...type].map((char) => char.charCodeAt(0)),
+		4,
+	);
+	chunk.set(data, 8);
+	view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+	return chunk;
+}
+
+/** An image whose canvas encodes to `bytes`, as a browser encoder might write them. */
+function createEncodedImage(bytes: Uint8Array, type: string): DeskewedImageResultItem {
+	const canvas = {
+		width: 4,
+		height: 3,
+		toBlob: (callback: BlobCallback) => callback(new Blob([bytes as BlobPart], { type })),
+	};
+	return { toCanvas: () => canvas } as unknown as DeskewedImageResultItem;
+}
+
+function encode(canvas: HTMLCanvasElement, type: string): Uint8Array {
+	return new Uint8Array((canvas as unknown as { toBuffer(type: string): Buffer }).toBuffer(type));
+}
+
+async function readBytes(file: File): Promise<Uint8Array> {
+	return new Uint8Array(await file.arrayBuffer());
+}
+
+function expectDensity(chunks: PngChunk[], pixelsPerMeter: number) {
+	const physChunks = chunks.filter((chunk) => chunk.type === "pHYs");
+	expect(physChunks).toHaveLength(1);
+
+	const view = new DataView(physChunks[0].data.buffer, physChunks[0].data.byteOffset);
+	expect([view.getUint32(0), view.getUint32(4), view.getUint8(8)]).toEqual([
+		pixelsPerMeter,
+		pixelsPerMeter,
+		1,
+	]);
+	expect(chunks.findIndex((chunk) => chunk.type === "pHYs")).toBeLessThan(
+		chunks.findIndex((chunk) => chunk.type === "IDAT"),
+	);
+}
+
+function expectValidChecksums(bytes: Uint8Array) {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	for (let offset = 8; offset < bytes.length;) {
+		const length = view.getUint32(offset);
+		expect(view.getUint32(offset + 8 + length)).toBe(
+			crc32(bytes.subarray(offset + 4, offset + 8 + length)),
+		);
+		offset += 12 + length;
+	}
+}
+
+describe("exportDocumentImage", () => {
+	it("names the file and scales it down to the maximum dimension", async () => {
+		const file = await exportDocumentImage(
+			createCanvas(400, 200),
+			{
+				maxDimension: 100,
+				filename: ({ prefix, width, height, extension }) =>
+					`${prefix}-${width}x${height}.${extension}`,
+			},
+			"scan",
+		);
+
+		expect(file.name).toBe("scan-100x50.png");
+		expect(file.type).toBe("image/png");
+		const ihdr = readPngChunks(await readBytes(file))[0];
+		const view = new DataView(ihdr.data.buffer, ihdr.data.byteOffset);
+		expect([view.getUint32(0), view.getUint32(4)]).toEqual([100, 50]);
+	});
+
+	it("adds a pHYs chunk with a valid checksum after IHDR", async () => {
+		const file = await exportDocumentImage(createCanvas(4, 3), { dpi: 300 });
+		const bytes = await readBytes(file);
+		const chunks = readPngChunks(bytes);
+
+		expect(chunks[1].type).toBe("pHYs");
+		expectDensity(chunks, 11811);
+		expectValidChecksums(bytes);
+	});
+
+	it("replaces a pHYs chunk written by the encoder", async () => {
+		const png = encode(createCanvas(4, 3), "image/png");
+		const phys = createPngChunk("pHYs", [0, 0, 0x0b, 0x13, 0, 0, 0x0b, 0x13, 1]);
+		const withPhys = new Uint8Array([...png.subarray(0, 33), ...phys, ...png.subarray(33)]);
+
+		const file = await exportDocumentImage(createEncodedImage(withPhys, "image/png"), {
+			dpi: 200,
+		});
+		const bytes = await readBytes(file);
+
+		expect(bytes.length).toBe(withPhys.length);
+		expectDensity(readPngChunks(bytes), 7874);
+		expectValidChecksums(bytes);
+	});
+
+	it("sets the density of the JFIF header of JPEG files", async () => {
+		const jpeg = encode(createCanvas(4, 3), "image/jpeg");
+		const file = await exportDocumentImage(createEncodedImage(jpeg, "image/jpeg"), {
+			format: "jpeg",
+			dpi: 300,
+		});
+		const bytes = await readBytes(file);
+
+		expect(bytes.length).toBe(jpeg.length);
+		expect(Array.from(bytes.subarray(11, 18))).toEqual([1, 1, 1, 0x01, 0x2c, 0x01, 0x2c]);
+		expect(bytes.subarray(18)).toEqual(jpeg.subarray(18));
+	});
+
+	it("adds a JFIF header to JPEG files without one", async () => {
+		const jpeg = encode(createCanvas(4, 3), "image/jpeg");
+		const app0Length = 2 + ((jpeg[4] << 8) | jpeg[5]);
+		const withoutJfif = new Uint8Array([...jpeg.subarray(0, 2), ...jpeg.subarray(2 + app0Length)]);
+
+		const file = await exportDocumentImage(createEncodedImage(withoutJfif, "image/jpeg"), {
+			format: "jpeg",
+			dpi: 72,
+		});
+		const bytes = await readBytes(file);
+
+		expect(Array.from(bytes.subarray(0, 18))).toEqual([
+			0xff, 0xd8, 0xff, 0xe0, 0, 16, 0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 1, 0, 72, 0, 72,
+		]);
+		expect(bytes.subarray(20)).toEqual(withoutJfif.subarray(2));
+	});
+});
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { isPdf, readPdf } from "../../../src/views/utils/pdfReader";
+import { createPdf } from "../../../src/views/utils/pdfWriter";
+import { EnumDDSErrorCode } from "../../../src/views/utils/types";
+import { createCanvas, getPixel, readFixture } from "../../helpers";
+
+/** A one-page PDF drawing a single image, described by `imageEntries`. */
+function createImagePdf(imageEntries: string, data: Uint8Array, pageEntries = ""): Uint8Array {
+	const encoder = new TextEncoder();
+	const head = encoder.encode(
+		"%PDF-1.4\n" +
+			"1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n" +
+			"2 0 obj\n<< /Type /Pages /Kids [3 0 R] /Count 1 >>\nendobj\n" +
+			"3 0 obj\n<< /Type /Page /Parent 2 0 R /MediaBox [0 0 72 72] " +
+			`/Resources << /XObject << /Im0 4 0 R >> >>${pageEntries} >>\nendobj\n` +
+			`4 0 obj\n<< /Type /XObject /Subtype /Image ${imageEntries} /Length ${data.length} >>\nstream\n`,
+	);
+	const tail = encoder.encode("\nendstream\nendobj\ntrailer\n<< /Root 1 0 R >>\n%%EOF\n");
+
+	const pdf = new Uint8Array(head.length + data.length + tail.length);
+	pdf.set(head);
+	pdf.set(data, head.length);
+	pdf.set(tail, head.length + data.length);
+	return pdf;
+}
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+	const stream = new Blob([data as BlobPart])
+		.stream()
+		.pipeThrough(new CompressionStream("deflate"));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+describe("isPdf", () => {
+	it("finds the signature after leading junk", () => {
+		const header = new TextEncoder().encode("\r\n junk %PDF-1.7\n");
+		expect(isPdf(header)).toBe(true);
+		expect(isPdf(new TextEncoder().encode("%PS-Adobe"))).toBe(false);
+	});
+});
+
+describe("readPdf", () => {
+	it("passes JPEG images on to the browser", async () => {
+		const pdf = await createPdf([createCanvas(60, 30, "#ff0000"), createCanvas(30, 60)]);
+		const pages = await readPdf(new Uint8Array(await pdf.arrayBuffer()));
+		expect(pages.pageCount).toBe(2);
+
+		const page = (await pages.readPage(1)) as Blob;
+		expect(page.type).toBe("image/jpeg");
+		expect(Array.from(new Uint8Array(await page.arrayBuffer()).slice(0, 2))).toEqual([0xff, 0xd8]);
+	});
+
+	it("decodes Flate-compressed RGB pixels with a PNG predictor", async () => {
+		// Two pixels per row, red then blue, the second row filtered with Up
+		const rows = new Uint8Array([0, 255, 0, 0, 0, 0, 255, 2, 0, 0, 0, 0, 0, 0]);
+		const pdf = createImagePdf(
+			"/Width 2 /Height 2 /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /FlateDecode " +
+				"/DecodeParms << /Predictor 15 /Colors 3 /Columns 2 >>",
+			await deflate(rows),
+		);
+
+		const page = (await (await readPdf(pdf)).readPage(0)) as HTMLCanvasElement;
+		expect([page.width, page.height]).toEqual([2, 2]);
+		expect(getPixel(page, 0, 1)).toEqual([255, 0, 0, 255]);
+		expect(getPixel(page, 1, 1)).toEqual([0, 0, 255, 255]);
+	});
+
+	it("decodes indexed colors", async () => {
+		const pdf = createImagePdf(
+			"/Width 2 /Height 1 /BitsPerComponent 8 /ColorSpace [/Indexed /DeviceRGB 1 <ff000000ff00>]",
+			new Uint8Array([1, 0]),
+		);
+
+		const page = (await (await readPdf(pdf)).readPage(0)) as HTMLCanvasElement;
+		expect(getPixel(page, 0, 0)).toEqual([0, 255, 0, 255]);
+		expect(getPixel(page, 1, 0)).toEqual([255, 0, 0, 255]);
+	});
+
+	it("applies the page rotation", async () => {
+		// A black pixel left of a white one, turned clockwise
+		const pdf = createImagePdf(
+			"/Width 2 /Height 1 /ColorSpace /DeviceGray /BitsPerComponent 8",
+			new Uint8Array([0, 255]),
+			" /Rotate 90",
+		);
+
+		const page = (await (await readPdf(pdf)).readPage(0)) as HTMLCanvasElement;
+		expect([page.width, page.height]).toEqual([1, 2]);
+		expect(getPixel(page, 0, 0)).toEqual([0, 0, 0, 255]);
+		expect(getPixel(page, 0, 1)).toEqual([255, 255, 255, 255]);
+	});
+
+	it("rejects password-protected files as unsupported", async () => {
+		await expect(readPdf(readFixture("encrypted.pdf"))).rejects.toMatchObject({
+			code: EnumDDSErrorCode.UNSUPPORTED_FILE,
+		});
+	});
+
+	it("rejects pages without an image as unsupported", async () => {
+		const pages = await readPdf(readFixture("vector.pdf"));
+		expect(pages.pageCount).toBe(2);
+		await expect(pages.readPage(0)).rejects.toMatchObject({
+			code: EnumDDSErrorCode.UNSUPPORTED_FILE,
+		});
+	});
+
+	it("rejects images too large to decode before reading their pixels", async () => {
+		const pages = await readPdf(
+			createImagePdf(
+				"/Width 60000 /Height 60000 /ColorSpace /DeviceGray /BitsPerComponent 8",
+				new Uint8Array(1),
+			),
+		);
+		await expect(pages.readPage(0)).rejects.toMatchObject({
+			code: EnumDDSErrorCode.UNSUPPORTED_FILE,
+		});
+	});
+
+	it("fails to open files without pages", async () => {
+		const data = new TextEncoder().encode("%PDF-1.4\nnot a PDF file");
+		await expect(readPdf(data)).rejects.toMatchObject({
+			code: EnumDDSErrorCode.FILE_DECODE_FAILED,
+		});
+	});
+
+	it("reads no page once closed", async () => {
+		const pages = await readPdf(
+			createImagePdf(
+				"/Width 1 /Height 1 /ColorSpace /DeviceGray /BitsPerComponent 8",
+				new Uint8Array([0]),
+			),
+		);
+		pages.close();
+		await expect(pages.readPage(0)).rejects.toThrow("closed");
+	});
+});
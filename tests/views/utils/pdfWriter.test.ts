@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { createPdf } from "../../../src/views/utils/pdfWriter";
+import { createCanvas, readLatin1 } from "../../helpers";
+
+/** Read the object with number `objectNumber`, up to its `endobj`. */
+function getObject(pdf: string, objectNumber: number): string {
+	const start = pdf.indexOf(`\n${objectNumber} 0 obj\n`);
+	expect(start).toBeGreaterThan(0);
+	return pdf.slice(start + 1, pdf.indexOf("endobj", start));
+}
+
+function getMediaBox(pdf: string, pageObject: number): number[] {
+	const match = getObject(pdf, pageObject).match(/\/MediaBox \[([^\]]+)\]/);
+	return match![1].split(" ").map(Number);
+}
+
+async function inflate(bytes: Uint8Array): Promise<Uint8Array> {
+	const stream = new Blob([bytes as BlobPart])
+		.stream()
+		.pipeThrough(new DecompressionStream("deflate"));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+describe("createPdf", () => {
+	it("rejects an empty page list", async () => {
+		await expect(createPdf([])).rejects.toThrow("No image to export to PDF");
+	});
+
+	it("writes one page per image with a valid cross-reference table", async () => {
+		const blob = await createPdf([createCanvas(40, 60), createCanvas(60, 40)]);
+		const pdf = await readLatin1(blob);
+
+		expect(blob.type).toBe("application/pdf");
+		expect(pdf.startsWith("%PDF-1.4\n")).toBe(true);
+		expect(pdf.endsWith("%%EOF\n")).toBe(true);
+		expect(getObject(pdf, 2)).toContain("/Kids [4 0 R 7 0 R] /Count 2");
+
+		// Every entry of the table points at the start of its object
+		const xrefOffset = Number(pdf.match(/startxref\n(\d+)\n/)![1]);
+		expect(pdf.startsWith("xref\n", xrefOffset)).toBe(true);
+		const entries = pdf.slice(xrefOffset).match(/^\d{10} \d{5} n $/gm)!;
+		expect(entries).toHaveLength(9);
+		entries.forEach((entry, index) => {
+			expect(pdf.startsWith(`${index + 1} 0 obj\n`, Number(entry.slice(0, 10)))).toBe(true);
+		});
+	});
+
+	it("sizes pages to their image at the requested resolution by default", async () => {
+		const pdf = await readLatin1(await createPdf([createCanvas(300, 150)], { dpi: 300 }));
+
+		expect(getMediaBox(pdf, 4)).toEqual([0, 0, 72, 36]);
+		expect(getObject(pdf, 6)).toContain("/Width 300 /Height 150");
+		expect(getObject(pdf, 6)).toContain("/Filter /DCTDecode");
+	});
+
+	it("turns named paper sizes to the orientation of the image and centers it", async () => {
+		const pdf = await readLatin1(
+			await createPdf([createCanvas(400, 200)], { pageSize: "A4", margin: 20 }),
+		);
+
+		expect(getMediaBox(pdf, 4)).toEqual([0, 0, 841.89, 595.28]);
+		// The image fills the width between the margins and is centered vertically
+		expect(getObject(pdf, 5)).toContain("q 801.89 0 0 400.95 20 97.17 cm /Im0 Do Q");
+	});
+
+	it("keeps custom page sizes as given", async () => {
+		const pdf = await readLatin1(
+			await createPdf([createCanvas(400, 200)], { pageSize: { width: 100, height: 300 } }),
+		);
+
+		expect(getMediaBox(pdf, 4)).toEqual([0, 0, 100, 300]);
+	});
+
+	it("downscales images with more pixels than the resolution needs on a fixed page", async () => {
+		const pdf = await readLatin1(
+			await createPdf([createCanvas(4000, 2000)], { pageSize: "Letter", dpi: 72 }),
+		);
+
+		// 792 points wide at 72 DPI
+		expect(getObject(pdf, 6)).toContain("/Width 792 /Height 396");
+	});
+
+	it("writes lossless RGB streams with transparency flattened onto white", async () => {
+		const canvas = createCanvas(2, 1, "#ff0000");
+		canvas.getContext("2d")!.clearRect(1, 0, 1, 1);
+
+		const blob = await createPdf([canvas], { imageEncoding: "flate" });
+		const pdf = await readLatin1(blob);
+		const image = getObject(pdf, 6);
+		expect(image).toContain("/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /FlateDecode");
+
+		const length = Number(image.match(/\/Length (\d+)/)![1]);
+		const start = pdf.indexOf("stream\n", pdf.indexOf("\n6 0 obj\n")) + "stream\n".length;
+		const bytes = new Uint8Array(await blob.arrayBuffer()).slice(start, start + length);
+		expect(Array.from(await inflate(bytes))).toEqual([255, 0, 0, 255, 255, 255]);
+	});
+
+	it("writes metadata, escaping literal strings and encoding other text as UTF-16", async () => {
+		const pdf = await readLatin1(
+			await createPdf([createCanvas(10, 10)], {
+				metadata: {
+					title: "Invoice (copy)",
+					author: "Zoë",
+					keywords: ["tax", "2024"],
+					creationDate: new Date(Date.UTC(2024, 0, 2, 3, 4, 5)),
+				},
+			}),
+		);
+		const info = getObject(pdf, 3);
+
+		expect(info).toContain("/Title (Invoice \\(copy\\))");
+		expect(info).toContain("/Author <FEFF005A006F00EB>");
+		expect(info).toContain("/Keywords (tax, 2024)");
+		expect(info).toContain("/Producer (Dynamsoft Mobile Document Scanner)");
+		expect(info).toContain("/CreationDate (D:20240102030405Z)");
+		expect(info).not.toContain("/Subject");
+	});
+});
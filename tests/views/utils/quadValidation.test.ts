@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { validateQuad } from "../../../src/views/utils/quadValidation";
+
+// All boundaries are on a 1000 x 800 image
+function quad(...coordinates: number[]) {
+	return Array.from({ length: coordinates.length / 2 }, (_, i) => ({
+		x: coordinates[i * 2],
+		y: coordinates[i * 2 + 1],
+	}));
+}
+
+describe("validateQuad", () => {
+	it("accepts a rectangle in either direction", () => {
+		const result = validateQuad(quad(100, 100, 900, 100, 900, 700, 100, 700), 1000, 800);
+
+		expect(result).toEqual({ isValid: true, issues: [], area: 0.6, minAngle: 90 });
+		expect(validateQuad(quad(100, 100, 100, 700, 900, 700, 900, 100), 1000, 800)).toEqual(result);
+	});
+
+	it("reports a boundary that folds over itself", () => {
+		const result = validateQuad(quad(100, 100, 900, 100, 100, 700, 900, 700), 1000, 800);
+
+		expect(result.isValid).toBe(false);
+		expect(result.issues[0]).toBe("self-intersecting");
+		expect(result.issues).not.toContain("concave");
+	});
+
+	it("reports a dented boundary", () => {
+		const result = validateQuad(quad(100, 100, 900, 100, 400, 400, 100, 700), 1000, 800);
+		expect(result.issues).toEqual(["concave"]);
+	});
+
+	it("reports a boundary covering too little of the image", () => {
+		const small = quad(100, 100, 150, 100, 150, 150, 100, 150);
+
+		const result = validateQuad(small, 1000, 800);
+		expect(result.issues).toEqual(["too-small"]);
+		expect(result.area).toBeCloseTo(2500 / 800000);
+		expect(validateQuad(small, 0, 0).issues).toEqual(["too-small"]);
+	});
+
+	it("reports very sharp corners", () => {
+		const result = validateQuad(quad(100, 400, 500, 340, 900, 400, 500, 460), 1000, 800);
+
+		expect(result.issues).toEqual(["sharp-angle"]);
+		expect(result.minAngle).toBeCloseTo((2 * Math.atan(60 / 400) * 180) / Math.PI);
+	});
+
+	it("treats corners on top of each other as a sharp angle", () => {
+		const result = validateQuad(quad(100, 100, 900, 100, 900, 100, 100, 700), 1000, 800);
+
+		expect(result.minAngle).toBe(0);
+		expect(result.issues).toContain("sharp-angle");
+	});
+});
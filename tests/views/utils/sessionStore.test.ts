@@ -0,0 +1,159 @@
+import "fake-indexeddb/auto";
+import { DeskewedImageResultItem } from "dynamsoft-capture-vision-bundle";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import ScanSession from "../../../src/ScanSession";
+import SessionStore, { SessionPersistenceConfig } from "../../../src/views/utils/sessionStore";
+import { DocumentResult, EnumResultStatus } from "../../../src/views/utils/types";
+
+/** Number of times a page image was encoded. */
+let encodeCount = 0;
+
+/** A result whose corrected image encodes to `size` bytes. */
+function createResult(size: number): DocumentResult {
+	const canvas = {
+		toBlob: (callback: BlobCallback) => {
+			encodeCount++;
+			callback(new Blob([new Uint8Array(size)], { type: "image/jpeg" }));
+		},
+	};
+	const correctedImageResult = {
+		toCanvas: () => canvas,
+		sourceLocation: { points: [] },
+		targetROIDefName: "",
+		taskName: "",
+	} as unknown as DeskewedImageResultItem;
+	return {
+		status: { code: EnumResultStatus.RS_SUCCESS, message: "Success" },
+		correctedImageResult,
+	};
+}
+
+let databaseCount = 0;
+
+function createStore(config: SessionPersistenceConfig = {}) {
+	const databaseName = `dds-test-${++databaseCount}`;
+	const session = new ScanSession();
+	const store = new SessionStore({ databaseName, ...config });
+	store.attach(session);
+	return { session, store, databaseName };
+}
+
+/** Read the saved page order and the ids of the pages in the `pages` store, once all writes are done. */
+async function readSaved(store: SessionStore, databaseName: string) {
+	await store.getInfo();
+	const db = await new Promise<IDBDatabase>((resolve, reject) => {
+		const request = indexedDB.open(databaseName);
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+	const read = <T>(storeName: string, createRequest: (store: IDBObjectStore) => IDBRequest) =>
+		new Promise<T>((resolve, reject) => {
+			const request = createRequest(db.transaction(storeName).objectStore(storeName));
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(request.error);
+		});
+
+	const meta = await read<{ pageIds: string[] } | undefined>("meta", (store) =>
+		store.get("session"),
+	);
+	const storedIds = await read<string[]>("pages", (store) => store.getAllKeys());
+	db.close();
+	return { pageIds: meta?.pageIds ?? [], storedIds: storedIds.sort() };
+}
+
+describe("SessionStore", () => {
+	beforeEach(() => {
+		encodeCount = 0;
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+	});
+
+	it("saves added pages in page order and deletes removed pages", async () => {
+		const { session, store, databaseName } = createStore();
+		const ids = [10, 20, 30].map((size) => session.addPage(createResult(size)).id);
+		session.movePage(ids[2], 0);
+
+		expect(await readSaved(store, databaseName)).toEqual({
+			pageIds: [ids[2], ids[0], ids[1]],
+			storedIds: ids.slice().sort(),
+		});
+
+		session.removePage(ids[0]);
+		expect(await readSaved(store, databaseName)).toEqual({
+			pageIds: [ids[2], ids[1]],
+			storedIds: [ids[1], ids[2]].sort(),
+		});
+		expect(await store.getInfo()).toMatchObject({ pageCount: 2 });
+	});
+
+	it("only encodes changed pages", async () => {
+		const { session, store, databaseName } = createStore();
+		const ids = [10, 20].map((size) => session.addPage(createResult(size)).id);
+		await readSaved(store, databaseName);
+		expect(encodeCount).toBe(2);
+
+		session.movePage(ids[1], 0);
+		await readSaved(store, databaseName);
+		expect(encodeCount).toBe(2);
+
+		// The edited page keeps its base image next to the edited one
+		session.updatePage(ids[0], { correctedImageResult: createResult(30).correctedImageResult });
+		await readSaved(store, databaseName);
+		expect(encodeCount).toBe(4);
+	});
+
+	it("saves pages over the page limit once others are removed", async () => {
+		const { session, store, databaseName } = createStore({ maxPages: 2 });
+		const ids = [10, 20, 30].map((size) => session.addPage(createResult(size)).id);
+		expect((await readSaved(store, databaseName)).pageIds).toEqual([ids[0], ids[1]]);
+
+		session.removePage(ids[0]);
+		expect(await readSaved(store, databaseName)).toEqual({
+			pageIds: [ids[1], ids[2]],
+			storedIds: [ids[1], ids[2]].sort(),
+		});
+	});
+
+	it("saves pages over the size limit once others are removed", async () => {
+		const { session, store, databaseName } = createStore({ maxStorageSize: 250 });
+		const ids = [100, 100, 100, 300].map((size) => session.addPage(createResult(size)).id);
+		expect((await readSaved(store, databaseName)).pageIds).toEqual([ids[0], ids[1]]);
+		expect(console.warn).toHaveBeenCalledWith(
+			"2 page(s) exceed the session storage limits and are not saved",
+		);
+
+		session.removePage(ids[0]);
+		expect((await readSaved(store, databaseName)).pageIds).toEqual([ids[1], ids[2]]);
+
+		// Pages that still do not fit are not encoded again
+		const count = encodeCount;
+		session.movePage(ids[1], 2);
+		expect((await readSaved(store, databaseName)).pageIds).toEqual([ids[2], ids[1]]);
+		expect(encodeCount).toBe(count);
+	});
+
+	it("deletes an edited page that no longer fits, rather than keeping its old copy", async () => {
+		const { session, store, databaseName } = createStore({ maxStorageSize: 250 });
+		const ids = [100, 100].map((size) => session.addPage(createResult(size)).id);
+		await readSaved(store, databaseName);
+
+		session.updatePage(ids[1], { correctedImageResult: createResult(200).correctedImageResult });
+		expect(await readSaved(store, databaseName)).toEqual({
+			pageIds: [ids[0]],
+			storedIds: [ids[0]],
+		});
+	});
+
+	it("clears pages saved by a write queued before, and saves later pages in full", async () => {
+		const { session, store, databaseName } = createStore();
+		const ids = [10, 20].map((size) => session.addPage(createResult(size)).id);
+		await store.clear();
+		expect(await store.getInfo()).toBeUndefined();
+
+		// Every page is written again, so the saved order only lists pages that exist
+		ids.push(session.addPage(createResult(30)).id);
+		expect(await readSaved(store, databaseName)).toEqual({
+			pageIds: ids,
+			storedIds: ids.slice().sort(),
+		});
+	});
+});
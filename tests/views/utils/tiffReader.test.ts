@@ -0,0 +1,294 @@
+import { loadImage } from "@napi-rs/canvas";
+import { describe, expect, it } from "vitest";
+import { isTiff, readTiff } from "../../../src/views/utils/tiffReader";
+import { EnumDDSErrorCode } from "../../../src/views/utils/types";
+import { getPixel, readFixture } from "../../helpers";
+
+/** A TIFF field: tag, field type (1 BYTE, 3 SHORT, 4 LONG, 5 RATIONAL) and values. */
+type Entry = [tag: number, type: number, values: number[]];
+
+const FIELD_SIZES: Record<number, number> = { 1: 1, 3: 2, 4: 4, 5: 8 };
+
+/**
+ * Write a little-endian TIFF file with one strip per page; strip offsets and byte counts are added.
+ */
+function buildTiff(pages: { entries: Entry[]; strip: Uint8Array }[]): Uint8Array {
+	const view = new DataView(new ArrayBuffer(4096));
+	const bytes = new Uint8Array(view.buffer);
+	bytes.set([0x49, 0x49, 42, 0]);
+
+	let end = 8;
+	let link = 4;
+	for (const { entries, strip } of pages) {
+		bytes.set(strip, end);
+		const fields: Entry[] = [...entries, [273, 4, [end]], [279, 4, [strip.length]]];
+		fields.sort((a, b) => a[0] - b[0]);
+		end += strip.length + (strip.length & 1);
+
+		view.setUint32(link, end, true);
+		view.setUint16(end, fields.length, true);
+		let extra = end + 2 + fields.length * 12 + 4;
+		fields.forEach(([tag, type, values], i) => {
+			const entry = end + 2 + i * 12;
+			const size = FIELD_SIZES[type];
+			view.setUint16(entry, tag, true);
+			view.setUint16(entry + 2, type, true);
+			view.setUint32(entry + 4, values.length, true);
+
+			let offset = entry + 8;
+			if (size * values.length > 4) {
+				view.setUint32(entry + 8, extra, true);
+				offset = extra;
+				extra += size * values.length;
+			}
+			for (const value of values) {
+				if (type === 1) view.setUint8(offset, value);
+				else if (type === 3) view.setUint16(offset, value, true);
+				else view.setUint32(offset, value, true);
+				if (type === 5) view.setUint32(offset + 4, 1, true);
+				offset += size;
+			}
+		});
+		link = end + 2 + fields.length * 12;
+		end = extra + (extra & 1);
+	}
+	return bytes.slice(0, end);
+}
+
+/** Fields of an image of `width` x `height` with one sample of `bits` per pixel. */
+function imageEntries(width: number, height: number, bits: number, extra: Entry[] = []): Entry[] {
+	return [[256, 3, [width]], [257, 3, [height]], [258, 3, [bits]], ...extra];
+}
+
+/** Pack a string of "0" and "1" (spaces are ignored) into bytes, padding the last byte with zeros. */
+function bits(code: string): Uint8Array {
+	const digits = code.replace(/ /g, "");
+	const output = new Uint8Array(Math.ceil(digits.length / 8));
+	for (let i = 0; i < digits.length; i++) {
+		if (digits[i] === "1") output[i >> 3] |= 0x80 >> (i & 7);
+	}
+	return output;
+}
+
+/** Read the gray level of every pixel of a row. */
+function readRow(canvas: HTMLCanvasElement, y: number): number[] {
+	return Array.from({ length: canvas.width }, (_, x) => getPixel(canvas, x, y)[0]);
+}
+
+async function readPage(data: Uint8Array, index = 0): Promise<HTMLCanvasElement> {
+	return (await readTiff(data).readPage(index)) as HTMLCanvasElement;
+}
+
+function expectColor(pixel: number[], color: number[]) {
+	color.forEach((value, i) => expect(Math.abs(pixel[i] - value)).toBeLessThan(24));
+}
+
+// The fixtures were written by libtiff from a 64 x 48 image: red on the left half, blue on the right half,
+// and a black 16 x 16 square in the middle (white instead of red and blue in the bilevel and gray fixtures)
+describe("readTiff with libtiff fixtures", () => {
+	it.each([
+		"rgb-none.tif",
+		"rgb-lzw.tif",
+		"rgb-lzw-predictor.tif",
+		"rgb-deflate-predictor.tif",
+		"rgb-packbits.tif",
+	])("decodes %s", async (name) => {
+		const page = await readPage(readFixture(name));
+
+		expect([page.width, page.height]).toEqual([64, 48]);
+		expect(getPixel(page, 8, 8)).toEqual([255, 0, 0, 255]);
+		expect(getPixel(page, 56, 40)).toEqual([0, 0, 255, 255]);
+		expect(getPixel(page, 32, 24)).toEqual([0, 0, 0, 255]);
+	});
+
+	it.each(["bilevel-g4.tif", "bilevel-miniswhite.tif", "gray-2bit.tif", "gray-4bit.tif"])(
+		"decodes %s",
+		async (name) => {
+			const page = await readPage(readFixture(name));
+
+			expect([page.width, page.height]).toEqual([64, 48]);
+			expect(readRow(page, 8).every((value) => value === 255)).toBe(true);
+			expect(readRow(page, 24)).toEqual(
+				Array.from({ length: 64 }, (_, x) => (x >= 24 && x < 40 ? 0 : 255)),
+			);
+		},
+	);
+
+	it("returns JPEG pages as a JPEG file, with the shared tables spliced in", async () => {
+		const page = await readTiff(readFixture("rgb-jpeg.tif")).readPage(0);
+		expect(page).toBeInstanceOf(Blob);
+		expect((page as Blob).type).toBe("image/jpeg");
+
+		const image = await loadImage(Buffer.from(await (page as Blob).arrayBuffer()));
+		const canvas = document.createElement("canvas");
+		canvas.width = image.width;
+		canvas.height = image.height;
+		canvas.getContext("2d")!.drawImage(image as unknown as CanvasImageSource, 0, 0);
+
+		expect([canvas.width, canvas.height]).toEqual([64, 48]);
+		expectColor(getPixel(canvas, 8, 8), [255, 0, 0]);
+		expectColor(getPixel(canvas, 56, 40), [0, 0, 255]);
+		expectColor(getPixel(canvas, 32, 24), [0, 0, 0]);
+	});
+
+	it("stretches pages with a lower vertical resolution", async () => {
+		const page = await readPage(readFixture("gray-half-height.tif"));
+
+		expect([page.width, page.height]).toEqual([64, 96]);
+		expect(getPixel(page, 32, 48)[0]).toBe(0);
+		expect(getPixel(page, 32, 20)[0]).toBe(255);
+	});
+});
+
+// An 8 x 3 bilevel page: white 2, black 4, white 2; all white; all black
+describe("readTiff with CCITT fax pages", () => {
+	const EXPECTED_ROWS = [
+		[255, 255, 0, 0, 0, 0, 255, 255],
+		[255, 255, 255, 255, 255, 255, 255, 255],
+		[0, 0, 0, 0, 0, 0, 0, 0],
+	];
+	const ROW_CODES = ["0111 011 0111", "10011", "00110101 000101"];
+	const EOL = "000000000001";
+
+	async function decode(compression: number, strip: Uint8Array, extra: Entry[] = []) {
+		const data = buildTiff([
+			{ entries: imageEntries(8, 3, 1, [[259, 3, [compression]], [262, 3, [0]], ...extra]), strip },
+		]);
+		const page = await readPage(data);
+		return [0, 1, 2].map((y) => readRow(page, y));
+	}
+
+	it("decodes Modified Huffman rows, each starting on a byte boundary", async () => {
+		const strip = bits("01110110 11100000 10011000 00110101 00010100");
+		expect(await decode(2, strip)).toEqual(EXPECTED_ROWS);
+	});
+
+	it("decodes one-dimensional Group 3 rows", async () => {
+		const strip = bits(ROW_CODES.map((row) => EOL + row).join(""));
+		expect(await decode(3, strip)).toEqual(EXPECTED_ROWS);
+	});
+
+	it("decodes two-dimensional Group 3 rows", async () => {
+		// A tag bit after each EOL selects 1D (1) or 2D (0) coding:
+		// the second row is a pass and a vertical code, the third a horizontal code
+		const strip = bits(`${EOL}1 ${ROW_CODES[0]} ${EOL}0 0001 1 ${EOL}0 001 00110101 000101`);
+		expect(await decode(3, strip, [[292, 4, [1]]])).toEqual(EXPECTED_ROWS);
+	});
+
+	it("reads bits in reverse order with FillOrder 2", async () => {
+		const strip = bits(ROW_CODES.map((row) => EOL + row).join("")).map((byte) => {
+			let reversed = 0;
+			for (let i = 0; i < 8; i++) reversed |= ((byte >> i) & 1) << (7 - i);
+			return reversed;
+		});
+		expect(await decode(3, strip, [[266, 3, [2]]])).toEqual(EXPECTED_ROWS);
+	});
+});
+
+describe("readTiff", () => {
+	it("recognizes both byte orders", () => {
+		expect(isTiff(new Uint8Array([0x49, 0x49, 42, 0]))).toBe(true);
+		expect(isTiff(new Uint8Array([0x4d, 0x4d, 0, 42]))).toBe(true);
+		expect(isTiff(new Uint8Array([0x49, 0x49, 43, 0]))).toBe(false);
+	});
+
+	it("converts CMYK to RGB", async () => {
+		const entries: Entry[] = [
+			[256, 3, [2]],
+			[257, 3, [1]],
+			[258, 3, [8, 8, 8, 8]],
+			[262, 3, [5]],
+			[277, 3, [4]],
+		];
+		const page = await readPage(
+			buildTiff([{ entries, strip: new Uint8Array([255, 0, 0, 0, 0, 0, 0, 255]) }]),
+		);
+
+		expect(getPixel(page, 0, 0)).toEqual([0, 255, 255, 255]);
+		expect(getPixel(page, 1, 0)).toEqual([0, 0, 0, 255]);
+	});
+
+	it("maps palette indices through the color map", async () => {
+		// Four 2-bit indices; red, green, blue and white
+		const entries = imageEntries(4, 1, 2, [
+			[262, 3, [3]],
+			[320, 3, [65535, 0, 0, 65535, 0, 65535, 0, 65535, 0, 0, 65535, 65535]],
+		]);
+		const page = await readPage(buildTiff([{ entries, strip: new Uint8Array([0b00011011]) }]));
+
+		expect(getPixel(page, 0, 0)).toEqual([255, 0, 0, 255]);
+		expect(getPixel(page, 1, 0)).toEqual([0, 255, 0, 255]);
+		expect(getPixel(page, 2, 0)).toEqual([0, 0, 255, 255]);
+		expect(getPixel(page, 3, 0)).toEqual([255, 255, 255, 255]);
+	});
+
+	it("keeps the most significant byte of 16-bit samples", async () => {
+		const entries = imageEntries(2, 1, 16, [[262, 3, [1]]]);
+		const page = await readPage(
+			buildTiff([{ entries, strip: new Uint8Array([0xff, 0x10, 0x00, 0xf0]) }]),
+		);
+		expect(readRow(page, 0)).toEqual([0x10, 0xf0]);
+	});
+
+	it("skips thumbnails of other pages", async () => {
+		const page = (value: number, thumbnail = false) => ({
+			entries: imageEntries(1, 1, 8, [
+				[262, 3, [1]],
+				...(thumbnail ? [[254, 4, [1]] as Entry] : []),
+			]),
+			strip: new Uint8Array([value]),
+		});
+		const pages = readTiff(buildTiff([page(10), page(20, true), page(30)]));
+
+		expect(pages.pageCount).toBe(2);
+		expect(getPixel((await pages.readPage(1)) as HTMLCanvasElement, 0, 0)[0]).toBe(30);
+	});
+
+	it("rejects unsupported layouts", async () => {
+		const tiled = buildTiff([
+			{ entries: imageEntries(1, 1, 8, [[322, 3, [16]]]), strip: new Uint8Array(1) },
+		]);
+		await expect(readTiff(tiled).readPage(0)).rejects.toThrow(
+			"Tiled TIFF images are not supported",
+		);
+
+		const planar = buildTiff([
+			{
+				entries: imageEntries(1, 1, 8, [
+					[277, 3, [3]],
+					[284, 3, [2]],
+				]),
+				strip: new Uint8Array(3),
+			},
+		]);
+		await expect(readTiff(planar).readPage(0)).rejects.toThrow(
+			"Planar TIFF images are not supported",
+		);
+
+		const bigTiff = new Uint8Array([0x49, 0x49, 43, 0, 8, 0, 0, 0]);
+		expect(() => readTiff(bigTiff)).toThrow("BigTIFF files are not supported");
+	});
+
+	it("rejects pages too large to decode before reading their pixels", async () => {
+		const oversized = buildTiff([
+			{ entries: imageEntries(60000, 60000, 8), strip: new Uint8Array(1) },
+		]);
+		await expect(readTiff(oversized).readPage(0)).rejects.toMatchObject({
+			code: EnumDDSErrorCode.UNSUPPORTED_FILE,
+		});
+
+		// A single row, stretched to 100000 rows by a hostile vertical resolution
+		const stretched = buildTiff([
+			{
+				entries: imageEntries(800, 1, 8, [
+					[282, 5, [100000]],
+					[283, 5, [1]],
+				]),
+				strip: new Uint8Array(800),
+			},
+		]);
+		await expect(readTiff(stretched).readPage(0)).rejects.toMatchObject({
+			code: EnumDDSErrorCode.UNSUPPORTED_FILE,
+		});
+	});
+});
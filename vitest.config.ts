@@ -0,0 +1,10 @@
+import { defineConfig } from "vitest/config";
+
+// Unit tests run in a simulated DOM, separately from the library and demo builds in vite.config.ts.
+export default defineConfig({
+	test: {
+		include: ["tests/**/*.test.ts"],
+		environment: "happy-dom",
+		setupFiles: ["tests/setup.ts"],
+	},
+});